@@ -5,5 +5,6 @@ import { defineConfig } from "eslint/config";
 
 export default defineConfig([
   { files: ["**/*.{js,mjs,cjs,ts,mts,cts}"], plugins: { js }, extends: ["js/recommended"], languageOptions: { globals: globals.browser } },
+  { files: ["scripts/sync-relay.js"], languageOptions: { globals: globals.node } },
   tseslint.configs.recommended,
 ]);
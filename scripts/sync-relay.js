@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+
+/**
+ * Reference sync relay
+ * A small WebSocket server that keeps live sync rooms in memory, so phones
+ * on the same network can share a game without a hosted service.
+ * Uses only Node's standard library.
+ *
+ * Usage: npm run sync-relay   (PORT=8787 by default)
+ */
+
+import { createServer } from 'http';
+import { createHash } from 'crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+// room code -> { entries: Map<seq, { entry, version }>, version, members: Set<socket> }
+const rooms = new Map();
+
+function getRoom(code) {
+  let room = rooms.get(code);
+  if (!room) {
+    room = { entries: new Map(), version: 0, members: new Set() };
+    rooms.set(code, room);
+  }
+  return room;
+}
+
+// Same rule as isLaterEntry in src/utils/sync/transport.ts
+function isLaterEntry(entry, other) {
+  if (entry.timestamp !== other.timestamp) {
+    return entry.timestamp > other.timestamp;
+  }
+  return entry.clientId > other.clientId;
+}
+
+function isValidEntry(entry) {
+  return (
+    entry !== null &&
+    typeof entry === 'object' &&
+    Number.isInteger(entry.seq) &&
+    typeof entry.clientId === 'string' &&
+    typeof entry.timestamp === 'number' &&
+    entry.action !== undefined
+  );
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function sendMessage(socket, message) {
+  if (!socket.destroyed) {
+    socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+}
+
+function handleMessage(socket, message) {
+  if (!message || typeof message.room !== 'string') return;
+  const room = getRoom(message.room);
+
+  if (message.type === 'join' && typeof message.since === 'number') {
+    room.members.add(socket);
+    socket.rooms.add(room);
+    [...room.entries.values()]
+      .filter(({ version }) => version > message.since)
+      .sort((a, b) => a.entry.seq - b.entry.seq)
+      .forEach(({ entry, version }) =>
+        sendMessage(socket, { type: 'entry', room: message.room, entry, version })
+      );
+    sendMessage(socket, { type: 'welcome', room: message.room, version: room.version });
+  } else if (message.type === 'entry' && isValidEntry(message.entry)) {
+    const { entry } = message;
+    const existing = room.entries.get(entry.seq);
+
+    if (existing && !isLaterEntry(entry, existing.entry)) {
+      // The sender took a number someone else already holds
+      sendMessage(socket, { type: 'entry', room: message.room, ...existing });
+      return;
+    }
+
+    const version = ++room.version;
+    room.entries.set(entry.seq, { entry, version });
+    room.members.forEach((member) =>
+      sendMessage(member, { type: 'entry', room: message.room, entry, version })
+    );
+  }
+}
+
+// Reads complete frames from the socket's buffer; returns false to hang up
+function readFrames(socket) {
+  while (socket.buffer.length >= 2) {
+    const buffer = socket.buffer;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) return true;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return true;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    // Browsers always mask what they send
+    if (!masked || length > MAX_MESSAGE_BYTES) return false;
+    if (buffer.length < offset + 4 + length) return true;
+
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    socket.buffer = buffer.subarray(offset + 4 + length);
+
+    if (opcode === 0x8) {
+      socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      return true;
+    }
+    if (opcode === 0x9) {
+      socket.write(encodeFrame(0xa, payload));
+      continue;
+    }
+    if (opcode === 0xa) continue;
+
+    // Text frames, possibly split into continuation frames
+    socket.fragments.push(payload);
+    if (!fin) continue;
+    const text = Buffer.concat(socket.fragments).toString('utf-8');
+    socket.fragments = [];
+
+    try {
+      handleMessage(socket, JSON.parse(text));
+    } catch {
+      // Not JSON; ignore it
+    }
+  }
+  return true;
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('This is a Mölkky sync relay. Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  socket.buffer = Buffer.alloc(0);
+  socket.fragments = [];
+  socket.rooms = new Set();
+
+  socket.on('data', (data) => {
+    socket.buffer = Buffer.concat([socket.buffer, data]);
+    if (!readFrames(socket)) socket.destroy();
+  });
+
+  socket.on('close', () => {
+    socket.rooms.forEach((room) => room.members.delete(socket));
+  });
+
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`📡 Sync relay listening on ws://localhost:${PORT}`);
+  console.log('Rooms are kept in memory and are lost when the relay stops.');
+});
@@ -5,12 +5,21 @@
  * @format
  */
 
-import { useState } from "preact/hooks";
-import { GameProvider, useGameFlow, usePlayerManagement } from "./hooks";
+import { useEffect } from "preact/hooks";
+import {
+  GameProvider,
+  useGameFlow,
+  useLaunchAction,
+  usePlayerManagement,
+  useRouter,
+  useShareGame,
+  useWinProbability,
+} from "./hooks";
 import { useGameContext } from "./context/GameContext";
 import { PlayerManager } from "./components/PlayerManager/PlayerManager";
 import { GamePlayPanel } from "./components/GameBoard/GameBoard";
 import { GameModeSelector } from "./components/GameModeSelector";
+import { RuleSetSelector } from "./components/RuleSetSelector";
 
 import { WinnerDisplay } from "./components/WinnerDisplay";
 import { NoWinnerDisplay } from "./components/NoWinnerDisplay";
@@ -18,6 +27,12 @@ import { lazy, Suspense } from "preact/compat";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { ToastProvider, useToast } from "./components/Toast";
 import { MobileNav } from "./components/MobileNav";
+import { LanguageSwitcher } from "./components/LanguageSwitcher";
+import { LocaleProvider, useLocale } from "./context/LocaleContext";
+import type { PinPosition } from "./utils/types";
+import { getSpectatorUrl, isSpectatorView } from "./utils/broadcast";
+import { isHistoryRoute } from "./utils/router";
+import { registerServiceWorker } from "./utils/serviceWorker";
 
 // Lazy load components that are not immediately needed
 const GameHistory = lazy(() =>
@@ -26,6 +41,22 @@ const GameHistory = lazy(() =>
 const TeamManager = lazy(() =>
   import("./components/TeamManager").then((m) => ({ default: m.TeamManager }))
 );
+const TournamentBracket = lazy(() =>
+  import("./components/TournamentBracket").then((m) => ({
+    default: m.TournamentBracket,
+  }))
+);
+const LeagueTable = lazy(() =>
+  import("./components/LeagueTable").then((m) => ({ default: m.LeagueTable }))
+);
+const SpectatorBoard = lazy(() =>
+  import("./components/Spectator").then((m) => ({
+    default: m.SpectatorBoard,
+  }))
+);
+const SyncPanel = lazy(() =>
+  import("./components/SyncPanel").then((m) => ({ default: m.SyncPanel }))
+);
 import "./app.css";
 
 /**
@@ -34,7 +65,12 @@ import "./app.css";
 function GameApp() {
   const gameFlow = useGameFlow();
   const playerManagement = usePlayerManagement();
+  const winProbability = useWinProbability();
+  const { shareLink, sharedGame } = useShareGame();
+  const { route, openHistory, closeHistory } = useRouter();
+  const { launchResult } = useLaunchAction(openHistory);
   const { addToast } = useToast();
+  const { t } = useLocale();
 
   const {
     gameState,
@@ -46,13 +82,26 @@ function GameApp() {
     applyPenalty,
     newGame,
     resetToSetup,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = gameFlow;
 
-  const { state } = useGameContext();
+  const { state, syncConflicts } = useGameContext();
   const { gameMode, teams, players } = state;
 
-  // State for game history modal
-  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
+  // Players, or teams in team mode, still needed before a game can start
+  const missingSides = Math.max(
+    0,
+    2 -
+      (gameMode === "team"
+        ? teams?.length || 0
+        : playerManagement.players.length)
+  );
+
+  // The game history modal opens over the current screen from its route
+  const isHistoryVisible = isHistoryRoute(route);
 
   /**
    * Handle starting a new game
@@ -62,15 +111,17 @@ function GameApp() {
     if (result.success) {
       addToast({
         type: "success",
-        title: "Game Started!",
-        message: `Game started with ${playerManagement.players.length} players. Good luck!`,
+        title: t("app.gameStartedTitle"),
+        message: t("app.gameStarted", {
+          count: playerManagement.players.length,
+        }),
         duration: 4000,
         priority: "high",
       });
     } else if (result.error) {
       addToast({
         type: "error",
-        title: "Failed to Start Game",
+        title: t("app.startFailedTitle"),
         message: result.error,
       });
     }
@@ -81,7 +132,9 @@ function GameApp() {
    */
   const handleScoreSubmit = (
     score: number,
-    scoringType: "single" | "multiple"
+    scoringType: "single" | "multiple",
+    pins?: number[],
+    layout?: PinPosition[]
   ) => {
     console.log(
       `[App] handleScoreSubmit called with score: ${score}, type: ${scoringType}`
@@ -89,21 +142,24 @@ function GameApp() {
     console.log(`[App] Current game state:`, gameState);
     console.log(`[App] Current player:`, currentPlayer);
 
-    const result = submitScore(score, scoringType);
+    const result = submitScore(score, scoringType, pins, layout);
     console.log(`[App] submitScore result:`, result);
 
     if (result.success) {
       addToast({
         type: "success",
-        title: "Score Submitted",
-        message: `Score of ${score} points recorded for ${currentPlayer?.name}.`,
+        title: t("scoreInput.submittedTitle"),
+        message: t("scoreInput.submittedMessage", {
+          count: score,
+          name: currentPlayer?.name ?? "",
+        }),
         duration: 2000,
         priority: "low",
       });
     } else if (result.error) {
       addToast({
         type: "error",
-        title: "Failed to Submit Score",
+        title: t("scoreInput.submitFailedTitle"),
         message: result.error,
       });
     }
@@ -123,21 +179,172 @@ function GameApp() {
     if (result.success) {
       addToast({
         type: "warning",
-        title: "Penalty Applied",
-        message: `Penalty applied to ${currentPlayer?.name}. Score reset to 25.`,
+        title: t("scoreInput.penaltyTitle"),
+        message: t("scoreInput.penaltyMessage", {
+          name: currentPlayer?.name ?? "",
+          resetScore: gameFlow.rules.resetScore,
+        }),
         duration: 3000,
         priority: "normal",
       });
     } else if (result.error) {
       addToast({
         type: "error",
-        title: "Failed to Apply Penalty",
+        title: t("scoreInput.penaltyFailedTitle"),
         message: result.error,
       });
     }
     // Turn advancement is handled automatically in the game logic
   };
 
+  // Report how opening the app from a share link went
+  useEffect(() => {
+    if (!sharedGame) return;
+    if (sharedGame.success) {
+      addToast({
+        type: "success",
+        title: t("app.sharedGameTitle"),
+        message: t("app.sharedGame"),
+      });
+    } else {
+      addToast({
+        type: "error",
+        title: t("app.sharedGameFailedTitle"),
+        message: sharedGame.error || t("app.sharedGameFailed"),
+      });
+    }
+  }, [sharedGame]);
+
+  // Tell the scorekeeper when another phone's change replaced theirs
+  useEffect(() => {
+    if (!syncConflicts) return;
+    addToast({
+      type: "warning",
+      title: t("app.syncConflictTitle"),
+      message: t("app.syncConflict"),
+    });
+  }, [syncConflicts]);
+
+  // Report how a rematch started from the app shortcut went
+  useEffect(() => {
+    if (launchResult?.action !== "new-game") return;
+    if (launchResult.success) {
+      addToast({
+        type: "success",
+        title: t("app.newGameTitle"),
+        message: t("app.newGame"),
+        duration: 4000,
+        priority: "high",
+      });
+    } else {
+      addToast({
+        type: "error",
+        title: t("app.newGameFailedTitle"),
+        message: launchResult.error || t("app.newGameFailed"),
+      });
+    }
+  }, [launchResult]);
+
+  // Work offline, and offer new versions downloaded in the background
+  useEffect(() => {
+    if (!import.meta.env.PROD) return;
+    registerServiceWorker({
+      url: `${import.meta.env.BASE_URL}sw.js`,
+      scope: import.meta.env.BASE_URL,
+      onUpdateReady: (applyUpdate) =>
+        addToast({
+          type: "info",
+          title: t("app.updateTitle"),
+          message: t("app.update"),
+          persistent: true,
+          priority: "high",
+          action: { label: t("app.reload"), onClick: applyUpdate },
+        }),
+    }).catch((error) => {
+      console.warn("Failed to register service worker:", error);
+    });
+  }, []);
+
+  /**
+   * Handle copying a link that continues the game on another device
+   */
+  const handleShareGame = async () => {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      addToast({
+        type: "success",
+        title: t("app.linkCopiedTitle"),
+        message: t("app.linkCopied"),
+        duration: 3000,
+      });
+    } catch {
+      addToast({
+        type: "error",
+        title: t("app.copyFailedTitle"),
+        message: t("app.copyFailed", { link: shareLink }),
+      });
+    }
+  };
+
+  /**
+   * Handle taking back the most recent throw
+   */
+  const handleUndo = () => {
+    const result = undo();
+    if (result.success) {
+      addToast({
+        type: "info",
+        title: t("app.undoneTitle"),
+        message: t("app.undone"),
+        duration: 2000,
+        priority: "low",
+      });
+    } else if (result.error) {
+      addToast({
+        type: "error",
+        title: t("app.undoFailedTitle"),
+        message: result.error,
+      });
+    }
+  };
+
+  /**
+   * Handle re-applying an undone throw
+   */
+  const handleRedo = () => {
+    const result = redo();
+    if (result.success) {
+      addToast({
+        type: "info",
+        title: t("app.redoneTitle"),
+        message: t("app.redone"),
+        duration: 2000,
+        priority: "low",
+      });
+    } else if (result.error) {
+      addToast({
+        type: "error",
+        title: t("app.redoFailedTitle"),
+        message: result.error,
+      });
+    }
+  };
+
+  /**
+   * Handle the captain picking the next thrower
+   */
+  const handleSelectThrower = (playerId: string) => {
+    const result = gameFlow.selectTeamThrower(playerId);
+    if (!result.success && result.error) {
+      addToast({
+        type: "error",
+        title: t("app.throwerFailedTitle"),
+        message: result.error,
+      });
+    }
+  };
+
   /**
    * Handle starting a new game after completion
    */
@@ -146,15 +353,15 @@ function GameApp() {
     if (result.success) {
       addToast({
         type: "info",
-        title: "New Game Started",
-        message: "A new game has been started with the same players.",
+        title: t("app.newGameTitle"),
+        message: t("app.newGame"),
         duration: 4000,
         priority: "high",
       });
     } else if (result.error) {
       addToast({
         type: "error",
-        title: "Failed to Start New Game",
+        title: t("app.newGameFailedTitle"),
         message: result.error,
       });
     }
@@ -168,16 +375,15 @@ function GameApp() {
     if (result.success) {
       addToast({
         type: "info",
-        title: "Game Ended",
-        message:
-          "Game has been ended and reset to setup. You can now modify players and start a new game.",
+        title: t("app.gameEndedTitle"),
+        message: t("app.gameEnded"),
         duration: 4000,
         priority: "high",
       });
     } else if (result.error) {
       addToast({
         type: "error",
-        title: "Failed to End Game",
+        title: t("app.endFailedTitle"),
         message: result.error,
       });
     }
@@ -191,16 +397,15 @@ function GameApp() {
     if (result.success) {
       addToast({
         type: "info",
-        title: "Game Reset",
-        message:
-          "Game has been reset to setup. You can now modify players and start a new game.",
+        title: t("app.gameResetTitle"),
+        message: t("app.gameReset"),
         duration: 4000,
         priority: "high",
       });
     } else if (result.error) {
       addToast({
         type: "error",
-        title: "Failed to Reset Game",
+        title: t("app.resetFailedTitle"),
         message: result.error,
       });
     }
@@ -214,36 +419,53 @@ function GameApp() {
           className="text-center mb-3 sm:mb-8 animate-fade-in mobile-nav"
           role="banner"
         >
+          <div className="flex justify-end mb-1">
+            <LanguageSwitcher />
+          </div>
           <h1 className="text-xl sm:text-4xl font-bold gradient-text mb-1 sm:mb-2 mobile-text-lg">
-            Mölkky Score Counter
+            {t("app.title")}
           </h1>
           <p
             className="text-xs sm:text-base text-gray-600 px-1 sm:px-2 mobile-text-sm"
             role="doc-subtitle"
           >
-            Track scores and manage your Mölkky games
+            {t("app.subtitle")}
           </p>
         </header>
 
         {/* Mobile-optimized Game History Button */}
         <div className="text-center mb-3 sm:mb-6">
           <button
-            onClick={() => setIsHistoryVisible(true)}
+            onClick={() => openHistory()}
             className="mobile-btn bg-blue-500 text-white hover:bg-blue-600 transition-colors font-medium text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            aria-label="View game history"
+            aria-label={t("app.historyLabel")}
             type="button"
           >
-            <span aria-hidden="true">📊</span> View Game History
+            <span aria-hidden="true">📊</span> {t("app.history")}
           </button>
+          <a
+            href={getSpectatorUrl(window.location)}
+            target="_blank"
+            rel="noopener"
+            className="mobile-btn inline-block ml-2 bg-gray-700 text-white hover:bg-gray-800 transition-colors font-medium text-sm shadow-md hover:shadow-lg touch-manipulation focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            aria-label={t("app.scoreboardLabel")}
+          >
+            <span aria-hidden="true">📺</span> {t("app.scoreboard")}
+          </a>
         </div>
 
         {/* Game History Modal */}
         <Suspense
-          fallback={<div className="text-center py-4">Loading history...</div>}
+          fallback={
+            <div className="text-center py-4">{t("app.loadingHistory")}</div>
+          }
         >
           <GameHistory
             isVisible={isHistoryVisible}
-            onClose={() => setIsHistoryVisible(false)}
+            onClose={closeHistory}
+            gameId={route.name === "historyGame" ? route.gameId : undefined}
+            onOpenGame={openHistory}
+            onShowAll={() => openHistory()}
           />
         </Suspense>
 
@@ -251,11 +473,14 @@ function GameApp() {
         {gameState === "setup" && (
           <section
             className="space-y-4 sm:space-y-6 animate-slide-up"
-            aria-label="Game setup"
+            aria-label={t("app.setupLabel")}
           >
             {/* Game Mode Selector */}
             <GameModeSelector gameActive={false} />
 
+            {/* Rule Set Selector */}
+            <RuleSetSelector gameActive={false} />
+
             {/* Player Management */}
             <PlayerManager
               players={playerManagement.players}
@@ -267,7 +492,7 @@ function GameApp() {
               <Suspense
                 fallback={
                   <div className="text-center py-4">
-                    Loading team management...
+                    {t("app.loadingTeams")}
                   </div>
                 }
               >
@@ -291,39 +516,54 @@ function GameApp() {
                 }`}
                 aria-label={
                   canStartGame
-                    ? `Start ${gameMode === "team" ? "team " : ""}game`
-                    : `Cannot start game: ${
+                    ? t(
+                        gameMode === "team"
+                          ? "app.startTeamGameLabel"
+                          : "app.startGameLabel"
+                      )
+                    : t(
                         gameMode === "team"
-                          ? `need ${Math.max(
-                              0,
-                              2 - (teams?.length || 0)
-                            )} more team${
-                              (teams?.length || 0) === 1 ? "" : "s"
-                            }`
-                          : `need ${Math.max(
-                              0,
-                              2 - playerManagement.players.length
-                            )} more player${
-                              playerManagement.players.length === 1 ? "" : "s"
-                            }`
-                      }`
+                          ? "app.needTeamsLabel"
+                          : "app.needPlayersLabel",
+                        { count: missingSides }
+                      )
                 }
                 type="button"
               >
                 {canStartGame
-                  ? `Start ${gameMode === "team" ? "Team " : ""}Game`
-                  : gameMode === "team"
-                    ? `Need ${Math.max(0, 2 - (teams?.length || 0))} more team${
-                        (teams?.length || 0) === 1 ? "" : "s"
-                      }`
-                    : `Need ${Math.max(
-                        0,
-                        2 - playerManagement.players.length
-                      )} more player${
-                        playerManagement.players.length === 1 ? "" : "s"
-                      }`}
+                  ? t(
+                      gameMode === "team"
+                        ? "app.startTeamGame"
+                        : "app.startGame"
+                    )
+                  : t(
+                      gameMode === "team" ? "app.needTeams" : "app.needPlayers",
+                      {
+                        count: missingSides,
+                      }
+                    )}
               </button>
             </div>
+
+            {/* Knockout Tournament */}
+            <Suspense
+              fallback={
+                <div className="text-center py-4">
+                  {t("app.loadingTournament")}
+                </div>
+              }
+            >
+              <TournamentBracket gameActive={false} />
+            </Suspense>
+
+            {/* Round-Robin League */}
+            <Suspense
+              fallback={
+                <div className="text-center py-4">{t("app.loadingLeague")}</div>
+              }
+            >
+              <LeagueTable gameActive={false} />
+            </Suspense>
           </section>
         )}
 
@@ -332,7 +572,10 @@ function GameApp() {
           (gameMode === "individual"
             ? currentPlayer
             : gameFlow.currentTeamPlayer) && (
-            <section aria-label="Game in progress" className="animate-fade-in">
+            <section
+              aria-label={t("app.playingLabel")}
+              className="animate-fade-in"
+            >
               <GamePlayPanel
                 players={players}
                 teams={teams}
@@ -347,15 +590,27 @@ function GameApp() {
                 }
                 currentTeam={gameFlow.currentTeam}
                 currentTeamPlayer={gameFlow.currentTeamPlayer}
+                rules={gameFlow.rules}
+                teamRotation={gameFlow.teamRotation}
+                onSelectThrower={handleSelectThrower}
+                winProbabilities={winProbability.probabilities}
+                handicaps={state.currentGame?.handicaps}
                 onScoreSubmit={(
                   _playerId: string,
                   score: number,
-                  scoringType: "single" | "multiple"
-                ) => handleScoreSubmit(score, scoringType)}
+                  scoringType: "single" | "multiple",
+                  pins?: number[],
+                  layout?: PinPosition[]
+                ) => handleScoreSubmit(score, scoringType, pins, layout)}
                 onPenalty={(_playerId: string, reason?: string) =>
                   handlePenaltyApply(reason)
                 }
                 onEndGame={handleEndGame}
+                onShare={shareLink ? handleShareGame : undefined}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={canUndo}
+                canRedo={canRedo}
               />
             </section>
           )}
@@ -383,13 +638,15 @@ function GameApp() {
         {gameState === "finished" && winner && (
           <section
             className="space-y-4 sm:space-y-6 animate-scale-in"
-            aria-label="Game completed with winner"
+            aria-label={t("app.finishedLabel")}
           >
             {/* Winner Display */}
             <WinnerDisplay
               winner={winner}
               players={players}
               onNewGame={handleNewGame}
+              onUndo={canUndo ? handleUndo : undefined}
+              targetScore={gameFlow.rules.targetScore}
             />
           </section>
         )}
@@ -398,7 +655,7 @@ function GameApp() {
         {gameState === "finished" && !winner && (
           <section
             className="space-y-4 sm:space-y-6"
-            aria-label="Game completed without winner"
+            aria-label={t("app.noWinnerLabel")}
           >
             {/* No Winner Display */}
             <NoWinnerDisplay
@@ -406,13 +663,47 @@ function GameApp() {
               teams={teams}
               gameMode={gameMode}
               onReset={handleReset}
+              onUndo={canUndo ? handleUndo : undefined}
             />
           </section>
         )}
 
+        {/* Tournament bracket after a match, to launch the next one */}
+        {gameState === "finished" && state.tournament && (
+          <Suspense
+            fallback={
+              <div className="text-center py-4">
+                {t("app.loadingTournament")}
+              </div>
+            }
+          >
+            <TournamentBracket gameActive={false} />
+          </Suspense>
+        )}
+
+        {/* League table after a fixture, to launch the next one */}
+        {gameState === "finished" && state.league && (
+          <Suspense
+            fallback={
+              <div className="text-center py-4">{t("app.loadingLeague")}</div>
+            }
+          >
+            <LeagueTable gameActive={false} />
+          </Suspense>
+        )}
+
+        {/* Live sync with other scorekeepers' phones */}
+        <Suspense
+          fallback={
+            <div className="text-center py-4">{t("app.loadingSync")}</div>
+          }
+        >
+          <SyncPanel />
+        </Suspense>
+
         {/* Mobile Navigation */}
         <MobileNav
-          onViewHistory={() => setIsHistoryVisible(true)}
+          onViewHistory={() => openHistory()}
           onEndGame={gameState === "playing" ? handleEndGame : undefined}
           canEndGame={gameState === "playing"}
           gameState={gameState}
@@ -423,16 +714,39 @@ function GameApp() {
 }
 
 /**
- * Root App component with context provider
+ * Shown while the scoreboard code loads
+ */
+function SpectatorLoading() {
+  const { t } = useLocale();
+  return <div className="text-center py-4">{t("spectator.loading")}</div>;
+}
+
+/**
+ * Root App component with context provider, or the spectator scoreboard
  */
 export function App() {
+  // The scoreboard window only follows the scorekeeper's window
+  if (isSpectatorView(window.location.search)) {
+    return (
+      <ErrorBoundary>
+        <LocaleProvider>
+          <Suspense fallback={<SpectatorLoading />}>
+            <SpectatorBoard />
+          </Suspense>
+        </LocaleProvider>
+      </ErrorBoundary>
+    );
+  }
+
   return (
     <ErrorBoundary>
-      <ToastProvider>
-        <GameProvider>
-          <GameApp />
-        </GameProvider>
-      </ToastProvider>
+      <LocaleProvider>
+        <ToastProvider>
+          <GameProvider>
+            <GameApp />
+          </GameProvider>
+        </ToastProvider>
+      </LocaleProvider>
     </ErrorBoundary>
   );
 }
@@ -5,8 +5,11 @@
  * @format
  */
 
-import type { Player, GameState, Team, GameMode } from "../../utils/types";
+import type { Player, GameState, Team, GameMode, RuleSet, PinPosition, TeamRotation } from "../../utils/types";
+import { DEFAULT_RULE_SET } from "../../utils/rules";
+import { DEFAULT_TEAM_ROTATION, getTeamThrower } from "../../utils/gameStateUtils";
 import { ScoreInput } from "../ScoreInput/ScoreInput";
+import { useLocale } from "../../context/LocaleContext";
 
 interface GamePlayPanelProps {
   players: Player[];
@@ -18,9 +21,19 @@ interface GamePlayPanelProps {
   currentPlayer: Player;
   currentTeam?: Team | null;
   currentTeamPlayer?: Player | null;
-  onScoreSubmit: (playerId: string, score: number, scoringType: "single" | "multiple") => void;
+  rules?: RuleSet;
+  teamRotation?: TeamRotation;
+  onSelectThrower?: (playerId: string) => void; // Captain's pick when the captain chooses throwers
+  winProbabilities?: Record<string, number> | null; // By player ID (team ID in team games)
+  handicaps?: Record<string, number>; // Starting scores, by player ID (team ID in team games)
+  onScoreSubmit: (playerId: string, score: number, scoringType: "single" | "multiple", pins?: number[], layout?: PinPosition[]) => void;
   onPenalty: (playerId: string, reason?: string) => void;
   onEndGame?: () => void;
+  onShare?: () => void; // Copies a link that continues the game on another device
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 }
 
 export function GamePlayPanel({
@@ -33,10 +46,21 @@ export function GamePlayPanel({
   currentPlayer,
   currentTeam,
   currentTeamPlayer,
+  rules = DEFAULT_RULE_SET,
+  teamRotation = DEFAULT_TEAM_ROTATION,
+  onSelectThrower,
+  winProbabilities,
+  handicaps = {},
   onScoreSubmit,
   onPenalty,
   onEndGame,
+  onShare,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
 }: GamePlayPanelProps) {
+  const { t } = useLocale();
   console.log(`[GamePlayPanel] Rendering with:`, {
     playersCount: players.length,
     teamsCount: teams?.length,
@@ -60,23 +84,23 @@ export function GamePlayPanel({
 
 
   const getPlayerStatus = (player: Player, index: number): string => {
-    if (player.eliminated) return "Eliminated";
-    if (gameState === "finished" && player.score === 50) return "Winner!";
-    if (gameState === "playing" && index === currentPlayerIndex) return "Current Turn";
+    if (player.eliminated) return t("common.eliminated");
+    if (gameState === "finished" && player.score === rules.targetScore) return t("gamePlay.winnerStatus");
+    if (gameState === "playing" && index === currentPlayerIndex) return t("common.currentTurn");
     return "";
   };
 
   const getStatusClasses = (player: Player, index: number): string => {
     if (player.eliminated) return "bg-gray-200 text-gray-400 border-gray-300 opacity-60";
     if (index === currentPlayerIndex) return "bg-blue-200 text-blue-900 border-blue-400 border-2 shadow-lg animate-pulse";
-    if (player.score === 50) return "bg-green-100 text-green-800 border-green-200";
+    if (player.score === rules.targetScore) return "bg-green-100 text-green-800 border-green-200";
     return "bg-gray-50 text-gray-700 border-gray-200";
   };
 
   const getScoreColor = (score: number): string => {
-    if (score === 50) return "text-green-600 font-bold";
-    if (score > 40) return "text-orange-600 font-semibold";
-    if (score > 30) return "text-yellow-600 font-medium";
+    if (score === rules.targetScore) return "text-green-600 font-bold";
+    if (score > rules.targetScore * 0.8) return "text-orange-600 font-semibold";
+    if (score > rules.targetScore * 0.6) return "text-yellow-600 font-medium";
     return "text-gray-700";
   };
 
@@ -88,20 +112,46 @@ export function GamePlayPanel({
           {gameMode === "individual" ? (
             <div className="mobile-text-base">
               <span className="font-semibold text-blue-700">
-                {currentPlayer.name}'s Turn
+                {t("gamePlay.turn", { name: currentPlayer.name })}
               </span>
               <div className="text-sm text-gray-600 mt-1">
-                Score: {currentPlayer.score} / 50
+                {t("gamePlay.score", { score: currentPlayer.score, target: rules.targetScore })}
               </div>
             </div>
           ) : (
             <div className="mobile-text-base">
               <div className="font-semibold text-blue-700">
-                {currentTeam?.name}'s Turn
+                {t("gamePlay.turn", { name: currentTeam?.name ?? "" })}
               </div>
               <div className="text-sm text-gray-600 mt-1">
-                {currentTeamPlayer?.name} (Score: {currentTeam?.score} / 50)
+                {t("gamePlay.teamThrower", {
+                  name: currentTeamPlayer?.name ?? "",
+                  score: currentTeam?.score ?? 0,
+                  target: rules.targetScore,
+                })}
               </div>
+              {teamRotation === "captain" && onSelectThrower && currentTeam && (
+                <div className="flex flex-wrap justify-center gap-1 mt-2" role="group" aria-label={t("gamePlay.chooseThrower")}>
+                  {currentTeam.players.map((player) => {
+                    const chosen = player.id === currentTeamPlayer?.id;
+                    return (
+                      <button
+                        key={player.id}
+                        type="button"
+                        onClick={() => onSelectThrower(player.id)}
+                        aria-pressed={chosen}
+                        className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+                          chosen
+                            ? "bg-blue-500 text-white border-blue-600"
+                            : "bg-white text-gray-700 border-gray-300 hover:bg-blue-50"
+                        }`}
+                      >
+                        {player.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -109,22 +159,88 @@ export function GamePlayPanel({
           currentPlayer={gameMode === "individual" ? currentPlayer : (currentTeamPlayer || currentPlayer)}
           onScoreSubmit={onScoreSubmit}
           onPenalty={onPenalty}
+          onUndo={onUndo}
         />
       </div>
 
+      {/* Win Probability */}
+      {winProbabilities && (
+        <div className="mb-3 sm:mb-4" aria-label={t("gamePlay.winProbabilityLabel")}>
+          <h4 className="text-sm font-medium text-gray-700 mb-1 mobile-text-sm">{t("gamePlay.winProbability")}</h4>
+          <div className="space-y-1">
+            {(gameMode === "individual" ? players : teams || []).map((side) => {
+              const percent = Math.round((winProbabilities[side.id] ?? 0) * 100);
+              return (
+                <div key={side.id} className="flex items-center gap-2 text-xs">
+                  <span className="w-24 truncate text-gray-700">{side.name}</span>
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500" style={{ width: `${percent}%` }} />
+                  </div>
+                  <span className="w-10 text-right font-medium text-gray-700" data-testid="win-probability">
+                    {percent}%
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Undo / Redo Controls */}
+      {gameState === "playing" && (onUndo || onRedo) && (
+        <div className="flex justify-center gap-2 mb-3 sm:mb-4">
+          {onUndo && (
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="mobile-btn bg-gray-500 text-white hover:bg-gray-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors font-medium text-sm shadow-md hover:shadow-lg touch-manipulation focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+              aria-label={t("gamePlay.undoLabel")}
+              type="button"
+            >
+              <span aria-hidden="true">↶</span> {t("gamePlay.undo")}
+            </button>
+          )}
+          {onRedo && (
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="mobile-btn bg-gray-500 text-white hover:bg-gray-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors font-medium text-sm shadow-md hover:shadow-lg touch-manipulation focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+              aria-label={t("gamePlay.redoLabel")}
+              type="button"
+            >
+              {t("gamePlay.redo")} <span aria-hidden="true">↷</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Share Game Link */}
+      {gameState === "playing" && onShare && (
+        <div className="text-center mb-3 sm:mb-4">
+          <button
+            onClick={onShare}
+            className="mobile-btn bg-blue-500 text-white hover:bg-blue-600 transition-colors font-medium text-sm shadow-md hover:shadow-lg touch-manipulation focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            aria-label={t("gamePlay.shareLabel")}
+            type="button"
+          >
+            <span aria-hidden="true">🔗</span> {t("gamePlay.share")}
+          </button>
+        </div>
+      )}
+
       {/* Mobile-optimized End Game Button */}
       {gameState === "playing" && onEndGame && (
         <div className="text-center mb-3 sm:mb-4">
           <button
             onClick={onEndGame}
             className="mobile-btn bg-red-500 text-white hover:bg-red-600 transition-colors font-medium text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-            aria-label="End current game and return to start screen"
+            aria-label={t("gamePlay.endGameLabel")}
             type="button"
           >
-            <span aria-hidden="true">🏁</span> End Game
+            <span aria-hidden="true">🏁</span> {t("gamePlay.endGame")}
           </button>
           <p className="text-xs text-gray-500 mt-1 mobile-text-sm">
-            Return to start screen and reset scores
+            {t("gamePlay.endGameHelp")}
           </p>
         </div>
       )}
@@ -133,7 +249,7 @@ export function GamePlayPanel({
       <div className="border-t border-gray-200 pt-2 sm:pt-3">
         <details className="group">
           <summary className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900 flex items-center justify-between mobile-btn bg-gray-50 rounded-lg p-2">
-            <span className="mobile-text-sm">📊 Score Board</span>
+            <span className="mobile-text-sm">{t("gamePlay.scoreBoard")}</span>
             <span className="text-xs text-gray-500 group-open:rotate-180 transition-transform">▼</span>
           </summary>
           <div className="mt-2 sm:mt-3 mobile-score-board">
@@ -147,6 +263,11 @@ export function GamePlayPanel({
                   >
                     <div className="flex-1 min-w-0">
                       <span className="font-medium truncate text-sm">{player.name}</span>
+                      {handicaps[player.id] > 0 && (
+                        <span className="ml-2 text-xs px-1 py-0.5 rounded-full bg-amber-100 text-amber-800" title={t("common.handicapTitle")}>
+                          {t("common.headStartPoints", { points: handicaps[player.id] })}
+                        </span>
+                      )}
                       {getPlayerStatus(player, index) && (
                         <span className="ml-2 text-xs px-1 py-0.5 rounded-full bg-current bg-opacity-20">
                           {getPlayerStatus(player, index)}
@@ -155,13 +276,13 @@ export function GamePlayPanel({
                     </div>
                     <div className="flex items-center space-x-3">
                       <span className={`text-base font-bold ${getScoreColor(player.score)}`}>{player.score}</span>
-                      <span className="text-xs text-gray-500">/ 50</span>
+                      <span className="text-xs text-gray-500">/ {rules.targetScore}</span>
                       {player.penalties > 0 && (
                         <span className="text-xs text-red-600">({player.penalties})</span>
                       )}
                       {player.consecutiveMisses !== undefined && player.consecutiveMisses > 0 && (
                         <span className="text-xs text-yellow-600 font-medium">
-                          Misses: {player.consecutiveMisses}
+                          {t("gamePlay.misses", { count: player.consecutiveMisses })}
                         </span>
                       )}
                     </div>
@@ -175,10 +296,17 @@ export function GamePlayPanel({
                   <div key={team.id} className="border rounded-lg p-2">
                     {/* Team Header */}
                     <div className={`flex items-center justify-between mb-2 p-1 rounded ${team.isActive ? 'bg-blue-200 text-blue-900 border-blue-400 border-2 shadow-lg animate-pulse' : 'bg-gray-50'}`}>
-                      <span className="font-semibold text-sm text-gray-800">{team.name}</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-semibold text-sm text-gray-800">{team.name}</span>
+                        {handicaps[team.id] > 0 && (
+                          <span className="text-xs px-1 py-0.5 rounded-full bg-amber-100 text-amber-800" title={t("common.handicapTitle")}>
+                            {t("common.headStartPoints", { points: handicaps[team.id] })}
+                          </span>
+                        )}
+                      </div>
                       <div className="flex items-center space-x-2">
                         <span className={`text-base font-bold ${getScoreColor(team.score)}`}>{team.score}</span>
-                        <span className="text-xs text-gray-500">/ 50</span>
+                        <span className="text-xs text-gray-500">/ {rules.targetScore}</span>
                         {team.penalties > 0 && (
                           <span className="text-xs text-red-600">({team.penalties})</span>
                         )}
@@ -187,10 +315,10 @@ export function GamePlayPanel({
                     
                     {/* Team Players */}
                     <div className="space-y-1 ml-2">
-                      {team.players.map((player, playerIndex) => {
+                      {team.players.map((player) => {
                         const isCurrentPlayer = currentTeam?.id === team.id && 
-                                              team.currentPlayerIndex === playerIndex;
-                        const playerStatus = isCurrentPlayer ? "Current Turn" : "";
+                                              getTeamThrower(team)?.id === player.id;
+                        const playerStatus = isCurrentPlayer ? t("common.currentTurn") : "";
                         
                         return (
                           <div
@@ -5,65 +5,108 @@
  * @format
  */
 
+import { useRef } from "preact/hooks";
 import { useGameHistory } from "../../hooks/useGameHistory";
+import { PinStats } from "../PinStats";
+import { PinFieldReplay } from "../PinField";
+import { getRecordedLayouts } from "../../utils/pinField";
+import { getWinProbabilitySwings } from "../../utils/winProbability";
+import { useLocale } from "../../context/LocaleContext";
 import type { Game } from "../../utils/types";
 
 interface GameHistoryProps {
   isVisible: boolean;
   onClose: () => void;
+  gameId?: string; // Show only this game
+  onOpenGame?: (gameId: string) => void;
+  onShowAll?: () => void; // Back from one game to the list
 }
 
-export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
+export function GameHistory({
+  isVisible,
+  onClose,
+  gameId,
+  onOpenGame,
+  onShowAll,
+}: GameHistoryProps) {
   const {
     gameHistory,
+    getGameById,
     getGameDuration,
     getPenaltiesForGame,
     getOverallStats,
     clearHistory,
     exportHistory,
+    exportHistoryCsv,
+    exportThrowsCsv,
+    importHistory,
+    getPlayerName,
+    ratings,
+    pinStats,
   } = useGameHistory();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { t, formatDate, formatDuration, formatPenaltyReason } = useLocale();
 
   const stats = getOverallStats();
+  const selectedGame = gameId ? getGameById(gameId) : undefined;
+  const shownGames = gameId ? (selectedGame ? [selectedGame] : []) : gameHistory;
 
-  // Format date for display
-  const formatDate = (date: Date): string => {
-    return new Intl.DateTimeFormat("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    }).format(date);
-  };
-
-  // Format duration for display
-  const formatDuration = (minutes: number): string => {
-    if (minutes < 60) {
-      return `${minutes}m`;
-    }
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
-  };
-
-  // Handle export functionality
-  const handleExport = () => {
-    const dataStr = exportHistory();
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
+  // Download text content as a file
+  const downloadFile = (content: string, extension: string, type: string) => {
+    const dataBlob = new Blob([content], { type });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `molkky-game-history-${new Date().toISOString().split("T")[0]}.json`;
+    link.download = `molkky-game-history-${new Date().toISOString().split("T")[0]}.${extension}`;
     link.click();
     URL.revokeObjectURL(url);
   };
 
+  // Handle export functionality
+  const handleExport = () => {
+    downloadFile(exportHistory(), "json", "application/json");
+  };
+
+  // Handle CSV exports; the byte order mark makes spreadsheets read UTF-8 names correctly
+  const handleExportCsv = () => {
+    downloadFile("\uFEFF" + exportHistoryCsv(), "csv", "text/csv;charset=utf-8");
+  };
+
+  const handleExportThrowsCsv = () => {
+    downloadFile("\uFEFF" + exportThrowsCsv(), "throws.csv", "text/csv;charset=utf-8");
+  };
+
+  const hasRecordedThrows = gameHistory.some(
+    (game) => (game.throws?.length ?? 0) > 0
+  );
+
+  // Handle import of a previously exported history file
+  const handleImport = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const result = importHistory(await file.text());
+    // Allow importing the same file again
+    input.value = "";
+
+    if (!result.success) {
+      alert(t("history.importFailed", { error: result.error ?? "" }));
+      return;
+    }
+    alert(
+      result.skipped > 0
+        ? t("history.importedSkipped", { count: result.added, skipped: result.skipped })
+        : t("history.imported", { count: result.added })
+    );
+  };
+
   // Handle clear history with confirmation
   const handleClearHistory = () => {
-    if (window.confirm("Are you sure you want to clear all game history? This action cannot be undone.")) {
+    if (window.confirm(t("history.confirmClear"))) {
       const result = clearHistory();
       if (!result.success) {
-        alert("Failed to clear history: " + result.error);
+        alert(t("history.clearFailedAlert", { error: result.error ?? "" }));
       }
     }
   };
@@ -95,15 +138,15 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
         {/* Header */}
         <div className="bg-gray-50 px-3 sm:px-6 py-3 sm:py-4 border-b border-gray-200 flex items-center justify-between">
           <div>
-            <h2 className="text-xl sm:text-2xl font-bold text-gray-800">Game History</h2>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-800">{t("history.title")}</h2>
             <p className="text-gray-600 text-xs sm:text-sm">
-              {gameHistory.length} completed game{gameHistory.length !== 1 ? "s" : ""}
+              {t("history.count", { count: gameHistory.length })}
             </p>
           </div>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-600 transition-colors p-2 touch-manipulation"
-            aria-label="Close history"
+            aria-label={t("history.closeLabel")}
           >
             <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -114,47 +157,114 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
         {/* Content */}
         <div className="overflow-y-auto max-h-[calc(95vh-140px)] sm:max-h-[calc(90vh-140px)]">
           {/* Statistics Summary */}
-          {gameHistory.length > 0 && (
+          {!gameId && gameHistory.length > 0 && (
             <div className="p-3 sm:p-6 border-b border-gray-200">
-              <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-3 sm:mb-4 text-center">📊 Overall Statistics</h3>
+              <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-3 sm:mb-4 text-center">{t("history.overall")}</h3>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4">
                 <div className="bg-blue-50 p-3 sm:p-4 rounded-lg text-center">
                   <div className="text-xl sm:text-2xl font-bold text-blue-600">{stats.totalGames}</div>
-                  <div className="text-xs sm:text-sm text-blue-700">Total Games</div>
+                  <div className="text-xs sm:text-sm text-blue-700">{t("history.totalGames")}</div>
                 </div>
                 <div className="bg-red-50 p-3 sm:p-4 rounded-lg text-center">
                   <div className="text-xl sm:text-2xl font-bold text-red-600">{stats.totalPenalties}</div>
-                  <div className="text-xs sm:text-sm text-red-700">Total Penalties</div>
+                  <div className="text-xs sm:text-sm text-red-700">{t("history.totalPenalties")}</div>
                 </div>
                 <div className="bg-green-50 p-3 sm:p-4 rounded-lg text-center">
                   <div className="text-xl sm:text-2xl font-bold text-green-600">
                     {Math.round(stats.averageGameDuration)}
                   </div>
-                  <div className="text-xs sm:text-sm text-green-700">Avg Duration (min)</div>
+                  <div className="text-xs sm:text-sm text-green-700">{t("history.averageDuration")}</div>
                 </div>
                 <div className="bg-purple-50 p-3 sm:p-4 rounded-lg text-center">
                   <div className="text-xl sm:text-2xl font-bold text-purple-600">
-                    {stats.mostPenalizedPlayer ? stats.mostPenalizedPlayer.split(" ")[0] : "N/A"}
+                    {stats.mostPenalizedPlayer ? stats.mostPenalizedPlayer.split(" ")[0] : t("history.notAvailable")}
                   </div>
-                  <div className="text-xs sm:text-sm text-purple-700">Most Penalized</div>
+                  <div className="text-xs sm:text-sm text-purple-700">{t("history.mostPenalized")}</div>
                 </div>
               </div>
             </div>
           )}
 
+          {/* Skill Ratings */}
+          {!gameId && ratings.length > 0 && (
+            <div className="p-3 sm:p-6 border-b border-gray-200">
+              <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-3 sm:mb-4 text-center">{t("history.ratings")}</h3>
+              <ol className="space-y-1" aria-label={t("history.ratingsLabel")}>
+                {ratings.map((rating, index) => {
+                  const last = rating.history[rating.history.length - 1];
+                  const change = Math.round(last.after - last.before);
+                  return (
+                    <li key={rating.key}>
+                      <details className="bg-gray-50 border border-gray-200 rounded-lg px-2 sm:px-3 py-1 sm:py-2">
+                        <summary className="flex items-center justify-between cursor-pointer text-sm sm:text-base">
+                          <span className="font-medium text-gray-800">
+                            {index + 1}. {rating.name}
+                          </span>
+                          <span className="text-gray-700">
+                            <span className="font-bold">{Math.round(rating.rating)}</span>
+                            <span className={`ml-2 text-xs ${change >= 0 ? "text-green-600" : "text-red-600"}`}>
+                              {change >= 0 ? `+${change}` : change}
+                            </span>
+                          </span>
+                        </summary>
+                        <ul className="mt-2 space-y-1 text-xs sm:text-sm text-gray-600">
+                          {rating.history
+                            .slice()
+                            .reverse()
+                            .map((entry) => (
+                              <li key={entry.gameId} className="flex justify-between">
+                                <span>
+                                  {t("history.ratingFinished", {
+                                    date: formatDate(entry.date),
+                                    rank: entry.rank,
+                                  })}
+                                </span>
+                                <span>
+                                  {Math.round(entry.before)} → {Math.round(entry.after)}
+                                </span>
+                              </li>
+                            ))}
+                        </ul>
+                      </details>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+
+          {/* Pin Statistics */}
+          {!gameId && <PinStats stats={pinStats} />}
+
           {/* Game List */}
           <div className="p-3 sm:p-6">
-            {gameHistory.length === 0 ? (
+            {gameId && onShowAll && (
+              <button
+                onClick={onShowAll}
+                className="mb-3 text-sm text-blue-600 hover:text-blue-800 font-medium touch-manipulation"
+              >
+                {t("history.allGames")}
+              </button>
+            )}
+            {gameId && !selectedGame ? (
+              <div className="text-center py-8 sm:py-12">
+                <div className="text-4xl sm:text-6xl mb-3 sm:mb-4">🔍</div>
+                <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2">{t("history.notFound")}</h3>
+                <p className="text-sm sm:text-base text-gray-600">
+                  {t("history.notFoundHelp")}
+                </p>
+              </div>
+            ) : gameHistory.length === 0 ? (
               <div className="text-center py-8 sm:py-12">
                 <div className="text-4xl sm:text-6xl mb-3 sm:mb-4">📝</div>
-                <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2">No Games Yet</h3>
+                <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2">{t("history.empty")}</h3>
                 <p className="text-sm sm:text-base text-gray-600">
-                  Complete your first game to see it appear here!
+                  {t("history.emptyHelp")}
                 </p>
               </div>
             ) : (
               <div className="space-y-3 sm:space-y-4">
-                {gameHistory.map((game: Game) => {
+                {shownGames.map((game: Game) => {
                   const duration = getGameDuration(game);
                   const penalties = getPenaltiesForGame(game.id);
                   const sortedPlayers = [...game.players].sort((a, b) => b.score - a.score);
@@ -167,7 +277,7 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                           <div className="text-xl sm:text-2xl">🎮</div>
                           <div>
                             <h4 className="font-semibold text-gray-800 text-sm sm:text-base">
-                              Game #{gameHistory.indexOf(game) + 1}
+                              {t("history.gameNumber", { number: gameHistory.indexOf(game) + 1 })}
                             </h4>
                             <p className="text-xs sm:text-sm text-gray-600">
                               {formatDate(game.startTime)}
@@ -176,11 +286,20 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                         </div>
                         <div className="text-left sm:text-right">
                           <div className="text-xs sm:text-sm text-gray-600">
-                            Duration: {formatDuration(duration)}
+                            {t("history.duration", { duration: formatDuration(duration) })}
                           </div>
                           <div className="text-xs sm:text-sm text-gray-600">
-                            {game.totalRounds} rounds
+                            {t("history.rounds", { count: game.totalRounds })}
                           </div>
+                          {!gameId && onOpenGame && (
+                            <button
+                              onClick={() => onOpenGame(game.id)}
+                              className="text-xs sm:text-sm text-blue-600 hover:text-blue-800 font-medium touch-manipulation"
+                              aria-label={t("history.openLabel", { number: gameHistory.indexOf(game) + 1 })}
+                            >
+                              {t("history.open")}
+                            </button>
+                          )}
                         </div>
                       </div>
 
@@ -191,10 +310,10 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                             <span className="text-xl sm:text-2xl">🏆</span>
                             <div>
                               <span className="font-semibold text-green-800 text-sm sm:text-base">
-                                Winner: {game.winner.name}
+                                {t("history.winner", { name: getPlayerName(game.winner) })}
                               </span>
                               <div className="text-xs sm:text-sm text-green-700">
-                                Final Score: {game.winner.score} points
+                                {t("history.finalScore", { score: game.winner.score })}
                               </div>
                             </div>
                           </div>
@@ -203,7 +322,7 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
 
                       {/* Player Scores */}
                       <div className="mb-3">
-                        <h5 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Final Scores:</h5>
+                        <h5 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">{t("history.finalScores")}</h5>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                           {sortedPlayers.map((player, index) => (
                             <div
@@ -221,11 +340,11 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                               </div>
                               <div className="flex items-center">
                                 <span className={`font-semibold ${player.eliminated ? "text-gray-400" : "text-gray-800"}`}>
-                                  {player.name}
+                                  {getPlayerName(player)}
                                 </span>
                                 {player.eliminated && (
                                   <span className="ml-2 text-xs bg-gray-300 text-gray-600 px-2 py-1 rounded-full">
-                                    Eliminated
+                                    {t("common.eliminated")}
                                   </span>
                                 )}
                               </div>
@@ -245,7 +364,7 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                       {/* Penalties */}
                       {penalties.length > 0 && (
                         <div>
-                          <h5 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Penalties Applied:</h5>
+                          <h5 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">{t("history.penalties")}</h5>
                           <div className="space-y-1">
                             {penalties.map((penalty, index) => (
                               <div key={index} className="flex items-center space-x-2 text-xs sm:text-sm">
@@ -254,7 +373,7 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                                   {penalty.playerName}
                                 </span>
                                 <span className="text-gray-600">
-                                  - {penalty.reason || "Score reset to 25"}
+                                  - {formatPenaltyReason(penalty.reason)}
                                 </span>
                                 <span className="text-gray-500 text-xs">
                                   {formatDate(penalty.timestamp)}
@@ -264,6 +383,48 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
                           </div>
                         </div>
                       )}
+
+                      {/* Win Probability Swings */}
+                      {getWinProbabilitySwings(game).length > 0 && (
+                        <details className="mt-3">
+                          <summary className="font-medium text-gray-700 text-sm sm:text-base cursor-pointer">
+                            {t("history.swings")}
+                          </summary>
+                          <ol className="mt-2 space-y-1">
+                            {getWinProbabilitySwings(game).map(({ event, swing }, index) => (
+                              <li key={event.id} className="flex items-center space-x-2 text-xs sm:text-sm">
+                                <span className="text-gray-500 w-6">{index + 1}.</span>
+                                <span className="text-gray-800 font-medium">
+                                  {event.teamName ? `${event.playerName} (${event.teamName})` : event.playerName}
+                                </span>
+                                <span className="text-gray-600">
+                                  {event.type === "score"
+                                    ? t("history.swingPoints", { score: event.score })
+                                    : event.type === "penalty"
+                                      ? t("history.swingPenalty")
+                                      : t("history.swingOutOfTurn")}
+                                </span>
+                                <span className={swing >= 0 ? "text-green-600 font-medium" : "text-red-600 font-medium"}>
+                                  {swing >= 0 ? "+" : ""}
+                                  {Math.round(swing * 100)}%
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
+
+                      {/* Pin Field Replay */}
+                      {getRecordedLayouts(game).length > 0 && (
+                        <details className="mt-3">
+                          <summary className="font-medium text-gray-700 text-sm sm:text-base cursor-pointer">
+                            {t("history.pinField")}
+                          </summary>
+                          <div className="mt-2">
+                            <PinFieldReplay game={game} />
+                          </div>
+                        </details>
+                      )}
                     </div>
                   );
                 })}
@@ -273,30 +434,61 @@ export function GameHistory({ isVisible, onClose }: GameHistoryProps) {
         </div>
 
         {/* Footer Actions */}
-        {gameHistory.length > 0 && (
-          <div className="bg-gray-50 px-3 sm:px-6 py-3 sm:py-4 border-t border-gray-200 flex flex-col sm:flex-row gap-2 sm:gap-3 justify-between">
-            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+        <div className="bg-gray-50 px-3 sm:px-6 py-3 sm:py-4 border-t border-gray-200 flex flex-col sm:flex-row gap-2 sm:gap-3 justify-between">
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+            {gameHistory.length > 0 && (
               <button
                 onClick={handleExport}
                 className="px-3 sm:px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
               >
-                📥 Export History
+                {t("history.export")}
               </button>
+            )}
+            {gameHistory.length > 0 && (
               <button
-                onClick={handleClearHistory}
-                className="px-3 sm:px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
+                onClick={handleExportCsv}
+                className="px-3 sm:px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
               >
-                🗑️ Clear History
+                {t("history.exportCsv")}
               </button>
-            </div>
+            )}
+            {hasRecordedThrows && (
+              <button
+                onClick={handleExportThrowsCsv}
+                className="px-3 sm:px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
+              >
+                {t("history.exportThrows")}
+              </button>
+            )}
             <button
-              onClick={onClose}
-              className="px-3 sm:px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
+              onClick={() => importInputRef.current?.click()}
+              className="px-3 sm:px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
             >
-              Close
+              {t("history.import")}
             </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            {gameHistory.length > 0 && (
+              <button
+                onClick={handleClearHistory}
+                className="px-3 sm:px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
+              >
+                {t("history.clear")}
+              </button>
+            )}
           </div>
-        )}
+          <button
+            onClick={onClose}
+            className="px-3 sm:px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-all duration-200 text-xs sm:text-sm font-medium shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
+          >
+            {t("common.close")}
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -6,6 +6,8 @@
  */
 
 import { useGameContext } from "../../context/GameContext";
+import { useLocale } from "../../context/LocaleContext";
+import { DEFAULT_RULE_SET } from "../../utils/rules";
 import type { GameMode } from "../../utils/types";
 
 interface GameModeSelectorProps {
@@ -14,7 +16,9 @@ interface GameModeSelectorProps {
 
 export function GameModeSelector({ gameActive }: GameModeSelectorProps) {
   const { state, dispatch } = useGameContext();
+  const { t } = useLocale();
   const { gameMode } = state;
+  const { targetScore } = state.rules || DEFAULT_RULE_SET;
 
   const handleModeChange = (newMode: GameMode) => {
     if (gameActive) return; // Cannot change mode during active game
@@ -25,7 +29,7 @@ export function GameModeSelector({ gameActive }: GameModeSelectorProps) {
   return (
     <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
       <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-3 sm:mb-4 mobile-text-lg">
-        Game Mode
+        {t("gameMode.title")}
       </h2>
       
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
@@ -41,9 +45,9 @@ export function GameModeSelector({ gameActive }: GameModeSelectorProps) {
         >
           <div className="text-center">
             <div className="text-xl sm:text-2xl mb-1 sm:mb-2">👤</div>
-            <h3 className="font-semibold text-base sm:text-lg mb-1 mobile-text-base">Individual</h3>
+            <h3 className="font-semibold text-base sm:text-lg mb-1 mobile-text-base">{t("gameMode.individual")}</h3>
             <p className="text-xs sm:text-sm mobile-text-sm">
-              Each player competes individually. First to reach 50 points wins.
+              {t("gameMode.individualHelp", { target: targetScore })}
             </p>
           </div>
         </button>
@@ -60,9 +64,9 @@ export function GameModeSelector({ gameActive }: GameModeSelectorProps) {
         >
           <div className="text-center">
             <div className="text-xl sm:text-2xl mb-1 sm:mb-2">👥</div>
-            <h3 className="font-semibold text-base sm:text-lg mb-1 mobile-text-base">Team</h3>
+            <h3 className="font-semibold text-base sm:text-lg mb-1 mobile-text-base">{t("gameMode.team")}</h3>
             <p className="text-xs sm:text-sm mobile-text-sm">
-              Players compete in teams. First team to reach 50 points wins.
+              {t("gameMode.teamHelp", { target: targetScore })}
             </p>
           </div>
         </button>
@@ -71,7 +75,7 @@ export function GameModeSelector({ gameActive }: GameModeSelectorProps) {
       {gameActive && (
         <div className="mt-3 sm:mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded mobile-card">
           <p className="text-xs sm:text-sm text-yellow-700 mobile-text-sm">
-            ⚠️ Game mode cannot be changed during an active game.
+            {t("gameMode.locked")}
           </p>
         </div>
       )}
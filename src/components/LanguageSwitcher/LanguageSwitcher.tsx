@@ -0,0 +1,38 @@
+/**
+ * LanguageSwitcher Component
+ * Switches the display language between English and Finnish
+ *
+ * @format
+ */
+
+import { useLocale } from "../../context/LocaleContext";
+import { LOCALES, LOCALE_NAMES } from "../../utils/i18n";
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <div
+      className="inline-flex rounded-full border border-gray-300 bg-white p-0.5 text-xs"
+      role="group"
+      aria-label={t("language.label")}
+    >
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          onClick={() => setLocale(option)}
+          aria-pressed={option === locale}
+          className={`px-2 py-1 rounded-full transition-colors touch-manipulation ${
+            option === locale
+              ? "bg-blue-500 text-white"
+              : "text-gray-700 hover:bg-blue-50"
+          }`}
+        >
+          {LOCALE_NAMES[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
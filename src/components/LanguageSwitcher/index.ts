@@ -0,0 +1,7 @@
+/**
+ * LanguageSwitcher component exports
+ *
+ * @format
+ */
+
+export { LanguageSwitcher } from "./LanguageSwitcher";
@@ -0,0 +1,263 @@
+/**
+ * LeagueTable Component
+ * Schedules a round-robin league from the current players or teams, lists its
+ * fixtures and shows the standings table
+ *
+ * @format
+ */
+
+import { useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
+import type { LocaleContextType } from "../../context/LocaleContext";
+import { useLeague } from "../../hooks/useLeague";
+import { getLeagueEntrant } from "../../utils/league";
+import type { League, LeagueFixture } from "../../utils/types";
+
+interface LeagueTableProps {
+  gameActive: boolean;
+}
+
+export function LeagueTable({ gameActive }: LeagueTableProps) {
+  const {
+    league,
+    standings,
+    nextFixture,
+    progress,
+    canCreateLeague,
+    canStartNextFixture,
+    createLeague,
+    startFixture,
+    startNextFixture,
+    endLeague,
+  } = useLeague();
+  const { t } = useLocale();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResult = (result: { success: boolean; error?: string }) => {
+    setError(
+      result.success ? null : result.error || t("common.somethingWrong")
+    );
+  };
+
+  if (!league) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 mobile-text-lg">
+          {t("league.title")}
+        </h2>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3 mobile-text-sm">
+          {t("league.help")}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onInput={(e) => setName((e.target as HTMLInputElement).value)}
+            placeholder={t("league.nameLabel")}
+            aria-label={t("league.nameLabel")}
+            disabled={gameActive}
+            className="mobile-input flex-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => handleResult(createLeague(name))}
+            disabled={!canCreateLeague}
+            className={`px-4 py-2 rounded text-sm font-medium touch-manipulation ${
+              canCreateLeague
+                ? "bg-indigo-500 text-white hover:bg-indigo-600"
+                : "bg-gray-300 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            {t("league.create")}
+          </button>
+        </div>
+        {error && (
+          <div
+            role="alert"
+            className="mt-3 bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm"
+          >
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const rounds = Array.from(
+    new Set(league.fixtures.map((fixture) => fixture.round))
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mobile-text-lg">
+            📅 {league.name}
+          </h2>
+          <p className="text-xs sm:text-sm text-gray-600 mobile-text-sm">
+            {t("league.progress", {
+              played: progress.played,
+              total: progress.total,
+            })}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => handleResult(endLeague())}
+          className="text-sm text-red-600 hover:text-red-800 font-medium touch-manipulation"
+          aria-label={t("league.endLabel")}
+        >
+          {nextFixture ? t("common.end") : t("common.close")}
+        </button>
+      </div>
+
+      {/* Standings */}
+      <div className="overflow-x-auto mb-3 sm:mb-4">
+        <table
+          className="w-full text-xs sm:text-sm"
+          aria-label={t("league.standingsLabel")}
+        >
+          <thead>
+            <tr className="text-gray-600 border-b border-gray-200">
+              <th className="text-left py-1 pr-2">#</th>
+              <th className="text-left py-1 pr-2">{t("league.name")}</th>
+              <th className="text-right py-1 px-1" title={t("league.played")}>
+                {t("league.playedShort")}
+              </th>
+              <th className="text-right py-1 px-1" title={t("league.wins")}>
+                {t("league.winsShort")}
+              </th>
+              <th className="text-right py-1 px-1" title={t("league.losses")}>
+                {t("league.lossesShort")}
+              </th>
+              <th
+                className="text-right py-1 px-1"
+                title={t("league.pointsFor")}
+              >
+                {t("league.pointsForShort")}
+              </th>
+              <th
+                className="text-right py-1 px-1"
+                title={t("league.pointsAgainst")}
+              >
+                {t("league.pointsAgainstShort")}
+              </th>
+              <th
+                className="text-right py-1 px-1"
+                title={t("league.scoreDifference")}
+              >
+                +/-
+              </th>
+              <th
+                className="text-right py-1 pl-1"
+                title={t("common.penalties")}
+              >
+                {t("league.penaltiesShort")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((row, index) => (
+              <tr
+                key={row.entrantId}
+                className="border-b border-gray-100 text-gray-800"
+              >
+                <td className="py-1 pr-2">{index + 1}</td>
+                <td className="py-1 pr-2 font-medium">{row.name}</td>
+                <td className="text-right py-1 px-1">{row.played}</td>
+                <td className="text-right py-1 px-1">{row.wins}</td>
+                <td className="text-right py-1 px-1">{row.losses}</td>
+                <td className="text-right py-1 px-1">{row.pointsFor}</td>
+                <td className="text-right py-1 px-1">{row.pointsAgainst}</td>
+                <td className="text-right py-1 px-1">
+                  {row.scoreDifference > 0
+                    ? `+${row.scoreDifference}`
+                    : row.scoreDifference}
+                </td>
+                <td className="text-right py-1 pl-1">{row.penalties}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Fixtures */}
+      <div className="space-y-2">
+        {rounds.map((round) => (
+          <section key={round} aria-label={t("tournament.round", { round })}>
+            <h3 className="text-xs sm:text-sm font-semibold text-gray-700 mb-1">
+              {t("tournament.round", { round })}
+            </h3>
+            <ul className="space-y-1">
+              {league.fixtures
+                .filter((fixture) => fixture.round === round)
+                .map((fixture) => (
+                  <li
+                    key={fixture.id}
+                    className={`flex items-center justify-between rounded border px-2 py-1 text-xs sm:text-sm ${
+                      fixture.id === nextFixture?.id
+                        ? "border-green-500 bg-green-50"
+                        : "border-gray-200 bg-gray-50"
+                    }`}
+                    data-testid="league-fixture"
+                  >
+                    <span>{describeFixture(league, fixture, t)}</span>
+                    {fixture.winnerId === null && !gameActive && (
+                      <button
+                        type="button"
+                        onClick={() => handleResult(startFixture(fixture.id))}
+                        className="text-green-700 hover:text-green-900 font-medium touch-manipulation"
+                      >
+                        {t("league.play")}
+                      </button>
+                    )}
+                  </li>
+                ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      {nextFixture && (
+        <div className="mt-3 sm:mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => handleResult(startNextFixture())}
+            disabled={!canStartNextFixture}
+            className={`px-6 py-3 text-base font-semibold rounded-lg touch-manipulation ${
+              canStartNextFixture
+                ? "bg-green-500 text-white hover:bg-green-600"
+                : "bg-gray-300 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            {t("league.playFixture", {
+              fixture: describeFixture(league, nextFixture, t),
+            })}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div
+          role="alert"
+          className="mt-3 bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm"
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeFixture(
+  league: League,
+  fixture: LeagueFixture,
+  t: LocaleContextType["t"]
+): string {
+  const [first, second] = fixture.entrantIds.map((id) => {
+    const name = getLeagueEntrant(league, id)?.name ?? t("common.unknown");
+    return fixture.winnerId === id ? `${name} ✓` : name;
+  });
+  return t("common.versus", { first, second });
+}
@@ -0,0 +1 @@
+export { LeagueTable } from "./LeagueTable";
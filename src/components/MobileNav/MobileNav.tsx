@@ -6,6 +6,7 @@
  */
 
 import { useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
 
 interface MobileNavProps {
   onViewHistory: () => void;
@@ -21,6 +22,7 @@ export function MobileNav({
   gameState = "setup" 
 }: MobileNavProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { t } = useLocale();
 
   return (
     <div className="md:hidden">
@@ -31,10 +33,10 @@ export function MobileNav({
           <button
             onClick={onViewHistory}
             className="flex flex-col items-center p-2 rounded-lg hover:bg-gray-100 transition-colors mobile-btn"
-            aria-label="View game history"
+            aria-label={t("app.historyLabel")}
           >
             <span className="text-lg">📊</span>
-            <span className="text-xs mt-1 mobile-text-sm">History</span>
+            <span className="text-xs mt-1 mobile-text-sm">{t("nav.history")}</span>
           </button>
 
           {/* End Game Button (only show when game is playing) */}
@@ -42,10 +44,10 @@ export function MobileNav({
             <button
               onClick={onEndGame}
               className="flex flex-col items-center p-2 rounded-lg hover:bg-red-100 transition-colors mobile-btn"
-              aria-label="End game"
+              aria-label={t("nav.endGameLabel")}
             >
               <span className="text-lg">🏁</span>
-              <span className="text-xs mt-1 mobile-text-sm">End Game</span>
+              <span className="text-xs mt-1 mobile-text-sm">{t("gamePlay.endGame")}</span>
             </button>
           )}
 
@@ -53,10 +55,10 @@ export function MobileNav({
           <button
             onClick={() => setIsExpanded(!isExpanded)}
             className="flex flex-col items-center p-2 rounded-lg hover:bg-gray-100 transition-colors mobile-btn"
-            aria-label="More actions"
+            aria-label={t("nav.moreLabel")}
           >
             <span className="text-lg">⋯</span>
-            <span className="text-xs mt-1 mobile-text-sm">More</span>
+            <span className="text-xs mt-1 mobile-text-sm">{t("nav.more")}</span>
           </button>
         </div>
 
@@ -71,10 +73,10 @@ export function MobileNav({
                   setIsExpanded(false);
                 }}
                 className="flex flex-col items-center p-2 rounded-lg bg-white hover:bg-gray-100 transition-colors mobile-btn"
-                aria-label="Scroll to top"
+                aria-label={t("nav.topLabel")}
               >
                 <span className="text-sm">⬆️</span>
-                <span className="text-xs mt-1 mobile-text-sm">Top</span>
+                <span className="text-xs mt-1 mobile-text-sm">{t("nav.top")}</span>
               </button>
 
               <button
@@ -83,10 +85,10 @@ export function MobileNav({
                   window.location.reload();
                 }}
                 className="flex flex-col items-center p-2 rounded-lg bg-white hover:bg-gray-100 transition-colors mobile-btn"
-                aria-label="Refresh page"
+                aria-label={t("nav.refreshLabel")}
               >
                 <span className="text-sm">🔄</span>
-                <span className="text-xs mt-1 mobile-text-sm">Refresh</span>
+                <span className="text-xs mt-1 mobile-text-sm">{t("nav.refresh")}</span>
               </button>
 
               <button
@@ -94,8 +96,8 @@ export function MobileNav({
                   // Share game (if supported)
                   if (navigator.share) {
                     navigator.share({
-                      title: 'Mölkky Score Counter',
-                      text: 'Check out this Mölkky score counter app!',
+                      title: t("app.title"),
+                      text: t("nav.shareText"),
                       url: window.location.href
                     });
                   } else {
@@ -105,10 +107,10 @@ export function MobileNav({
                   setIsExpanded(false);
                 }}
                 className="flex flex-col items-center p-2 rounded-lg bg-white hover:bg-gray-100 transition-colors mobile-btn"
-                aria-label="Share app"
+                aria-label={t("nav.shareLabel")}
               >
                 <span className="text-sm">📤</span>
-                <span className="text-xs mt-1 mobile-text-sm">Share</span>
+                <span className="text-xs mt-1 mobile-text-sm">{t("nav.share")}</span>
               </button>
             </div>
           </div>
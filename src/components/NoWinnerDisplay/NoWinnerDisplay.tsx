@@ -7,15 +7,19 @@
  */
 
 import type { Player, Team } from "../../utils/types";
+import { useLocale } from "../../context/LocaleContext";
 
 interface NoWinnerDisplayProps {
   players: Player[];
   teams?: Team[];
   gameMode: "individual" | "team";
   onReset: () => void;
+  onUndo?: () => void; // Takes back the throw that eliminated the last side
 }
 
-export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerDisplayProps) {
+export function NoWinnerDisplay({ players, teams, gameMode, onReset, onUndo }: NoWinnerDisplayProps) {
+  const { t } = useLocale();
+
   // Get eliminated players/teams for display
   const eliminatedPlayers = players.filter(p => p.eliminated);
   const eliminatedTeams = teams?.filter(t => t.eliminated) || [];
@@ -31,12 +35,12 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
         <div className="mb-4 sm:mb-4">
           <div className="text-4xl sm:text-6xl mb-3 sm:mb-4">😔</div>
           <h2 className="text-2xl sm:text-4xl md:text-5xl font-bold text-gray-600 mb-2">
-            Game Over
+            {t("noWinner.title")}
           </h2>
           <p className="text-base sm:text-lg md:text-xl text-gray-600 mb-3 sm:mb-4 px-2">
             {gameMode === "individual" 
-              ? "All players have been eliminated due to consecutive misses."
-              : "All teams have been eliminated due to consecutive misses."
+              ? t("noWinner.allPlayersEliminated")
+              : t("noWinner.allTeamsEliminated")
             }
           </p>
           
@@ -51,7 +55,7 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
         {/* Elimination Summary */}
         <div className="bg-red-50 border-2 border-red-200 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6 max-w-md mx-auto">
           <h3 className="text-base sm:text-lg font-semibold text-red-800 mb-2 text-center">
-            🚫 Elimination Summary
+            {t("noWinner.summary")}
           </h3>
           <div className="grid grid-cols-2 gap-3 sm:gap-4 text-xs sm:text-sm">
             <div className="text-center">
@@ -59,7 +63,9 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
                 {gameMode === "individual" ? eliminatedPlayers.length : eliminatedTeams.length}
               </div>
               <div className="text-red-700">
-                {gameMode === "individual" ? "Players" : "Teams"} Eliminated
+                {gameMode === "individual"
+                  ? t("noWinner.playersEliminated")
+                  : t("noWinner.teamsEliminated")}
               </div>
             </div>
             <div className="text-center">
@@ -67,7 +73,7 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
                 {gameMode === "individual" ? players.length : teams?.length || 0}
               </div>
               <div className="text-red-700">
-                {gameMode === "individual" ? "Total Players" : "Total Teams"}
+                {gameMode === "individual" ? t("noWinner.totalPlayers") : t("noWinner.totalTeams")}
               </div>
             </div>
           </div>
@@ -77,17 +83,17 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
       {/* Final Leaderboard */}
       <div className="mb-6 sm:mb-8">
         <h3 className="text-xl sm:text-2xl font-bold text-gray-800 mb-3 sm:mb-4 text-center">
-          Final Standings
+          {t("noWinner.finalStandings")}
         </h3>
         
         {gameMode === "individual" ? (
           /* Individual Game Final Standings */
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="grid grid-cols-4 gap-4 font-semibold text-gray-600 text-sm mb-3 pb-2 border-b border-gray-300">
-              <div>Position</div>
-              <div>Player</div>
-              <div className="text-center">Score</div>
-              <div className="text-center">Status</div>
+              <div>{t("common.position")}</div>
+              <div>{t("common.player")}</div>
+              <div className="text-center">{t("common.score")}</div>
+              <div className="text-center">{t("common.status")}</div>
             </div>
             
             {sortedPlayers.map((player, index) => {
@@ -115,7 +121,7 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
                     </span>
                     {isEliminated && (
                       <span className="ml-2 text-xs bg-red-200 text-red-800 px-2 py-1 rounded-full">
-                        Eliminated
+                        {t("common.eliminated")}
                       </span>
                     )}
                   </div>
@@ -126,9 +132,9 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
                   
                   <div className="text-center">
                     {isEliminated ? (
-                      <span className="text-red-600 font-medium">Eliminated</span>
+                      <span className="text-red-600 font-medium">{t("common.eliminated")}</span>
                     ) : (
-                      <span className="text-gray-400">Active</span>
+                      <span className="text-gray-400">{t("common.active")}</span>
                     )}
                   </div>
                 </div>
@@ -139,10 +145,10 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
           /* Team Game Final Standings */
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="grid grid-cols-4 gap-4 font-semibold text-gray-600 text-sm mb-3 pb-2 border-b border-gray-300">
-              <div>Position</div>
-              <div>Team</div>
-              <div className="text-center">Score</div>
-              <div className="text-center">Status</div>
+              <div>{t("common.position")}</div>
+              <div>{t("common.team")}</div>
+              <div className="text-center">{t("common.score")}</div>
+              <div className="text-center">{t("common.status")}</div>
             </div>
             
             {sortedTeams.map((team, index) => {
@@ -170,7 +176,7 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
                     </span>
                     {isEliminated && (
                       <span className="ml-2 text-xs bg-red-200 text-red-800 px-2 py-1 rounded-full">
-                        Eliminated
+                        {t("common.eliminated")}
                       </span>
                     )}
                   </div>
@@ -181,9 +187,9 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
                   
                   <div className="text-center">
                     {isEliminated ? (
-                      <span className="text-red-600 font-medium">Eliminated</span>
+                      <span className="text-red-600 font-medium">{t("common.eliminated")}</span>
                     ) : (
-                      <span className="text-gray-400">Active</span>
+                      <span className="text-gray-400">{t("common.active")}</span>
                     )}
                   </div>
                 </div>
@@ -199,12 +205,22 @@ export function NoWinnerDisplay({ players, teams, gameMode, onReset }: NoWinnerD
           onClick={onReset}
           className="px-6 sm:px-8 py-3 sm:py-3 bg-blue-500 text-white text-base sm:text-lg font-semibold rounded-lg hover:bg-blue-600 transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
         >
-          🔄 Reset & Modify Players
+          {t("noWinner.reset")}
         </button>
         
         <p className="text-xs sm:text-sm text-gray-500 mt-2 sm:mt-3">
-          Go back to setup to modify players and start a new game with the same players
+          {t("noWinner.resetHelp")}
         </p>
+        {onUndo && (
+          <button
+            onClick={onUndo}
+            className="mt-3 sm:mt-4 mobile-btn bg-gray-500 text-white hover:bg-gray-600 transition-colors font-medium text-sm shadow-md hover:shadow-lg touch-manipulation focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            aria-label={t("gamePlay.undoLabel")}
+            type="button"
+          >
+            <span aria-hidden="true">↶</span> {t("gamePlay.undo")}
+          </button>
+        )}
       </div>
     </div>
   );
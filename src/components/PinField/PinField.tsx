@@ -0,0 +1,120 @@
+/**
+ * PinField Component
+ * Diagram of the field showing where each pin stands. When onMovePin is
+ * given, pins can be dragged (or moved with the arrow keys) to where they
+ * were stood back up.
+ *
+ * @format
+ */
+
+import { useRef, useState } from "preact/hooks";
+import type { PinPosition } from "../../utils/types";
+
+interface PinFieldProps {
+  layout: PinPosition[];
+  onMovePin?: (pin: number, x: number, y: number) => void;
+  highlightedPins?: number[]; // Pins knocked down by the throw being entered
+  label?: string;
+}
+
+// Distance a pin moves per arrow key press, as a fraction of the field
+const KEYBOARD_STEP = 0.01;
+
+export function PinField({
+  layout,
+  onMovePin,
+  highlightedPins = [],
+  label = "Pin field",
+}: PinFieldProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draggedPin, setDraggedPin] = useState<number | null>(null);
+  const editable = onMovePin !== undefined;
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (draggedPin === null || !onMovePin || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    onMovePin(
+      draggedPin,
+      (e.clientX - rect.left) / rect.width,
+      (e.clientY - rect.top) / rect.height
+    );
+  };
+
+  const handleKeyDown = (e: KeyboardEvent, position: PinPosition) => {
+    if (!onMovePin) return;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    onMovePin(position.pin, position.x + move[0], position.y + move[1]);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 100 100"
+      role="group"
+      aria-label={label}
+      className={`w-full max-w-xs mx-auto block bg-green-100 border border-green-300 rounded-lg ${
+        editable ? "touch-none" : ""
+      }`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDraggedPin(null)}
+      onPointerLeave={() => setDraggedPin(null)}
+    >
+      {/* Throwing line */}
+      <line
+        x1="0"
+        y1="97"
+        x2="100"
+        y2="97"
+        stroke="#9ca3af"
+        strokeWidth="0.5"
+        strokeDasharray="2 2"
+      />
+      {layout.map((position) => {
+        const highlighted = highlightedPins.includes(position.pin);
+        return (
+          <g
+            key={position.pin}
+            transform={`translate(${position.x * 100} ${position.y * 100})`}
+            tabIndex={editable ? 0 : undefined}
+            role={editable ? "button" : undefined}
+            aria-label={`Pin ${position.pin}`}
+            onPointerDown={(e: PointerEvent) => {
+              if (!editable) return;
+              e.preventDefault();
+              setDraggedPin(position.pin);
+            }}
+            onKeyDown={(e: KeyboardEvent) => handleKeyDown(e, position)}
+            className={editable ? "cursor-grab" : undefined}
+            data-testid="pin-field-pin"
+          >
+            <circle
+              r="3.2"
+              fill={highlighted ? "#3b82f6" : "#fef3c7"}
+              stroke={draggedPin === position.pin ? "#1d4ed8" : "#92400e"}
+              strokeWidth="0.6"
+            />
+            <text
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize="3.2"
+              fontWeight="bold"
+              fill={highlighted ? "#ffffff" : "#78350f"}
+              aria-hidden="true"
+            >
+              {position.pin}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
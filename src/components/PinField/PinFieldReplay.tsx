@@ -0,0 +1,56 @@
+/**
+ * PinFieldReplay Component
+ * Steps through the pin layouts recorded during a finished game, so the
+ * spread of the field can be reviewed turn by turn
+ *
+ * @format
+ */
+
+import { useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
+import { PinField } from "./PinField";
+import { getLayoutSpread, getRecordedLayouts } from "../../utils/pinField";
+import type { Game } from "../../utils/types";
+
+interface PinFieldReplayProps {
+  game: Game;
+}
+
+export function PinFieldReplay({ game }: PinFieldReplayProps) {
+  const recorded = getRecordedLayouts(game);
+  const { t } = useLocale();
+  const [index, setIndex] = useState(recorded.length - 1);
+
+  if (recorded.length === 0) return null;
+
+  const step = recorded[Math.min(index, recorded.length - 1)];
+  const spread = getLayoutSpread(step.layout);
+
+  return (
+    <div className="mb-3">
+      <PinField
+        layout={step.layout}
+        highlightedPins={step.event.pins}
+        label={t("pinField.replayLabel", { number: index + 1 })}
+      />
+      <input
+        type="range"
+        min={0}
+        max={recorded.length - 1}
+        value={index}
+        onInput={(e) => setIndex(Number((e.target as HTMLInputElement).value))}
+        aria-label={t("pinField.recordedThrow")}
+        className="w-full mt-2"
+      />
+      <p className="text-xs sm:text-sm text-gray-600 text-center">
+        {t("pinField.replayStep", {
+          number: index + 1,
+          total: recorded.length,
+          name: step.event.playerName,
+          score: step.event.score,
+          spread: (spread * 100).toFixed(1),
+        })}
+      </p>
+    </div>
+  );
+}
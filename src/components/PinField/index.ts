@@ -0,0 +1,8 @@
+/**
+ * PinField component exports
+ *
+ * @format
+ */
+
+export { PinField } from "./PinField";
+export { PinFieldReplay } from "./PinFieldReplay";
@@ -0,0 +1,107 @@
+/**
+ * PinStats Component
+ * Shows per player how often each pin was knocked down on its own, how many
+ * pins multi-pin throws take and how often throws miss
+ *
+ * @format
+ */
+
+import { useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
+import { PIN_COUNT } from "../../utils/pinStats";
+import type { PlayerPinStats } from "../../utils/types";
+
+interface PinStatsProps {
+  stats: PlayerPinStats[];
+}
+
+const PINS = Array.from({ length: PIN_COUNT }, (_, i) => i + 1);
+
+export function PinStats({ stats }: PinStatsProps) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const { t } = useLocale();
+
+  if (stats.length === 0) return null;
+
+  const selected = stats.find((s) => s.key === selectedKey) ?? stats[0];
+  const mostHits = Math.max(...selected.singlePinHits, 1);
+
+  return (
+    <div className="p-3 sm:p-6 border-b border-gray-200">
+      <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-3 sm:mb-4 text-center">
+        {t("pinStats.title")}
+      </h3>
+
+      <div className="flex flex-wrap justify-center gap-1 sm:gap-2 mb-3">
+        {stats.map((entry) => (
+          <button
+            key={entry.key}
+            type="button"
+            onClick={() => setSelectedKey(entry.key)}
+            aria-pressed={entry.key === selected.key}
+            className={`px-3 py-1 text-xs sm:text-sm rounded-full border touch-manipulation ${
+              entry.key === selected.key
+                ? "bg-blue-500 text-white border-blue-500"
+                : "bg-gray-50 text-gray-700 border-gray-300 hover:bg-blue-50"
+            }`}
+          >
+            {entry.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-3">
+        <div className="bg-blue-50 p-2 sm:p-3 rounded-lg text-center">
+          <div className="text-lg sm:text-xl font-bold text-blue-600">
+            {selected.throws}
+          </div>
+          <div className="text-xs sm:text-sm text-blue-700">
+            {t("pinStats.throws")}
+          </div>
+        </div>
+        <div className="bg-red-50 p-2 sm:p-3 rounded-lg text-center">
+          <div className="text-lg sm:text-xl font-bold text-red-600">
+            {Math.round(selected.missRate)}%
+          </div>
+          <div className="text-xs sm:text-sm text-red-700">
+            {t("pinStats.missRate")}
+          </div>
+        </div>
+        <div className="bg-green-50 p-2 sm:p-3 rounded-lg text-center">
+          <div className="text-lg sm:text-xl font-bold text-green-600">
+            {selected.averagePinsPerMultiPinThrow.toFixed(1)}
+          </div>
+          <div className="text-xs sm:text-sm text-green-700">
+            {t("pinStats.averagePins")}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs sm:text-sm text-gray-600 mb-2">
+        {t("pinStats.singleHits")}
+      </p>
+      <div
+        className="grid grid-cols-6 sm:grid-cols-12 gap-1"
+        aria-label={t("pinStats.singleHitsLabel", { name: selected.name })}
+      >
+        {PINS.map((pin) => {
+          const hits = selected.singlePinHits[pin - 1];
+          return (
+            <div
+              key={pin}
+              className="text-center rounded border border-gray-200 py-1"
+              style={{
+                backgroundColor: `rgba(59, 130, 246, ${(hits / mostHits) * 0.6})`,
+              }}
+              title={t("pinStats.pinHits", { pin, count: hits })}
+              data-testid="pin-hit-count"
+            >
+              <div className="text-xs text-gray-600">{pin}</div>
+              <div className="text-sm font-semibold text-gray-800">{hits}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
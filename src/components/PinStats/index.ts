@@ -0,0 +1,7 @@
+/**
+ * PinStats component exports
+ *
+ * @format
+ */
+
+export { PinStats } from "./PinStats";
@@ -7,10 +7,20 @@
 
 import { useState } from "preact/hooks";
 import type { Player } from "../../utils/types";
-import { validatePlayerName } from "../../utils/validation";
+import {
+  validateHandicap,
+  validatePlayerName,
+} from "../../utils/validation";
+import { DEFAULT_RULE_SET } from "../../utils/rules";
+import {
+  createPlayerFromProfile,
+  createPlayerProfile,
+  findProfileByName,
+} from "../../utils/roster";
 import { useGameContext } from "../../context/GameContext";
 import { useToast } from "../Toast";
 import { InlineSpinner } from "../LoadingSpinner";
+import { useLocale } from "../../context/LocaleContext";
 
 interface PlayerManagerProps {
   players: Player[];
@@ -19,8 +29,14 @@ interface PlayerManagerProps {
 }
 
 export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
-  const { dispatch } = useGameContext();
+  const { state, dispatch } = useGameContext();
+  const roster = state.roster || [];
+  // Saved players who are not in the game yet
+  const availableProfiles = roster.filter(
+    (profile) => !players.some((p) => p.profileId === profile.id)
+  );
   const { addToast } = useToast();
+  const { t } = useLocale();
   const [newPlayerName, setNewPlayerName] = useState("");
   const [editingPlayer, setEditingPlayer] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
@@ -35,11 +51,6 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     setTimeout(() => setError(null), 3000);
   };
 
-  // Generate unique ID for new players
-  const generatePlayerId = (): string => {
-    return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  };
-
   // Handle adding a new player
   const handleAddPlayer = async () => {
     if (isSubmitting) return;
@@ -47,11 +58,11 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     const validation = validatePlayerName(newPlayerName, players);
 
     if (!validation.isValid) {
-      setError(validation.error || "Invalid player name");
+      setError(validation.error || t("players.invalidName"));
       addToast({
         type: "error",
-        title: "Invalid Player Name",
-        message: validation.error || "Invalid player name",
+        title: t("players.invalidNameTitle"),
+        message: validation.error || t("players.invalidName"),
       });
       clearError();
       return;
@@ -60,13 +71,13 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     setIsSubmitting(true);
 
     try {
-      const newPlayer: Player = {
-        id: generatePlayerId(),
-        name: newPlayerName.trim(),
-        score: 0,
-        penalties: 0,
-        isActive: false,
-      };
+      // Play as the saved player with this name, or save a new one
+      let profile = findProfileByName(roster, newPlayerName);
+      if (!profile) {
+        profile = createPlayerProfile(newPlayerName);
+        dispatch({ type: "ADD_PROFILE", payload: profile });
+      }
+      const newPlayer = createPlayerFromProfile(profile);
 
       dispatch({ type: "ADD_PLAYER", payload: newPlayer });
       setNewPlayerName("");
@@ -74,15 +85,15 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
       
       addToast({
         type: "success",
-        title: "Player Added",
-        message: `Player "${newPlayer.name}" has been added successfully.`,
+        title: t("players.addedTitle"),
+        message: t("players.addedMessage", { name: newPlayer.name }),
       });
     } catch (err) {
-      const errorMessage = "Failed to add player. Please try again.";
+      const errorMessage = t("players.addFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Add Player",
+        title: t("players.addFailedTitle"),
         message: errorMessage,
       });
     } finally {
@@ -90,6 +101,22 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     }
   };
 
+  // Handle adding a saved player from the roster
+  const handleAddSavedPlayer = (profileId: string) => {
+    const profile = roster.find((p) => p.id === profileId);
+    if (!profile || gameActive) return;
+
+    const validation = validatePlayerName(profile.name, players);
+    if (!validation.isValid) {
+      setError(validation.error || t("players.invalidName"));
+      clearError();
+      return;
+    }
+
+    dispatch({ type: "ADD_PLAYER", payload: createPlayerFromProfile(profile) });
+    setError(null);
+  };
+
   // Handle starting to edit a player name
   const handleStartEdit = (player: Player) => {
     if (gameActive) return;
@@ -103,15 +130,20 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
   const handleSaveEdit = async () => {
     if (!editingPlayer || isSubmitting) return;
 
-    const otherPlayers = players.filter((p) => p.id !== editingPlayer);
-    const validation = validatePlayerName(editingName, otherPlayers);
+    const profileId = players.find((p) => p.id === editingPlayer)?.profileId;
+    // Saved players keep unique names across the whole roster
+    const otherNames = [
+      ...players.filter((p) => p.id !== editingPlayer),
+      ...roster.filter((p) => p.id !== profileId),
+    ];
+    const validation = validatePlayerName(editingName, otherNames);
 
     if (!validation.isValid) {
-      setError(validation.error || "Invalid player name");
+      setError(validation.error || t("players.invalidName"));
       addToast({
         type: "error",
-        title: "Invalid Player Name",
-        message: validation.error || "Invalid player name",
+        title: t("players.invalidNameTitle"),
+        message: validation.error || t("players.invalidName"),
       });
       clearError();
       return;
@@ -120,13 +152,21 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     setIsSubmitting(true);
 
     try {
-      dispatch({
-        type: "UPDATE_PLAYER",
-        payload: {
-          id: editingPlayer,
-          updates: { name: editingName.trim() },
-        },
-      });
+      if (profileId) {
+        // Renaming the profile carries the player's history with it
+        dispatch({
+          type: "RENAME_PROFILE",
+          payload: { profileId, name: editingName.trim() },
+        });
+      } else {
+        dispatch({
+          type: "UPDATE_PLAYER",
+          payload: {
+            id: editingPlayer,
+            updates: { name: editingName.trim() },
+          },
+        });
+      }
 
       setEditingPlayer(null);
       setEditingName("");
@@ -134,15 +174,15 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
       
       addToast({
         type: "success",
-        title: "Player Updated",
-        message: `Player name has been updated successfully.`,
+        title: t("players.updatedTitle"),
+        message: t("players.updatedMessage"),
       });
     } catch (err) {
-      const errorMessage = "Failed to update player. Please try again.";
+      const errorMessage = t("players.updateFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Update Player",
+        title: t("players.updateFailedTitle"),
         message: errorMessage,
       });
     } finally {
@@ -157,6 +197,28 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     setError(null);
   };
 
+  // Handle changing a player's handicap starting score
+  const handleHandicapChange = (player: Player, value: string) => {
+    if (gameActive) return;
+
+    const handicap = value.trim() === "" ? 0 : Number(value);
+    const validation = validateHandicap(
+      handicap,
+      state.rules || DEFAULT_RULE_SET
+    );
+    if (!validation.isValid) {
+      setError(validation.error || t("common.invalidStartingScore"));
+      clearError();
+      return;
+    }
+
+    dispatch({
+      type: "UPDATE_PLAYER",
+      payload: { id: player.id, updates: { handicap } },
+    });
+    setError(null);
+  };
+
   // Handle removing a player
   const handleRemovePlayer = async (playerId: string) => {
     if (gameActive || isSubmitting) return;
@@ -172,14 +234,14 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
       
       addToast({
         type: "info",
-        title: "Player Removed",
-        message: `Player "${playerToRemove.name}" has been removed.`,
+        title: t("players.removedTitle"),
+        message: t("players.removedMessage", { name: playerToRemove.name }),
       });
     } catch (err) {
       addToast({
         type: "error",
-        title: "Failed to Remove Player",
-        message: "Failed to remove player. Please try again.",
+        title: t("players.removeFailedTitle"),
+        message: t("players.removeFailed"),
       });
     } finally {
       setIsSubmitting(false);
@@ -199,9 +261,16 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
     }
   };
 
+  // The player's name is shown in bold within the confirmation sentence
+  const [confirmBefore, confirmAfter] = t(
+    "players.confirmRemovalMessage"
+  ).split("{name}");
+
   return (
     <div class="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 sm:mb-6 mobile-card">
-      <h2 class="text-lg sm:text-2xl font-bold text-gray-800 mb-3 sm:mb-4 text-center mobile-text-lg">Players</h2>
+      <h2 class="text-lg sm:text-2xl font-bold text-gray-800 mb-3 sm:mb-4 text-center mobile-text-lg">
+        {t("players.title")}
+      </h2>
 
       {/* Error Display */}
       {error && (
@@ -220,19 +289,19 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
           <div class="flex flex-col sm:flex-row gap-2">
             <input
               type="text"
-              aria-label="Player name"
+              aria-label={t("players.nameLabel")}
               value={newPlayerName}
               onInput={(e) =>
                 setNewPlayerName((e.target as HTMLInputElement).value)
               }
               onKeyDown={(e) => handleKeyPress(e, "add")}
-              placeholder="Enter player name"
+              placeholder={t("players.namePlaceholder")}
               class="mobile-input flex-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
               maxLength={50}
               disabled={gameActive}
             />
             <button
-              aria-label="Add player"
+              aria-label={t("players.addLabel")}
               onClick={handleAddPlayer}
               disabled={!newPlayerName.trim() || gameActive || isSubmitting}
               class="mobile-btn bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed min-w-[100px] font-medium transition-all duration-200 text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation flex items-center justify-center"
@@ -240,13 +309,34 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
               {isSubmitting ? (
                 <>
                   <InlineSpinner size="sm" variant="primary" />
-                  <span className="ml-2">Adding...</span>
+                  <span className="ml-2">{t("players.adding")}</span>
                 </>
               ) : (
-                "Add Player"
+                t("players.add")
               )}
             </button>
           </div>
+
+          {/* Saved Players */}
+          {availableProfiles.length > 0 && (
+            <div class="mt-2 sm:mt-3">
+              <p class="text-xs sm:text-sm text-gray-600 mb-1">
+                {t("players.saved")}
+              </p>
+              <div class="flex flex-wrap gap-1 sm:gap-2">
+                {availableProfiles.map((profile) => (
+                  <button
+                    key={profile.id}
+                    aria-label={t("players.addSaved", { name: profile.name })}
+                    onClick={() => handleAddSavedPlayer(profile.id)}
+                    class="px-3 py-1 text-xs sm:text-sm bg-gray-100 text-gray-700 border border-gray-300 rounded-full hover:bg-blue-50 hover:border-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500 touch-manipulation"
+                  >
+                    + {profile.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -254,7 +344,7 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
       <div class="space-y-2 sm:space-y-3 mobile-player-list">
         {players.length === 0 ? (
           <p class="text-gray-500 text-center py-4 text-xs sm:text-base mobile-text-sm">
-            No players added yet. Add at least 2 players to start a game.
+            {t("players.empty")}
           </p>
         ) : (
           players.map((player, index) => (
@@ -275,7 +365,7 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
                   <div class="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-2 w-full">
                     <input
                       type="text"
-                      aria-label="Edit player name"
+                      aria-label={t("players.editNameLabel")}
                       value={editingName}
                       onInput={(e) =>
                         setEditingName((e.target as HTMLInputElement).value)
@@ -287,7 +377,7 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
                     />
                     <div class="flex space-x-2">
                       <button
-                        aria-label="Save player name"
+                        aria-label={t("players.saveNameLabel")}
                         onClick={handleSaveEdit}
                         disabled={isSubmitting}
                         class="px-3 py-2 bg-green-500 text-white rounded text-sm hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation flex items-center"
@@ -295,19 +385,19 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
                         {isSubmitting ? (
                           <>
                             <InlineSpinner size="sm" variant="primary" />
-                            <span className="ml-1">Saving...</span>
+                            <span className="ml-1">{t("common.saving")}</span>
                           </>
                         ) : (
-                          "Save"
+                          t("common.save")
                         )}
                       </button>
                       <button
-                        aria-label="Cancel player name edit"
+                        aria-label={t("players.cancelEditLabel")}
                         onClick={handleCancelEdit}
                         disabled={isSubmitting}
                         class="px-3 py-2 bg-gray-500 text-white rounded text-sm hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
                       >
-                        Cancel
+                        {t("common.cancel")}
                       </button>
                     </div>
                   </div>
@@ -323,12 +413,12 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
                     <div class="flex flex-wrap gap-1 sm:gap-2">
                       {player.isActive && (
                         <span class="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
-                          Current Turn
+                          {t("common.currentTurn")}
                         </span>
                       )}
                       {gameActive && (
                         <span class="text-xs sm:text-sm text-gray-500">
-                          Score: {player.score}
+                          {t("players.score", { score: player.score })}
                         </span>
                       )}
                     </div>
@@ -339,19 +429,36 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
               {/* Action Buttons */}
               {!gameActive && editingPlayer !== player.id && (
                 <div class="flex items-center space-x-2 mt-2 sm:mt-0">
+                  <label class="flex items-center space-x-1 text-xs sm:text-sm text-gray-600">
+                    <span>{t("common.headStart")}</span>
+                    <input
+                      type="number"
+                      aria-label={t("common.headStartFor", { name: player.name })}
+                      min={0}
+                      max={(state.rules || DEFAULT_RULE_SET).targetScore - 1}
+                      value={player.handicap || 0}
+                      onChange={(e) =>
+                        handleHandicapChange(
+                          player,
+                          (e.target as HTMLInputElement).value
+                        )
+                      }
+                      class="w-14 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </label>
                   <button
-                    aria-label="Edit player"
+                    aria-label={t("players.editLabel")}
                     onClick={() => handleStartEdit(player)}
                     class="px-3 py-2 text-sm bg-yellow-500 text-white rounded hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
                   >
-                    Edit
+                    {t("common.edit")}
                   </button>
                   <button
-                    aria-label="Delete player"
+                    aria-label={t("players.deleteLabel")}
                     onClick={() => setShowDeleteConfirm(player.id)}
                     class="px-3 py-2 text-sm bg-red-500 text-white rounded hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
                   >
-                    Remove
+                    {t("common.remove")}
                   </button>
                 </div>
               )}
@@ -365,21 +472,21 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
         <div class="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div class="bg-white rounded-lg p-4 sm:p-6 max-w-sm mx-4 w-full">
             <h3 class="text-lg font-semibold text-gray-800 mb-3 sm:mb-4 text-center">
-              Confirm Removal
+              {t("players.confirmRemoval")}
             </h3>
             <p class="text-sm sm:text-base text-gray-600 mb-4 sm:mb-6 text-center">
-              Are you sure you want to remove{" "}
+              {confirmBefore}
               <span class="font-medium">
                 {players.find((p) => p.id === showDeleteConfirm)?.name}
               </span>
-              ? This action cannot be undone.
+              {confirmAfter}
             </p>
             <div class="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-3">
               <button
                 onClick={() => setShowDeleteConfirm(null)}
                 class="px-4 py-3 sm:py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 transition-all duration-200 text-sm sm:text-base shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
               >
-                Cancel
+                {t("common.cancel")}
               </button>
               <button
                 onClick={() => handleRemovePlayer(showDeleteConfirm)}
@@ -389,10 +496,10 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
                 {isSubmitting ? (
                   <>
                     <InlineSpinner size="sm" variant="primary" />
-                    <span className="ml-2">Removing...</span>
+                    <span className="ml-2">{t("common.removing")}</span>
                   </>
                 ) : (
-                  "Remove"
+                  t("common.remove")
                 )}
               </button>
             </div>
@@ -402,17 +509,13 @@ export function PlayerManager({ players, gameActive }: PlayerManagerProps) {
 
       {/* Player Count Info */}
       <div class="mt-4 text-xs sm:text-sm text-gray-600 text-center">
-        {players.length === 1 && <p>Add 1 more player to start a game.</p>}
+        {players.length === 1 && <p>{t("players.oneMore")}</p>}
         {players.length >= 2 && !gameActive && (
           <p class="text-green-600">
-            Ready to start! {players.length} players added.
-          </p>
-        )}
-        {gameActive && (
-          <p class="text-blue-600">
-            Game in progress. Player management is disabled.
+            {t("players.ready", { count: players.length })}
           </p>
         )}
+        {gameActive && <p class="text-blue-600">{t("players.inProgress")}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,242 @@
+/**
+ * RuleSetSelector Component
+ * Lets users pick a preset rule set or edit the scoring rules before a game starts
+ *
+ * @format
+ */
+
+import { useState } from "preact/hooks";
+import { useGameContext } from "../../context/GameContext";
+import { useLocale } from "../../context/LocaleContext";
+import {
+  DEFAULT_RULE_SET,
+  RULE_SET_PRESETS,
+  isSameRuleSet,
+} from "../../utils/rules";
+import { validateRuleSet } from "../../utils/validation";
+import type { MessageKey } from "../../utils/i18n";
+import type { RuleSet } from "../../utils/types";
+
+// Preset names are stored in English and translated for display
+const PRESET_NAMES: Record<string, MessageKey> = {
+  Standard: "rules.standard",
+  "Quick Game": "rules.quickGame",
+  "No Elimination": "rules.noElimination",
+};
+
+interface RuleSetSelectorProps {
+  gameActive: boolean;
+}
+
+export function RuleSetSelector({ gameActive }: RuleSetSelectorProps) {
+  const { state, dispatch } = useGameContext();
+  const { t } = useLocale();
+  const rules = state.rules || DEFAULT_RULE_SET;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<RuleSet>(rules);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyRules = (newRules: RuleSet): boolean => {
+    if (gameActive) return false; // Cannot change rules during active game
+
+    const validation = validateRuleSet(newRules);
+    if (!validation.isValid) {
+      setError(validation.error || t("rules.invalid"));
+      return false;
+    }
+
+    setError(null);
+    dispatch({ type: "SET_RULES", payload: newRules });
+    return true;
+  };
+
+  const handlePresetSelect = (preset: RuleSet) => {
+    if (applyRules(preset)) {
+      setDraft(preset);
+      setIsEditing(false);
+    }
+  };
+
+  const handleStartEditing = () => {
+    setDraft(rules);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (applyRules(draft)) {
+      setIsEditing(false);
+    }
+  };
+
+  const updateDraft = (updates: Partial<RuleSet>) => {
+    setDraft((prev) => ({ ...prev, ...updates, name: "Custom" }));
+  };
+
+  const parseNumber = (e: Event): number =>
+    parseInt((e.target as HTMLInputElement).value, 10);
+
+  const describeRules = (ruleSet: RuleSet): string =>
+    t("rules.summary", {
+      target: ruleSet.targetScore,
+      reset: ruleSet.resetScore,
+      elimination:
+        ruleSet.eliminationMisses === null
+          ? t("rules.summaryNoElimination")
+          : t("rules.summaryElimination", {
+              count: ruleSet.eliminationMisses,
+            }),
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mobile-text-lg">
+          {t("rules.title")}
+        </h2>
+        {!gameActive && !isEditing && (
+          <button
+            type="button"
+            onClick={handleStartEditing}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium touch-manipulation"
+            aria-label={t("rules.editLabel")}
+          >
+            {t("rules.edit")}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+        {RULE_SET_PRESETS.map((preset) => {
+          const selected = isSameRuleSet(preset, rules);
+          return (
+            <button
+              key={preset.name}
+              type="button"
+              onClick={() => handlePresetSelect(preset)}
+              disabled={gameActive}
+              aria-pressed={selected}
+              className={`mobile-btn p-2 sm:p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                selected
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 bg-gray-50 text-gray-600 hover:border-gray-300 hover:bg-gray-100"
+              } ${gameActive ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+            >
+              <h3 className="font-semibold text-sm sm:text-base mobile-text-base">
+                {PRESET_NAMES[preset.name]
+                  ? t(PRESET_NAMES[preset.name])
+                  : preset.name}
+              </h3>
+              <p className="text-xs mobile-text-sm">{describeRules(preset)}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      {!RULE_SET_PRESETS.some((preset) => isSameRuleSet(preset, rules)) &&
+        !isEditing && (
+          <p className="mt-3 text-xs sm:text-sm text-gray-600 mobile-text-sm">
+            {t("rules.custom", {
+              summary: describeRules(rules),
+              threshold: rules.outOfTurnThreshold,
+            })}
+          </p>
+        )}
+
+      {isEditing && (
+        <div className="mt-3 sm:mt-4 p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs sm:text-sm text-gray-700">
+              {t("rules.targetScore")}
+              <input
+                type="number"
+                aria-label={t("rules.targetScore")}
+                value={draft.targetScore}
+                onInput={(e) => updateDraft({ targetScore: parseNumber(e) })}
+                className="mobile-input w-full mt-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-xs sm:text-sm text-gray-700">
+              {t("rules.resetScore")}
+              <input
+                type="number"
+                aria-label={t("rules.resetScore")}
+                value={draft.resetScore}
+                onInput={(e) => updateDraft({ resetScore: parseNumber(e) })}
+                className="mobile-input w-full mt-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-xs sm:text-sm text-gray-700">
+              {t("rules.outOfTurnThreshold")}
+              <input
+                type="number"
+                aria-label={t("rules.outOfTurnThreshold")}
+                value={draft.outOfTurnThreshold}
+                onInput={(e) =>
+                  updateDraft({ outOfTurnThreshold: parseNumber(e) })
+                }
+                className="mobile-input w-full mt-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-xs sm:text-sm text-gray-700">
+              {t("rules.eliminationMisses")}
+              <input
+                type="number"
+                aria-label={t("rules.eliminationMisses")}
+                value={draft.eliminationMisses ?? ""}
+                disabled={draft.eliminationMisses === null}
+                onInput={(e) =>
+                  updateDraft({ eliminationMisses: parseNumber(e) })
+                }
+                className="mobile-input w-full mt-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-200"
+              />
+            </label>
+          </div>
+          <label className="flex items-center space-x-2 text-xs sm:text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.eliminationMisses !== null}
+              onChange={(e) =>
+                updateDraft({
+                  eliminationMisses: (e.target as HTMLInputElement).checked
+                    ? DEFAULT_RULE_SET.eliminationMisses
+                    : null,
+                })
+              }
+            />
+            <span>{t("rules.eliminate")}</span>
+          </label>
+
+          {error && (
+            <div
+              role="alert"
+              className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm"
+            >
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setIsEditing(false);
+                setError(null);
+              }}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-100 text-sm touch-manipulation"
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm font-medium touch-manipulation"
+            >
+              {t("rules.save")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { RuleSetSelector } from "./RuleSetSelector";
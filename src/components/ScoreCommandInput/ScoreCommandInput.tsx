@@ -0,0 +1,138 @@
+/**
+ * ScoreCommandInput Component
+ * Takes score commands such as "seven", "three pins", "miss", "penalty" or
+ * "undo", typed or, where the browser supports it, spoken
+ *
+ * @format
+ */
+
+import { useEffect, useRef, useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
+import { getLocaleTag } from "../../utils/i18n";
+import { parseFirstScoreCommand } from "../../utils/scoreCommand";
+import type { ScoreCommand } from "../../utils/scoreCommand";
+import {
+  getSpeechRecognizer,
+  listenForPhrase,
+} from "../../utils/speechRecognition";
+import type { SpeechRecognizerConstructor } from "../../utils/speechRecognition";
+
+interface ScoreCommandInputProps {
+  onCommand: (command: ScoreCommand) => void;
+  disabled?: boolean;
+  speechRecognizer?: SpeechRecognizerConstructor | null; // Defaults to the browser's
+}
+
+export function ScoreCommandInput({
+  onCommand,
+  disabled = false,
+  speechRecognizer = getSpeechRecognizer(),
+}: ScoreCommandInputProps) {
+  const { locale, t } = useLocale();
+  const [text, setText] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [listening, setListening] = useState(false);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+
+  // Stop listening when the input goes away, such as when the game ends
+  useEffect(() => () => stopListeningRef.current?.(), []);
+
+  // Run the first phrase understood, or explain what can be said
+  const runPhrases = (phrases: string[]) => {
+    const command = parseFirstScoreCommand(phrases);
+    if (!command) {
+      setMessage(t("scoreCommand.notUnderstood", { text: phrases[0] ?? "" }));
+      return false;
+    }
+    setMessage(null);
+    onCommand(command);
+    return true;
+  };
+
+  const handleSubmit = (e: Event) => {
+    e.preventDefault();
+    if (disabled || !text.trim()) return;
+    if (runPhrases([text])) setText("");
+  };
+
+  const handleListen = () => {
+    if (!speechRecognizer) return;
+    if (stopListeningRef.current) {
+      stopListeningRef.current();
+      return;
+    }
+    setMessage(null);
+    setListening(true);
+    stopListeningRef.current = listenForPhrase(speechRecognizer, {
+      lang: getLocaleTag(locale),
+      onResult: runPhrases,
+      onError: (error) => {
+        // Stopping on purpose is not a failure
+        if (error !== "aborted") setMessage(t("scoreCommand.speechFailed"));
+      },
+      onEnd: () => {
+        stopListeningRef.current = null;
+        setListening(false);
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-3 sm:mb-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          aria-label={t("scoreCommand.label")}
+          value={text}
+          onInput={(e) => setText((e.target as HTMLInputElement).value)}
+          placeholder={t("scoreCommand.placeholder")}
+          disabled={disabled}
+          className="mobile-input flex-1 min-w-0 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          className="mobile-btn bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium text-sm shadow-md touch-manipulation"
+        >
+          {t("scoreCommand.enter")}
+        </button>
+        {speechRecognizer && (
+          <button
+            type="button"
+            onClick={handleListen}
+            disabled={disabled}
+            aria-pressed={listening}
+            aria-label={
+              listening
+                ? t("scoreCommand.stopListening")
+                : t("scoreCommand.listen")
+            }
+            className={`mobile-btn text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm shadow-md touch-manipulation ${
+              listening
+                ? "bg-red-500 hover:bg-red-600 focus:ring-red-500"
+                : "bg-gray-500 hover:bg-gray-600 focus:ring-gray-500"
+            }`}
+          >
+            <span aria-hidden="true">🎤</span>
+          </button>
+        )}
+      </div>
+      {listening && (
+        <p
+          aria-live="polite"
+          className="text-xs text-gray-600 mt-1 text-center mobile-text-sm"
+        >
+          {t("scoreCommand.listening")}
+        </p>
+      )}
+      {message && (
+        <p
+          role="status"
+          className="text-xs text-red-700 mt-1 text-center mobile-text-sm"
+        >
+          {message}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * ScoreCommandInput component exports
+ *
+ * @format
+ */
+
+export { ScoreCommandInput } from "./ScoreCommandInput";
@@ -6,45 +6,68 @@
  */
 
 import { useState } from "preact/hooks";
-import type { Player } from "../../utils/types";
+import type { PinPosition, Player } from "../../utils/types";
 import { validateScore } from "../../utils/validation";
 import { useGameContext } from "../../context/GameContext";
+import { DEFAULT_RULE_SET } from "../../utils/rules";
 import { useToast } from "../Toast";
 import { InlineSpinner } from "../LoadingSpinner";
+import { PinField } from "../PinField";
+import { getCurrentLayout, movePin } from "../../utils/pinField";
+import { useAimingAdvice } from "../../hooks/useAimingAdvice";
+import { useLocale } from "../../context/LocaleContext";
+import { ScoreCommandInput } from "../ScoreCommandInput";
+import type { ScoreCommand } from "../../utils/scoreCommand";
 
 interface ScoreInputProps {
   currentPlayer: Player;
   onScoreSubmit?: (
     playerId: string,
     score: number,
-    scoringType: "single" | "multiple"
+    scoringType: "single" | "multiple",
+    pins?: number[], // Pins knocked down, empty for a miss
+    layout?: PinPosition[] // Where the pins stand after the throw, when tracked
   ) => void;
   onPenalty?: (playerId: string, reason?: string) => void;
+  onUndo?: () => void;
 }
 
 export function ScoreInput({
   currentPlayer,
   onScoreSubmit,
   onPenalty,
+  onUndo,
 }: ScoreInputProps) {
-  const { dispatch } = useGameContext();
+  const { state, dispatch } = useGameContext();
+  const rules = state.currentGame?.rules || state.rules || DEFAULT_RULE_SET;
   const { addToast } = useToast();
+  const { t } = useLocale();
   const [selectedPins, setSelectedPins] = useState<number[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [showPenaltyConfirm, setShowPenaltyConfirm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Pin positions being arranged for this throw; null shows the field as left
+  const [draftLayout, setDraftLayout] = useState<PinPosition[] | null>(null);
+  const { suggestions } = useAimingAdvice(currentPlayer);
 
   if (currentPlayer.eliminated) {
     return (
       <div className="bg-gray-100 border border-gray-300 rounded-lg p-4 text-center text-gray-500">
         <span className="text-lg font-semibold">
-          {currentPlayer.name} has been eliminated and cannot play further
-          turns.
+          {t("scoreInput.eliminatedNotice", { name: currentPlayer.name })}
         </span>
       </div>
     );
   }
 
+  const trackLayout = state.trackPinLayout === true;
+  const layout = draftLayout ?? getCurrentLayout(state.currentGame);
+  const submittedLayout = trackLayout ? layout : undefined;
+
+  const handleMovePin = (pin: number, x: number, y: number) => {
+    setDraftLayout(movePin(layout, pin, x, y));
+  };
+
   // Clear error after a delay
   const clearError = () => {
     setTimeout(() => setError(null), 3000);
@@ -85,7 +108,7 @@ export function ScoreInput({
       setError(null);
       try {
         if (onScoreSubmit) {
-          onScoreSubmit(currentPlayer.id, 0, "single");
+          onScoreSubmit(currentPlayer.id, 0, "single", [], submittedLayout);
         } else {
           dispatch({
             type: "SUBMIT_SCORE",
@@ -93,23 +116,26 @@ export function ScoreInput({
               playerId: currentPlayer.id,
               score: 0,
               scoringType: "single",
+              pins: [],
+              layout: submittedLayout,
             },
           });
         }
         setSelectedPins([]);
+        setDraftLayout(null);
         addToast({
           type: "info",
-          title: "Missed Throw",
-          message: `No pins knocked down for ${currentPlayer.name}.`,
+          title: t("scoreInput.missTitle"),
+          message: t("scoreInput.missMessage", { name: currentPlayer.name }),
           duration: 2000,
           priority: "low",
         });
       } catch (err) {
-        const errorMessage = "Failed to submit miss. Please try again.";
+        const errorMessage = t("scoreInput.missFailed");
         setError(errorMessage);
         addToast({
           type: "error",
-          title: "Failed to Submit Miss",
+          title: t("scoreInput.missFailedTitle"),
           message: errorMessage,
         });
         clearError();
@@ -121,14 +147,30 @@ export function ScoreInput({
       return;
     }
 
+    // Keep the pins themselves so pin statistics can be built later
+    await submitThrow(
+      score,
+      scoringType,
+      [...selectedPins].sort((a, b) => a - b)
+    );
+  };
+
+  // Submit a scoring throw, from the pin grid or a typed or spoken command
+  const submitThrow = async (
+    score: number,
+    throwType: "single" | "multiple",
+    pins?: number[] // Omitted when only the number of pins is known
+  ) => {
+    if (isSubmitting) return;
+
     // Validate score
-    const validation = validateScore(score, scoringType === "single");
+    const validation = validateScore(score, throwType === "single");
     if (!validation.isValid) {
-      setError(validation.error || "Invalid score");
+      setError(validation.error || t("scoreInput.invalidScore"));
       addToast({
         type: "error",
-        title: "Invalid Score",
-        message: validation.error || "Invalid score",
+        title: t("scoreInput.invalidScoreTitle"),
+        message: validation.error || t("scoreInput.invalidScore"),
       });
       clearError();
       return;
@@ -139,27 +181,37 @@ export function ScoreInput({
 
     try {
       if (onScoreSubmit) {
-        onScoreSubmit(currentPlayer.id, score, scoringType);
+        onScoreSubmit(currentPlayer.id, score, throwType, pins, submittedLayout);
       } else {
         dispatch({
           type: "SUBMIT_SCORE",
-          payload: { playerId: currentPlayer.id, score, scoringType },
+          payload: {
+            playerId: currentPlayer.id,
+            score,
+            scoringType: throwType,
+            pins,
+            layout: submittedLayout,
+          },
         });
       }
       setSelectedPins([]);
+      setDraftLayout(null);
       addToast({
         type: "success",
-        title: "Score Submitted",
-        message: `Score of ${score} points recorded for ${currentPlayer.name}.`,
+        title: t("scoreInput.submittedTitle"),
+        message: t("scoreInput.submittedMessage", {
+          count: score,
+          name: currentPlayer.name,
+        }),
         duration: 2000,
         priority: "low",
       });
     } catch (err) {
-      const errorMessage = "Failed to submit score. Please try again.";
+      const errorMessage = t("scoreInput.submitFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Submit Score",
+        title: t("scoreInput.submitFailedTitle"),
         message: errorMessage,
       });
       clearError();
@@ -186,17 +238,20 @@ export function ScoreInput({
       }
       addToast({
         type: "warning",
-        title: "Penalty Applied",
-        message: `Penalty applied to ${currentPlayer.name}. Score reset to 25.`,
+        title: t("scoreInput.penaltyTitle"),
+        message: t("scoreInput.penaltyMessage", {
+          name: currentPlayer.name,
+          resetScore: rules.resetScore,
+        }),
         duration: 3000,
         priority: "normal",
       });
     } catch (err) {
-      const errorMessage = "Failed to apply penalty. Please try again.";
+      const errorMessage = t("scoreInput.penaltyFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Apply Penalty",
+        title: t("scoreInput.penaltyFailedTitle"),
         message: errorMessage,
       });
       clearError();
@@ -215,8 +270,12 @@ export function ScoreInput({
     });
     addToast({
       type: "info",
-      title: "Out-of-Turn Throw",
-      message: `${currentPlayer.name}'s throw was voided. Score reset to 25 if 37 or more.`,
+      title: t("scoreInput.outOfTurnTitle"),
+      message: t("scoreInput.outOfTurnMessage", {
+        name: currentPlayer.name,
+        resetScore: rules.resetScore,
+        threshold: rules.outOfTurnThreshold,
+      }),
       duration: 3000,
       priority: "normal",
     });
@@ -230,7 +289,7 @@ export function ScoreInput({
     setError(null);
     try {
       if (onScoreSubmit) {
-        onScoreSubmit(currentPlayer.id, 0, "single");
+        onScoreSubmit(currentPlayer.id, 0, "single", [], submittedLayout);
       } else {
         dispatch({
           type: "SUBMIT_SCORE",
@@ -238,22 +297,25 @@ export function ScoreInput({
             playerId: currentPlayer.id,
             score: 0,
             scoringType: "single",
+            pins: [],
+            layout: submittedLayout,
           },
         });
       }
+      setDraftLayout(null);
       addToast({
         type: "info",
-        title: "Missed Throw",
-        message: `No pins knocked down for ${currentPlayer.name}.`,
+        title: t("scoreInput.missTitle"),
+        message: t("scoreInput.missMessage", { name: currentPlayer.name }),
         duration: 2000,
         priority: "low",
       });
     } catch (err) {
-      const errorMessage = "Failed to submit miss. Please try again.";
+      const errorMessage = t("scoreInput.missFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Submit Miss",
+        title: t("scoreInput.missFailedTitle"),
         message: errorMessage,
       });
       clearError();
@@ -264,32 +326,73 @@ export function ScoreInput({
     }
   };
 
+  // Handle a typed or spoken command the same way as the buttons
+  const handleCommand = (command: ScoreCommand) => {
+    switch (command.type) {
+      case "throw":
+        setSelectedPins([]);
+        return submitThrow(command.score, command.scoringType, command.pins);
+      case "miss":
+        return handleMiss();
+      case "penalty":
+        // A misheard command must not reset a score without confirmation
+        setShowPenaltyConfirm(true);
+        return;
+      case "undo":
+        if (onUndo) {
+          onUndo();
+        } else {
+          dispatch({ type: "UNDO" });
+        }
+        return;
+    }
+  };
+
+  // The player's name is shown in bold within the confirmation sentence
+  const [confirmBefore, confirmAfter] = t("scoreInput.confirmPenaltyMessage", {
+    resetScore: rules.resetScore,
+  }).split("{name}");
+
   return (
     <div className="mobile-container">
       {/* Mobile-optimized Title */}
       <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-3 sm:mb-4 text-center mobile-text-lg">
-        Score Entry
+        {t("scoreInput.title")}
       </h3>
 
       {/* Mobile-optimized Current Player Info */}
       <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-gray-50 rounded-lg mobile-card">
         <h4 className="text-base sm:text-lg font-medium text-gray-700 mb-2 mobile-text-base">
-          Current Player
+          {t("scoreInput.currentPlayer")}
         </h4>
         <div className="text-gray-600 mobile-text-sm">
           <p className="font-semibold text-base sm:text-lg">{currentPlayer.name}</p>
-          <p>Current Score: {currentPlayer.score} / 50</p>
-          <p>Points Needed: {Math.max(0, 50 - currentPlayer.score)}</p>
+          <p>
+            {t("scoreInput.currentScore", {
+              score: currentPlayer.score,
+              target: rules.targetScore,
+            })}
+          </p>
+          <p>
+            {t("scoreInput.pointsNeeded", {
+              points: Math.max(0, rules.targetScore - currentPlayer.score),
+            })}
+          </p>
           {currentPlayer.consecutiveMisses !== undefined && currentPlayer.consecutiveMisses > 0 && (
             <div className="mt-2 p-2 bg-yellow-100 border border-yellow-300 rounded">
               <p className="text-yellow-800 text-sm font-medium">
-                ⚠️ Consecutive Misses: {currentPlayer.consecutiveMisses}
+                {t("scoreInput.consecutiveMisses", {
+                  count: currentPlayer.consecutiveMisses,
+                })}
               </p>
-              {currentPlayer.consecutiveMisses >= 2 && (
+              {rules.eliminationMisses !== null &&
+                currentPlayer.consecutiveMisses >= rules.eliminationMisses - 1 && (
                 <p className="text-yellow-700 text-xs mt-1">
-                  {currentPlayer.consecutiveMisses === 2 
-                    ? "One more miss will eliminate this player!"
-                    : "This player is eliminated after 3 consecutive misses."
+                  {currentPlayer.consecutiveMisses === rules.eliminationMisses - 1
+                    ? t("scoreInput.oneMoreMiss")
+                    : t("scoreInput.eliminatedAfter", {
+                        count: rules.eliminationMisses,
+                      })
                   }
                 </p>
               )}
@@ -298,10 +401,12 @@ export function ScoreInput({
           {currentPlayer.eliminated && (
             <div className="mt-2 p-2 bg-red-100 border border-red-300 rounded">
               <p className="text-red-800 text-sm font-medium">
-                ❌ Player Eliminated
+                {t("scoreInput.playerEliminated")}
               </p>
               <p className="text-red-700 text-xs mt-1">
-                This player has been eliminated due to 3 consecutive misses.
+                {t("scoreInput.eliminatedDueTo", {
+                  count: rules.eliminationMisses ?? 0,
+                })}
               </p>
             </div>
           )}
@@ -319,42 +424,100 @@ export function ScoreInput({
         </div>
       )}
 
+      {/* Typed or Spoken Commands */}
+      <ScoreCommandInput onCommand={handleCommand} disabled={isSubmitting} />
+
       {/* Mobile-optimized Pin Selection Instructions */}
       <div className="mb-3 sm:mb-4 text-center">
         <h4 className="text-sm sm:text-lg font-medium text-gray-700 mb-1 sm:mb-2 mobile-text-base">
-          Select Pins Knocked Down
+          {t("scoreInput.selectPins")}
         </h4>
         <p className="text-xs sm:text-sm text-gray-600 mb-2 sm:mb-3 mobile-text-sm">
           {selectedPins.length === 0 
-            ? "Tap the pins that were knocked down"
+            ? t("scoreInput.tapPins")
             : selectedPins.length === 1
-            ? `Single pin selected: ${selectedPins[0]} points`
-            : `${selectedPins.length} pins selected: ${selectedPins.length} points`
+            ? t("scoreInput.singlePinSelected", { count: selectedPins[0] })
+            : t("scoreInput.pinsSelected", { count: selectedPins.length })
           }
         </p>
       </div>
 
       {/* Mobile-optimized Pin Selection Buttons */}
       <div className="mb-3 sm:mb-6">
-        <div className="grid grid-cols-4 sm:grid-cols-6 gap-1 sm:gap-2 justify-center mb-2 mobile-pin-grid">
-          {[...Array(12)].map((_, i) => {
-            const pin = i + 1;
-            const selected = selectedPins.includes(pin);
-            return (
-              <button
-                key={pin}
-                type="button"
-                onClick={() => togglePin(pin)}
-                disabled={isSubmitting}
-                className={`w-10 h-10 sm:w-12 sm:h-12 rounded-lg font-bold text-base sm:text-lg border-2 transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation mobile-btn
-                  ${selected ? "bg-blue-500 text-white border-blue-600" : "bg-white text-gray-700 border-gray-300 hover:border-blue-300 hover:bg-blue-50"}
-                  disabled:bg-gray-300 disabled:cursor-not-allowed`}
-                aria-pressed={selected}
-              >
-                {pin}
-              </button>
-            );
-          })}
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-center gap-2 sm:gap-4 mb-2">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-1 sm:gap-2 justify-center mobile-pin-grid">
+            {[...Array(12)].map((_, i) => {
+              const pin = i + 1;
+              const selected = selectedPins.includes(pin);
+              return (
+                <button
+                  key={pin}
+                  type="button"
+                  onClick={() => togglePin(pin)}
+                  disabled={isSubmitting}
+                  className={`w-10 h-10 sm:w-12 sm:h-12 rounded-lg font-bold text-base sm:text-lg border-2 transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation mobile-btn
+                    ${selected ? "bg-blue-500 text-white border-blue-600" : "bg-white text-gray-700 border-gray-300 hover:border-blue-300 hover:bg-blue-50"}
+                    disabled:bg-gray-300 disabled:cursor-not-allowed`}
+                  aria-pressed={selected}
+                >
+                  {pin}
+                </button>
+              );
+            })}
+          </div>
+          {/* Aiming Advice */}
+          {suggestions.length > 0 && (
+            <aside
+              aria-label={t("scoreInput.aimingAdvice")}
+              className="bg-blue-50 border border-blue-200 rounded-lg p-2 text-xs sm:text-sm sm:w-40"
+            >
+              <h5 className="font-medium text-blue-800 mb-1">{t("scoreInput.aimFor")}</h5>
+              <ol className="space-y-1">
+                {suggestions.map((option) => (
+                  <li key={`${option.type}-${option.points}`} className="text-gray-700">
+                    {option.type === "single"
+                      ? t("scoreInput.aimPin", { pin: option.points })
+                      : t("scoreInput.aimPins", { count: option.points })}
+                    {option.winChance > 0 && (
+                      <span className="ml-1 text-green-700 font-medium">{t("scoreInput.aimWins")}</span>
+                    )}
+                    {option.resetChance > 0 && (
+                      <span className="ml-1 text-red-600">{t("scoreInput.aimResets")}</span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </aside>
+          )}
+        </div>
+        {/* Pin Field Layout */}
+        <div className="mt-3 sm:mt-4">
+          <label className="flex items-center justify-center gap-2 text-xs sm:text-sm text-gray-700 mb-2">
+            <input
+              type="checkbox"
+              checked={trackLayout}
+              onChange={(e) =>
+                dispatch({
+                  type: "SET_PIN_LAYOUT_TRACKING",
+                  payload: (e.target as HTMLInputElement).checked,
+                })
+              }
+            />
+            {t("scoreInput.trackPins")}
+          </label>
+          {trackLayout && (
+            <>
+              <PinField
+                layout={layout}
+                onMovePin={handleMovePin}
+                highlightedPins={selectedPins}
+                label={t("scoreInput.pinField")}
+              />
+              <p className="text-xs text-gray-600 mt-1 text-center mobile-text-sm">
+                {t("scoreInput.dragPins")}
+              </p>
+            </>
+          )}
         </div>
         <div className="flex justify-center mt-2">
           <button
@@ -363,7 +526,7 @@ export function ScoreInput({
             disabled={isSubmitting}
             className="mobile-btn bg-gray-400 text-white hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
           >
-            Miss (0 points)
+            {t("scoreInput.miss")}
           </button>
         </div>
       </div>
@@ -371,14 +534,14 @@ export function ScoreInput({
       {/* Mobile-optimized Calculated Score Display */}
       <div className="mb-3 sm:mb-6 text-center">
         <span className="text-sm sm:text-lg font-medium text-gray-700 mobile-text-base">
-          Calculated Score:{" "}
+          {t("scoreInput.calculatedScore")}{" "}
           <span className="font-bold text-blue-700">{currentScore}</span>
         </span>
         {selectedPins.length > 0 && (
           <div className="text-xs sm:text-sm text-gray-600 mt-1 mobile-text-sm">
             {scoringType === "single" 
-              ? `Single Pin: ${selectedPins[0]}`
-              : `Multiple Pins: ${selectedPins.length}`
+              ? t("scoreInput.singlePin", { pin: selectedPins[0] })
+              : t("scoreInput.multiplePins", { count: selectedPins.length })
             }
           </div>
         )}
@@ -388,7 +551,7 @@ export function ScoreInput({
       <div className="mb-3 sm:mb-6 flex justify-center">
         <button
           type="button"
-          aria-label="Submit score"
+          aria-label={t("scoreInput.submitLabel")}
           onClick={handleScoreSubmit}
           disabled={isSubmitDisabled}
           className="mobile-btn bg-green-500 text-white hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed min-w-[120px] font-medium transition-all duration-200 text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation flex items-center justify-center"
@@ -396,10 +559,10 @@ export function ScoreInput({
           {isSubmitting ? (
             <>
               <InlineSpinner size="sm" variant="primary" />
-              <span className="ml-2">Submitting...</span>
+              <span className="ml-2">{t("scoreInput.submitting")}</span>
             </>
           ) : (
-            "Submit Score"
+            t("scoreInput.submit")
           )}
         </button>
       </div>
@@ -407,10 +570,10 @@ export function ScoreInput({
       {/* Mobile-optimized Penalty Section */}
       <div className="border-t border-gray-200 pt-3 sm:pt-6">
         <h4 className="text-sm sm:text-lg font-medium text-gray-700 mb-2 sm:mb-3 text-center mobile-text-base">
-          Penalty
+          {t("scoreInput.penalty")}
         </h4>
         <p className="text-xs text-gray-600 mb-3 sm:mb-4 text-center mobile-text-sm">
-          Apply a penalty to reset the player's score to 25 points.
+          {t("scoreInput.penaltyHelp", { resetScore: rules.resetScore })}
         </p>
         <div className="text-center">
           <button
@@ -418,7 +581,7 @@ export function ScoreInput({
             disabled={isSubmitting}
             className="mobile-btn w-full sm:w-auto bg-red-500 text-white hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium transition-all duration-200 text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
           >
-            Apply Penalty
+            {t("scoreInput.applyPenalty")}
           </button>
         </div>
       </div>
@@ -427,15 +590,15 @@ export function ScoreInput({
       <div className="mt-3 sm:mt-4 flex flex-col items-center">
         <button
           type="button"
-          aria-label="Mark out-of-turn throw"
+          aria-label={t("scoreInput.outOfTurnLabel")}
           onClick={handleOutOfTurn}
           className="mobile-btn bg-yellow-500 text-white hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium transition-all duration-200 text-sm shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
           disabled={isSubmitting}
         >
-          Mark Out-of-Turn Throw
+          {t("scoreInput.outOfTurn")}
         </button>
         <span className="text-xs text-gray-500 mt-1 mobile-text-sm">
-          Use if this player threw out of turn
+          {t("scoreInput.outOfTurnHelp")}
         </span>
       </div>
 
@@ -444,12 +607,12 @@ export function ScoreInput({
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
           <div className="bg-white rounded-lg p-3 sm:p-6 max-w-sm mx-2 sm:mx-4 w-full mobile-modal">
             <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-3 sm:mb-4 text-center mobile-text-lg">
-              Confirm Penalty
+              {t("scoreInput.confirmPenalty")}
             </h3>
             <p className="text-xs sm:text-base text-gray-600 mb-4 sm:mb-6 text-center mobile-text-sm">
-              Are you sure you want to apply a penalty to{" "}
-              <span className="font-medium">{currentPlayer.name}</span>? This
-              will reset their score to 25 points.
+              {confirmBefore}
+              <span className="font-medium">{currentPlayer.name}</span>
+              {confirmAfter}
             </p>
             <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-3">
               <button
@@ -457,7 +620,7 @@ export function ScoreInput({
                 disabled={isSubmitting}
                 className="px-4 py-3 sm:py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 text-sm sm:text-base shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
               >
-                Cancel
+                {t("common.cancel")}
               </button>
               <button
                 onClick={() => handlePenalty()}
@@ -467,10 +630,10 @@ export function ScoreInput({
                 {isSubmitting ? (
                   <>
                     <InlineSpinner size="sm" variant="primary" />
-                    <span className="ml-2">Applying...</span>
+                    <span className="ml-2">{t("scoreInput.applying")}</span>
                   </>
                 ) : (
-                  "Apply"
+                  t("scoreInput.apply")
                 )}
               </button>
             </div>
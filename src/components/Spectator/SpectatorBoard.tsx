@@ -0,0 +1,125 @@
+/**
+ * SpectatorBoard Component
+ * Large-format, read-only scoreboard for a second window or big screen.
+ * Follows the scorekeeper's window and has no controls of its own.
+ *
+ * @format
+ */
+
+import { useSpectatorState } from "../../hooks/useSpectatorState";
+import { useLocale } from "../../context/LocaleContext";
+import { DEFAULT_RULE_SET } from "../../utils/rules";
+import { getTeamThrower } from "../../utils/gameStateUtils";
+import type { AppState } from "../../utils/types";
+
+interface ScoreboardRow {
+  id: string;
+  name: string;
+  thrower?: string; // Team member up next
+  score: number;
+  misses: number;
+  eliminated: boolean;
+  active: boolean;
+}
+
+function getRows(state: AppState): ScoreboardRow[] {
+  const isTeamGame = (state.currentGame?.gameMode || state.gameMode) === "team";
+  const playing = state.gameState === "playing";
+
+  if (isTeamGame) {
+    return (state.teams || []).map((team, index) => ({
+      id: team.id,
+      name: team.name,
+      thrower: getTeamThrower(team)?.name,
+      score: team.score,
+      misses: team.consecutiveMisses || 0,
+      eliminated: team.eliminated === true,
+      active: playing && index === state.currentTeamIndex,
+    }));
+  }
+
+  return state.players.map((player, index) => ({
+    id: player.id,
+    name: player.name,
+    score: player.score,
+    misses: player.consecutiveMisses || 0,
+    eliminated: player.eliminated === true,
+    active: playing && index === state.currentPlayerIndex,
+  }));
+}
+
+export function SpectatorBoard() {
+  const { state, supported } = useSpectatorState();
+  const { t } = useLocale();
+
+  if (!supported || !state) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-8">
+        <p className="text-2xl sm:text-4xl text-center text-gray-300" role="status">
+          {supported
+            ? t("spectator.waitingForWindow")
+            : t("spectator.unsupported")}
+        </p>
+      </div>
+    );
+  }
+
+  const rules = state.currentGame?.rules || state.rules || DEFAULT_RULE_SET;
+  const rows = getRows(state);
+  const winner =
+    state.gameState === "finished"
+      ? state.currentGame?.winningTeam?.name ?? state.currentGame?.winner?.name
+      : undefined;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-4 sm:p-10" aria-label={t("spectator.label")}>
+      <h1 className="text-3xl sm:text-6xl font-bold text-center mb-6 sm:mb-10">{t("spectator.title")}</h1>
+
+      {state.gameState === "setup" && (
+        <p className="text-2xl sm:text-4xl text-center text-gray-300 mb-6" role="status">
+          {t("spectator.waitingForGame")}
+        </p>
+      )}
+
+      {winner && (
+        <p className="text-3xl sm:text-6xl text-center font-bold text-yellow-300 mb-6 sm:mb-10" role="status">
+          {t("spectator.winner", { name: winner })}
+        </p>
+      )}
+
+      <ol className="space-y-3 sm:space-y-5 max-w-5xl mx-auto">
+        {rows.map((row) => (
+          <li
+            key={row.id}
+            className={`flex items-center justify-between rounded-xl px-4 sm:px-8 py-3 sm:py-6 ${
+              row.eliminated
+                ? "bg-gray-800 text-gray-500 line-through"
+                : row.active
+                  ? "bg-blue-600 ring-4 ring-blue-300"
+                  : "bg-gray-800"
+            }`}
+            aria-current={row.active ? "true" : undefined}
+          >
+            <div className="min-w-0">
+              <div className="text-2xl sm:text-5xl font-semibold truncate">{row.name}</div>
+              {row.thrower && state.gameState === "playing" && !row.eliminated && (
+                <div className="text-lg sm:text-2xl text-gray-300">{t("spectator.next", { name: row.thrower })}</div>
+              )}
+            </div>
+            <div className="flex items-center gap-4 sm:gap-8">
+              {row.misses > 0 && !row.eliminated && (
+                <span className="text-lg sm:text-3xl text-yellow-300" aria-label={t("spectator.misses", { count: row.misses })}>
+                  {"✗".repeat(row.misses)}
+                </span>
+              )}
+              <span className="text-4xl sm:text-7xl font-bold tabular-nums" data-testid="spectator-score">
+                {row.score}
+              </span>
+              <span className="text-lg sm:text-3xl text-gray-400">/ {rules.targetScore}</span>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Spectator component exports
+ *
+ * @format
+ */
+
+export { SpectatorBoard } from "./SpectatorBoard";
@@ -0,0 +1,112 @@
+/**
+ * SyncPanel Component
+ * Lets scorekeepers on several phones join the same room on a sync relay
+ * so they all keep the same game
+ *
+ * @format
+ */
+
+import { useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
+import { useSync } from "../../hooks/useSync";
+import type { MessageKey } from "../../utils/i18n";
+import type { SyncStatus } from "../../utils/sync";
+
+// Port the reference relay (npm run sync-relay) listens on
+const DEFAULT_RELAY_PORT = 8787;
+
+const STATUS_LABELS: Record<SyncStatus, MessageKey> = {
+  connecting: "sync.connecting",
+  connected: "sync.connected",
+  offline: "sync.offline",
+  closed: "sync.closed",
+};
+
+export function SyncPanel() {
+  const { status, room, connect, disconnect } = useSync();
+  const { t } = useLocale();
+  const [relayUrl, setRelayUrl] = useState(
+    `ws://${window.location.hostname || "localhost"}:${DEFAULT_RELAY_PORT}`
+  );
+  const [roomCode, setRoomCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConnect = (e: Event) => {
+    e.preventDefault();
+    const result = connect(relayUrl, roomCode);
+    setError(result.success ? null : result.error || t("sync.connectFailed"));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
+      <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-3 mobile-text-lg">
+        <span aria-hidden="true">📡</span> {t("sync.title")}
+      </h2>
+
+      {status ? (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-gray-700" role="status">
+            {t("sync.room")} <strong>{room}</strong>: {t(STATUS_LABELS[status])}
+          </p>
+          <button
+            type="button"
+            onClick={disconnect}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-100 text-sm touch-manipulation"
+          >
+            {t("sync.leave")}
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleConnect} className="space-y-3">
+          <p className="text-xs sm:text-sm text-gray-600 mobile-text-sm">
+            {t("sync.help")}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs sm:text-sm text-gray-700">
+              {t("sync.relayLabel")}
+              <input
+                type="text"
+                aria-label={t("sync.relayLabel")}
+                value={relayUrl}
+                onInput={(e) =>
+                  setRelayUrl((e.target as HTMLInputElement).value)
+                }
+                className="mobile-input w-full mt-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-xs sm:text-sm text-gray-700">
+              {t("sync.roomLabel")}
+              <input
+                type="text"
+                aria-label={t("sync.roomLabel")}
+                value={roomCode}
+                onInput={(e) =>
+                  setRoomCode((e.target as HTMLInputElement).value)
+                }
+                className="mobile-input w-full mt-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div
+              role="alert"
+              className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm"
+            >
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm font-medium touch-manipulation"
+            >
+              {t("sync.join")}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * SyncPanel component exports
+ *
+ * @format
+ */
+
+export { SyncPanel } from "./SyncPanel";
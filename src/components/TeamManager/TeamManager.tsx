@@ -6,11 +6,25 @@
  */
 
 import { useState } from "preact/hooks";
-import type { Team, Player } from "../../utils/types";
-import { createTeam, validateTeamSetup } from "../../utils/gameStateUtils";
+import type { Team, Player, TeamRotation } from "../../utils/types";
+import {
+  createTeam,
+  validateTeamSetup,
+  DEFAULT_TEAM_ROTATION,
+} from "../../utils/gameStateUtils";
+import { validateHandicap } from "../../utils/validation";
+import { DEFAULT_RULE_SET } from "../../utils/rules";
 import { useGameContext } from "../../context/GameContext";
 import { useToast } from "../Toast";
 import { InlineSpinner } from "../LoadingSpinner";
+import { useLocale } from "../../context/LocaleContext";
+import type { MessageKey } from "../../utils/i18n";
+
+const TEAM_ROTATION_OPTIONS: { value: TeamRotation; label: MessageKey }[] = [
+  { value: "lockstep", label: "teams.rotation.lockstep" },
+  { value: "independent", label: "teams.rotation.independent" },
+  { value: "captain", label: "teams.rotation.captain" },
+];
 
 interface TeamManagerProps {
   teams: Team[];
@@ -20,8 +34,10 @@ interface TeamManagerProps {
 }
 
 export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
-  const { dispatch } = useGameContext();
+  const { state, dispatch } = useGameContext();
   const { addToast } = useToast();
+  const { t } = useLocale();
+  const teamRotation = state.teamRotation || DEFAULT_TEAM_ROTATION;
   const [newTeamName, setNewTeamName] = useState("");
   const [editingTeam, setEditingTeam] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
@@ -50,44 +66,44 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
     if (isSubmitting) return;
 
     if (!newTeamName.trim()) {
-      setError("Team name is required");
+      setError(t("teams.nameRequired"));
       addToast({
         type: "error",
-        title: "Invalid Team Name",
-        message: "Team name is required",
+        title: t("teams.invalidNameTitle"),
+        message: t("teams.nameRequired"),
       });
       clearError();
       return;
     }
 
     if (teams.some(team => team.name.toLowerCase() === newTeamName.trim().toLowerCase())) {
-      setError("Team name already exists");
+      setError(t("teams.nameExists"));
       addToast({
         type: "error",
-        title: "Duplicate Team Name",
-        message: "A team with this name already exists",
+        title: t("teams.duplicateTitle"),
+        message: t("teams.duplicateMessage"),
       });
       clearError();
       return;
     }
 
     if (selectedPlayers.length === 0) {
-      setError("At least one player must be selected");
+      setError(t("teams.noPlayers"));
       addToast({
         type: "error",
-        title: "No Players Selected",
-        message: "At least one player must be selected for the team",
+        title: t("teams.noPlayersTitle"),
+        message: t("teams.noPlayersMessage"),
       });
       clearError();
       return;
     }
 
     if (selectedPlayers.length > 4) {
-      setError("Maximum 4 players per team");
+      setError(t("teams.tooMany"));
       addToast({
         type: "error",
-        title: "Too Many Players",
-        message: "Maximum 4 players allowed per team",
+        title: t("teams.tooManyTitle"),
+        message: t("teams.tooManyMessage"),
       });
       clearError();
       return;
@@ -106,15 +122,15 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
       
       addToast({
         type: "success",
-        title: "Team Added",
-        message: `Team "${newTeam.name}" has been created successfully.`,
+        title: t("teams.addedTitle"),
+        message: t("teams.addedMessage", { name: newTeam.name }),
       });
     } catch (err) {
-      const errorMessage = "Failed to create team. Please try again.";
+      const errorMessage = t("teams.createFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Create Team",
+        title: t("teams.createFailedTitle"),
         message: errorMessage,
       });
     } finally {
@@ -136,12 +152,12 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
     if (!editingTeam || isSubmitting) return;
 
     if (!editingName.trim()) {
-      setError("Team name is required");
+      setError(t("teams.nameRequired"));
       return;
     }
 
     if (teams.some(team => team.id !== editingTeam && team.name.toLowerCase() === editingName.trim().toLowerCase())) {
-      setError("Team name already exists");
+      setError(t("teams.nameExists"));
       return;
     }
 
@@ -159,15 +175,15 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
       
       addToast({
         type: "success",
-        title: "Team Updated",
-        message: `Team name has been updated successfully.`,
+        title: t("teams.updatedTitle"),
+        message: t("teams.updatedMessage"),
       });
     } catch (err) {
-      const errorMessage = "Failed to update team. Please try again.";
+      const errorMessage = t("teams.updateFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Update Team",
+        title: t("teams.updateFailedTitle"),
         message: errorMessage,
       });
     } finally {
@@ -195,15 +211,15 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
       
       addToast({
         type: "success",
-        title: "Team Removed",
-        message: "Team has been removed successfully.",
+        title: t("teams.removedTitle"),
+        message: t("teams.removedMessage"),
       });
     } catch (err) {
-      const errorMessage = "Failed to remove team. Please try again.";
+      const errorMessage = t("teams.removeFailed");
       setError(errorMessage);
       addToast({
         type: "error",
-        title: "Failed to Remove Team",
+        title: t("teams.removeFailedTitle"),
         message: errorMessage,
       });
     } finally {
@@ -247,6 +263,24 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
     setReorderingTeam(null);
   };
 
+  // Handle changing a team's handicap starting score
+  const handleHandicapChange = (teamId: string, value: string) => {
+    if (gameActive) return;
+
+    const handicap = value.trim() === "" ? 0 : Number(value);
+    const validation = validateHandicap(handicap, state.rules || DEFAULT_RULE_SET);
+    if (!validation.isValid) {
+      setError(validation.error || t("common.invalidStartingScore"));
+      return;
+    }
+
+    dispatch({
+      type: "UPDATE_TEAM",
+      payload: { teamId, updates: { handicap } }
+    });
+    setError(null);
+  };
+
   // Handle moving a player up in the order
   const handleMovePlayerUp = (teamId: string, playerIndex: number) => {
     if (playerIndex === 0) return; // Already at the top
@@ -266,8 +300,8 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
 
     addToast({
       type: "success",
-      title: "Player Order Updated",
-      message: `${temp.name} moved up in the order.`,
+      title: t("teams.orderUpdatedTitle"),
+      message: t("teams.movedUp", { name: temp.name }),
     });
   };
 
@@ -288,8 +322,8 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
 
     addToast({
       type: "success",
-      title: "Player Order Updated",
-      message: `${temp.name} moved down in the order.`,
+      title: t("teams.orderUpdatedTitle"),
+      message: t("teams.movedDown", { name: temp.name }),
     });
   };
 
@@ -298,8 +332,8 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
     setReorderingTeam(null);
     addToast({
       type: "success",
-      title: "Player Order Saved",
-      message: "Team player order has been updated.",
+      title: t("teams.orderSavedTitle"),
+      message: t("teams.orderSavedMessage"),
     });
   };
 
@@ -309,7 +343,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
   return (
     <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mobile-card">
       <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-3 sm:mb-4 mobile-text-lg">
-        Team Management
+        {t("teams.title")}
       </h2>
 
       {/* Error Display */}
@@ -322,12 +356,12 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
       {/* Add New Team */}
       {!gameActive && (
         <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-gray-50 rounded-lg mobile-card">
-          <h3 className="text-base sm:text-lg font-medium text-gray-700 mb-2 sm:mb-3 mobile-text-base">Create New Team</h3>
+          <h3 className="text-base sm:text-lg font-medium text-gray-700 mb-2 sm:mb-3 mobile-text-base">{t("teams.create")}</h3>
           
           {/* Team Name Input */}
           <div className="mb-3 sm:mb-4">
             <label htmlFor="newTeamName" className="block text-sm font-medium text-gray-700 mb-2 mobile-text-sm">
-              Team Name
+              {t("teams.nameLabel")}
             </label>
             <input
               id="newTeamName"
@@ -335,7 +369,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
               value={newTeamName}
               onChange={(e) => setNewTeamName((e.target as HTMLInputElement).value)}
               onKeyPress={(e) => handleKeyPress(e, "add")}
-              placeholder="Enter team name"
+              placeholder={t("teams.namePlaceholder")}
               className="mobile-input w-full border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               disabled={isSubmitting}
             />
@@ -345,7 +379,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
           {availablePlayers.length > 0 && (
             <div className="mb-3 sm:mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2 mobile-text-sm">
-                Select Players ({selectedPlayers.length}/4)
+                {t("teams.selectPlayers", { count: selectedPlayers.length })}
               </label>
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mobile-grid-2">
                 {availablePlayers.map((player) => (
@@ -377,21 +411,47 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
             {isSubmitting ? (
               <InlineSpinner size="sm" />
             ) : (
-              "Create Team"
+              t("teams.createButton")
             )}
           </button>
         </div>
       )}
 
+      {/* Turn Order Within Teams */}
+      {!gameActive && (
+        <div className="mb-4 sm:mb-6">
+          <label htmlFor="teamRotation" className="block text-sm font-medium text-gray-700 mb-2 mobile-text-sm">
+            {t("teams.rotationLabel")}
+          </label>
+          <select
+            id="teamRotation"
+            value={teamRotation}
+            onChange={(e) =>
+              dispatch({
+                type: "SET_TEAM_ROTATION",
+                payload: (e.target as HTMLSelectElement).value as TeamRotation,
+              })
+            }
+            className="mobile-input w-full border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {TEAM_ROTATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.label)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Teams List */}
       <div className="space-y-3 mobile-team-management">
         <h3 className="text-base sm:text-lg font-medium text-gray-700 mobile-text-base">
-          Teams ({teams.length})
+          {t("teams.list", { count: teams.length })}
         </h3>
         
         {teams.length === 0 ? (
           <p className="text-gray-500 text-center py-4 text-xs sm:text-sm mobile-text-sm">
-            No teams created yet. Create at least 2 teams to start a team game.
+            {t("teams.empty")}
           </p>
         ) : (
           teams.map((team) => (
@@ -414,7 +474,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                     <span className="font-medium text-gray-800 mobile-text-base">{team.name}</span>
                   )}
                   <span className="text-xs text-gray-500 mobile-text-sm">
-                    {team.players.length} player{team.players.length !== 1 ? "s" : ""}
+                    {t("teams.playerCount", { count: team.players.length })}
                   </span>
                 </div>
                 
@@ -427,28 +487,40 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                           disabled={isSubmitting}
                           className="mobile-btn text-green-600 hover:text-green-800 text-xs sm:text-sm px-2 py-1 rounded"
                         >
-                          Save
+                          {t("common.save")}
                         </button>
                         <button
                           onClick={handleCancelEdit}
                           className="mobile-btn text-gray-600 hover:text-gray-800 text-xs sm:text-sm px-2 py-1 rounded"
                         >
-                          Cancel
+                          {t("common.cancel")}
                         </button>
                       </>
                     ) : (
                       <>
+                        <label className="flex items-center space-x-1 text-xs text-gray-600">
+                          <span>{t("common.headStart")}</span>
+                          <input
+                            type="number"
+                            aria-label={t("common.headStartFor", { name: team.name })}
+                            min={0}
+                            max={(state.rules || DEFAULT_RULE_SET).targetScore - 1}
+                            value={team.handicap || 0}
+                            onChange={(e) => handleHandicapChange(team.id, (e.target as HTMLInputElement).value)}
+                            className="w-14 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </label>
                         <button
                           onClick={() => handleStartEdit(team)}
                           className="mobile-btn text-blue-600 hover:text-blue-800 text-xs sm:text-sm px-2 py-1 rounded"
                         >
-                          Edit
+                          {t("common.edit")}
                         </button>
                         <button
                           onClick={() => setShowDeleteConfirm(team.id)}
                           className="mobile-btn text-red-600 hover:text-red-800 text-xs sm:text-sm px-2 py-1 rounded"
                         >
-                          Remove
+                          {t("common.remove")}
                         </button>
                       </>
                     )}
@@ -459,7 +531,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
               {/* Team Players */}
               <div className="mt-2">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700 mobile-text-sm">Players:</span>
+                  <span className="text-sm font-medium text-gray-700 mobile-text-sm">{t("teams.players")}</span>
                   {!gameActive && team.players.length > 1 && (
                     <div className="flex items-center space-x-1 sm:space-x-2">
                       {reorderingTeam === team.id ? (
@@ -468,13 +540,13 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                             onClick={() => handleSaveReorder(team.id)}
                             className="mobile-btn text-green-600 hover:text-green-800 text-xs px-2 py-1 rounded"
                           >
-                            Save Order
+                            {t("teams.saveOrder")}
                           </button>
                           <button
                             onClick={handleCancelReorder}
                             className="mobile-btn text-gray-600 hover:text-gray-800 text-xs px-2 py-1 rounded"
                           >
-                            Cancel
+                            {t("common.cancel")}
                           </button>
                         </>
                       ) : (
@@ -482,7 +554,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                           onClick={() => handleStartReorder(team)}
                           className="mobile-btn text-blue-600 hover:text-blue-800 text-xs px-2 py-1 rounded"
                         >
-                          Reorder
+                          {t("teams.reorder")}
                         </button>
                       )}
                     </div>
@@ -493,7 +565,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                   // Mobile-optimized reorderable player list
                   <div className="space-y-2">
                     <div className="p-2 bg-blue-50 border border-blue-200 rounded text-xs text-blue-700 mb-2 mobile-text-sm">
-                      💡 Tap the arrows to reorder players. The order determines throwing sequence.
+                      {t("teams.reorderHelp")}
                     </div>
                     {team.players.map((player, index) => (
                       <div
@@ -512,8 +584,8 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                                 ? "text-gray-300 cursor-not-allowed bg-gray-100"
                                 : "text-blue-600 hover:text-blue-800 hover:bg-blue-50 bg-white border border-blue-200"
                             }`}
-                            title="Move up"
-                            aria-label={`Move ${player.name} up`}
+                            title={t("teams.moveUp")}
+                            aria-label={t("teams.moveUpLabel", { name: player.name })}
                           >
                             ↑
                           </button>
@@ -525,8 +597,8 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                                 ? "text-gray-300 cursor-not-allowed bg-gray-100"
                                 : "text-blue-600 hover:text-blue-800 hover:bg-blue-50 bg-white border border-blue-200"
                             }`}
-                            title="Move down"
-                            aria-label={`Move ${player.name} down`}
+                            title={t("teams.moveDown")}
+                            aria-label={t("teams.moveDownLabel", { name: player.name })}
                           >
                             ↓
                           </button>
@@ -550,7 +622,7 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
               {showDeleteConfirm === team.id && (
                 <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded mobile-card">
                   <p className="text-xs sm:text-sm text-red-700 mb-2 mobile-text-sm">
-                    Are you sure you want to remove this team?
+                    {t("teams.confirmRemove")}
                   </p>
                   <div className="flex space-x-2">
                     <button
@@ -558,13 +630,13 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
                       disabled={isSubmitting}
                       className="mobile-btn px-3 py-1 bg-red-600 text-white text-xs sm:text-sm rounded hover:bg-red-700"
                     >
-                      {isSubmitting ? <InlineSpinner size="sm" /> : "Yes, Remove"}
+                      {isSubmitting ? <InlineSpinner size="sm" /> : t("teams.confirmRemoveButton")}
                     </button>
                     <button
                       onClick={() => setShowDeleteConfirm(null)}
                       className="mobile-btn px-3 py-1 bg-gray-600 text-white text-xs sm:text-sm rounded hover:bg-gray-700"
                     >
-                      Cancel
+                      {t("common.cancel")}
                     </button>
                   </div>
                 </div>
@@ -579,8 +651,8 @@ export function TeamManager({ teams, players, gameActive }: TeamManagerProps) {
         <div className="mt-3 sm:mt-4 p-3 bg-blue-50 border border-blue-200 rounded mobile-card">
           <p className="text-xs sm:text-sm text-blue-700 mobile-text-sm">
             {canStartTeamGame
-              ? "✅ Ready to start team game"
-              : `❌ Need ${Math.max(0, 2 - teams.length)} more team${teams.length === 1 ? "" : "s"} to start`}
+              ? t("teams.ready")
+              : t("teams.needMore", { count: Math.max(0, 2 - teams.length) })}
           </p>
         </div>
       )}
@@ -19,6 +19,7 @@ export interface Toast {
   duration?: number;
   persistent?: boolean;
   priority?: 'low' | 'normal' | 'high';
+  action?: { label: string; onClick: () => void }; // Button shown under the message
 }
 
 interface ToastContextType {
@@ -177,6 +178,17 @@ function ToastItem({ toast, onRemove }: { toast: Toast; onRemove: (id: string) =
           {toast.message && (
             <p className="text-xs sm:text-sm opacity-90 mobile-text-sm">{toast.message}</p>
           )}
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action?.onClick();
+                handleRemove();
+              }}
+              className="mt-2 text-xs sm:text-sm font-semibold underline focus:outline-none mobile-btn"
+            >
+              {toast.action.label}
+            </button>
+          )}
         </div>
         <div className="flex-shrink-0 ml-2 sm:ml-3">
           <button
@@ -0,0 +1,244 @@
+/**
+ * TournamentBracket Component
+ * Creates a knockout bracket from the current players or teams, shows its
+ * progress round by round and launches the next pending match
+ *
+ * @format
+ */
+
+import { useState } from "preact/hooks";
+import { useLocale } from "../../context/LocaleContext";
+import type { LocaleContextType } from "../../context/LocaleContext";
+import { useTournament } from "../../hooks/useTournament";
+import {
+  getEntrant,
+  getRoundCount,
+  getRoundName,
+} from "../../utils/tournament";
+import type { Tournament, TournamentMatch } from "../../utils/types";
+
+interface TournamentBracketProps {
+  gameActive: boolean;
+}
+
+export function TournamentBracket({ gameActive }: TournamentBracketProps) {
+  const {
+    tournament,
+    nextMatch,
+    progress,
+    canCreateTournament,
+    canStartNextMatch,
+    createTournament,
+    startNextMatch,
+    endTournament,
+  } = useTournament();
+  const { t } = useLocale();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResult = (result: { success: boolean; error?: string }) => {
+    setError(
+      result.success ? null : result.error || t("common.somethingWrong")
+    );
+  };
+
+  if (!tournament) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 mobile-text-lg">
+          {t("tournament.title")}
+        </h2>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3 mobile-text-sm">
+          {t("tournament.help")}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onInput={(e) => setName((e.target as HTMLInputElement).value)}
+            placeholder={t("tournament.nameLabel")}
+            aria-label={t("tournament.nameLabel")}
+            disabled={gameActive}
+            className="mobile-input flex-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => handleResult(createTournament(name))}
+            disabled={!canCreateTournament}
+            className={`px-4 py-2 rounded text-sm font-medium touch-manipulation ${
+              canCreateTournament
+                ? "bg-purple-500 text-white hover:bg-purple-600"
+                : "bg-gray-300 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            {t("tournament.create")}
+          </button>
+        </div>
+        {error && (
+          <div
+            role="alert"
+            className="mt-3 bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm"
+          >
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const roundCount = getRoundCount(tournament.entrants.length);
+  const rounds = Array.from({ length: roundCount }, (_, index) =>
+    tournament.matches
+      .filter((match) => match.round === index + 1)
+      .sort((a, b) => a.position - b.position)
+  );
+  const champion = getEntrant(tournament, tournament.winnerId);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-6 mb-4 mobile-card">
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mobile-text-lg">
+            🏆 {tournament.name}
+          </h2>
+          <p className="text-xs sm:text-sm text-gray-600 mobile-text-sm">
+            {t("tournament.progress", {
+              played: progress.played,
+              total: progress.total,
+            })}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => handleResult(endTournament())}
+          className="text-sm text-red-600 hover:text-red-800 font-medium touch-manipulation"
+          aria-label={t("tournament.endLabel")}
+        >
+          {champion ? t("common.close") : t("common.end")}
+        </button>
+      </div>
+
+      <div
+        className="w-full bg-gray-200 rounded-full h-2 mb-3 sm:mb-4"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.played}
+      >
+        <div
+          className="bg-purple-500 h-2 rounded-full transition-all duration-300"
+          style={{
+            width: `${progress.total > 0 ? (progress.played / progress.total) * 100 : 0}%`,
+          }}
+        />
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {rounds.map((matches, index) => (
+          <section
+            key={index}
+            className="flex-1 min-w-[9rem] flex flex-col justify-around gap-2"
+            aria-label={getRoundName(index + 1, roundCount)}
+          >
+            <h3 className="text-xs sm:text-sm font-semibold text-gray-700 text-center">
+              {getRoundName(index + 1, roundCount)}
+            </h3>
+            {matches.map((match) => (
+              <MatchCard
+                key={match.id}
+                tournament={tournament}
+                match={match}
+                isNext={match.id === nextMatch?.id}
+              />
+            ))}
+          </section>
+        ))}
+      </div>
+
+      {champion ? (
+        <p className="mt-3 sm:mt-4 text-center font-semibold text-purple-700">
+          {t("tournament.champion", { name: champion.name })}
+        </p>
+      ) : (
+        <div className="mt-3 sm:mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => handleResult(startNextMatch())}
+            disabled={!canStartNextMatch}
+            className={`px-6 py-3 text-base font-semibold rounded-lg touch-manipulation ${
+              canStartNextMatch
+                ? "bg-green-500 text-white hover:bg-green-600"
+                : "bg-gray-300 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            {nextMatch
+              ? t("tournament.play", {
+                  match: describeMatch(tournament, nextMatch, t),
+                })
+              : t("tournament.waiting")}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div
+          role="alert"
+          className="mt-3 bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm"
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MatchCardProps {
+  tournament: Tournament;
+  match: TournamentMatch;
+  isNext: boolean;
+}
+
+function MatchCard({ tournament, match, isNext }: MatchCardProps) {
+  const { t } = useLocale();
+  return (
+    <div
+      className={`rounded border text-xs sm:text-sm ${
+        isNext ? "border-green-500 bg-green-50" : "border-gray-200 bg-gray-50"
+      }`}
+      data-testid="tournament-match"
+    >
+      {match.entrantIds.map((entrantId, slot) => {
+        const entrant = getEntrant(tournament, entrantId);
+        const isWinner = entrantId !== null && match.winnerId === entrantId;
+        return (
+          <div
+            key={slot}
+            className={`flex justify-between px-2 py-1 ${
+              slot === 0 ? "border-b border-gray-200" : ""
+            } ${isWinner ? "font-semibold text-green-700" : "text-gray-700"}`}
+          >
+            <span className="truncate">
+              {entrant
+                ? entrant.name
+                : t(match.isBye ? "tournament.bye" : "tournament.tbd")}
+            </span>
+            {entrant && (
+              <span className="text-gray-400 ml-1">#{entrant.seed}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function describeMatch(
+  tournament: Tournament,
+  match: TournamentMatch,
+  t: LocaleContextType["t"]
+): string {
+  const [first, second] = match.entrantIds.map(
+    (id) => getEntrant(tournament, id)?.name ?? t("tournament.tbd")
+  );
+  return t("common.versus", { first, second });
+}
@@ -0,0 +1 @@
+export { TournamentBracket } from "./TournamentBracket";
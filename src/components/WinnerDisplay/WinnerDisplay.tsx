@@ -6,14 +6,25 @@
  */
 
 import type { Player } from "../../utils/types";
+import { useLocale } from "../../context/LocaleContext";
 
 interface WinnerDisplayProps {
   winner: Player;
   players: Player[];
   onNewGame: () => void;
+  onUndo?: () => void; // Takes back the winning throw, if it was entered by mistake
+  targetScore?: number;
 }
 
-export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps) {
+export function WinnerDisplay({
+  winner,
+  players,
+  onNewGame,
+  onUndo,
+  targetScore = 50,
+}: WinnerDisplayProps) {
+  const { t, formatOrdinal } = useLocale();
+
   // Sort players for display: winner first, then by score descending
   const sortedPlayers = [...players].sort((a, b) => {
     if (a.id === winner.id) return -1;
@@ -21,14 +32,6 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
     return b.score - a.score;
   });
 
-  // Get position suffix for ranking
-  const getPositionSuffix = (position: number): string => {
-    if (position === 1) return "st";
-    if (position === 2) return "nd";
-    if (position === 3) return "rd";
-    return "th";
-  };
-
   // Get medal emoji for top 3 positions
   const getMedalEmoji = (position: number): string => {
     if (position === 1) return "🥇";
@@ -44,10 +47,10 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
         <div className="mb-4 sm:mb-4">
           <div className="text-4xl sm:text-6xl mb-3 sm:mb-4">🎉</div>
           <h2 className="text-2xl sm:text-4xl md:text-5xl font-bold text-green-600 mb-2">
-            {winner.name} Wins!
+            {t("winner.title", { name: winner.name })}
           </h2>
           <p className="text-base sm:text-lg md:text-xl text-gray-600 mb-3 sm:mb-4 px-2">
-            Congratulations on reaching exactly 50 points!
+            {t("winner.congratulations", { target: targetScore })}
           </p>
           
           {/* Confetti-style decoration */}
@@ -63,16 +66,16 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
         {/* Winner's final stats */}
         <div className="bg-green-50 border-2 border-green-200 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6 max-w-md mx-auto">
           <h3 className="text-base sm:text-lg font-semibold text-green-800 mb-2 text-center">
-            🏆 Champion Stats
+            {t("winner.championStats")}
           </h3>
           <div className="grid grid-cols-2 gap-3 sm:gap-4 text-xs sm:text-sm">
             <div className="text-center">
               <div className="text-xl sm:text-2xl font-bold text-green-600">50</div>
-              <div className="text-green-700">Final Score</div>
+              <div className="text-green-700">{t("winner.finalScore")}</div>
             </div>
             <div className="text-center">
               <div className="text-xl sm:text-2xl font-bold text-green-600">{winner.penalties}</div>
-              <div className="text-green-700">Penalties</div>
+              <div className="text-green-700">{t("common.penalties")}</div>
             </div>
           </div>
         </div>
@@ -81,7 +84,7 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
       {/* Final Leaderboard */}
       <div className="mb-6 sm:mb-8">
         <h3 className="text-xl sm:text-2xl font-bold text-gray-800 mb-3 sm:mb-4 text-center">
-          Final Leaderboard
+          {t("winner.finalLeaderboard")}
         </h3>
         
         {/* Mobile Layout */}
@@ -103,7 +106,7 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
                   <div className="flex items-center space-x-2 sm:space-x-3">
                     <div className="flex items-center space-x-1">
                       <span className="text-base sm:text-lg font-bold text-gray-600">
-                        {position}{getPositionSuffix(position)}
+                        {formatOrdinal(position)}
                       </span>
                       <span className="text-base sm:text-lg">{getMedalEmoji(position)}</span>
                     </div>
@@ -112,13 +115,13 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
                         {player.name}
                         {isWinner && (
                           <span className="ml-1 sm:ml-2 text-xs bg-green-200 text-green-800 px-1 sm:px-2 py-1 rounded-full">
-                            Winner
+                            {t("common.winner")}
                           </span>
                         )}
                       </div>
                       {player.penalties > 0 && (
                         <div className="text-xs text-red-600">
-                          {player.penalties} penalties
+                          {t("winner.penaltyCount", { count: player.penalties })}
                         </div>
                       )}
                     </div>
@@ -136,10 +139,10 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
         <div className="hidden md:block">
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="grid grid-cols-4 gap-4 font-semibold text-gray-600 text-sm mb-3 pb-2 border-b border-gray-300">
-              <div>Position</div>
-              <div>Player</div>
-              <div className="text-center">Score</div>
-              <div className="text-center">Penalties</div>
+              <div>{t("common.position")}</div>
+              <div>{t("common.player")}</div>
+              <div className="text-center">{t("common.score")}</div>
+              <div className="text-center">{t("common.penalties")}</div>
             </div>
             
             {sortedPlayers.map((player, index) => {
@@ -159,7 +162,7 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
                 >
                   <div className="flex items-center space-x-2">
                     <span className="font-bold text-gray-600">
-                      {position}{getPositionSuffix(position)}
+                      {formatOrdinal(position)}
                     </span>
                     <span>{getMedalEmoji(position)}</span>
                   </div>
@@ -170,12 +173,12 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
                     </span>
                     {isWinner && (
                       <span className="ml-2 text-xs bg-green-200 text-green-800 px-2 py-1 rounded-full">
-                        Winner
+                        {t("common.winner")}
                       </span>
                     )}
                     {player.eliminated && (
                       <span className="ml-2 text-xs bg-gray-300 text-gray-600 px-2 py-1 rounded-full">
-                        Eliminated
+                        {t("common.eliminated")}
                       </span>
                     )}
                   </div>
@@ -204,12 +207,22 @@ export function WinnerDisplay({ winner, players, onNewGame }: WinnerDisplayProps
           onClick={onNewGame}
           className="px-6 sm:px-8 py-3 sm:py-3 bg-green-500 text-white text-base sm:text-lg font-semibold rounded-lg hover:bg-green-600 transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 active:scale-95 touch-manipulation"
         >
-          🎮 Start New Game
+          {t("winner.newGame")}
         </button>
         
         <p className="text-xs sm:text-sm text-gray-500 mt-2 sm:mt-3">
-          Start a new game with the same players
+          {t("winner.newGameHelp")}
         </p>
+        {onUndo && (
+          <button
+            onClick={onUndo}
+            className="mt-3 sm:mt-4 mobile-btn bg-gray-500 text-white hover:bg-gray-600 transition-colors font-medium text-sm shadow-md hover:shadow-lg touch-manipulation focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            aria-label={t("gamePlay.undoLabel")}
+            type="button"
+          >
+            <span aria-hidden="true">↶</span> {t("gamePlay.undo")}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -7,22 +7,34 @@
 
 import {
   createContext,
+  useCallback,
   useContext,
   useReducer,
   useEffect,
+  useRef,
+  useState,
 } from "preact/compat";
 import type { ReactNode } from "preact/compat";
 import type {
   AppState,
+  Game,
   Player,
   PenaltyRecord,
   Team,
   GameMode,
+  ThrowEvent,
+  RuleSet,
+  Tournament,
+  League,
+  PlayerProfile,
+  PinPosition,
+  TeamRotation,
 } from "../utils/types";
-import { sessionStorageUtil } from "../utils/storage/sessionStorage";
+import { durableStorageUtil } from "../utils/storage/durableStorage";
 import {
   createGame,
   createPenaltyRecord,
+  createThrowEvent,
   applyPenalty,
   applyTeamScore,
   hasPlayerWon,
@@ -31,11 +43,45 @@ import {
   completeGame,
   resetPlayersForNewGame,
   reorderPlayersByPreviousScores,
+  getTeamThrower,
+  rotateTeamThrowers,
+  DEFAULT_TEAM_ROTATION,
+  generateId,
 } from "../utils/gameStateUtils";
 import { GameEngine, ScoringType } from "../utils/gameLogic";
+import { DEFAULT_RULE_SET } from "../utils/rules";
+import { validateHandicap } from "../utils/validation";
+import { isShareFragment, readShareFragment } from "../utils/shareState";
+import { isStateChannelMessage, openStateChannel } from "../utils/broadcast";
+import type { StateChannelMessage } from "../utils/broadcast";
+import { SyncSession } from "../utils/sync";
+import type { SyncStatus, SyncTransport } from "../utils/sync";
+import {
+  assignMatchGame,
+  createMatchGame,
+  getGameWinnerId,
+  getMatchParticipants,
+  isMatchPlayable,
+  recordMatchResult,
+} from "../utils/tournament";
+import type { MatchParticipants } from "../utils/tournament";
+import {
+  assignFixtureGame,
+  createFixtureGame,
+  getFixtureParticipants,
+  recordFixtureResult,
+} from "../utils/league";
+import { linkGamesToRoster, renameProfilePlayers } from "../utils/roster";
+
+// When and under which ID an action took effect. The device that dispatches a
+// synced action chooses them, so every device reduces it to the same state.
+interface ActionStamp {
+  id: string; // Given to the game or throw event the action creates
+  time: Date;
+}
 
 // Action types for the game state reducer
-type GameAction =
+type GameAction = (
   | { type: "LOAD_STATE"; payload: AppState }
   | { type: "ADD_PLAYER"; payload: Player }
   | { type: "UPDATE_PLAYER"; payload: { id: string; updates: Partial<Player> } }
@@ -44,17 +90,51 @@ type GameAction =
   | { type: "UPDATE_TEAM"; payload: { teamId: string; updates: Partial<Team> } }
   | { type: "REMOVE_TEAM"; payload: string }
   | { type: "SET_GAME_MODE"; payload: GameMode }
+  | { type: "SET_RULES"; payload: RuleSet }
+  | { type: "SET_PIN_LAYOUT_TRACKING"; payload: boolean }
+  | { type: "SET_TEAM_ROTATION"; payload: TeamRotation }
+  | { type: "SELECT_TEAM_THROWER"; payload: { teamId: string; playerId: string } }
   | { type: "START_GAME" }
-  | { type: "SUBMIT_SCORE"; payload: { playerId: string; score: number; scoringType: "single" | "multiple" } }
-  | { type: "SUBMIT_TEAM_SCORE"; payload: { teamId: string; score: number; scoringType: "single" | "multiple" } }
+  | { type: "SUBMIT_SCORE"; payload: { playerId: string; score: number; scoringType: "single" | "multiple"; pins?: number[]; layout?: PinPosition[] } }
+  | { type: "SUBMIT_TEAM_SCORE"; payload: { teamId: string; score: number; scoringType: "single" | "multiple"; pins?: number[]; layout?: PinPosition[]; playerId?: string } }
   | { type: "APPLY_PENALTY"; payload: { playerId: string; reason?: string } }
   | { type: "APPLY_TEAM_PENALTY"; payload: { teamId: string; reason?: string } }
   | { type: "NEXT_TURN" }
   | { type: "END_GAME"; payload: Player }
   | { type: "NEW_GAME" }
+  | { type: "IMPORT_HISTORY"; payload: Game[] }
   | { type: "RESET_STATE" }
   | { type: "RESET_TO_SETUP" }
-  | { type: "OUT_OF_TURN_THROW"; payload: { playerId: string } };
+  | { type: "OUT_OF_TURN_THROW"; payload: { playerId: string } }
+  | { type: "UNDO" }
+  | { type: "REDO" }
+  | { type: "CREATE_TOURNAMENT"; payload: Tournament }
+  | { type: "START_TOURNAMENT_MATCH"; payload: { matchId: string } }
+  | { type: "END_TOURNAMENT" }
+  | { type: "CREATE_LEAGUE"; payload: League }
+  | { type: "START_LEAGUE_FIXTURE"; payload: { fixtureId: string } }
+  | { type: "END_LEAGUE" }
+  | { type: "ADD_PROFILE"; payload: PlayerProfile }
+  | { type: "RENAME_PROFILE"; payload: { profileId: string; name: string } }
+  | { type: "REMOVE_PROFILE"; payload: string }
+  | { type: "RECORD_WIN_PROBABILITIES"; payload: { throwId: string; winProbabilities: Record<string, number>; winProbabilitySwing?: number } }
+) & { stamp?: ActionStamp };
+
+// Actions that represent a throw and are recorded in the game's throw log
+type ThrowAction = Extract<
+  GameAction,
+  { type: "SUBMIT_SCORE" | "SUBMIT_TEAM_SCORE" | "APPLY_PENALTY" | "OUT_OF_TURN_THROW" }
+>;
+
+// Actions that only change this device's records, so are not synced
+const DEVICE_ACTION_TYPES = new Set<GameAction["type"]>([
+  "LOAD_STATE",
+  "IMPORT_HISTORY",
+  "ADD_PROFILE",
+  "RENAME_PROFILE",
+  "REMOVE_PROFILE",
+  "RECORD_WIN_PROBABILITIES", // Each device estimates from its own history
+]);
 
 // Initial state
 const initialState: AppState = {
@@ -66,10 +146,523 @@ const initialState: AppState = {
   gameHistory: [],
   currentGame: null,
   gameMode: "individual",
+  undoneThrows: [],
+  tournament: null,
+  league: null,
+  roster: [],
 };
 
+/**
+ * Gets the rules in effect: the current game's rules, else the rules chosen in setup
+ */
+function getRules(state: AppState): RuleSet {
+  return state.currentGame?.rules || state.rules || DEFAULT_RULE_SET;
+}
+
+/**
+ * Gets how team members take turns: the current game's rotation, else the one chosen in setup
+ */
+function getTeamRotation(state: AppState): TeamRotation {
+  return (
+    state.currentGame?.teamRotation ||
+    state.teamRotation ||
+    DEFAULT_TEAM_ROTATION
+  );
+}
+
+/**
+ * Resets players for the first turn of a game, with the first player active
+ * and everyone on their handicap starting score
+ */
+function preparePlayersForStart(players: Player[]): Player[] {
+  return players.map((player, index) => ({
+    ...player,
+    isActive: index === 0,
+    score: player.handicap || 0,
+    penalties: 0,
+    consecutiveMisses: 0,
+    eliminated: false,
+  }));
+}
+
+/**
+ * Checks that every handicap starting score is allowed under the rules
+ */
+function haveValidHandicaps(sides: (Player | Team)[], rules: RuleSet): boolean {
+  return sides.every(
+    (side) => validateHandicap(side.handicap || 0, rules).isValid
+  );
+}
+
+/**
+ * Checks whether the game in progress, or the next game, is played in teams
+ */
+function isTeamState(state: AppState): boolean {
+  return (state.currentGame?.gameMode || state.gameMode) === "team";
+}
+
+/**
+ * Finds the team a player throws for
+ */
+function findPlayerTeam(
+  teams: Team[] | undefined,
+  playerId: string
+): Team | undefined {
+  return teams?.find((team) => team.players.some((p) => p.id === playerId));
+}
+
+/**
+ * Resets teams for the first turn of a game, with the first team active
+ * and every team on its handicap starting score
+ */
+function prepareTeamsForStart(teams: Team[]): Team[] {
+  return teams.map((team, index) => ({
+    ...team,
+    isActive: index === 0,
+    score: team.handicap || 0,
+    penalties: 0,
+    consecutiveMisses: 0,
+    eliminated: false,
+    currentPlayerIndex: 0,
+    players: team.players.map((player) => ({
+      ...player,
+      score: 0,
+      penalties: 0,
+    })),
+  }));
+}
+
+function isThrowAction(action: GameAction): action is ThrowAction {
+  return (
+    action.type === "SUBMIT_SCORE" ||
+    action.type === "SUBMIT_TEAM_SCORE" ||
+    action.type === "APPLY_PENALTY" ||
+    action.type === "OUT_OF_TURN_THROW"
+  );
+}
+
+/**
+ * Builds the throw log entry for an action by comparing the state before and after it
+ */
+function buildThrowEvent(
+  previous: AppState,
+  next: AppState,
+  action: ThrowAction
+): ThrowEvent | null {
+  if (action.type === "SUBMIT_TEAM_SCORE") {
+    const { teamId, score, scoringType, pins, layout, playerId } = action.payload;
+    const teamBefore = previous.teams?.find((t) => t.id === teamId);
+    const teamAfter = next.teams?.find((t) => t.id === teamId);
+    if (!teamBefore || !teamAfter) return null;
+
+    const { targetScore } = getRules(previous);
+    const thrower =
+      teamBefore.players.find((p) => p.id === playerId) ??
+      getTeamThrower(teamBefore);
+    return createThrowEvent({
+      type: "score",
+      playerId: thrower?.id ?? "",
+      playerName: thrower?.name ?? teamBefore.name,
+      teamId: teamBefore.id,
+      teamName: teamBefore.name,
+      score,
+      scoringType,
+      ...(pins && { pins }),
+      ...(layout && { layout }),
+      resultingScore: teamAfter.score,
+      scoreReset: teamBefore.score + score > targetScore,
+      eliminated: !teamBefore.eliminated && !!teamAfter.eliminated,
+    });
+  }
+
+  if (action.type === "OUT_OF_TURN_THROW" && isTeamState(previous)) {
+    const { playerId } = action.payload;
+    const teamBefore = findPlayerTeam(previous.teams, playerId);
+    const teamAfter = next.teams?.find((t) => t.id === teamBefore?.id);
+    const thrower = teamBefore?.players.find((p) => p.id === playerId);
+    if (!teamBefore || !teamAfter || !thrower) return null;
+
+    return createThrowEvent({
+      type: "out_of_turn",
+      playerId,
+      playerName: thrower.name,
+      teamId: teamBefore.id,
+      teamName: teamBefore.name,
+      score: 0,
+      resultingScore: teamAfter.score,
+      scoreReset: teamAfter.score !== teamBefore.score,
+      eliminated: false,
+    });
+  }
+
+  const { playerId } = action.payload;
+  const playerBefore = previous.players.find((p) => p.id === playerId);
+  const playerAfter = next.players.find((p) => p.id === playerId);
+  if (!playerBefore || !playerAfter) return null;
+
+  const { targetScore } = getRules(previous);
+  const common = {
+    playerId,
+    playerName: playerBefore.name,
+    resultingScore: playerAfter.score,
+    eliminated: !playerBefore.eliminated && !!playerAfter.eliminated,
+  };
+
+  switch (action.type) {
+    case "SUBMIT_SCORE":
+      return createThrowEvent({
+        ...common,
+        type: "score",
+        score: action.payload.score,
+        scoringType: action.payload.scoringType,
+        ...(action.payload.pins && { pins: action.payload.pins }),
+        ...(action.payload.layout && { layout: action.payload.layout }),
+        scoreReset: playerBefore.score + action.payload.score > targetScore,
+      });
+    case "APPLY_PENALTY":
+      return createThrowEvent({
+        ...common,
+        type: "penalty",
+        score: 0,
+        reason: action.payload.reason ?? "Rule violation",
+        scoreReset: true,
+      });
+    case "OUT_OF_TURN_THROW":
+      return createThrowEvent({
+        ...common,
+        type: "out_of_turn",
+        score: 0,
+        scoreReset: playerAfter.score !== playerBefore.score,
+      });
+  }
+}
+
+/**
+ * Converts a logged throw back into the action that produced it
+ */
+function throwEventToAction(event: ThrowEvent): ThrowAction {
+  switch (event.type) {
+    case "penalty":
+      return {
+        type: "APPLY_PENALTY",
+        payload: { playerId: event.playerId, reason: event.reason },
+      };
+    case "out_of_turn":
+      return { type: "OUT_OF_TURN_THROW", payload: { playerId: event.playerId } };
+    default:
+      return event.teamId
+        ? {
+            type: "SUBMIT_TEAM_SCORE",
+            payload: {
+              teamId: event.teamId,
+              score: event.score,
+              scoringType: event.scoringType ?? "single",
+              pins: event.pins,
+              layout: event.layout,
+              playerId: event.playerId,
+            },
+          }
+        : {
+            type: "SUBMIT_SCORE",
+            payload: {
+              playerId: event.playerId,
+              score: event.score,
+              scoringType: event.scoringType ?? "single",
+              pins: event.pins,
+              layout: event.layout,
+            },
+          };
+  }
+}
+
+/**
+ * Rebuilds the current game from its starting position by replaying the given throws.
+ * Games picked up from a shared link start again from where they were picked up.
+ */
+function replayThrows(state: AppState, throws: ThrowEvent[]): AppState {
+  const game = state.currentGame;
+  if (!game) return state;
+
+  const isTeamGame = (game.gameMode || state.gameMode) === "team";
+  const resumed = game.resumedFrom;
+  const players = resumed
+    ? resumed.players
+    : isTeamGame ? state.players : preparePlayersForStart(state.players);
+  const teams = resumed
+    ? resumed.teams
+    : isTeamGame ? prepareTeamsForStart(state.teams || []) : state.teams;
+
+  const startingState: AppState = {
+    ...state,
+    gameState: "playing",
+    players,
+    teams,
+    currentPlayerIndex: resumed
+      ? resumed.currentPlayerIndex
+      : isTeamGame ? state.currentPlayerIndex : 0,
+    currentTeamIndex: resumed
+      ? resumed.currentTeamIndex
+      : isTeamGame ? 0 : state.currentTeamIndex,
+    currentGame: {
+      ...game,
+      players: isTeamGame ? game.players : players,
+      teams: isTeamGame ? teams : game.teams,
+      winner: null,
+      winningTeam: null,
+      endTime: null,
+      totalRounds: 0,
+      penalties: [],
+      throws: [],
+    },
+  };
+
+  // Keep the original events and their timing rather than the time of the replay
+  return throws.reduce(
+    (current, event) =>
+      logThrow(current, applyGameAction(current, throwEventToAction(event)), event),
+    startingState
+  );
+}
+
+/**
+ * Adds a throw to the game's throw log. The penalties and the finish the
+ * throw caused take the throw's time, so a replayed or synced throw leaves
+ * the same record as the original.
+ */
+function logThrow(previous: AppState, next: AppState, event: ThrowEvent): AppState {
+  if (!next.currentGame) return next;
+
+  const penaltiesBefore = previous.currentGame?.penalties.length ?? 0;
+  return {
+    ...next,
+    currentGame: {
+      ...next.currentGame,
+      penalties: next.currentGame.penalties.map((penalty, index) =>
+        index < penaltiesBefore ? penalty : { ...penalty, timestamp: event.timestamp }
+      ),
+      endTime: next.currentGame.endTime ? event.timestamp : null,
+      throws: [...(next.currentGame.throws || []), event],
+    },
+  };
+}
+
+/**
+ * Gives a game started by an action the ID and start time the action was stamped with
+ */
+function stampGame(game: Game, action: GameAction): Game {
+  return action.stamp
+    ? { ...game, id: action.stamp.id, startTime: action.stamp.time }
+    : game;
+}
+
+/**
+ * Takes back the most recent throw of the current game
+ */
+function undoLastThrow(state: AppState): AppState {
+  const throws = state.currentGame?.throws || [];
+  if (state.gameState === "setup" || throws.length === 0) {
+    return state;
+  }
+
+  const lastThrow = throws[throws.length - 1];
+  return {
+    ...replayThrows(state, throws.slice(0, -1)),
+    undoneThrows: [...(state.undoneThrows || []), lastThrow],
+  };
+}
+
+/**
+ * Re-applies the most recently undone throw
+ */
+function redoThrow(state: AppState): AppState {
+  const undoneThrows = state.undoneThrows || [];
+  if (state.gameState !== "playing" || !state.currentGame || undoneThrows.length === 0) {
+    return state;
+  }
+
+  const nextThrow = undoneThrows[undoneThrows.length - 1];
+  return {
+    ...replayThrows(state, [...(state.currentGame.throws || []), nextThrow]),
+    undoneThrows: undoneThrows.slice(0, -1),
+  };
+}
+
+/**
+ * Starts a tournament match or league fixture as a normal game,
+ * archiving the previous game to history
+ */
+function startCompetitionGame(
+  state: AppState,
+  competition: { gameMode: GameMode; rules: RuleSet },
+  participants: MatchParticipants,
+  buildGame: (participants: MatchParticipants) => Game
+): { nextState: AppState; game: Game } {
+  const isTeamGame = competition.gameMode === "team";
+  const players = isTeamGame
+    ? state.players
+    : preparePlayersForStart(participants.players);
+  const teams = isTeamGame
+    ? prepareTeamsForStart(participants.teams)
+    : state.teams;
+  const builtGame = buildGame({ players, teams: teams || [] });
+  const game = isTeamGame
+    ? {
+        ...builtGame,
+        teamRotation: state.teamRotation || DEFAULT_TEAM_ROTATION,
+      }
+    : builtGame;
+
+  const gameHistory = state.currentGame
+    ? [...state.gameHistory, state.currentGame]
+    : state.gameHistory;
+
+  return {
+    game,
+    nextState: {
+      ...state,
+      gameState: "playing",
+      gameMode: competition.gameMode,
+      rules: competition.rules,
+      players,
+      teams,
+      currentPlayerIndex: 0,
+      currentTeamIndex: 0,
+      gameHistory,
+      currentGame: game,
+      undoneThrows: [],
+    },
+  };
+}
+
+/**
+ * Keeps the tournament bracket in line with the result of the current match game,
+ * advancing the winner when the game completes and withdrawing them if it is undone
+ */
+function syncTournamentResult(state: AppState): AppState {
+  const { tournament, currentGame } = state;
+  if (
+    !tournament ||
+    !currentGame?.tournamentMatchId ||
+    currentGame.tournamentId !== tournament.id
+  ) {
+    return state;
+  }
+
+  const updatedTournament = recordMatchResult(
+    tournament,
+    currentGame.tournamentMatchId,
+    getGameWinnerId(currentGame),
+    false,
+    currentGame.endTime ?? undefined
+  );
+  return updatedTournament === tournament
+    ? state
+    : { ...state, tournament: updatedTournament };
+}
+
+/**
+ * Keeps the league fixture of the current game in line with its result
+ */
+function syncLeagueResult(state: AppState): AppState {
+  const { league, currentGame } = state;
+  if (
+    !league ||
+    !currentGame?.leagueFixtureId ||
+    currentGame.leagueId !== league.id
+  ) {
+    return state;
+  }
+
+  const updatedLeague = recordFixtureResult(
+    league,
+    currentGame.leagueFixtureId,
+    getGameWinnerId(currentGame)
+  );
+  return updatedLeague === league
+    ? state
+    : { ...state, league: updatedLeague };
+}
+
 // Game state reducer
 export function gameReducer(state: AppState, action: GameAction): AppState {
+  return syncLeagueResult(
+    syncTournamentResult(reduceGameAction(state, action))
+  );
+}
+
+// Applies an action and records throws in the current game's throw log
+function reduceGameAction(state: AppState, action: GameAction): AppState {
+  switch (action.type) {
+    case "UNDO":
+      return undoLastThrow(state);
+    case "REDO":
+      return redoThrow(state);
+  }
+
+  const nextState = applyGameAction(state, action);
+  if (!isThrowAction(action) || nextState === state) {
+    return nextState;
+  }
+
+  // Record the throw and drop any undone throws, which can no longer be redone
+  const event = buildThrowEvent(state, nextState, action);
+  const recorded = event
+    ? logThrow(
+        state,
+        nextState,
+        action.stamp
+          ? { ...event, id: action.stamp.id, timestamp: action.stamp.time }
+          : event
+      )
+    : nextState;
+  return { ...recorded, undoneThrows: [] };
+}
+
+/**
+ * Voids a throw made out of turn by a team player. The team's score resets
+ * if it was at or above the out-of-turn threshold; the turn and each team's
+ * next thrower stay as they were, since the throw does not count.
+ */
+function applyTeamOutOfTurnThrow(state: AppState, playerId: string): AppState {
+  const team = findPlayerTeam(state.teams, playerId);
+  const player = team?.players.find((p) => p.id === playerId);
+  if (!state.teams || !team || !player || state.gameState !== "playing") {
+    return state;
+  }
+
+  // The voided throw is still logged, even when the score stands
+  const rules = getRules(state);
+  if (team.score < rules.outOfTurnThreshold) {
+    return { ...state };
+  }
+
+  const teams = state.teams.map((t) =>
+    t.id === team.id ? { ...t, score: rules.resetScore } : t
+  );
+  const penaltyRecord: PenaltyRecord = {
+    playerId: player.id,
+    playerName: player.name,
+    teamId: team.id,
+    teamName: team.name,
+    timestamp: new Date(),
+    reason: "out-of-turn",
+  };
+
+  return {
+    ...state,
+    teams,
+    currentGame: state.currentGame
+      ? {
+          ...state.currentGame,
+          teams,
+          penalties: [...state.currentGame.penalties, penaltyRecord],
+        }
+      : null,
+  };
+}
+
+// Applies a single action to the state without touching the throw log
+function applyGameAction(state: AppState, action: GameAction): AppState {
   switch (action.type) {
     case "LOAD_STATE":
       return action.payload;
@@ -124,22 +717,78 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
         gameMode: action.payload,
       };
 
+    case "SET_RULES":
+      if (state.gameState !== "setup") {
+        return state; // Rules cannot change mid-game
+      }
+      return {
+        ...state,
+        rules: action.payload,
+      };
+
+    case "SET_PIN_LAYOUT_TRACKING":
+      return {
+        ...state,
+        trackPinLayout: action.payload,
+      };
+
+    case "SET_TEAM_ROTATION":
+      if (state.gameState !== "setup") {
+        return state; // Rotation cannot change mid-game
+      }
+      return {
+        ...state,
+        teamRotation: action.payload,
+      };
+
+    case "SELECT_TEAM_THROWER": {
+      const { teamId, playerId } = action.payload;
+      if (
+        state.gameState !== "playing" ||
+        getTeamRotation(state) !== "captain" ||
+        !state.teams
+      ) {
+        return state;
+      }
+
+      const team = state.teams.find((t) => t.id === teamId);
+      const playerIndex = team?.players.findIndex((p) => p.id === playerId) ?? -1;
+      if (!team || playerIndex === -1) {
+        return state;
+      }
+
+      const teams = state.teams.map((t) =>
+        t.id === teamId ? { ...t, currentPlayerIndex: playerIndex } : t
+      );
+      return {
+        ...state,
+        teams,
+        currentGame: state.currentGame
+          ? { ...state.currentGame, teams }
+          : null,
+      };
+    }
+
     case "START_GAME":
       if (state.gameMode === "individual") {
         if (state.players.length < 2) {
           return state; // Cannot start game with less than 2 players
         }
+        if (!haveValidHandicaps(state.players, state.rules || DEFAULT_RULE_SET)) {
+          return state; // Nobody may start at or above the target
+        }
 
-        const gamePlayersWithActiveFirst = state.players.map((player, index) => ({
-          ...player,
-          isActive: index === 0,
-          score: 0,
-          penalties: 0,
-          consecutiveMisses: 0,
-          eliminated: false,
-        }));
+        const gamePlayersWithActiveFirst = preparePlayersForStart(state.players);
 
-        const newGame = createGame(gamePlayersWithActiveFirst, "individual");
+        const newGame = stampGame(
+          createGame(
+            gamePlayersWithActiveFirst,
+            "individual",
+            undefined,
+            state.rules || DEFAULT_RULE_SET
+          ),
+          action
+        );
 
         return {
           ...state,
@@ -147,29 +796,31 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
           players: gamePlayersWithActiveFirst,
           currentPlayerIndex: 0,
           currentGame: newGame,
+          undoneThrows: [],
         };
       } else {
         // Team game
         if (!state.teams || state.teams.length < 2) {
           return state; // Cannot start team game with less than 2 teams
         }
+        if (!haveValidHandicaps(state.teams, state.rules || DEFAULT_RULE_SET)) {
+          return state; // No team may start at or above the target
+        }
 
-        const gameTeamsWithActiveFirst = state.teams.map((team, index) => ({
-          ...team,
-          isActive: index === 0,
-          score: 0,
-          penalties: 0,
-          consecutiveMisses: 0,
-          eliminated: false,
-          currentPlayerIndex: 0,
-          players: team.players.map(player => ({
-            ...player,
-            score: 0,
-            penalties: 0,
-          })),
-        }));
-
-        const newGame = createGame([], "team", gameTeamsWithActiveFirst);
+        const gameTeamsWithActiveFirst = prepareTeamsForStart(state.teams);
+
+        const newGame = {
+          ...stampGame(
+            createGame(
+              [],
+              "team",
+              gameTeamsWithActiveFirst,
+              state.rules || DEFAULT_RULE_SET
+            ),
+            action
+          ),
+          teamRotation: state.teamRotation || DEFAULT_TEAM_ROTATION,
+        };
 
         return {
           ...state,
@@ -177,6 +828,7 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
           teams: gameTeamsWithActiveFirst,
           currentTeamIndex: 0,
           currentGame: newGame,
+          undoneThrows: [],
         };
       }
 
@@ -193,6 +845,7 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
       }
 
       const player = state.players[playerIndex];
+      const rules = getRules(state);
       console.log(`[SUBMIT_SCORE] Current player:`, player);
       
       let updatedPlayer = { ...player };
@@ -204,14 +857,17 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
         updatedPlayer.consecutiveMisses = previousMisses + 1;
         console.log(`[SUBMIT_SCORE] Miss recorded. Previous misses: ${previousMisses}, new total: ${updatedPlayer.consecutiveMisses}`);
         
-        if (updatedPlayer.consecutiveMisses >= 3) {
+        if (
+          rules.eliminationMisses !== null &&
+          updatedPlayer.consecutiveMisses >= rules.eliminationMisses
+        ) {
           updatedPlayer.eliminated = true;
           console.log(`[SUBMIT_SCORE] PLAYER ELIMINATED: ${updatedPlayer.name} (${updatedPlayer.consecutiveMisses} misses)`);
           newPenaltyRecord = {
             playerId: updatedPlayer.id,
             playerName: updatedPlayer.name,
             timestamp: new Date(),
-            reason: 'elimination (3 misses)',
+            reason: `elimination (${rules.eliminationMisses} misses)`,
           };
         }
       } else {
@@ -223,7 +879,8 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
       const { updatedPlayer: scoredPlayer } = GameEngine.applyPlayerScore(
         updatedPlayer,
         score,
-        scoringType === "single" ? ScoringType.SINGLE_PIN : ScoringType.MULTIPLE_PINS
+        scoringType === "single" ? ScoringType.SINGLE_PIN : ScoringType.MULTIPLE_PINS,
+        rules
       );
       // Preserve the eliminated property and consecutive misses from our logic
       if (updatedPlayer.eliminated) {
@@ -246,8 +903,8 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
       }
 
       // Check if player won
-      if (hasPlayerWon(updatedPlayer)) {
-        console.log(`[SUBMIT_SCORE] PLAYER WON: ${updatedPlayer.name} reached 50 points`);
+      if (hasPlayerWon(updatedPlayer, rules)) {
+        console.log(`[SUBMIT_SCORE] PLAYER WON: ${updatedPlayer.name} reached ${rules.targetScore} points`);
         const completedGame = state.currentGame
           ? completeGame(state.currentGame, updatedPlayer, null)
           : null;
@@ -337,18 +994,30 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
         return state;
       }
 
-      const team = state.teams[teamIndex];
+      const rules = getRules(state);
+      const rotation = getTeamRotation(state);
+      // A captain's pick travels with the throw, so replaying the log keeps it
+      const chosenIndex =
+        rotation === "captain" && action.payload.playerId
+          ? state.teams[teamIndex].players.findIndex(
+              (p) => p.id === action.payload.playerId
+            )
+          : -1;
+      const team =
+        chosenIndex === -1
+          ? state.teams[teamIndex]
+          : { ...state.teams[teamIndex], currentPlayerIndex: chosenIndex };
       console.log(`[SUBMIT_TEAM_SCORE] Current team:`, team);
       
       let updatedTeam = { ...team };
       let newPenaltyRecord: PenaltyRecord | null = null;
       
       // Get current player ID for updating individual player score
-      const currentPlayerId = team.players[team.currentPlayerIndex || 0]?.id;
+      const currentPlayerId = getTeamThrower(team)?.id;
       console.log(`[SUBMIT_TEAM_SCORE] Current player ID: ${currentPlayerId}`);
       
       // Apply team score using the utility function (handles consecutive misses)
-      updatedTeam = applyTeamScore(updatedTeam, score, currentPlayerId);
+      updatedTeam = applyTeamScore(updatedTeam, score, currentPlayerId, rules);
       
       // Check if team was eliminated due to consecutive misses
       if (updatedTeam.eliminated && score === 0) {
@@ -359,7 +1028,7 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
           teamId: updatedTeam.id,
           teamName: updatedTeam.name,
           timestamp: new Date(),
-          reason: 'team elimination (3 misses)',
+          reason: `team elimination (${rules.eliminationMisses} misses)`,
         };
       }
       
@@ -376,8 +1045,8 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
       }
 
       // Check if team won
-      if (hasTeamWon(updatedTeam)) {
-        console.log(`[SUBMIT_TEAM_SCORE] TEAM WON: ${updatedTeam.name} reached 50 points`);
+      if (hasTeamWon(updatedTeam, rules)) {
+        console.log(`[SUBMIT_TEAM_SCORE] TEAM WON: ${updatedTeam.name} reached ${rules.targetScore} points`);
         const completedGame = state.currentGame
           ? completeGame(state.currentGame, null, updatedTeam)
           : null;
@@ -390,48 +1059,24 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
         };
       }
 
-      // Move to next team with the same player position, or to next player position if all teams have thrown
+      // Move to the next team still in the game, then on to each team's next thrower
       const currentTeamIndex = state.currentTeamIndex || 0;
-      const currentTeam = updatedTeams[currentTeamIndex];
-      const currentPlayerIndex = currentTeam.currentPlayerIndex || 0;
-      
       let nextTeamIndex = currentTeamIndex;
-      let nextPlayerIndex = currentPlayerIndex;
-      let updatedTeamsWithRotation = [...updatedTeams];
-      
-      // Find the next non-eliminated team
-      let foundNextTeam = false;
       for (let i = 1; i <= state.teams.length; i++) {
         const idx = (currentTeamIndex + i) % state.teams.length;
         if (!updatedTeams[idx].eliminated) {
           nextTeamIndex = idx;
-          nextPlayerIndex = currentPlayerIndex; // Keep same player position
-          foundNextTeam = true;
-          console.log(`[SUBMIT_TEAM_SCORE] Moving to next team: ${nextTeamIndex} with player position: ${nextPlayerIndex}`);
           break;
         }
       }
-      
-      // If we've gone through all teams, move to the next player position
-      if (!foundNextTeam) {
-        // Find the first non-eliminated team
-        for (let i = 0; i < state.teams.length; i++) {
-          if (!updatedTeams[i].eliminated) {
-            nextTeamIndex = i;
-            nextPlayerIndex = (currentPlayerIndex + 1) % updatedTeams[i].players.length;
-            console.log(`[SUBMIT_TEAM_SCORE] Moving to next player position: ${nextPlayerIndex} in team: ${nextTeamIndex}`);
-            break;
-          }
-        }
-      }
-      
-      // Update all teams to the correct player position
-      updatedTeamsWithRotation = updatedTeamsWithRotation.map((team) => {
-        return {
-          ...team,
-          currentPlayerIndex: nextPlayerIndex, // All teams should have the same player position
-        };
-      });
+      console.log(`[SUBMIT_TEAM_SCORE] Moving to next team: ${nextTeamIndex} (${rotation} rotation)`);
+
+      const updatedTeamsWithRotation = rotateTeamThrowers(
+        updatedTeams,
+        currentTeamIndex,
+        nextTeamIndex,
+        rotation
+      );
       
       // If no non-eliminated teams, end game
       const nonEliminated = updatedTeamsWithRotation.filter((t) => !t.eliminated);
@@ -492,7 +1137,7 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
       }
 
       const player = state.players[playerIndex];
-      const updatedPlayer = applyPenalty(player);
+      const updatedPlayer = applyPenalty(player, getRules(state));
       const updatedPlayers = [...state.players];
       updatedPlayers[playerIndex] = updatedPlayer;
 
@@ -556,7 +1201,7 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
     case "END_GAME": {
       const winner = action.payload;
       const completedGame = state.currentGame
-        ? completeGame(state.currentGame, winner)
+        ? completeGame(state.currentGame, winner, null, action.stamp?.time)
         : null;
 
       return {
@@ -601,11 +1246,22 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
         currentPlayerIndex: 0,
         gameHistory,
         currentGame: null,
+        undoneThrows: [],
       };
     }
 
+    case "IMPORT_HISTORY":
+      return {
+        ...state,
+        gameHistory: [
+          ...state.gameHistory,
+          ...linkGamesToRoster(action.payload, state.roster || []),
+        ],
+      };
+
     case "RESET_STATE":
-      return initialState;
+      // The roster is kept; it does not belong to any one game
+      return { ...initialState, roster: state.roster || [] };
 
     case "RESET_TO_SETUP": {
       // Preserve players and teams but reset their game state
@@ -641,19 +1297,24 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
         currentPlayerIndex: 0,
         currentTeamIndex: 0,
         currentGame: null,
+        undoneThrows: [],
       };
     }
 
     case "OUT_OF_TURN_THROW": {
       const { playerId } = action.payload;
+      if (isTeamState(state)) {
+        return applyTeamOutOfTurnThrow(state, playerId);
+      }
       const playerIndex = state.players.findIndex((p) => p.id === playerId);
       if (playerIndex === -1) return state;
       const player = state.players[playerIndex];
+      const rules = getRules(state);
       let updatedPlayer = { ...player };
       let newPenaltyRecord: PenaltyRecord | null = null;
-      // If score is 37 or more, reset to 25
-      if (updatedPlayer.score >= 37) {
-        updatedPlayer.score = 25;
+      // If score is at or above the threshold (37), reset (to 25)
+      if (updatedPlayer.score >= rules.outOfTurnThreshold) {
+        updatedPlayer.score = rules.resetScore;
         newPenaltyRecord = {
           playerId: updatedPlayer.id,
           playerName: updatedPlayer.name,
@@ -677,15 +1338,179 @@ export function gameReducer(state: AppState, action: GameAction): AppState {
       };
     }
 
+    case "CREATE_TOURNAMENT":
+      if (state.gameState === "playing") {
+        return state; // Cannot start a tournament during a game
+      }
+      return {
+        ...state,
+        tournament: action.payload,
+      };
+
+    case "START_TOURNAMENT_MATCH": {
+      const tournament = state.tournament;
+      const match = tournament?.matches.find(
+        (m) => m.id === action.payload.matchId
+      );
+      if (
+        !tournament ||
+        !match ||
+        !isMatchPlayable(match) ||
+        state.gameState === "playing"
+      ) {
+        return state;
+      }
+
+      const { nextState, game } = startCompetitionGame(
+        state,
+        tournament,
+        getMatchParticipants(tournament, match),
+        (participants) =>
+          stampGame(createMatchGame(tournament, match, participants), action)
+      );
+      return {
+        ...nextState,
+        tournament: assignMatchGame(tournament, match.id, game.id),
+      };
+    }
+
+    case "END_TOURNAMENT":
+      return {
+        ...state,
+        tournament: null,
+      };
+
+    case "CREATE_LEAGUE":
+      if (state.gameState === "playing") {
+        return state; // Cannot start a league during a game
+      }
+      return {
+        ...state,
+        league: action.payload,
+      };
+
+    case "START_LEAGUE_FIXTURE": {
+      const league = state.league;
+      const fixture = league?.fixtures.find(
+        (f) => f.id === action.payload.fixtureId
+      );
+      if (
+        !league ||
+        !fixture ||
+        fixture.winnerId !== null ||
+        state.gameState === "playing"
+      ) {
+        return state;
+      }
+
+      const { nextState, game } = startCompetitionGame(
+        state,
+        league,
+        getFixtureParticipants(league, fixture),
+        (participants) =>
+          stampGame(createFixtureGame(league, fixture, participants), action)
+      );
+      return {
+        ...nextState,
+        league: assignFixtureGame(league, fixture.id, game.id),
+      };
+    }
+
+    case "END_LEAGUE":
+      return {
+        ...state,
+        league: null,
+      };
+
+    case "ADD_PROFILE": {
+      const roster = [...(state.roster || []), action.payload];
+      return {
+        ...state,
+        roster,
+        // Games played under this name before the profile existed now count towards it
+        gameHistory: linkGamesToRoster(state.gameHistory, [action.payload]),
+      };
+    }
+
+    case "RENAME_PROFILE": {
+      const { profileId, name } = action.payload;
+      return {
+        ...state,
+        roster: (state.roster || []).map((profile) =>
+          profile.id === profileId ? { ...profile, name } : profile
+        ),
+        players: renameProfilePlayers(state.players, profileId, name),
+        teams: state.teams?.map((team) => ({
+          ...team,
+          players: renameProfilePlayers(team.players, profileId, name),
+        })),
+      };
+    }
+
+    case "REMOVE_PROFILE":
+      return {
+        ...state,
+        roster: (state.roster || []).filter(
+          (profile) => profile.id !== action.payload
+        ),
+      };
+
+    case "RECORD_WIN_PROBABILITIES": {
+      const { throwId, ...estimate } = action.payload;
+      const throws = state.currentGame?.throws || [];
+      const index = throws.findIndex((event) => event.id === throwId);
+      if (!state.currentGame || index === -1 || throws[index].winProbabilities) {
+        return state;
+      }
+      return {
+        ...state,
+        currentGame: {
+          ...state.currentGame,
+          throws: throws.map((event, i) =>
+            i === index ? { ...event, ...estimate } : event
+          ),
+        },
+      };
+    }
+
     default:
       return state;
   }
 }
 
+// Applies an action from a sync room. Loads and resets from other devices
+// leave this device's history and saved players alone.
+function reduceSyncedAction(state: AppState, action: GameAction): AppState {
+  const nextState = gameReducer(state, action);
+  if (action.type !== "LOAD_STATE" && action.type !== "RESET_STATE") {
+    return nextState;
+  }
+  return { ...nextState, gameHistory: state.gameHistory, roster: state.roster };
+}
+
+// Stamps an action with the ID and time of what it creates, so every
+// device in the sync room creates the same records from it
+function stampAction(action: GameAction): GameAction {
+  return action.stamp
+    ? action
+    : { ...action, stamp: { id: generateId(), time: new Date() } };
+}
+
+// Sets up devices joining a sync room with this device's game
+function createSyncSnapshot(state: AppState): GameAction {
+  return { type: "LOAD_STATE", payload: { ...state, gameHistory: [], roster: [] } };
+}
+
 // Context type
 interface GameContextType {
   state: AppState;
   dispatch: (action: GameAction) => void;
+  sharedGame?: { success: boolean; error?: string } | null; // Outcome of opening the app from a share link
+  syncStatus?: SyncStatus | null; // Connection to a sync room; null when not syncing
+  syncRoom?: string | null; // Room being synced with
+  syncConflicts?: number; // Actions from this device that another device's action replaced
+  startSync?: (transport: SyncTransport, room: string) => void;
+  stopSync?: () => void;
 }
 
 // Create context
@@ -698,35 +1523,139 @@ interface GameProviderProps {
 
 // Context provider component
 export function GameProvider({ children }: GameProviderProps) {
-  const [state, dispatch] = useReducer(gameReducer, initialState);
+  const [state, dispatchLocal] = useReducer(gameReducer, initialState);
+  const [sharedGame, setSharedGame] = useState<{
+    success: boolean;
+    error?: string;
+  } | null>(null);
 
   // Load state from session storage on mount
   useEffect(() => {
-    const savedState = sessionStorageUtil.loadAppState();
+    const savedState = durableStorageUtil.loadAppState();
     if (savedState) {
-      dispatch({ type: "LOAD_STATE", payload: savedState });
+      dispatchLocal({ type: "LOAD_STATE", payload: savedState });
+    }
+
+    // A game shared from another device takes over from the saved one
+    const fragment = window.location.hash;
+    if (isShareFragment(fragment)) {
+      const shared = readShareFragment(fragment, savedState || initialState);
+      if (shared.state) {
+        dispatchLocal({ type: "LOAD_STATE", payload: shared.state });
+      }
+      setSharedGame({ success: shared.success, error: shared.error });
+      window.history.replaceState(
+        null,
+        "",
+        window.location.pathname + window.location.search
+      );
+    }
+  }, []);
+
+  // Publish state to spectator windows, answering any that open later
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    const channel = openStateChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent) => {
+      if (isStateChannelMessage(event.data) && event.data.type === "request") {
+        const message: StateChannelMessage = { type: "state", state: stateRef.current };
+        channel.postMessage(message);
+      }
+    };
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    const message: StateChannelMessage = { type: "state", state };
+    channelRef.current?.postMessage(message);
+  }, [state]);
+
+  // Share actions with other devices in a sync room while one is joined
+  const syncRef = useRef<SyncSession<AppState, GameAction> | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [syncRoom, setSyncRoom] = useState<string | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState(0);
+
+  const stopSync = useCallback(() => {
+    syncRef.current?.close();
+    syncRef.current = null;
+    setSyncStatus(null);
+    setSyncRoom(null);
+  }, []);
+
+  const startSync = useCallback(
+    (transport: SyncTransport, room: string) => {
+      syncRef.current?.close();
+      setSyncRoom(room);
+      setSyncStatus("connecting");
+      syncRef.current = new SyncSession<AppState, GameAction>({
+        room,
+        clientId: generateId(),
+        transport,
+        initialState: stateRef.current,
+        reduce: reduceSyncedAction,
+        snapshot: createSyncSnapshot,
+        onChange: (synced) => dispatchLocal({ type: "LOAD_STATE", payload: synced }),
+        onStatus: setSyncStatus,
+        // The lost action was taken on a game that has since moved on, so it
+        // is not applied again; a throw could otherwise be counted twice
+        onConflict: () => setSyncConflicts((count) => count + 1),
+      });
+    },
+    []
+  );
+
+  useEffect(() => () => syncRef.current?.close(), []);
+
+  const dispatch = useCallback((action: GameAction) => {
+    const session = syncRef.current;
+    if (!session) {
+      dispatchLocal(action);
+    } else if (DEVICE_ACTION_TYPES.has(action.type)) {
+      session.applyLocal(action);
+    } else {
+      session.submit(stampAction(action));
     }
   }, []);
 
   // Save state to session storage whenever state changes
   useEffect(() => {
     try {
-      sessionStorageUtil.saveAppState(state);
+      durableStorageUtil.saveAppState(state);
 
       // Also save current game separately if it exists
       if (state.currentGame) {
-        sessionStorageUtil.saveCurrentGame(state.currentGame);
+        durableStorageUtil.saveCurrentGame(state.currentGame);
       }
 
       // Save game history
-      sessionStorageUtil.saveGameHistory(state.gameHistory);
+      durableStorageUtil.saveGameHistory(state.gameHistory);
     } catch (error) {
       console.warn("Failed to save state to session storage:", error);
     }
   }, [state]);
 
   return (
-    <GameContext.Provider value={{ state, dispatch }}>
+    <GameContext.Provider
+      value={{
+        state,
+        dispatch,
+        sharedGame,
+        syncStatus,
+        syncRoom,
+        syncConflicts,
+        startSync,
+        stopSync,
+      }}
+    >
       {children}
     </GameContext.Provider>
   );
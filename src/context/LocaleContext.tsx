@@ -0,0 +1,105 @@
+/**
+ * Locale Context Provider
+ * Holds the display language, remembers the choice on this device and gives
+ * components translation and formatting bound to it
+ *
+ * @format
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+} from "preact/compat";
+import type { ReactNode } from "preact/compat";
+import {
+  DEFAULT_LOCALE,
+  formatDate,
+  formatDuration,
+  formatOrdinal,
+  formatPenaltyReason,
+  loadLocale,
+  saveLocale,
+  setCurrentLocale,
+  translate,
+} from "../utils/i18n";
+import type { Locale, MessageKey, MessageParams } from "../utils/i18n";
+
+export interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (date: Date) => string;
+  formatDuration: (minutes: number) => string;
+  formatOrdinal: (position: number) => string;
+  formatPenaltyReason: (reason: string | undefined) => string;
+}
+
+/**
+ * Binds the translation and formatting helpers to a locale
+ * @param locale - The display language
+ * @param setLocale - Changes the display language
+ * @returns The context value
+ */
+function createLocaleValue(
+  locale: Locale,
+  setLocale: (locale: Locale) => void
+): LocaleContextType {
+  return {
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatDate: (date) => formatDate(locale, date),
+    formatDuration: (minutes) => formatDuration(locale, minutes),
+    formatOrdinal: (position) => formatOrdinal(locale, position),
+    formatPenaltyReason: (reason) => formatPenaltyReason(locale, reason),
+  };
+}
+
+// Components rendered without a provider, such as in tests, show English
+const LocaleContext = createContext<LocaleContextType>(
+  createLocaleValue(DEFAULT_LOCALE, () => {})
+);
+
+// Context provider props
+interface LocaleProviderProps {
+  children: ReactNode;
+  initialLocale?: Locale; // Overrides the saved or detected language
+}
+
+// Context provider component
+export function LocaleProvider({
+  children,
+  initialLocale,
+}: LocaleProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const startLocale = initialLocale ?? loadLocale();
+    setCurrentLocale(startLocale);
+    document.documentElement.lang = startLocale;
+    return startLocale;
+  });
+
+  const setLocale = useCallback((next: Locale) => {
+    // Messages built outside components, such as validation errors, follow too
+    setCurrentLocale(next);
+    document.documentElement.lang = next;
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(
+    () => createLocaleValue(locale, setLocale),
+    [locale, setLocale]
+  );
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+}
+
+// Custom hook to use the locale context
+export function useLocale(): LocaleContextType {
+  return useContext(LocaleContext);
+}
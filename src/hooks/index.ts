@@ -12,7 +12,38 @@ export { useGameFlow } from "./useGameFlow";
 export type { UseGameFlowReturn } from "./useGameFlow";
 
 export { useGameHistory } from "./useGameHistory";
-export type { UseGameHistoryReturn, GameHistoryStats } from "./useGameHistory";
+export type {
+  UseGameHistoryReturn,
+  GameHistoryStats,
+  HistoryImportResult,
+} from "./useGameHistory";
+
+export { useTournament } from "./useTournament";
+export type { UseTournamentReturn } from "./useTournament";
+
+export { useLeague } from "./useLeague";
+export type { UseLeagueReturn } from "./useLeague";
+
+export { useAimingAdvice } from "./useAimingAdvice";
+export type { UseAimingAdviceReturn } from "./useAimingAdvice";
+
+export { useWinProbability } from "./useWinProbability";
+export type { UseWinProbabilityReturn } from "./useWinProbability";
+
+export { useShareGame } from "./useShareGame";
+export type { UseShareGameReturn } from "./useShareGame";
+
+export { useSpectatorState } from "./useSpectatorState";
+export type { UseSpectatorStateReturn } from "./useSpectatorState";
+
+export { useRouter } from "./useRouter";
+export type { UseRouterReturn } from "./useRouter";
+
+export { useLaunchAction } from "./useLaunchAction";
+export type { UseLaunchActionReturn, LaunchResult } from "./useLaunchAction";
+
+export { useSync } from "./useSync";
+export type { UseSyncReturn } from "./useSync";
 
 // Re-export context hook for convenience
 export { useGameContext, GameProvider } from "../context/GameContext";
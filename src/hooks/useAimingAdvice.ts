@@ -0,0 +1,66 @@
+/**
+ * Custom hook for aiming advice
+ * Suggests what the current thrower should aim for, using their hit rates
+ * from the pins recorded in history and the current game
+ *
+ * @format
+ */
+
+import { useMemo } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import { DEFAULT_RULE_SET } from "../utils/rules";
+import { GameEngine } from "../utils/gameLogic";
+import type { AimingOption } from "../utils/gameLogic";
+import { computePinStats, getHitRates } from "../utils/pinStats";
+import { getPlayerKey } from "../utils/roster";
+import type { Player } from "../utils/types";
+
+export const AIMING_SUGGESTIONS = 3;
+
+export interface UseAimingAdviceReturn {
+  suggestions: AimingOption[]; // Best options first
+}
+
+/**
+ * Hook for advising a thrower on what to aim for
+ * @param player - The player about to throw
+ */
+export function useAimingAdvice(player: Player): UseAimingAdviceReturn {
+  const { state } = useGameContext();
+  const rules = state.currentGame?.rules || state.rules || DEFAULT_RULE_SET;
+
+  const pinStats = useMemo(
+    () =>
+      computePinStats(
+        state.currentGame
+          ? [...state.gameHistory, state.currentGame]
+          : state.gameHistory
+      ),
+    [state.gameHistory, state.currentGame]
+  );
+
+  const suggestions = useMemo(() => {
+    const team =
+      state.gameMode === "team"
+        ? state.teams?.find((t) => t.players.some((p) => p.id === player.id))
+        : undefined;
+
+    // In team games the team's score and misses are what count
+    const sides = team ? state.teams || [] : state.players;
+    const thrower =
+      team ?? state.players.find((p) => p.id === player.id) ?? player;
+    const opponentScores = sides
+      .filter((side) => side.id !== thrower.id && !side.eliminated)
+      .map((side) => side.score);
+
+    const stats = pinStats.find((s) => s.key === getPlayerKey(player));
+    return GameEngine.getAimingAdvice(
+      thrower,
+      opponentScores,
+      rules,
+      getHitRates(stats)
+    ).slice(0, AIMING_SUGGESTIONS);
+  }, [player, pinStats, rules, state.gameMode, state.teams, state.players]);
+
+  return { suggestions };
+}
@@ -7,12 +7,17 @@
 
 import { useCallback } from "preact/hooks";
 import { useGameContext } from "../context/GameContext";
-import { findWinner, findWinningTeam, getPointsNeeded, getTeamPointsNeeded } from "../utils/gameStateUtils";
-import type { Player, Team, GameState, GameMode } from "../utils/types";
+import { findWinner, findWinningTeam, getPointsNeeded, getTeamPointsNeeded, getTeamThrower, DEFAULT_TEAM_ROTATION } from "../utils/gameStateUtils";
+import { DEFAULT_RULE_SET } from "../utils/rules";
+import { validateHandicap } from "../utils/validation";
+import type { Player, Team, GameState, GameMode, RuleSet, PinPosition, TeamRotation } from "../utils/types";
+import { t } from "../utils/i18n";
 
 export interface UseGameFlowReturn {
   gameState: GameState;
   gameMode: GameMode;
+  rules: RuleSet;
+  teamRotation: TeamRotation;
   currentPlayer: Player | null;
   currentTeam: Team | null;
   currentTeamPlayer: Player | null;
@@ -22,7 +27,7 @@ export interface UseGameFlowReturn {
   winner: Player | null;
   winningTeam: Team | null;
   startGame: () => { success: boolean; error?: string };
-  submitScore: (score: number, scoringType: "single" | "multiple") => { success: boolean; error?: string };
+  submitScore: (score: number, scoringType: "single" | "multiple", pins?: number[], layout?: PinPosition[]) => { success: boolean; error?: string };
   submitTeamScore: (score: number, scoringType: "single" | "multiple") => { success: boolean; error?: string };
   applyPenalty: (reason?: string) => { success: boolean; error?: string };
   applyTeamPenalty: (reason?: string) => { success: boolean; error?: string };
@@ -31,6 +36,12 @@ export interface UseGameFlowReturn {
   newGame: () => { success: boolean; error?: string };
   resetGame: () => { success: boolean; error?: string };
   resetToSetup: () => { success: boolean; error?: string };
+  setTeamRotation: (rotation: TeamRotation) => { success: boolean; error?: string };
+  selectTeamThrower: (playerId: string) => { success: boolean; error?: string };
+  undo: () => { success: boolean; error?: string };
+  redo: () => { success: boolean; error?: string };
+  canUndo: boolean;
+  canRedo: boolean;
   getPointsNeededForPlayer: (playerId: string) => number;
   getPointsNeededForTeam: (teamId: string) => number;
   isPlayerTurn: (playerId: string) => boolean;
@@ -43,6 +54,13 @@ export interface UseGameFlowReturn {
 export function useGameFlow(): UseGameFlowReturn {
   const { state, dispatch } = useGameContext();
 
+  // Rules of the game in progress, or the rules chosen for the next game
+  const rules = state.currentGame?.rules || state.rules || DEFAULT_RULE_SET;
+
+  // How team members take turns in the game in progress, or in the next team game
+  const teamRotation =
+    state.currentGame?.teamRotation || state.teamRotation || DEFAULT_TEAM_ROTATION;
+
   // Get current player
   const currentPlayer = state.players[state.currentPlayerIndex] || null;
   
@@ -53,7 +71,7 @@ export function useGameFlow(): UseGameFlowReturn {
 
   // Get current player within the current team
   const currentTeamPlayer = currentTeam && currentTeam.currentPlayerIndex !== undefined
-    ? currentTeam.players[currentTeam.currentPlayerIndex] || null
+    ? getTeamThrower(currentTeam) || null
     : null;
   
   // Debug logging
@@ -72,7 +90,7 @@ export function useGameFlow(): UseGameFlowReturn {
   // Find winner if game is finished
   const winner =
     state.gameState === "finished" 
-      ? (state.currentGame?.winner || findWinner(state.players))
+      ? (state.currentGame?.winner || findWinner(state.players, rules))
       : null;
       
   // Debug logging for winner calculation
@@ -80,7 +98,7 @@ export function useGameFlow(): UseGameFlowReturn {
     console.log(`[useGameFlow] Winner calculation:`, {
       gameState: state.gameState,
       currentGameWinner: state.currentGame?.winner,
-      findWinnerResult: findWinner(state.players),
+      findWinnerResult: findWinner(state.players, rules),
       finalWinner: winner
     });
   }
@@ -94,65 +112,82 @@ export function useGameFlow(): UseGameFlowReturn {
         success: false,
         error:
           state.players.length < 2
-            ? "Need at least 2 players to start game"
-            : "Game cannot be started in current state",
+            ? t("gameFlow.needPlayers")
+            : t("gameFlow.cannotStart"),
       };
     }
 
+    // Nobody may start at or above the target
+    const sides: (Player | Team)[] =
+      state.gameMode === "team" ? state.teams || [] : state.players;
+    for (const side of sides) {
+      const validation = validateHandicap(side.handicap || 0, rules);
+      if (!validation.isValid) {
+        return { success: false, error: `${side.name}: ${validation.error}` };
+      }
+    }
+
     try {
       dispatch({ type: "START_GAME" });
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: "Failed to start game",
+        error: t("gameFlow.startFailed"),
       };
     }
-  }, [canStartGame, state.players.length, dispatch]);
+  }, [canStartGame, state.players, state.teams, state.gameMode, rules, dispatch]);
 
   /**
    * Submit a score for the current player
    */
   const submitScore = useCallback(
-    (score: number, scoringType: "single" | "multiple"): { success: boolean; error?: string } => {
+    (score: number, scoringType: "single" | "multiple", pins?: number[], layout?: PinPosition[]): { success: boolean; error?: string } => {
       if (state.gameState !== "playing") {
         return {
           success: false,
-          error: "Cannot submit score when game is not active",
+          error: t("gameFlow.scoreNotPlaying"),
         };
       }
 
       if (state.gameMode === "team") {
         if (!currentTeam) {
-          return { success: false, error: "No current team found" };
+          return { success: false, error: t("gameFlow.noTeam") };
         }
         dispatch({
           type: "SUBMIT_TEAM_SCORE",
-          payload: { teamId: currentTeam.id, score, scoringType },
+          payload: {
+            teamId: currentTeam.id,
+            score,
+            scoringType,
+            pins,
+            layout,
+            playerId: currentTeamPlayer?.id,
+          },
         });
       } else {
         if (!currentPlayer) {
           return {
             success: false,
-            error: "No current player found",
+            error: t("gameFlow.noPlayer"),
           };
         }
 
         if (score < 0 || score > 50) {
           return {
             success: false,
-            error: "Score must be between 0 and 50",
+            error: t("gameFlow.scoreRange"),
           };
         }
 
         dispatch({
           type: "SUBMIT_SCORE",
-          payload: { playerId: currentPlayer.id, score, scoringType },
+          payload: { playerId: currentPlayer.id, score, scoringType, pins, layout },
         });
       }
       return { success: true };
     },
-    [state.gameState, state.gameMode, currentPlayer, currentTeam, dispatch]
+    [state.gameState, state.gameMode, currentPlayer, currentTeam, currentTeamPlayer, dispatch]
   );
 
   /**
@@ -163,14 +198,14 @@ export function useGameFlow(): UseGameFlowReturn {
       if (state.gameState !== "playing") {
         return {
           success: false,
-          error: "Cannot apply penalty when game is not active",
+          error: t("gameFlow.penaltyNotPlaying"),
         };
       }
 
       if (!currentPlayer) {
         return {
           success: false,
-          error: "No current player found",
+          error: t("gameFlow.noPlayer"),
         };
       }
 
@@ -183,7 +218,7 @@ export function useGameFlow(): UseGameFlowReturn {
       } catch (error) {
         return {
           success: false,
-          error: "Failed to apply penalty",
+          error: t("gameFlow.penaltyFailed"),
         };
       }
     },
@@ -197,7 +232,7 @@ export function useGameFlow(): UseGameFlowReturn {
     if (state.gameState !== "playing") {
       return {
         success: false,
-        error: "Cannot advance turn when game is not active",
+        error: t("gameFlow.turnNotPlaying"),
       };
     }
 
@@ -207,7 +242,7 @@ export function useGameFlow(): UseGameFlowReturn {
     } catch (error) {
       return {
         success: false,
-        error: "Failed to advance to next turn",
+        error: t("gameFlow.turnFailed"),
       };
     }
   }, [state.gameState, dispatch]);
@@ -219,15 +254,15 @@ export function useGameFlow(): UseGameFlowReturn {
     if (state.gameState !== "playing") {
       return {
         success: false,
-        error: "Cannot end game when not playing",
+        error: t("gameFlow.endNotPlaying"),
       };
     }
 
-    const gameWinner = findWinner(state.players);
+    const gameWinner = findWinner(state.players, rules);
     if (!gameWinner) {
       return {
         success: false,
-        error: "Cannot end game without a winner",
+        error: t("gameFlow.endNoWinner"),
       };
     }
 
@@ -237,10 +272,10 @@ export function useGameFlow(): UseGameFlowReturn {
     } catch (error) {
       return {
         success: false,
-        error: "Failed to end game",
+        error: t("gameFlow.endFailed"),
       };
     }
-  }, [state.gameState, state.players, dispatch]);
+  }, [state.gameState, state.players, rules, dispatch]);
 
   /**
    * Start a new game with the same players
@@ -249,7 +284,7 @@ export function useGameFlow(): UseGameFlowReturn {
     if (state.gameState !== "finished") {
       return {
         success: false,
-        error: "Can only start new game after current game is finished",
+        error: t("gameFlow.newGameNotFinished"),
       };
     }
 
@@ -259,7 +294,7 @@ export function useGameFlow(): UseGameFlowReturn {
     } catch (error) {
       return {
         success: false,
-        error: "Failed to start new game",
+        error: t("gameFlow.newGameFailed"),
       };
     }
   }, [state.gameState, dispatch]);
@@ -274,7 +309,7 @@ export function useGameFlow(): UseGameFlowReturn {
     } catch (error) {
       return {
         success: false,
-        error: "Failed to reset game",
+        error: t("gameFlow.resetFailed"),
       };
     }
   }, [dispatch]);
@@ -289,20 +324,117 @@ export function useGameFlow(): UseGameFlowReturn {
     } catch (error) {
       return {
         success: false,
-        error: "Failed to reset to setup",
+        error: t("gameFlow.resetToSetupFailed"),
       };
     }
   }, [dispatch]);
 
   /**
-   * Get points needed for a specific player to reach 50
+   * Choose how team members take turns in the next team game
+   */
+  const setTeamRotation = useCallback(
+    (rotation: TeamRotation): { success: boolean; error?: string } => {
+      if (state.gameState !== "setup") {
+        return {
+          success: false,
+          error: t("gameFlow.rotationLocked"),
+        };
+      }
+
+      dispatch({ type: "SET_TEAM_ROTATION", payload: rotation });
+      return { success: true };
+    },
+    [state.gameState, dispatch]
+  );
+
+  /**
+   * Pick who throws next for the current team, when the captain chooses
+   */
+  const selectTeamThrower = useCallback(
+    (playerId: string): { success: boolean; error?: string } => {
+      if (state.gameState !== "playing" || !currentTeam) {
+        return { success: false, error: t("gameFlow.noThrowingTeam") };
+      }
+
+      if (teamRotation !== "captain") {
+        return {
+          success: false,
+          error: t("gameFlow.throwersFollowOrder"),
+        };
+      }
+
+      if (!currentTeam.players.some((p) => p.id === playerId)) {
+        return { success: false, error: t("gameFlow.throwerNotInTeam") };
+      }
+
+      dispatch({
+        type: "SELECT_TEAM_THROWER",
+        payload: { teamId: currentTeam.id, playerId },
+      });
+      return { success: true };
+    },
+    [state.gameState, currentTeam, teamRotation, dispatch]
+  );
+
+  // Throws can be taken back while a game is in progress or just finished
+  const canUndo =
+    state.gameState !== "setup" && (state.currentGame?.throws?.length || 0) > 0;
+  const canRedo =
+    state.gameState === "playing" && (state.undoneThrows?.length || 0) > 0;
+
+  /**
+   * Take back the most recent throw
+   */
+  const undo = useCallback((): { success: boolean; error?: string } => {
+    if (!canUndo) {
+      return {
+        success: false,
+        error: t("gameFlow.nothingToUndo"),
+      };
+    }
+
+    try {
+      dispatch({ type: "UNDO" });
+      return { success: true };
+    } catch {
+      return {
+        success: false,
+        error: t("gameFlow.undoFailed"),
+      };
+    }
+  }, [canUndo, dispatch]);
+
+  /**
+   * Re-apply the most recently undone throw
+   */
+  const redo = useCallback((): { success: boolean; error?: string } => {
+    if (!canRedo) {
+      return {
+        success: false,
+        error: t("gameFlow.nothingToRedo"),
+      };
+    }
+
+    try {
+      dispatch({ type: "REDO" });
+      return { success: true };
+    } catch {
+      return {
+        success: false,
+        error: t("gameFlow.redoFailed"),
+      };
+    }
+  }, [canRedo, dispatch]);
+
+  /**
+   * Get points needed for a specific player to reach the target score
    */
   const getPointsNeededForPlayer = useCallback(
     (playerId: string): number => {
       const player = state.players.find((p) => p.id === playerId);
-      return player ? getPointsNeeded(player) : 0;
+      return player ? getPointsNeeded(player, rules) : 0;
     },
-    [state.players]
+    [state.players, rules]
   );
 
   /**
@@ -317,12 +449,14 @@ export function useGameFlow(): UseGameFlowReturn {
 
   // Find winning team if game is finished
   const winningTeam = state.gameState === "finished" && state.teams
-    ? (state.currentGame?.winningTeam || findWinningTeam(state.teams))
+    ? (state.currentGame?.winningTeam || findWinningTeam(state.teams, rules))
     : null;
 
   return {
     gameState: state.gameState,
     gameMode: state.gameMode,
+    rules,
+    teamRotation,
     currentPlayer,
     currentTeam,
     currentTeamPlayer,
@@ -341,10 +475,16 @@ export function useGameFlow(): UseGameFlowReturn {
     newGame,
     resetGame,
     resetToSetup,
+    setTeamRotation,
+    selectTeamThrower,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     getPointsNeededForPlayer,
     getPointsNeededForTeam: (teamId: string) => {
       const team = state.teams?.find(t => t.id === teamId);
-      return team ? getTeamPointsNeeded(team) : 0;
+      return team ? getTeamPointsNeeded(team, rules) : 0;
     },
     isPlayerTurn,
     isTeamTurn: (teamId: string) => currentTeam?.id === teamId,
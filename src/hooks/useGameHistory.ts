@@ -5,42 +5,83 @@
  * @format
  */
 
-import { useCallback } from "preact/hooks";
+import { useCallback, useMemo } from "preact/hooks";
 import { useGameContext } from "../context/GameContext";
-import { sessionStorageUtil } from "../utils/storage/sessionStorage";
-import type { Game, PenaltyRecord } from "../utils/types";
+import { durableStorageUtil } from "../utils/storage/durableStorage";
+import { restoreDates } from "../utils/storage/sessionStorage";
+import { migratePayload } from "../utils/storage/migrations";
+import { validateHistoryImport } from "../utils/validation";
+import { t } from "../utils/i18n";
+import { gamesToCsv, throwsToCsv } from "../utils/csvExport";
+import {
+  findProfileByName,
+  getDisplayName,
+  getPlayerKey,
+  getProfilePlayers,
+} from "../utils/roster";
+import { computeRatings } from "../utils/rating";
+import { getHandicap } from "../utils/gameStateUtils";
+import { computePinStats } from "../utils/pinStats";
+import type {
+  Game,
+  PenaltyRecord,
+  Player,
+  PlayerPinStats,
+  PlayerProfile,
+  PlayerRating,
+} from "../utils/types";
 
 export interface GameHistoryStats {
   totalGames: number;
   totalPenalties: number;
   averageGameDuration: number; // in minutes
-  playerWinCounts: Record<string, number>;
+  playerWinCounts: Record<string, number>; // Keyed by current display name
   mostPenalizedPlayer: string | null;
 }
 
+export interface HistoryImportResult {
+  success: boolean;
+  added: number; // Games added to history
+  skipped: number; // Games already in history (matched by id)
+  error?: string;
+}
+
 export interface UseGameHistoryReturn {
   gameHistory: Game[];
   currentGame: Game | null;
   getGameById: (id: string) => Game | undefined;
   getGamesByPlayer: (playerName: string) => Game[];
+  getGamesByProfile: (profileId: string) => Game[]; // Follows renames
+  getPlayerName: (player: Player) => string; // Current name of a saved player
   getPlayerStats: (playerName: string) => {
     gamesPlayed: number;
     gamesWon: number;
     totalPenalties: number;
     winRate: number;
+    handicapGames: number; // Games started on a handicap
   };
   getOverallStats: () => GameHistoryStats;
+  ratings: PlayerRating[]; // Skill ratings from the whole history, highest first
+  getPlayerRating: (playerName: string) => PlayerRating | undefined; // Includes rating history
+  pinStats: PlayerPinStats[]; // Which pins each player knocks, from recorded throws
   clearHistory: () => { success: boolean; error?: string };
   exportHistory: () => string;
+  exportHistoryCsv: () => string; // One row per game
+  exportThrowsCsv: () => string; // One row per recorded throw
+  importHistory: (json: string) => HistoryImportResult;
   getGameDuration: (game: Game) => number; // in minutes
   getPenaltiesForGame: (gameId: string) => PenaltyRecord[];
 }
 
+// Shared fallback so memoized ratings survive re-renders without a roster
+const NO_PROFILES: PlayerProfile[] = [];
+
 /**
  * Hook for managing game history and statistics
  */
 export function useGameHistory(): UseGameHistoryReturn {
-  const { state } = useGameContext();
+  const { state, dispatch } = useGameContext();
+  const roster = state.roster || NO_PROFILES;
 
   /**
    * Get a specific game by ID
@@ -52,16 +93,51 @@ export function useGameHistory(): UseGameHistoryReturn {
     [state.gameHistory]
   );
 
+  /**
+   * Get the name to show for a player in history, following profile renames
+   */
+  const getPlayerName = useCallback(
+    (player: Player): string => getDisplayName(player, roster),
+    [roster]
+  );
+
+  /**
+   * Get all games played as a saved profile, under any of its names
+   */
+  const getGamesByProfile = useCallback(
+    (profileId: string): Game[] => {
+      return state.gameHistory.filter(
+        (game) => getProfilePlayers(game, profileId).length > 0
+      );
+    },
+    [state.gameHistory]
+  );
+
+  /**
+   * Get the players in a game that a name refers to. Names of saved
+   * profiles match by profile, so games from before a rename count.
+   */
+  const findNamedPlayers = useCallback(
+    (game: Game, playerName: string): Player[] => {
+      const profile = findProfileByName(roster, playerName);
+      if (profile) return getProfilePlayers(game, profile.id);
+      return game.players.filter(
+        (player) => !player.profileId && player.name === playerName
+      );
+    },
+    [roster]
+  );
+
   /**
    * Get all games where a specific player participated
    */
   const getGamesByPlayer = useCallback(
     (playerName: string): Game[] => {
-      return state.gameHistory.filter((game) =>
-        game.players.some((player) => player.name === playerName)
+      return state.gameHistory.filter(
+        (game) => findNamedPlayers(game, playerName).length > 0
       );
     },
-    [state.gameHistory]
+    [state.gameHistory, findNamedPlayers]
   );
 
   /**
@@ -70,26 +146,36 @@ export function useGameHistory(): UseGameHistoryReturn {
   const getPlayerStats = useCallback(
     (playerName: string) => {
       const playerGames = getGamesByPlayer(playerName);
-      const gamesWon = playerGames.filter(
-        (game) => game.winner?.name === playerName
+      const gamesWon = playerGames.filter((game) =>
+        findNamedPlayers(game, playerName).some(
+          (player) => player.id === game.winner?.id
+        )
       ).length;
       const totalPenalties = playerGames.reduce((total, game) => {
+        const ids = findNamedPlayers(game, playerName).map((p) => p.id);
         return (
           total +
-          game.penalties.filter((penalty) => penalty.playerName === playerName)
+          game.penalties.filter((penalty) => ids.includes(penalty.playerId))
             .length
         );
       }, 0);
 
+      const handicapGames = playerGames.filter((game) =>
+        findNamedPlayers(game, playerName).some(
+          (player) => getHandicap(game, player.id) > 0
+        )
+      ).length;
+
       return {
         gamesPlayed: playerGames.length,
         gamesWon,
         totalPenalties,
         winRate:
           playerGames.length > 0 ? (gamesWon / playerGames.length) * 100 : 0,
+        handicapGames,
       };
     },
-    [getGamesByPlayer]
+    [getGamesByPlayer, findNamedPlayers]
   );
 
   /**
@@ -114,8 +200,8 @@ export function useGameHistory(): UseGameHistoryReturn {
     const playerWinCounts: Record<string, number> = {};
     state.gameHistory.forEach((game) => {
       if (game.winner) {
-        playerWinCounts[game.winner.name] =
-          (playerWinCounts[game.winner.name] || 0) + 1;
+        const name = getDisplayName(game.winner, roster);
+        playerWinCounts[name] = (playerWinCounts[name] || 0) + 1;
       }
     });
 
@@ -123,8 +209,11 @@ export function useGameHistory(): UseGameHistoryReturn {
     const playerPenaltyCounts: Record<string, number> = {};
     state.gameHistory.forEach((game) => {
       game.penalties.forEach((penalty) => {
-        playerPenaltyCounts[penalty.playerName] =
-          (playerPenaltyCounts[penalty.playerName] || 0) + 1;
+        const player = game.players.find((p) => p.id === penalty.playerId);
+        const name = player
+          ? getDisplayName(player, roster)
+          : penalty.playerName;
+        playerPenaltyCounts[name] = (playerPenaltyCounts[name] || 0) + 1;
       });
     });
 
@@ -145,19 +234,47 @@ export function useGameHistory(): UseGameHistoryReturn {
       playerWinCounts,
       mostPenalizedPlayer,
     };
-  }, [state.gameHistory]);
+  }, [state.gameHistory, roster]);
+
+  /**
+   * Skill ratings, recomputed from the whole history whenever it changes
+   */
+  const ratings = useMemo(
+    () => computeRatings(state.gameHistory, roster),
+    [state.gameHistory, roster]
+  );
+
+  /**
+   * Pin statistics from the throws recorded in history
+   */
+  const pinStats = useMemo(
+    () => computePinStats(state.gameHistory, roster),
+    [state.gameHistory, roster]
+  );
+
+  /**
+   * Get a player's rating and rating history
+   */
+  const getPlayerRating = useCallback(
+    (playerName: string): PlayerRating | undefined => {
+      const profile = findProfileByName(roster, playerName);
+      const key = profile ? profile.id : getPlayerKey({ name: playerName });
+      return ratings.find((rating) => rating.key === key);
+    },
+    [roster, ratings]
+  );
 
   /**
    * Clear all game history
    */
   const clearHistory = useCallback((): { success: boolean; error?: string } => {
     try {
-      sessionStorageUtil.clearAll();
+      durableStorageUtil.clearAll();
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: "Failed to clear game history",
+        error: t("history.clearFailed"),
       };
     }
   }, []);
@@ -176,6 +293,84 @@ export function useGameHistory(): UseGameHistoryReturn {
     return JSON.stringify(exportData, null, 2);
   }, [state.gameHistory, getOverallStats]);
 
+  /**
+   * Export game history as CSV, one row per game
+   */
+  const exportHistoryCsv = useCallback((): string => {
+    return gamesToCsv(state.gameHistory);
+  }, [state.gameHistory]);
+
+  /**
+   * Export recorded throws as CSV, one row per throw
+   */
+  const exportThrowsCsv = useCallback((): string => {
+    return throwsToCsv(state.gameHistory);
+  }, [state.gameHistory]);
+
+  /**
+   * Import games from a JSON document produced by exportHistory.
+   * Games whose id is already in history are skipped.
+   */
+  const importHistory = useCallback(
+    (json: string): HistoryImportResult => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(json);
+      } catch {
+        return {
+          success: false,
+          added: 0,
+          skipped: 0,
+          error: t("history.importNotJson"),
+        };
+      }
+
+      const validation = validateHistoryImport(parsed);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          added: 0,
+          skipped: 0,
+          error: validation.error,
+        };
+      }
+
+      let games: Game[];
+      try {
+        // Exports from older versions are upgraded like stored history
+        games = migratePayload(
+          "gameHistory",
+          restoreDates((parsed as { games: unknown[] }).games)
+        ) as Game[];
+      } catch {
+        return {
+          success: false,
+          added: 0,
+          skipped: 0,
+          error: t("history.importUnreadable"),
+        };
+      }
+
+      const knownIds = new Set(state.gameHistory.map((game) => game.id));
+      const newGames = games.filter((game) => {
+        if (knownIds.has(game.id)) return false;
+        knownIds.add(game.id);
+        return true;
+      });
+
+      if (newGames.length > 0) {
+        dispatch({ type: "IMPORT_HISTORY", payload: newGames });
+      }
+
+      return {
+        success: true,
+        added: newGames.length,
+        skipped: games.length - newGames.length,
+      };
+    },
+    [state.gameHistory, dispatch]
+  );
+
   /**
    * Calculate game duration in minutes
    */
@@ -203,10 +398,18 @@ export function useGameHistory(): UseGameHistoryReturn {
     currentGame: state.currentGame,
     getGameById,
     getGamesByPlayer,
+    getGamesByProfile,
+    getPlayerName,
     getPlayerStats,
     getOverallStats,
+    ratings,
+    getPlayerRating,
+    pinStats,
     clearHistory,
     exportHistory,
+    exportHistoryCsv,
+    exportThrowsCsv,
+    importHistory,
     getGameDuration,
     getPenaltiesForGame,
   };
@@ -0,0 +1,87 @@
+/**
+ * Custom hook for launch actions
+ * Runs the task an app shortcut was opened for: the game history, or a
+ * rematch with the last players
+ *
+ * @format
+ */
+
+import { useEffect, useRef, useState } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import { getLaunchAction, removeLaunchAction } from "../utils/launchAction";
+import type { LaunchAction } from "../utils/launchAction";
+import { t } from "../utils/i18n";
+
+export interface LaunchResult {
+  action: LaunchAction;
+  success: boolean;
+  error?: string;
+}
+
+export interface UseLaunchActionReturn {
+  launchResult: LaunchResult | null; // Outcome of the launch action, null until one has run
+}
+
+/**
+ * Hook for running the launch action once the saved game has loaded
+ * @param openHistory - Opens the game history
+ */
+export function useLaunchAction(
+  openHistory: () => void
+): UseLaunchActionReturn {
+  const { state, dispatch } = useGameContext();
+  const [ready, setReady] = useState(false);
+  const [launchResult, setLaunchResult] = useState<LaunchResult | null>(null);
+  const handledRef = useRef(false);
+
+  // Wait for the saved game to load, so a rematch uses its players
+  useEffect(() => setReady(true), []);
+
+  useEffect(() => {
+    if (!ready || handledRef.current) return;
+    handledRef.current = true;
+
+    const action = getLaunchAction(window.location.search);
+    if (!action) return;
+    window.history.replaceState(
+      window.history.state,
+      "",
+      removeLaunchAction(window.location)
+    );
+
+    if (action === "history") {
+      openHistory();
+      setLaunchResult({ action, success: true });
+      return;
+    }
+
+    const sideCount =
+      state.gameMode === "team"
+        ? state.teams?.length || 0
+        : state.players.length;
+    if (sideCount < 2) {
+      setLaunchResult({
+        action,
+        success: false,
+        error:
+          state.gameMode === "team"
+            ? t("app.launchNeedTeams")
+            : t("app.launchNeedPlayers"),
+      });
+      return;
+    }
+
+    if (state.gameState === "playing") {
+      if (!window.confirm(t("app.confirmRematch"))) {
+        return;
+      }
+      dispatch({ type: "RESET_TO_SETUP" });
+    } else if (state.gameState === "finished") {
+      dispatch({ type: "NEW_GAME" });
+    }
+    dispatch({ type: "START_GAME" });
+    setLaunchResult({ action, success: true });
+  }, [ready, state, dispatch, openHistory]);
+
+  return { launchResult };
+}
@@ -0,0 +1,204 @@
+/**
+ * Custom hook for round-robin league management
+ * Provides functions for scheduling fixtures, launching them and reading standings
+ *
+ * @format
+ */
+
+import { useCallback, useMemo } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import { DEFAULT_RULE_SET } from "../utils/rules";
+import {
+  computeLeagueStandings,
+  createLeague as buildLeague,
+  getLeagueProgress,
+  getNextLeagueFixture,
+} from "../utils/league";
+import type {
+  Game,
+  League,
+  LeagueFixture,
+  LeagueStanding,
+} from "../utils/types";
+import { t } from "../utils/i18n";
+
+export interface UseLeagueReturn {
+  league: League | null;
+  standings: LeagueStanding[];
+  nextFixture: LeagueFixture | null; // Next unresolved fixture
+  progress: { played: number; total: number };
+  canCreateLeague: boolean;
+  canStartNextFixture: boolean;
+  createLeague: (name: string) => { success: boolean; error?: string };
+  startFixture: (fixtureId: string) => { success: boolean; error?: string };
+  startNextFixture: () => { success: boolean; error?: string };
+  endLeague: () => { success: boolean; error?: string };
+  getFixtureGame: (fixtureId: string) => Game | undefined; // Game that resolved a fixture
+}
+
+/**
+ * Hook for running a round-robin league
+ */
+export function useLeague(): UseLeagueReturn {
+  const { state, dispatch } = useGameContext();
+  const league = state.league || null;
+
+  const entrantCount =
+    state.gameMode === "team" ? state.teams?.length || 0 : state.players.length;
+
+  const canCreateLeague = state.gameState !== "playing" && entrantCount >= 2;
+
+  const nextFixture = league ? getNextLeagueFixture(league) : null;
+
+  const canStartNextFixture =
+    nextFixture !== null && state.gameState !== "playing";
+
+  // Fixture results come from history, plus a just-finished game not yet archived
+  const games = useMemo(
+    () =>
+      state.currentGame
+        ? [...state.gameHistory, state.currentGame]
+        : state.gameHistory,
+    [state.gameHistory, state.currentGame]
+  );
+
+  const standings = useMemo(
+    () => (league ? computeLeagueStandings(league, games) : []),
+    [league, games]
+  );
+
+  /**
+   * Schedule fixtures between every pair of current players (or teams)
+   */
+  const createLeague = useCallback(
+    (name: string): { success: boolean; error?: string } => {
+      if (state.gameState === "playing") {
+        return {
+          success: false,
+          error: t("league.duringGame"),
+        };
+      }
+
+      if (entrantCount < 2) {
+        return {
+          success: false,
+          error: t(
+            state.gameMode === "team"
+              ? "league.needTeams"
+              : "league.needPlayers"
+          ),
+        };
+      }
+
+      const entrants =
+        state.gameMode === "team"
+          ? (state.teams || []).map((team) => ({
+              id: team.id,
+              name: team.name,
+              players: team.players,
+            }))
+          : state.players.map((player) => ({
+              id: player.id,
+              name: player.name,
+              players: [player],
+            }));
+
+      dispatch({
+        type: "CREATE_LEAGUE",
+        payload: buildLeague(
+          name.trim() || "League",
+          entrants,
+          state.gameMode,
+          state.rules || DEFAULT_RULE_SET
+        ),
+      });
+      return { success: true };
+    },
+    [
+      state.gameState,
+      state.gameMode,
+      state.players,
+      state.teams,
+      state.rules,
+      entrantCount,
+      dispatch,
+    ]
+  );
+
+  /**
+   * Launch a specific fixture as a new game
+   */
+  const startFixture = useCallback(
+    (fixtureId: string): { success: boolean; error?: string } => {
+      if (!league) {
+        return { success: false, error: t("league.none") };
+      }
+
+      if (state.gameState === "playing") {
+        return {
+          success: false,
+          error: t("league.finishGame"),
+        };
+      }
+
+      const fixture = league.fixtures.find((f) => f.id === fixtureId);
+      if (!fixture || fixture.winnerId !== null) {
+        return { success: false, error: t("league.fixturePlayed") };
+      }
+
+      dispatch({ type: "START_LEAGUE_FIXTURE", payload: { fixtureId } });
+      return { success: true };
+    },
+    [league, state.gameState, dispatch]
+  );
+
+  /**
+   * Launch the next unresolved fixture
+   */
+  const startNextFixture = useCallback((): {
+    success: boolean;
+    error?: string;
+  } => {
+    if (!nextFixture) {
+      return { success: false, error: t("league.allPlayed") };
+    }
+    return startFixture(nextFixture.id);
+  }, [nextFixture, startFixture]);
+
+  /**
+   * Close the league; games already played stay in history
+   */
+  const endLeague = useCallback((): { success: boolean; error?: string } => {
+    if (!league) {
+      return { success: false, error: t("league.none") };
+    }
+    dispatch({ type: "END_LEAGUE" });
+    return { success: true };
+  }, [league, dispatch]);
+
+  /**
+   * Get the game that resolved a fixture
+   */
+  const getFixtureGame = useCallback(
+    (fixtureId: string): Game | undefined => {
+      const fixture = league?.fixtures.find((f) => f.id === fixtureId);
+      if (!fixture || fixture.winnerId === null) return undefined;
+      return games.find((game) => game.id === fixture.gameId);
+    },
+    [league, games]
+  );
+
+  return {
+    league,
+    standings,
+    nextFixture,
+    progress: league ? getLeagueProgress(league) : { played: 0, total: 0 },
+    canCreateLeague,
+    canStartNextFixture,
+    createLeague,
+    startFixture,
+    startNextFixture,
+    endLeague,
+    getFixtureGame,
+  };
+}
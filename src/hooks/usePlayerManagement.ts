@@ -7,18 +7,39 @@
 
 import { useCallback } from "preact/hooks";
 import { useGameContext } from "../context/GameContext";
-import { createPlayer } from "../utils/gameStateUtils";
-import { validatePlayerName } from "../utils/validation";
-import type { Player } from "../utils/types";
+import { validateHandicap, validatePlayerName } from "../utils/validation";
+import { DEFAULT_RULE_SET } from "../utils/rules";
+import {
+  createPlayerFromProfile,
+  createPlayerProfile,
+  findProfileByName,
+} from "../utils/roster";
+import type { Player, PlayerProfile } from "../utils/types";
+import { t } from "../utils/i18n";
 
 export interface UsePlayerManagementReturn {
   players: Player[];
+  roster: PlayerProfile[]; // Saved player profiles
+  availableProfiles: PlayerProfile[]; // Saved profiles not yet in the game
   addPlayer: (name: string) => { success: boolean; error?: string };
+  addPlayerFromProfile: (profileId: string) => {
+    success: boolean;
+    error?: string;
+  };
   updatePlayer: (
     id: string,
     updates: Partial<Player>
   ) => { success: boolean; error?: string };
   removePlayer: (id: string) => { success: boolean; error?: string };
+  setPlayerHandicap: (
+    id: string,
+    handicap: number
+  ) => { success: boolean; error?: string };
+  renameProfile: (
+    profileId: string,
+    name: string
+  ) => { success: boolean; error?: string };
+  removeProfile: (profileId: string) => { success: boolean; error?: string };
   canModifyPlayers: boolean;
   getPlayerById: (id: string) => Player | undefined;
   getPlayerByName: (name: string) => Player | undefined;
@@ -29,10 +50,15 @@ export interface UsePlayerManagementReturn {
  */
 export function usePlayerManagement(): UsePlayerManagementReturn {
   const { state, dispatch } = useGameContext();
+  const roster = state.roster || [];
 
   // Check if players can be modified (only in setup state)
   const canModifyPlayers = state.gameState === "setup";
 
+  const availableProfiles = roster.filter(
+    (profile) => !state.players.some((p) => p.profileId === profile.id)
+  );
+
   /**
    * Add a new player to the game
    */
@@ -41,7 +67,7 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       if (!canModifyPlayers) {
         return {
           success: false,
-          error: "Cannot modify players during active game",
+          error: t("players.lockedDuringGame"),
         };
       }
 
@@ -55,17 +81,90 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       }
 
       try {
-        const newPlayer = createPlayer(name);
-        dispatch({ type: "ADD_PLAYER", payload: newPlayer });
+        // Reuse the saved profile with this name, or save a new one
+        let profile = findProfileByName(roster, name);
+        if (!profile) {
+          profile = createPlayerProfile(name);
+          dispatch({ type: "ADD_PROFILE", payload: profile });
+        }
+        dispatch({
+          type: "ADD_PLAYER",
+          payload: createPlayerFromProfile(profile),
+        });
         return { success: true };
       } catch (error) {
         return {
           success: false,
-          error: "Failed to add player",
+          error: t("players.addError"),
         };
       }
     },
-    [canModifyPlayers, state.players, dispatch]
+    [canModifyPlayers, state.players, roster, dispatch]
+  );
+
+  /**
+   * Add a saved roster profile to the game
+   */
+  const addPlayerFromProfile = useCallback(
+    (profileId: string): { success: boolean; error?: string } => {
+      if (!canModifyPlayers) {
+        return {
+          success: false,
+          error: t("players.lockedDuringGame"),
+        };
+      }
+
+      const profile = roster.find((p) => p.id === profileId);
+      if (!profile) {
+        return { success: false, error: t("players.savedNotFound") };
+      }
+
+      if (state.players.some((p) => p.profileId === profileId)) {
+        return {
+          success: false,
+          error: t("players.alreadyInGame", { name: profile.name }),
+        };
+      }
+
+      const validation = validatePlayerName(profile.name, state.players);
+      if (!validation.isValid) {
+        return { success: false, error: validation.error };
+      }
+
+      dispatch({
+        type: "ADD_PLAYER",
+        payload: createPlayerFromProfile(profile),
+      });
+      return { success: true };
+    },
+    [canModifyPlayers, state.players, roster, dispatch]
+  );
+
+  /**
+   * Rename a saved profile; games in history follow the new name
+   */
+  const renameProfile = useCallback(
+    (profileId: string, name: string): { success: boolean; error?: string } => {
+      const profile = roster.find((p) => p.id === profileId);
+      if (!profile) {
+        return { success: false, error: t("players.savedNotFound") };
+      }
+
+      const validation = validatePlayerName(
+        name,
+        roster.filter((p) => p.id !== profileId)
+      );
+      if (!validation.isValid) {
+        return { success: false, error: validation.error };
+      }
+
+      dispatch({
+        type: "RENAME_PROFILE",
+        payload: { profileId, name: name.trim() },
+      });
+      return { success: true };
+    },
+    [roster, dispatch]
   );
 
   /**
@@ -79,7 +178,7 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       if (!canModifyPlayers && updates.name) {
         return {
           success: false,
-          error: "Cannot modify player names during active game",
+          error: t("players.namesLockedDuringGame"),
         };
       }
 
@@ -87,7 +186,7 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       if (!existingPlayer) {
         return {
           success: false,
-          error: "Player not found",
+          error: t("players.notFound"),
         };
       }
 
@@ -103,17 +202,23 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
         }
       }
 
+      // Renaming a saved player renames their profile, carrying their history
+      if (updates.name && existingPlayer.profileId) {
+        const renamed = renameProfile(existingPlayer.profileId, updates.name);
+        if (!renamed.success) return renamed;
+      }
+
       try {
         dispatch({ type: "UPDATE_PLAYER", payload: { id, updates } });
         return { success: true };
       } catch (error) {
         return {
           success: false,
-          error: "Failed to update player",
+          error: t("players.updateError"),
         };
       }
     },
-    [canModifyPlayers, state.players, dispatch]
+    [canModifyPlayers, state.players, renameProfile, dispatch]
   );
 
   /**
@@ -124,7 +229,7 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       if (!canModifyPlayers) {
         return {
           success: false,
-          error: "Cannot remove players during active game",
+          error: t("players.removeLockedDuringGame"),
         };
       }
 
@@ -132,7 +237,7 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       if (!existingPlayer) {
         return {
           success: false,
-          error: "Player not found",
+          error: t("players.notFound"),
         };
       }
 
@@ -142,13 +247,67 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
       } catch (error) {
         return {
           success: false,
-          error: "Failed to remove player",
+          error: t("players.removeError"),
         };
       }
     },
     [canModifyPlayers, state.players, dispatch]
   );
 
+  /**
+   * Set the score a player starts the game on
+   */
+  const setPlayerHandicap = useCallback(
+    (id: string, handicap: number): { success: boolean; error?: string } => {
+      if (!canModifyPlayers) {
+        return {
+          success: false,
+          error: t("players.handicapLockedDuringGame"),
+        };
+      }
+
+      if (!state.players.some((p) => p.id === id)) {
+        return {
+          success: false,
+          error: t("players.notFound"),
+        };
+      }
+
+      const validation = validateHandicap(
+        handicap,
+        state.rules || DEFAULT_RULE_SET
+      );
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error,
+        };
+      }
+
+      dispatch({
+        type: "UPDATE_PLAYER",
+        payload: { id, updates: { handicap } },
+      });
+      return { success: true };
+    },
+    [canModifyPlayers, state.players, state.rules, dispatch]
+  );
+
+  /**
+   * Remove a saved profile; games already played keep their names
+   */
+  const removeProfile = useCallback(
+    (profileId: string): { success: boolean; error?: string } => {
+      if (!roster.some((p) => p.id === profileId)) {
+        return { success: false, error: t("players.savedNotFound") };
+      }
+
+      dispatch({ type: "REMOVE_PROFILE", payload: profileId });
+      return { success: true };
+    },
+    [roster, dispatch]
+  );
+
   /**
    * Get a player by ID
    */
@@ -171,9 +330,15 @@ export function usePlayerManagement(): UsePlayerManagementReturn {
 
   return {
     players: state.players,
+    roster,
+    availableProfiles,
     addPlayer,
+    addPlayerFromProfile,
     updatePlayer,
     removePlayer,
+    setPlayerHandicap,
+    renameProfile,
+    removeProfile,
     canModifyPlayers,
     getPlayerById,
     getPlayerByName,
@@ -0,0 +1,156 @@
+/**
+ * Custom hook for hash routing
+ * Keeps the URL on the screen that shows the game state, so the back button
+ * moves between screens, and opens history from links. Going back from a
+ * game to setup ends the game, after asking; going back from the results
+ * keeps the finished game in history.
+ *
+ * @format
+ */
+
+import { useCallback, useEffect, useRef, useState } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import {
+  formatRoute,
+  getScreenRoute,
+  isHistoryRoute,
+  parseRoute,
+} from "../utils/router";
+import type { Route } from "../utils/router";
+import { isShareFragment } from "../utils/shareState";
+import { t } from "../utils/i18n";
+import type { GameState } from "../utils/types";
+
+export interface UseRouterReturn {
+  route: Route; // The route in the URL, or the game state's screen until there is one
+  openHistory: (gameId?: string) => void;
+  closeHistory: () => void;
+}
+
+// Entries the app pushes record how many history views deep they are, so
+// closing history can go back past all of them
+interface RouteEntryState {
+  historyDepth: number;
+}
+
+function getHistoryDepth(): number {
+  return (window.history.state as RouteEntryState | null)?.historyDepth ?? 0;
+}
+
+/**
+ * Hook for moving between screens with the URL
+ */
+export function useRouter(): UseRouterReturn {
+  const { state, dispatch, sharedGame } = useGameContext();
+  const { gameState } = state;
+  const [hash, setHash] = useState(window.location.hash);
+  const [ready, setReady] = useState(false);
+  const lastGameStateRef = useRef<GameState | null>(null);
+
+  /**
+   * Put a route in the URL
+   * @param route - The route
+   * @param replace - Replace the current history entry instead of adding one
+   */
+  const navigate = useCallback((route: Route, replace = false) => {
+    const nextHash = formatRoute(route);
+    if (nextHash === window.location.hash) return;
+
+    const { pathname, search } = window.location;
+    if (replace) {
+      window.history.replaceState(
+        window.history.state,
+        "",
+        pathname + search + nextHash
+      );
+    } else {
+      const entry: RouteEntryState = {
+        historyDepth: isHistoryRoute(route) ? getHistoryDepth() + 1 : 0,
+      };
+      window.history.pushState(entry, "", pathname + search + nextHash);
+    }
+    setHash(nextHash);
+  }, []);
+
+  // Follow the back and forward buttons and links
+  useEffect(() => {
+    const handleChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", handleChange);
+    window.addEventListener("popstate", handleChange);
+    return () => {
+      window.removeEventListener("hashchange", handleChange);
+      window.removeEventListener("popstate", handleChange);
+    };
+  }, []);
+
+  // Wait for the saved game to load before matching the URL to it
+  useEffect(() => setReady(true), []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const currentHash = window.location.hash;
+    // A share link is read and cleared by the game provider first
+    if (isShareFragment(currentHash)) return;
+
+    const route = parseRoute(currentHash);
+    const screen = getScreenRoute(gameState);
+    const lastGameState = lastGameStateRef.current;
+    lastGameStateRef.current = gameState;
+
+    if (isHistoryRoute(route) || route?.name === screen.name) return;
+
+    // Opening the app, or a route that is not one: show the current screen
+    if (!route || lastGameState === null) {
+      navigate(screen, true);
+      return;
+    }
+
+    // The game moved on, so the URL follows and back returns to this screen
+    if (lastGameState !== gameState) {
+      navigate(screen);
+      return;
+    }
+
+    // The URL moved on: only leaving for setup changes the game
+    if (route.name === "setup" && gameState === "finished") {
+      // Archive the result, as a new game does, so league tables still count it
+      dispatch({ type: "NEW_GAME" });
+    } else if (
+      route.name === "setup" &&
+      gameState === "playing" &&
+      window.confirm(t("app.confirmEndGame"))
+    ) {
+      dispatch({ type: "RESET_TO_SETUP" });
+    } else {
+      navigate(screen, true);
+    }
+  }, [ready, hash, gameState, sharedGame, dispatch, navigate]);
+
+  /**
+   * Open the history list, or one game from it
+   * @param gameId - ID of the game to show
+   */
+  const openHistory = useCallback(
+    (gameId?: string) =>
+      navigate(gameId ? { name: "historyGame", gameId } : { name: "history" }),
+    [navigate]
+  );
+
+  /**
+   * Close history and return to the current screen
+   */
+  const closeHistory = useCallback(() => {
+    const depth = getHistoryDepth();
+    if (depth > 0) {
+      window.history.go(-depth);
+    } else {
+      navigate(getScreenRoute(gameState), true);
+    }
+  }, [gameState, navigate]);
+
+  return {
+    route: parseRoute(hash) || getScreenRoute(gameState),
+    openHistory,
+    closeHistory,
+  };
+}
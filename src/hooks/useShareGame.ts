@@ -0,0 +1,32 @@
+/**
+ * Custom hook for carrying a game to another device
+ * Builds a link to the game in progress and reports how opening the app
+ * from such a link went
+ *
+ * @format
+ */
+
+import { useMemo } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import { createShareFragment } from "../utils/shareState";
+
+export interface UseShareGameReturn {
+  shareLink: string | null; // Opens the game in progress elsewhere; null when no game is being played
+  sharedGame: { success: boolean; error?: string } | null; // Outcome of opening the app from a share link
+}
+
+/**
+ * Hook for sharing the game in progress by link
+ */
+export function useShareGame(): UseShareGameReturn {
+  const { state, sharedGame } = useGameContext();
+
+  const shareLink = useMemo(() => {
+    const fragment = createShareFragment(state);
+    if (!fragment) return null;
+    const { origin, pathname, search } = window.location;
+    return `${origin}${pathname}${search}${fragment}`;
+  }, [state]);
+
+  return { shareLink, sharedGame: sharedGame ?? null };
+}
@@ -0,0 +1,44 @@
+/**
+ * Custom hook for the spectator scoreboard
+ * Follows the state published by the scorekeeper's window. It only
+ * listens, so the scoreboard cannot change the game.
+ *
+ * @format
+ */
+
+import { useEffect, useState } from "preact/hooks";
+import { isStateChannelMessage, openStateChannel } from "../utils/broadcast";
+import type { StateChannelMessage } from "../utils/broadcast";
+import type { AppState } from "../utils/types";
+
+export interface UseSpectatorStateReturn {
+  state: AppState | null; // Latest state from the scorekeeper, null until one arrives
+  supported: boolean; // False where windows cannot broadcast to each other
+}
+
+/**
+ * Hook for following the scorekeeper's window from a spectator window
+ */
+export function useSpectatorState(): UseSpectatorStateReturn {
+  const [state, setState] = useState<AppState | null>(null);
+  const supported = typeof BroadcastChannel !== "undefined";
+
+  useEffect(() => {
+    const channel = openStateChannel();
+    if (!channel) return;
+
+    channel.onmessage = (event: MessageEvent) => {
+      if (isStateChannelMessage(event.data) && event.data.type === "state") {
+        setState(event.data.state);
+      }
+    };
+
+    // Ask for the current state rather than waiting for the next throw
+    const request: StateChannelMessage = { type: "request" };
+    channel.postMessage(request);
+
+    return () => channel.close();
+  }, []);
+
+  return { state, supported };
+}
@@ -0,0 +1,75 @@
+/**
+ * Custom hook for live sync between devices
+ * Joins a room on a sync relay so scorekeepers on several phones keep the
+ * same game
+ *
+ * @format
+ */
+
+import { useCallback } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import { WebSocketTransport, isRelayUrl } from "../utils/sync";
+import type { SyncStatus } from "../utils/sync";
+import { t } from "../utils/i18n";
+
+// Room codes are typed on phones, so keep them short and plain
+const ROOM_CODE_PATTERN = /^[A-Za-z0-9-]{3,32}$/;
+
+export interface UseSyncReturn {
+  status: SyncStatus | null; // Connection to the room; null when not syncing
+  room: string | null;
+  connect: (url: string, room: string) => { success: boolean; error?: string };
+  disconnect: () => void;
+}
+
+/**
+ * Hook for joining and leaving a sync room
+ */
+export function useSync(): UseSyncReturn {
+  const { syncStatus, syncRoom, startSync, stopSync } = useGameContext();
+
+  /**
+   * Join a room on a relay
+   * @param url - Relay address, ws:// or wss://
+   * @param room - Room code shared by the devices
+   */
+  const connect = useCallback(
+    (url: string, room: string): { success: boolean; error?: string } => {
+      const relayUrl = url.trim();
+      const roomCode = room.trim();
+
+      if (!isRelayUrl(relayUrl)) {
+        return {
+          success: false,
+          error: t("sync.relayUrl"),
+        };
+      }
+      if (!ROOM_CODE_PATTERN.test(roomCode)) {
+        return {
+          success: false,
+          error: t("sync.roomCode"),
+        };
+      }
+      if (!startSync) {
+        return { success: false, error: t("sync.unavailable") };
+      }
+
+      try {
+        startSync(new WebSocketTransport(relayUrl), roomCode);
+        return { success: true };
+      } catch {
+        return { success: false, error: t("sync.connectFailed") };
+      }
+    },
+    [startSync]
+  );
+
+  const disconnect = useCallback(() => stopSync?.(), [stopSync]);
+
+  return {
+    status: syncStatus ?? null,
+    room: syncRoom ?? null,
+    connect,
+    disconnect,
+  };
+}
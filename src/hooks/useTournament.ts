@@ -0,0 +1,185 @@
+/**
+ * Custom hook for knockout tournament management
+ * Provides functions for creating a bracket and launching its matches
+ *
+ * @format
+ */
+
+import { useCallback } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import { DEFAULT_RULE_SET } from "../utils/rules";
+import {
+  createTournament as buildTournament,
+  getNextPendingMatch,
+  getTournamentProgress,
+} from "../utils/tournament";
+import type { Tournament, TournamentMatch } from "../utils/types";
+import { t } from "../utils/i18n";
+
+export interface UseTournamentReturn {
+  tournament: Tournament | null;
+  nextMatch: TournamentMatch | null; // Next match waiting to be played
+  progress: { played: number; total: number };
+  canCreateTournament: boolean;
+  canStartNextMatch: boolean;
+  isTournamentGame: boolean; // True if the current game is a tournament match
+  createTournament: (name: string) => { success: boolean; error?: string };
+  startMatch: (matchId: string) => { success: boolean; error?: string };
+  startNextMatch: () => { success: boolean; error?: string };
+  endTournament: () => { success: boolean; error?: string };
+}
+
+/**
+ * Hook for running a single-elimination tournament
+ */
+export function useTournament(): UseTournamentReturn {
+  const { state, dispatch } = useGameContext();
+  const tournament = state.tournament || null;
+
+  const entrantCount =
+    state.gameMode === "team" ? state.teams?.length || 0 : state.players.length;
+
+  const canCreateTournament =
+    state.gameState !== "playing" && entrantCount >= 2;
+
+  const nextMatch = tournament ? getNextPendingMatch(tournament) : null;
+
+  const canStartNextMatch = nextMatch !== null && state.gameState !== "playing";
+
+  const isTournamentGame =
+    !!tournament && state.currentGame?.tournamentId === tournament.id;
+
+  /**
+   * Seed the current players (or teams) into a new bracket, in list order
+   */
+  const createTournament = useCallback(
+    (name: string): { success: boolean; error?: string } => {
+      if (state.gameState === "playing") {
+        return {
+          success: false,
+          error: t("tournament.duringGame"),
+        };
+      }
+
+      if (entrantCount < 2) {
+        return {
+          success: false,
+          error: t(
+            state.gameMode === "team"
+              ? "tournament.needTeams"
+              : "tournament.needPlayers"
+          ),
+        };
+      }
+
+      const entrants =
+        state.gameMode === "team"
+          ? (state.teams || []).map((team) => ({
+              id: team.id,
+              name: team.name,
+              players: team.players,
+            }))
+          : state.players.map((player) => ({
+              id: player.id,
+              name: player.name,
+              players: [player],
+            }));
+
+      dispatch({
+        type: "CREATE_TOURNAMENT",
+        payload: buildTournament(
+          name.trim() || "Tournament",
+          entrants,
+          state.gameMode,
+          state.rules || DEFAULT_RULE_SET
+        ),
+      });
+      return { success: true };
+    },
+    [
+      state.gameState,
+      state.gameMode,
+      state.players,
+      state.teams,
+      state.rules,
+      entrantCount,
+      dispatch,
+    ]
+  );
+
+  /**
+   * Launch a specific bracket match as a new game
+   */
+  const startMatch = useCallback(
+    (matchId: string): { success: boolean; error?: string } => {
+      if (!tournament) {
+        return { success: false, error: t("tournament.none") };
+      }
+
+      if (state.gameState === "playing") {
+        return {
+          success: false,
+          error: t("tournament.finishGame"),
+        };
+      }
+
+      const match = tournament.matches.find((m) => m.id === matchId);
+      if (!match || match.winnerId !== null) {
+        return { success: false, error: t("tournament.matchDecided") };
+      }
+
+      if (match.entrantIds.includes(null)) {
+        return {
+          success: false,
+          error: t("tournament.matchWaiting"),
+        };
+      }
+
+      dispatch({ type: "START_TOURNAMENT_MATCH", payload: { matchId } });
+      return { success: true };
+    },
+    [tournament, state.gameState, dispatch]
+  );
+
+  /**
+   * Launch the next pending match
+   */
+  const startNextMatch = useCallback((): {
+    success: boolean;
+    error?: string;
+  } => {
+    if (!nextMatch) {
+      return { success: false, error: t("tournament.noMatchReady") };
+    }
+    return startMatch(nextMatch.id);
+  }, [nextMatch, startMatch]);
+
+  /**
+   * Close the tournament; games already played stay in history
+   */
+  const endTournament = useCallback((): {
+    success: boolean;
+    error?: string;
+  } => {
+    if (!tournament) {
+      return { success: false, error: t("tournament.none") };
+    }
+    dispatch({ type: "END_TOURNAMENT" });
+    return { success: true };
+  }, [tournament, dispatch]);
+
+  return {
+    tournament,
+    nextMatch,
+    progress: tournament
+      ? getTournamentProgress(tournament)
+      : { played: 0, total: 0 },
+    canCreateTournament,
+    canStartNextMatch,
+    isTournamentGame,
+    createTournament,
+    startMatch,
+    startNextMatch,
+    endTournament,
+  };
+}
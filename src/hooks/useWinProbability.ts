@@ -0,0 +1,87 @@
+/**
+ * Custom hook for live win probabilities
+ * Estimates the current position when it is shown, rather than in the
+ * reducer, and records the estimate and the thrower's swing on the latest
+ * throw so the game can be reviewed afterwards
+ *
+ * @format
+ */
+
+import { useEffect, useMemo, useRef } from "preact/hooks";
+import { useGameContext } from "../context/GameContext";
+import {
+  buildThrowModel,
+  estimateGameWinProbabilities,
+} from "../utils/winProbability";
+
+export interface UseWinProbabilityReturn {
+  probabilities: Record<string, number> | null; // Win chance (0-1) by player ID (team ID in team games)
+  lastSwing: number | null; // How much the latest throw moved the thrower's chance
+}
+
+// The last position estimated, for the swing of the throw that follows it
+interface EstimatedPosition {
+  gameId: string;
+  throwCount: number;
+  probabilities: Record<string, number>;
+}
+
+/**
+ * Hook for the current game's win probabilities
+ */
+export function useWinProbability(): UseWinProbabilityReturn {
+  const { state, dispatch } = useGameContext();
+  const game = state.currentGame;
+  const throws = game?.throws || [];
+  const latest = throws[throws.length - 1];
+  const lastEstimateRef = useRef<EstimatedPosition | null>(null);
+
+  // History only changes between games, so the model is built once per game
+  const model = useMemo(
+    () => buildThrowModel(state.gameHistory),
+    [state.gameHistory]
+  );
+
+  const recorded = latest?.winProbabilities;
+  const estimated = useMemo(
+    () =>
+      recorded ? null : estimateGameWinProbabilities(state, undefined, model),
+    [recorded, state, model]
+  );
+  const probabilities = recorded ?? estimated;
+
+  useEffect(() => {
+    if (!game || !probabilities) return;
+    const previous = lastEstimateRef.current;
+    lastEstimateRef.current = {
+      gameId: game.id,
+      throwCount: throws.length,
+      probabilities,
+    };
+    if (!latest || latest.winProbabilities) return;
+
+    const before =
+      throws[throws.length - 2]?.winProbabilities ??
+      (previous?.gameId === game.id && previous.throwCount === throws.length - 1
+        ? previous.probabilities
+        : null);
+    const sideId = latest.teamId ?? latest.playerId;
+    dispatch({
+      type: "RECORD_WIN_PROBABILITIES",
+      payload: {
+        throwId: latest.id,
+        winProbabilities: probabilities,
+        ...(before &&
+          sideId in probabilities &&
+          sideId in before && {
+            winProbabilitySwing: probabilities[sideId] - before[sideId],
+          }),
+      },
+    });
+  }, [game, probabilities]);
+
+  return {
+    probabilities,
+    lastSwing: latest?.winProbabilitySwing ?? null,
+  };
+}
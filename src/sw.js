@@ -0,0 +1,59 @@
+/**
+ * Service worker
+ * Precaches the built app so it opens on a park field with no signal. The
+ * build fills in the manifest below (see vite.config.ts). A new version
+ * waits until the app asks it to take over, so a game in progress is never
+ * reloaded from under the scorekeeper.
+ *
+ * @format
+ */
+
+const { version, files } = self.__PRECACHE_MANIFEST;
+const CACHE_PREFIX = "molkky-";
+const CACHE_NAME = `${CACHE_PREFIX}${version}`;
+const APP_SHELL = "index.html";
+
+const toUrl = (file) => new URL(file, self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(files.map(toUrl)))
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  // Every page of the app is the same shell; routes live in the fragment
+  const cacheKey = request.mode === "navigate" ? toUrl(APP_SHELL) : request;
+
+  event.respondWith(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.match(cacheKey, { ignoreSearch: true }))
+      .then((cached) => cached || fetch(request))
+  );
+});
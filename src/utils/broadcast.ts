@@ -0,0 +1,62 @@
+/**
+ * Cross-tab state broadcasting
+ * The scorekeeper's window publishes its state over a BroadcastChannel so
+ * other windows of the app on the same device can show it as a scoreboard
+ *
+ * @format
+ */
+
+import type { AppState } from "./types/index";
+
+export const STATE_CHANNEL_NAME = "molkky-score-counter-state";
+
+/**
+ * Messages sent over the state channel: the scorekeeper's latest state, or
+ * a spectator that has just opened asking for it
+ */
+export type StateChannelMessage =
+  | { type: "state"; state: AppState }
+  | { type: "request" };
+
+/**
+ * Opens the state channel
+ * @returns The channel, or null where BroadcastChannel is not supported
+ */
+export function openStateChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  return new BroadcastChannel(STATE_CHANNEL_NAME);
+}
+
+/**
+ * Checks that a message received on the state channel is one of ours
+ * @param data - The message data
+ * @returns True if the message is a StateChannelMessage
+ */
+export function isStateChannelMessage(
+  data: unknown
+): data is StateChannelMessage {
+  if (data === null || typeof data !== "object") return false;
+  const { type, state } = data as { type?: unknown; state?: unknown };
+  if (type === "request") return true;
+  return type === "state" && state !== null && typeof state === "object";
+}
+
+/**
+ * Checks whether the app was opened as a spectator scoreboard
+ * @param search - The query string, as in location.search
+ * @returns True for the spectator view
+ */
+export function isSpectatorView(search: string): boolean {
+  return new URLSearchParams(search).get("view") === "spectator";
+}
+
+/**
+ * Gets the address of the spectator scoreboard for this app
+ * @param location - Where the app is running
+ * @returns URL that opens the scoreboard
+ */
+export function getSpectatorUrl(
+  location: Pick<Location, "origin" | "pathname">
+): string {
+  return `${location.origin}${location.pathname}?view=spectator`;
+}
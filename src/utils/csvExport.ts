@@ -0,0 +1,152 @@
+/**
+ * CSV export of game history for spreadsheets
+ * One row per game, or one row per recorded throw
+ *
+ * @format
+ */
+
+import type { Game, ThrowEvent } from "./types";
+
+type CsvValue = string | number | boolean | null | undefined;
+
+export const GAME_CSV_HEADERS = [
+  "Game ID",
+  "Date",
+  "Mode",
+  "Duration (min)",
+  "Winner",
+  "Rounds",
+  "Penalties",
+  "Players",
+] as const;
+
+export const THROW_CSV_HEADERS = [
+  "Game ID",
+  "Game Date",
+  "Throw",
+  "Time",
+  "Team",
+  "Player",
+  "Type",
+  "Score",
+  "Scoring Type",
+  "Resulting Score",
+  "Score Reset",
+  "Eliminated",
+  "Reason",
+] as const;
+
+/**
+ * Quote a value if it contains a delimiter, quote or line break (RFC 4180)
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Join rows into a CSV document with CRLF line endings
+ */
+export function toCsv(headers: readonly string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Format a date as ISO 8601, which spreadsheets parse regardless of locale
+ */
+function formatDate(date: Date | null): string {
+  return date ? new Date(date).toISOString() : "";
+}
+
+/**
+ * Game duration in whole minutes, empty for unfinished games
+ */
+function getDurationMinutes(game: Game): number | null {
+  if (!game.endTime) return null;
+
+  const startTime = new Date(game.startTime).getTime();
+  const endTime = new Date(game.endTime).getTime();
+  return Math.round((endTime - startTime) / (1000 * 60));
+}
+
+/**
+ * Winner name: the winning team in team games, otherwise the winning player
+ */
+function getWinnerName(game: Game): string {
+  if (game.gameMode === "team") {
+    return game.winningTeam?.name ?? "";
+  }
+  return game.winner?.name ?? "";
+}
+
+/**
+ * Participants: team names with their members in team games, otherwise players
+ */
+function getParticipants(game: Game): string {
+  if (game.gameMode === "team" && game.teams) {
+    return game.teams
+      .map(
+        (team) =>
+          `${team.name} (${team.players.map((player) => player.name).join(", ")})`
+      )
+      .join("; ");
+  }
+  return game.players.map((player) => player.name).join("; ");
+}
+
+/**
+ * Export one row per game
+ */
+export function gamesToCsv(games: Game[]): string {
+  const rows = games.map((game) => [
+    game.id,
+    formatDate(game.startTime),
+    game.gameMode ?? "individual",
+    getDurationMinutes(game),
+    getWinnerName(game),
+    game.totalRounds,
+    game.penalties.length,
+    getParticipants(game),
+  ]);
+
+  return toCsv(GAME_CSV_HEADERS, rows);
+}
+
+/**
+ * Build the CSV row for a single throw
+ */
+function throwToRow(game: Game, event: ThrowEvent, index: number): CsvValue[] {
+  return [
+    game.id,
+    formatDate(game.startTime),
+    index + 1,
+    formatDate(event.timestamp),
+    event.teamName ?? "",
+    event.playerName,
+    event.type,
+    event.score,
+    event.scoringType ?? "",
+    event.resultingScore,
+    event.scoreReset,
+    event.eliminated,
+    event.reason ?? "",
+  ];
+}
+
+/**
+ * Export one row per recorded throw; games without a throw log are skipped
+ */
+export function throwsToCsv(games: Game[]): string {
+  const rows = games.flatMap((game) =>
+    (game.throws ?? []).map((event, index) => throwToRow(game, event, index))
+  );
+
+  return toCsv(THROW_CSV_HEADERS, rows);
+}
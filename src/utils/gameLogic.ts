@@ -5,7 +5,8 @@
  * @format
  */
 
-import type { Player, Game, GameState, PenaltyRecord } from "./types";
+import type { Player, Game, GameState, PenaltyRecord, RuleSet } from "./types";
+import { DEFAULT_RULE_SET } from "./rules";
 import {
   applyScore,
   applyPenalty,
@@ -31,7 +32,7 @@ export interface ScoreResult {
   updatedPlayer: Player;
   gameWon: boolean;
   winner: Player | null;
-  scoreReset: boolean; // True if score was reset due to exceeding 50
+  scoreReset: boolean; // True if score was reset due to exceeding the target
 }
 
 /**
@@ -44,6 +45,32 @@ export interface TurnResult {
   winner: Player | null;
 }
 
+/**
+ * How reliably a player hits what they aim at
+ */
+export interface HitRates {
+  singlePin: number; // Chance of knocking down just the pin aimed at
+  multiplePins: number; // Chance of knocking several pins when aiming at a group
+  averagePins: number; // Pins knocked down on a multi-pin throw
+}
+
+export const DEFAULT_HIT_RATES: HitRates = {
+  singlePin: 0.5,
+  multiplePins: 0.6,
+  averagePins: 3,
+};
+
+/**
+ * A target the thrower could aim for, as ranked by the aiming advisor
+ */
+export interface AimingOption {
+  type: "single" | "multiple";
+  points: number; // The pin aimed at, or the pins expected from a group
+  expectedValue: number; // How good the throw leaves the thrower's position (0-1)
+  winChance: number; // Chance the throw wins the game outright
+  resetChance: number; // Chance the throw overshoots and resets the score
+}
+
 /**
  * Game engine class that manages all core game logic
  */
@@ -53,21 +80,23 @@ export class GameEngine {
    * @param player - The player to score for
    * @param score - The score value
    * @param scoringType - Whether it's a single pin or multiple pins
+   * @param rules - The rule set in play
    * @returns ScoreResult with updated player and game status
    */
   static applyPlayerScore(
     player: Player,
     score: number,
-    scoringType: ScoringType
+    scoringType: ScoringType,
+    rules: RuleSet = DEFAULT_RULE_SET
   ): ScoreResult {
     // Validate score based on type
     if (!this.isValidScore(score, scoringType)) {
       throw new Error(`Invalid score ${score} for ${scoringType}`);
     }
 
-    const updatedPlayer = applyScore(player, score);
-    const scoreReset = updatedPlayer.score === 25 && player.score + score > 50;
-    const gameWon = hasPlayerWon(updatedPlayer);
+    const updatedPlayer = applyScore(player, score, rules);
+    const scoreReset = player.score + score > rules.targetScore;
+    const gameWon = hasPlayerWon(updatedPlayer, rules);
 
     return {
       updatedPlayer,
@@ -81,13 +110,15 @@ export class GameEngine {
    * Applies a penalty to a player
    * @param player - The player to penalize
    * @param reason - Reason for the penalty
+   * @param rules - The rule set in play
    * @returns Updated player with penalty applied
    */
   static applyPlayerPenalty(
     player: Player,
-    _reason: string = "Rule violation"
+    _reason: string = "Rule violation",
+    rules: RuleSet = DEFAULT_RULE_SET
   ): Player {
-    return applyPenalty(player);
+    return applyPenalty(player, rules);
   }
 
   /**
@@ -96,13 +127,15 @@ export class GameEngine {
    * @param currentPlayerIndex - Index of the current player
    * @param score - Score to apply
    * @param scoringType - Type of scoring (single pin or multiple pins)
+   * @param rules - The rule set in play
    * @returns TurnResult with updated game state
    */
   static processTurn(
     players: Player[],
     currentPlayerIndex: number,
     score: number,
-    scoringType: ScoringType
+    scoringType: ScoringType,
+    rules: RuleSet = DEFAULT_RULE_SET
   ): TurnResult {
     if (currentPlayerIndex < 0 || currentPlayerIndex >= players.length) {
       throw new Error("Invalid player index");
@@ -112,7 +145,8 @@ export class GameEngine {
     const scoreResult = this.applyPlayerScore(
       currentPlayer,
       score,
-      scoringType
+      scoringType,
+      rules
     );
 
     // Update players array with the scored player
@@ -150,13 +184,15 @@ export class GameEngine {
    * @param currentPlayerIndex - Index of the current player
    * @param game - Current game object
    * @param reason - Reason for the penalty
+   * @param rules - The rule set in play
    * @returns TurnResult with updated game state and penalty record
    */
   static processPenaltyTurn(
     players: Player[],
     currentPlayerIndex: number,
     game: Game,
-    reason: string = "Rule violation"
+    reason: string = "Rule violation",
+    rules: RuleSet = game.rules || DEFAULT_RULE_SET
   ): {
     turnResult: TurnResult;
     penaltyRecord: PenaltyRecord;
@@ -167,7 +203,7 @@ export class GameEngine {
     }
 
     const currentPlayer = players[currentPlayerIndex];
-    const penalizedPlayer = this.applyPlayerPenalty(currentPlayer, reason);
+    const penalizedPlayer = this.applyPlayerPenalty(currentPlayer, reason, rules);
 
     // Create penalty record
     const penaltyRecord = createPenaltyRecord(
@@ -209,12 +245,16 @@ export class GameEngine {
   }
 
   /**
-   * Checks if the game should end (someone reached exactly 50 points)
+   * Checks if the game should end (someone reached exactly the target score)
    * @param players - Array of players to check
+   * @param rules - The rule set in play
    * @returns Winner if game should end, null otherwise
    */
-  static checkWinCondition(players: Player[]): Player | null {
-    return findWinner(players);
+  static checkWinCondition(
+    players: Player[],
+    rules: RuleSet = DEFAULT_RULE_SET
+  ): Player | null {
+    return findWinner(players, rules);
   }
 
   /**
@@ -252,11 +292,13 @@ export class GameEngine {
    * Calculates the effect of a potential score on a player
    * @param player - Player to calculate for
    * @param score - Potential score
+   * @param rules - The rule set in play
    * @returns Object describing the effect
    */
   static calculateScoreEffect(
-    player: Player,
-    score: number
+    player: Pick<Player, "score">,
+    score: number,
+    rules: RuleSet = DEFAULT_RULE_SET
   ): {
     newScore: number;
     willWin: boolean;
@@ -264,10 +306,10 @@ export class GameEngine {
     pointsToWin: number;
   } {
     const potentialScore = player.score + score;
-    const willReset = potentialScore > 50;
-    const newScore = willReset ? 25 : potentialScore;
-    const willWin = newScore === 50;
-    const pointsToWin = Math.max(0, 50 - player.score);
+    const willReset = potentialScore > rules.targetScore;
+    const newScore = willReset ? rules.resetScore : potentialScore;
+    const willWin = newScore === rules.targetScore;
+    const pointsToWin = Math.max(0, rules.targetScore - player.score);
 
     return {
       newScore,
@@ -281,18 +323,20 @@ export class GameEngine {
    * Gets the current game status
    * @param players - Array of players
    * @param gameState - Current game state
+   * @param rules - The rule set in play
    * @returns Object describing current game status
    */
   static getGameStatus(
     players: Player[],
-    gameState: GameState
+    gameState: GameState,
+    rules: RuleSet = DEFAULT_RULE_SET
   ): {
     isActive: boolean;
     winner: Player | null;
     canStart: boolean;
     playersReady: boolean;
   } {
-    const winner = gameState === "finished" ? findWinner(players) : null;
+    const winner = gameState === "finished" ? findWinner(players, rules) : null;
     const isActive = gameState === "playing";
     const playersReady = players.length >= 2;
     const canStart = gameState === "setup" && playersReady;
@@ -310,40 +354,46 @@ export class GameEngine {
    * @param players - Array of players
    * @param currentPlayerIndex - Current player index
    * @param gameState - Current game state
+   * @param rules - The rule set in play
    * @returns True if turn can be processed
    */
   static canProcessTurn(
     players: Player[],
     currentPlayerIndex: number,
-    gameState: GameState
+    gameState: GameState,
+    rules: RuleSet = DEFAULT_RULE_SET
   ): boolean {
     return (
       gameState === "playing" &&
       currentPlayerIndex >= 0 &&
       currentPlayerIndex < players.length &&
-      !findWinner(players) // Game hasn't ended yet
+      !findWinner(players, rules) // Game hasn't ended yet
     );
   }
 
   /**
    * Gets statistics for a player
    * @param player - Player to get stats for
+   * @param rules - The rule set in play
    * @returns Player statistics
    */
-  static getPlayerStats(player: Player): {
+  static getPlayerStats(
+    player: Player,
+    rules: RuleSet = DEFAULT_RULE_SET
+  ): {
     score: number;
     penalties: number;
     pointsToWin: number;
     canWinWith: number[];
     riskScores: number[];
   } {
-    const pointsToWin = Math.max(0, 50 - player.score);
+    const pointsToWin = Math.max(0, rules.targetScore - player.score);
     const canWinWith: number[] = [];
     const riskScores: number[] = [];
 
     // Calculate which scores would win or cause reset
     for (let score = 1; score <= 12; score++) {
-      const effect = this.calculateScoreEffect(player, score);
+      const effect = this.calculateScoreEffect(player, score, rules);
       if (effect.willWin) {
         canWinWith.push(score);
       } else if (effect.willReset) {
@@ -359,4 +409,98 @@ export class GameEngine {
       riskScores,
     };
   }
+
+  /**
+   * Ranks what the thrower could aim for: each single pin, or knocking a
+   * group of pins. Each option is scored by the position it is expected to
+   * leave, counting overshoot resets, misses towards elimination, and the
+   * chance an opponent within one throw of the target wins first.
+   * @param thrower - The player (or team) about to throw
+   * @param opponentScores - Scores of the opponents still in the game
+   * @param rules - The rule set in play
+   * @param hitRates - The thrower's hit rates
+   * @returns Options, best first
+   */
+  static getAimingAdvice(
+    thrower: Pick<Player, "score" | "consecutiveMisses">,
+    opponentScores: number[],
+    rules: RuleSet = DEFAULT_RULE_SET,
+    hitRates: HitRates = DEFAULT_HIT_RATES
+  ): AimingOption[] {
+    const misses = thrower.consecutiveMisses || 0;
+    const threat = opponentScores.some((score) => {
+      const remaining = rules.targetScore - score;
+      return remaining >= 1 && remaining <= 12;
+    })
+      ? DEFAULT_HIT_RATES.singlePin
+      : 0;
+
+    const missValue =
+      this.getPositionValue(thrower.score, misses + 1, rules, hitRates) *
+      (1 - threat);
+
+    const rateOption = (
+      type: AimingOption["type"],
+      points: number,
+      hitChance: number
+    ): AimingOption => {
+      const effect = this.calculateScoreEffect(thrower, points, rules);
+      const hitValue = effect.willWin
+        ? 1
+        : this.getPositionValue(effect.newScore, 0, rules, hitRates) *
+          (1 - threat);
+
+      return {
+        type,
+        points,
+        expectedValue: hitChance * hitValue + (1 - hitChance) * missValue,
+        winChance: effect.willWin ? hitChance : 0,
+        resetChance: effect.willReset ? hitChance : 0,
+      };
+    };
+
+    const options = Array.from({ length: 12 }, (_, i) =>
+      rateOption("single", i + 1, hitRates.singlePin)
+    );
+    const groupPins = Math.min(
+      12,
+      Math.max(2, Math.round(hitRates.averagePins))
+    );
+    options.push(rateOption("multiple", groupPins, hitRates.multiplePins));
+
+    return options.sort(
+      (a, b) =>
+        b.expectedValue - a.expectedValue ||
+        b.winChance - a.winChance ||
+        b.points - a.points
+    );
+  }
+
+  /**
+   * Rough worth of standing on a score (0-1): within one throw of the
+   * target is worth the chance of finishing, below that it grows with the
+   * score, and each consecutive miss brings elimination closer
+   */
+  private static getPositionValue(
+    score: number,
+    misses: number,
+    rules: RuleSet,
+    hitRates: HitRates
+  ): number {
+    if (rules.eliminationMisses !== null && misses >= rules.eliminationMisses) {
+      return 0;
+    }
+
+    const remaining = rules.targetScore - score;
+    const progress =
+      remaining <= 12
+        ? 0.5 + 0.4 * hitRates.singlePin
+        : (0.5 * score) / Math.max(1, rules.targetScore - 12);
+    const missPenalty =
+      rules.eliminationMisses !== null
+        ? (0.5 * misses) / rules.eliminationMisses
+        : 0;
+
+    return progress * (1 - missPenalty);
+  }
 }
@@ -11,7 +11,11 @@ import type {
   PenaltyRecord,
   Team,
   GameMode,
+  ThrowEvent,
+  RuleSet,
+  TeamRotation,
 } from "./types/index";
+import { DEFAULT_RULE_SET } from "./rules";
 
 /**
  * Creates a new player with default values
@@ -51,17 +55,28 @@ export function createTeam(name: string, players: Player[] = []): Team {
  * @param players - Array of players for the game
  * @param gameMode - The game mode (individual or team)
  * @param teams - Optional array of teams for team-based games
+ * @param rules - The rule set the game is played with
  * @returns A new Game object
  */
 export function createGame(
   players: Player[],
   gameMode: GameMode = "individual",
-  teams?: Team[]
+  teams?: Team[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): Game {
+  const handicaps = getStartingHandicaps(players, gameMode, teams);
   return {
     id: generateId(),
-    players: players.map((player) => ({ ...player, score: 0, penalties: 0 })),
-    teams: teams?.map((team) => ({ ...team, score: 0, penalties: 0 })),
+    players: players.map((player) => ({
+      ...player,
+      score: gameMode === "team" ? 0 : player.handicap || 0,
+      penalties: 0,
+    })),
+    teams: teams?.map((team) => ({
+      ...team,
+      score: team.handicap || 0,
+      penalties: 0,
+    })),
     winner: null,
     winningTeam: null,
     startTime: new Date(),
@@ -69,9 +84,48 @@ export function createGame(
     totalRounds: 0,
     penalties: [],
     gameMode,
+    throws: [],
+    rules,
+    ...(Object.keys(handicaps).length > 0 && { handicaps }),
   };
 }
 
+/**
+ * Collects the handicap starting scores for a game: players' handicaps in
+ * individual games, teams' handicaps in team games
+ * @param players - Players of the game
+ * @param gameMode - The game mode
+ * @param teams - Teams of a team game
+ * @returns Starting scores above zero, by player or team ID
+ */
+export function getStartingHandicaps(
+  players: Player[],
+  gameMode: GameMode,
+  teams: Team[] = []
+): Record<string, number> {
+  const sides = gameMode === "team" ? teams : players;
+  return Object.fromEntries(
+    sides
+      .filter((side) => (side.handicap || 0) > 0)
+      .map((side) => [side.id, side.handicap!])
+  );
+}
+
+/**
+ * Gets the score a player or team started a game on. Players in team games
+ * started on their team's score.
+ * @param game - The game
+ * @param id - Player ID or team ID
+ * @returns The handicap, 0 if they started from scratch
+ */
+export function getHandicap(game: Game, id: string): number {
+  const handicaps = game.handicaps || {};
+  if (id in handicaps) return handicaps[id];
+
+  const team = game.teams?.find((t) => t.players.some((p) => p.id === id));
+  return team ? (handicaps[team.id] ?? 0) : 0;
+}
+
 /**
  * Creates a penalty record
  * @param playerId - The ID of the player receiving the penalty
@@ -98,20 +152,40 @@ export function createPenaltyRecord(
   };
 }
 
+/**
+ * Creates a throw event for the game's throw log
+ * @param details - The throw details (everything except ID and timestamp)
+ * @returns A new ThrowEvent object
+ */
+export function createThrowEvent(
+  details: Omit<ThrowEvent, "id" | "timestamp">
+): ThrowEvent {
+  return {
+    ...details,
+    id: generateId(),
+    timestamp: new Date(),
+  };
+}
+
 /**
  * Applies a score to a player, handling Mölkky scoring rules
  * @param player - The player to update
  * @param score - The score to add
+ * @param rules - The rule set in play
  * @returns Updated player with new score
  */
-export function applyScore(player: Player, score: number): Player {
+export function applyScore(
+  player: Player,
+  score: number,
+  rules: RuleSet = DEFAULT_RULE_SET
+): Player {
   const newScore = player.score + score;
 
-  // If score exceeds 50, reset to 25 (Mölkky rule)
-  if (newScore > 50) {
+  // If score exceeds the target, reset (Mölkky rule: 50 resets to 25)
+  if (newScore > rules.targetScore) {
     return {
       ...player,
-      score: 25,
+      score: rules.resetScore,
     };
   }
 
@@ -126,12 +200,14 @@ export function applyScore(player: Player, score: number): Player {
  * @param team - The team to update
  * @param score - The score to add
  * @param currentPlayerId - The ID of the player who scored (optional)
+ * @param rules - The rule set in play
  * @returns Updated team with new score and consecutive misses tracking
  */
 export function applyTeamScore(
   team: Team,
   score: number,
-  currentPlayerId?: string
+  currentPlayerId?: string,
+  rules: RuleSet = DEFAULT_RULE_SET
 ): Team {
   const newScore = team.score + score;
   let updatedTeam = { ...team };
@@ -141,8 +217,11 @@ export function applyTeamScore(
     const previousMisses = updatedTeam.consecutiveMisses || 0;
     updatedTeam.consecutiveMisses = previousMisses + 1;
 
-    // Check if team should be eliminated (3 consecutive misses)
-    if (updatedTeam.consecutiveMisses >= 3) {
+    // Check if team should be eliminated (3 consecutive misses by default)
+    if (
+      rules.eliminationMisses !== null &&
+      updatedTeam.consecutiveMisses >= rules.eliminationMisses
+    ) {
       updatedTeam.eliminated = true;
     }
   } else {
@@ -157,17 +236,20 @@ export function applyTeamScore(
       const playerNewScore = player.score + score;
       return {
         ...player,
-        score: playerNewScore > 50 ? 25 : playerNewScore, // Apply Mölkky rule to individual player too
+        score:
+          playerNewScore > rules.targetScore
+            ? rules.resetScore
+            : playerNewScore, // Apply Mölkky rule to individual player too
       };
     }
     return player;
   });
 
-  // If score exceeds 50, reset to 25 (Mölkky rule)
-  if (newScore > 50) {
+  // If score exceeds the target, reset (Mölkky rule: 50 resets to 25)
+  if (newScore > rules.targetScore) {
     return {
       ...updatedTeam,
-      score: 25,
+      score: rules.resetScore,
       players: updatedPlayers,
     };
   }
@@ -180,47 +262,63 @@ export function applyTeamScore(
 }
 
 /**
- * Applies a penalty to a player (resets score to 25)
+ * Applies a penalty to a player (resets score to 25 by default)
  * @param player - The player to penalize
+ * @param rules - The rule set in play
  * @returns Updated player with penalty applied
  */
-export function applyPenalty(player: Player): Player {
+export function applyPenalty(
+  player: Player,
+  rules: RuleSet = DEFAULT_RULE_SET
+): Player {
   return {
     ...player,
-    score: 25,
+    score: rules.resetScore,
     penalties: player.penalties + 1,
   };
 }
 
 /**
- * Applies a penalty to a team (resets score to 25)
+ * Applies a penalty to a team (resets score to 25 by default)
  * @param team - The team to penalize
+ * @param rules - The rule set in play
  * @returns Updated team with penalty applied
  */
-export function applyTeamPenalty(team: Team): Team {
+export function applyTeamPenalty(
+  team: Team,
+  rules: RuleSet = DEFAULT_RULE_SET
+): Team {
   return {
     ...team,
-    score: 25,
+    score: rules.resetScore,
     penalties: team.penalties + 1,
   };
 }
 
 /**
- * Checks if a player has won the game (score exactly 50)
+ * Checks if a player has won the game (score exactly 50 by default)
  * @param player - The player to check
+ * @param rules - The rule set in play
  * @returns True if the player has won
  */
-export function hasPlayerWon(player: Player): boolean {
-  return player.score === 50;
+export function hasPlayerWon(
+  player: Player,
+  rules: RuleSet = DEFAULT_RULE_SET
+): boolean {
+  return player.score === rules.targetScore;
 }
 
 /**
- * Checks if a team has won the game (score exactly 50)
+ * Checks if a team has won the game (score exactly 50 by default)
  * @param team - The team to check
+ * @param rules - The rule set in play
  * @returns True if the team has won
  */
-export function hasTeamWon(team: Team): boolean {
-  return team.score === 50;
+export function hasTeamWon(
+  team: Team,
+  rules: RuleSet = DEFAULT_RULE_SET
+): boolean {
+  return team.score === rules.targetScore;
 }
 
 /**
@@ -262,22 +360,87 @@ export function getNextPlayerInTeam(
   return (currentIndex + 1) % totalPlayers;
 }
 
+export const DEFAULT_TEAM_ROTATION: TeamRotation = "lockstep";
+
+/**
+ * Gets the player throwing for a team. In lockstep games a smaller team
+ * wraps round its order early.
+ * @param team - The team
+ * @returns The thrower, or undefined if the team has no players
+ */
+export function getTeamThrower(team: Team): Player | undefined {
+  if (team.players.length === 0) return undefined;
+  return team.players[(team.currentPlayerIndex || 0) % team.players.length];
+}
+
+/**
+ * Moves teams on to their next throwers after a team has thrown
+ * @param teams - Teams after the throw
+ * @param throwingTeamIndex - Index of the team that threw
+ * @param nextTeamIndex - Index of the team throwing next
+ * @param rotation - How team members take turns
+ * @returns Teams with updated player positions
+ */
+export function rotateTeamThrowers(
+  teams: Team[],
+  throwingTeamIndex: number,
+  nextTeamIndex: number,
+  rotation: TeamRotation = DEFAULT_TEAM_ROTATION
+): Team[] {
+  switch (rotation) {
+    case "captain":
+      return teams; // The captain picks before each throw
+
+    case "independent":
+      return teams.map((team, index) =>
+        index === throwingTeamIndex && team.players.length > 0
+          ? {
+              ...team,
+              currentPlayerIndex: getNextPlayerInTeam(
+                team.currentPlayerIndex || 0,
+                team.players.length
+              ),
+            }
+          : team
+      );
+
+    default: {
+      // Every team moves to the next position once the round comes back round
+      if (nextTeamIndex > throwingTeamIndex) return teams;
+      const largestTeam = Math.max(1, ...teams.map((t) => t.players.length));
+      const position = getNextPlayerInTeam(
+        teams[throwingTeamIndex]?.currentPlayerIndex || 0,
+        largestTeam
+      );
+      return teams.map((team) => ({ ...team, currentPlayerIndex: position }));
+    }
+  }
+}
+
 /**
  * Gets the points needed for a player to win
  * @param player - The player to check
- * @returns Points needed to reach 50
+ * @param rules - The rule set in play
+ * @returns Points needed to reach the target score
  */
-export function getPointsNeeded(player: Player): number {
-  return Math.max(0, 50 - player.score);
+export function getPointsNeeded(
+  player: Player,
+  rules: RuleSet = DEFAULT_RULE_SET
+): number {
+  return Math.max(0, rules.targetScore - player.score);
 }
 
 /**
  * Gets the points needed for a team to win
  * @param team - The team to check
- * @returns Points needed to reach 50
+ * @param rules - The rule set in play
+ * @returns Points needed to reach the target score
  */
-export function getTeamPointsNeeded(team: Team): number {
-  return Math.max(0, 50 - team.score);
+export function getTeamPointsNeeded(
+  team: Team,
+  rules: RuleSet = DEFAULT_RULE_SET
+): number {
+  return Math.max(0, rules.targetScore - team.score);
 }
 
 /**
@@ -340,19 +503,27 @@ export function reorderTeamsByPreviousScores(teams: Team[]): Team[] {
 /**
  * Finds the winner among players
  * @param players - Array of players to check
+ * @param rules - The rule set in play
  * @returns Winning player or null if no winner
  */
-export function findWinner(players: Player[]): Player | null {
-  return players.find((player) => hasPlayerWon(player)) || null;
+export function findWinner(
+  players: Player[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): Player | null {
+  return players.find((player) => hasPlayerWon(player, rules)) || null;
 }
 
 /**
  * Finds the winning team among teams
  * @param teams - Array of teams to check
+ * @param rules - The rule set in play
  * @returns Winning team or null if no winner
  */
-export function findWinningTeam(teams: Team[]): Team | null {
-  return teams.find((team) => hasTeamWon(team)) || null;
+export function findWinningTeam(
+  teams: Team[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): Team | null {
+  return teams.find((team) => hasTeamWon(team, rules)) || null;
 }
 
 /**
@@ -436,18 +607,20 @@ export function isValidStateTransition(
  * @param game - The game to complete
  * @param winner - The winning player (for individual games)
  * @param winningTeam - The winning team (for team games)
+ * @param endTime - When the game ended
  * @returns Completed game
  */
 export function completeGame(
   game: Game,
   winner: Player | null = null,
-  winningTeam: Team | null = null
+  winningTeam: Team | null = null,
+  endTime: Date = new Date()
 ): Game {
   return {
     ...game,
     winner,
     winningTeam,
-    endTime: new Date(),
+    endTime,
   };
 }
 
@@ -455,6 +628,6 @@ export function completeGame(
  * Generates a unique ID for players and games
  * @returns A unique string ID
  */
-function generateId(): string {
+export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
@@ -0,0 +1,728 @@
+/**
+ * English messages
+ * The reference catalog: every message key is defined here, and each
+ * other locale must translate all of them
+ *
+ * @format
+ */
+
+import type { Message } from "./translate";
+
+export const en = {
+  // Shared
+  ordinal: {
+    one: "{count}st",
+    two: "{count}nd",
+    few: "{count}rd",
+    other: "{count}th",
+  },
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.edit": "Edit",
+  "common.remove": "Remove",
+  "common.removing": "Removing...",
+  "common.position": "Position",
+  "common.player": "Player",
+  "common.team": "Team",
+  "common.score": "Score",
+  "common.status": "Status",
+  "common.penalties": "Penalties",
+  "common.winner": "Winner",
+  "common.eliminated": "Eliminated",
+  "common.active": "Active",
+  "common.currentTurn": "Current Turn",
+  "common.headStart": "Head start",
+  "common.headStartFor": "Head start for {name}",
+  "common.headStartPoints": "Head start {points}",
+  "common.handicapTitle": "Handicap starting score",
+  "common.invalidStartingScore": "Invalid starting score",
+  "common.close": "Close",
+  "common.end": "End",
+  "common.unknown": "Unknown",
+  "common.versus": "{first} vs {second}",
+  "common.somethingWrong": "Something went wrong",
+
+  // Language switcher
+  "language.label": "Language",
+
+  // ScoreInput
+  "scoreInput.title": "Score Entry",
+  "scoreInput.eliminatedNotice":
+    "{name} has been eliminated and cannot play further turns.",
+  "scoreInput.currentPlayer": "Current Player",
+  "scoreInput.currentScore": "Current Score: {score} / {target}",
+  "scoreInput.pointsNeeded": "Points Needed: {points}",
+  "scoreInput.consecutiveMisses": "⚠️ Consecutive Misses: {count}",
+  "scoreInput.oneMoreMiss": "One more miss will eliminate this player!",
+  "scoreInput.eliminatedAfter": {
+    one: "This player is eliminated after {count} miss.",
+    other: "This player is eliminated after {count} consecutive misses.",
+  },
+  "scoreInput.playerEliminated": "❌ Player Eliminated",
+  "scoreInput.eliminatedDueTo": {
+    one: "This player has been eliminated due to {count} miss.",
+    other: "This player has been eliminated due to {count} consecutive misses.",
+  },
+  "scoreInput.selectPins": "Select Pins Knocked Down",
+  "scoreInput.tapPins": "Tap the pins that were knocked down",
+  "scoreInput.singlePinSelected": {
+    one: "Single pin selected: {count} point",
+    other: "Single pin selected: {count} points",
+  },
+  "scoreInput.pinsSelected": "{count} pins selected: {count} points",
+  "scoreInput.aimingAdvice": "Aiming advice",
+  "scoreInput.aimFor": "🎯 Aim for",
+  "scoreInput.aimPin": "Pin {pin}",
+  "scoreInput.aimPins": "{count} pins",
+  "scoreInput.aimWins": "wins",
+  "scoreInput.aimResets": "resets",
+  "scoreInput.trackPins": "Track pin positions on the field",
+  "scoreInput.pinField": "Pin field",
+  "scoreInput.dragPins":
+    "Drag the knocked pins to where they were stood back up.",
+  "scoreInput.miss": "Miss (0 points)",
+  "scoreInput.calculatedScore": "Calculated Score:",
+  "scoreInput.singlePin": "Single Pin: {pin}",
+  "scoreInput.multiplePins": "Multiple Pins: {count}",
+  "scoreInput.submitLabel": "Submit score",
+  "scoreInput.submitting": "Submitting...",
+  "scoreInput.submit": "Submit Score",
+  "scoreInput.penalty": "Penalty",
+  "scoreInput.penaltyHelp":
+    "Apply a penalty to reset the player's score to {resetScore} points.",
+  "scoreInput.applyPenalty": "Apply Penalty",
+  "scoreInput.outOfTurnLabel": "Mark out-of-turn throw",
+  "scoreInput.outOfTurn": "Mark Out-of-Turn Throw",
+  "scoreInput.outOfTurnHelp": "Use if this player threw out of turn",
+  "scoreInput.confirmPenalty": "Confirm Penalty",
+  "scoreInput.confirmPenaltyMessage":
+    "Are you sure you want to apply a penalty to {name}? This will reset their score to {resetScore} points.",
+  "scoreInput.applying": "Applying...",
+  "scoreInput.apply": "Apply",
+  "scoreInput.missTitle": "Missed Throw",
+  "scoreInput.missMessage": "No pins knocked down for {name}.",
+  "scoreInput.missFailedTitle": "Failed to Submit Miss",
+  "scoreInput.missFailed": "Failed to submit miss. Please try again.",
+  "scoreInput.invalidScoreTitle": "Invalid Score",
+  "scoreInput.invalidScore": "Invalid score",
+  "scoreInput.submittedTitle": "Score Submitted",
+  "scoreInput.submittedMessage": {
+    one: "Score of {count} point recorded for {name}.",
+    other: "Score of {count} points recorded for {name}.",
+  },
+  "scoreInput.submitFailedTitle": "Failed to Submit Score",
+  "scoreInput.submitFailed": "Failed to submit score. Please try again.",
+  "scoreInput.penaltyTitle": "Penalty Applied",
+  "scoreInput.penaltyMessage":
+    "Penalty applied to {name}. Score reset to {resetScore}.",
+  "scoreInput.penaltyFailedTitle": "Failed to Apply Penalty",
+  "scoreInput.penaltyFailed": "Failed to apply penalty. Please try again.",
+  "scoreInput.outOfTurnTitle": "Out-of-Turn Throw",
+  "scoreInput.outOfTurnMessage":
+    "{name}'s throw was voided. Score reset to {resetScore} if {threshold} or more.",
+
+  // ScoreCommandInput
+  "scoreCommand.label": "Type or say a throw",
+  "scoreCommand.placeholder": "seven, three pins, miss, penalty, undo",
+  "scoreCommand.enter": "Enter",
+  "scoreCommand.listen": "Say a throw",
+  "scoreCommand.stopListening": "Stop listening",
+  "scoreCommand.listening": "Listening…",
+  "scoreCommand.notUnderstood":
+    'Did not understand "{text}". Try "seven", "three pins", "miss", "penalty" or "undo".',
+  "scoreCommand.speechFailed":
+    "Could not hear a command. Try again or type it.",
+
+  // GamePlayPanel
+  "gamePlay.turn": "{name}'s Turn",
+  "gamePlay.score": "Score: {score} / {target}",
+  "gamePlay.teamThrower": "{name} (Score: {score} / {target})",
+  "gamePlay.chooseThrower": "Choose thrower",
+  "gamePlay.winProbabilityLabel": "Win probability",
+  "gamePlay.winProbability": "🎲 Win Probability",
+  "gamePlay.undoLabel": "Undo last throw",
+  "gamePlay.undo": "Undo",
+  "gamePlay.redoLabel": "Redo undone throw",
+  "gamePlay.redo": "Redo",
+  "gamePlay.shareLabel":
+    "Copy a link that continues this game on another device",
+  "gamePlay.share": "Share Game",
+  "gamePlay.endGameLabel": "End current game and return to start screen",
+  "gamePlay.endGame": "End Game",
+  "gamePlay.endGameHelp": "Return to start screen and reset scores",
+  "gamePlay.scoreBoard": "📊 Score Board",
+  "gamePlay.winnerStatus": "Winner!",
+  "gamePlay.misses": "Misses: {count}",
+
+  // WinnerDisplay
+  "winner.title": "{name} Wins!",
+  "winner.congratulations":
+    "Congratulations on reaching exactly {target} points!",
+  "winner.championStats": "🏆 Champion Stats",
+  "winner.finalScore": "Final Score",
+  "winner.finalLeaderboard": "Final Leaderboard",
+  "winner.penaltyCount": {
+    one: "{count} penalty",
+    other: "{count} penalties",
+  },
+  "winner.newGame": "🎮 Start New Game",
+  "winner.newGameHelp": "Start a new game with the same players",
+
+  // NoWinnerDisplay
+  "noWinner.title": "Game Over",
+  "noWinner.allPlayersEliminated":
+    "All players have been eliminated due to consecutive misses.",
+  "noWinner.allTeamsEliminated":
+    "All teams have been eliminated due to consecutive misses.",
+  "noWinner.summary": "🚫 Elimination Summary",
+  "noWinner.playersEliminated": "Players Eliminated",
+  "noWinner.teamsEliminated": "Teams Eliminated",
+  "noWinner.totalPlayers": "Total Players",
+  "noWinner.totalTeams": "Total Teams",
+  "noWinner.finalStandings": "Final Standings",
+  "noWinner.reset": "🔄 Reset & Modify Players",
+  "noWinner.resetHelp":
+    "Go back to setup to modify players and start a new game with the same players",
+
+  // PlayerManager
+  "players.title": "Players",
+  "players.nameLabel": "Player name",
+  "players.namePlaceholder": "Enter player name",
+  "players.addLabel": "Add player",
+  "players.adding": "Adding...",
+  "players.add": "Add Player",
+  "players.saved": "Saved players:",
+  "players.addSaved": "Add saved player {name}",
+  "players.empty":
+    "No players added yet. Add at least 2 players to start a game.",
+  "players.editNameLabel": "Edit player name",
+  "players.saveNameLabel": "Save player name",
+  "players.cancelEditLabel": "Cancel player name edit",
+  "players.score": "Score: {score}",
+  "players.editLabel": "Edit player",
+  "players.deleteLabel": "Delete player",
+  "players.confirmRemoval": "Confirm Removal",
+  "players.confirmRemovalMessage":
+    "Are you sure you want to remove {name}? This action cannot be undone.",
+  "players.oneMore": "Add 1 more player to start a game.",
+  "players.ready": {
+    one: "Ready to start! {count} player added.",
+    other: "Ready to start! {count} players added.",
+  },
+  "players.inProgress": "Game in progress. Player management is disabled.",
+  "players.invalidNameTitle": "Invalid Player Name",
+  "players.invalidName": "Invalid player name",
+  "players.addedTitle": "Player Added",
+  "players.addedMessage": 'Player "{name}" has been added successfully.',
+  "players.addFailedTitle": "Failed to Add Player",
+  "players.addFailed": "Failed to add player. Please try again.",
+  "players.updatedTitle": "Player Updated",
+  "players.updatedMessage": "Player name has been updated successfully.",
+  "players.updateFailedTitle": "Failed to Update Player",
+  "players.updateFailed": "Failed to update player. Please try again.",
+  "players.removedTitle": "Player Removed",
+  "players.removedMessage": 'Player "{name}" has been removed.',
+  "players.removeFailedTitle": "Failed to Remove Player",
+  "players.removeFailed": "Failed to remove player. Please try again.",
+
+  // TeamManager
+  "teams.title": "Team Management",
+  "teams.create": "Create New Team",
+  "teams.nameLabel": "Team Name",
+  "teams.namePlaceholder": "Enter team name",
+  "teams.selectPlayers": "Select Players ({count}/4)",
+  "teams.createButton": "Create Team",
+  "teams.rotationLabel": "Turn Order Within Teams",
+  "teams.rotation.lockstep":
+    "Lockstep: every team throws with the same position",
+  "teams.rotation.independent": "Independent: each team follows its own order",
+  "teams.rotation.captain": "Captain chooses the thrower each turn",
+  "teams.list": "Teams ({count})",
+  "teams.empty":
+    "No teams created yet. Create at least 2 teams to start a team game.",
+  "teams.playerCount": {
+    one: "{count} player",
+    other: "{count} players",
+  },
+  "teams.players": "Players:",
+  "teams.saveOrder": "Save Order",
+  "teams.reorder": "Reorder",
+  "teams.reorderHelp":
+    "💡 Tap the arrows to reorder players. The order determines throwing sequence.",
+  "teams.moveUp": "Move up",
+  "teams.moveDown": "Move down",
+  "teams.moveUpLabel": "Move {name} up",
+  "teams.moveDownLabel": "Move {name} down",
+  "teams.confirmRemove": "Are you sure you want to remove this team?",
+  "teams.confirmRemoveButton": "Yes, Remove",
+  "teams.ready": "✅ Ready to start team game",
+  "teams.needMore": {
+    one: "❌ Need {count} more team to start",
+    other: "❌ Need {count} more teams to start",
+  },
+  "teams.nameRequired": "Team name is required",
+  "teams.invalidNameTitle": "Invalid Team Name",
+  "teams.nameExists": "Team name already exists",
+  "teams.duplicateTitle": "Duplicate Team Name",
+  "teams.duplicateMessage": "A team with this name already exists",
+  "teams.noPlayers": "At least one player must be selected",
+  "teams.noPlayersTitle": "No Players Selected",
+  "teams.noPlayersMessage": "At least one player must be selected for the team",
+  "teams.tooMany": "Maximum 4 players per team",
+  "teams.tooManyTitle": "Too Many Players",
+  "teams.tooManyMessage": "Maximum 4 players allowed per team",
+  "teams.addedTitle": "Team Added",
+  "teams.addedMessage": 'Team "{name}" has been created successfully.',
+  "teams.createFailedTitle": "Failed to Create Team",
+  "teams.createFailed": "Failed to create team. Please try again.",
+  "teams.updatedTitle": "Team Updated",
+  "teams.updatedMessage": "Team name has been updated successfully.",
+  "teams.updateFailedTitle": "Failed to Update Team",
+  "teams.updateFailed": "Failed to update team. Please try again.",
+  "teams.removedTitle": "Team Removed",
+  "teams.removedMessage": "Team has been removed successfully.",
+  "teams.removeFailedTitle": "Failed to Remove Team",
+  "teams.removeFailed": "Failed to remove team. Please try again.",
+  "teams.orderUpdatedTitle": "Player Order Updated",
+  "teams.movedUp": "{name} moved up in the order.",
+  "teams.movedDown": "{name} moved down in the order.",
+  "teams.orderSavedTitle": "Player Order Saved",
+  "teams.orderSavedMessage": "Team player order has been updated.",
+
+  // GameModeSelector
+  "gameMode.title": "Game Mode",
+  "gameMode.individual": "Individual",
+  "gameMode.individualHelp":
+    "Each player competes individually. First to reach {target} points wins.",
+  "gameMode.team": "Team",
+  "gameMode.teamHelp":
+    "Players compete in teams. First team to reach {target} points wins.",
+  "gameMode.locked": "⚠️ Game mode cannot be changed during an active game.",
+
+  // RuleSetSelector
+  "rules.title": "Rules",
+  "rules.editLabel": "Edit rules",
+  "rules.edit": "✏️ Edit",
+  "rules.standard": "Standard",
+  "rules.quickGame": "Quick Game",
+  "rules.noElimination": "No Elimination",
+  "rules.summary":
+    "First to {target}, overshoot resets to {reset}, {elimination}",
+  "rules.summaryNoElimination": "no elimination",
+  "rules.summaryElimination": {
+    one: "{count} miss eliminates",
+    other: "{count} misses eliminate",
+  },
+  "rules.custom":
+    "Custom rules: {summary}, out-of-turn resets at {threshold}+.",
+  "rules.targetScore": "Target score",
+  "rules.resetScore": "Reset score",
+  "rules.outOfTurnThreshold": "Out-of-turn threshold",
+  "rules.eliminationMisses": "Misses before elimination",
+  "rules.eliminate": "Eliminate players after consecutive misses",
+  "rules.invalid": "Invalid rules",
+  "rules.save": "Save Rules",
+
+  // TournamentBracket
+  "tournament.final": "Final",
+  "tournament.semiFinals": "Semi-finals",
+  "tournament.quarterFinals": "Quarter-finals",
+  "tournament.round": "Round {round}",
+  "tournament.title": "Knockout Tournament",
+  "tournament.help":
+    "Seeds follow the order of the list above; top seeds get byes when the field is not a power of two.",
+  "tournament.nameLabel": "Tournament name",
+  "tournament.create": "🏆 Create Bracket",
+  "tournament.progress": "{played} of {total} matches played",
+  "tournament.endLabel": "End tournament",
+  "tournament.champion": "Champion: {name}",
+  "tournament.play": "Play {match}",
+  "tournament.waiting": "Waiting for results",
+  "tournament.bye": "Bye",
+  "tournament.tbd": "TBD",
+  "tournament.duringGame": "Cannot create a tournament during a game",
+  "tournament.needPlayers": "Need at least 2 players for a tournament",
+  "tournament.needTeams": "Need at least 2 teams for a tournament",
+  "tournament.none": "No tournament in progress",
+  "tournament.finishGame":
+    "Finish the current game before starting the next match",
+  "tournament.matchDecided": "Match has already been decided",
+  "tournament.matchWaiting": "Match is waiting for earlier results",
+  "tournament.noMatchReady": "No match is ready to be played",
+
+  // LeagueTable and useLeague
+  "league.title": "Round-Robin League",
+  "league.help": "Everyone in the list above plays everyone else once.",
+  "league.nameLabel": "League name",
+  "league.create": "📅 Create Fixtures",
+  "league.progress": "{played} of {total} fixtures played",
+  "league.endLabel": "End league",
+  "league.standingsLabel": "League standings",
+  "league.name": "Name",
+  "league.played": "Played",
+  "league.playedShort": "P",
+  "league.wins": "Wins",
+  "league.winsShort": "W",
+  "league.losses": "Losses",
+  "league.lossesShort": "L",
+  "league.pointsFor": "Points for",
+  "league.pointsForShort": "PF",
+  "league.pointsAgainst": "Points against",
+  "league.pointsAgainstShort": "PA",
+  "league.scoreDifference": "Score difference",
+  "league.penaltiesShort": "Pen",
+  "league.play": "Play",
+  "league.playFixture": "Play {fixture}",
+  "league.duringGame": "Cannot create a league during a game",
+  "league.needPlayers": "Need at least 2 players for a league",
+  "league.needTeams": "Need at least 2 teams for a league",
+  "league.none": "No league in progress",
+  "league.finishGame":
+    "Finish the current game before starting the next fixture",
+  "league.fixturePlayed": "Fixture has already been played",
+  "league.allPlayed": "All fixtures have been played",
+
+  // SyncPanel and useSync
+  "sync.title": "Live Sync",
+  "sync.connecting": "Connecting…",
+  "sync.connected": "Connected",
+  "sync.offline": "Offline, reconnecting…",
+  "sync.closed": "Disconnected",
+  "sync.room": "Room",
+  "sync.leave": "Leave Room",
+  "sync.help": "Join the same room on each phone to keep score together.",
+  "sync.relayLabel": "Relay address",
+  "sync.roomLabel": "Room code",
+  "sync.join": "Join Room",
+  "sync.relayUrl": "Relay address must start with ws:// or wss://",
+  "sync.roomCode": "Room code must be 3-32 letters, numbers or dashes",
+  "sync.unavailable": "Live sync is not available",
+  "sync.connectFailed": "Failed to connect to the relay",
+
+  // GameHistory
+  "history.title": "Game History",
+  "history.count": {
+    one: "{count} completed game",
+    other: "{count} completed games",
+  },
+  "history.closeLabel": "Close history",
+  "history.overall": "📊 Overall Statistics",
+  "history.totalGames": "Total Games",
+  "history.totalPenalties": "Total Penalties",
+  "history.averageDuration": "Avg Duration (min)",
+  "history.notAvailable": "N/A",
+  "history.mostPenalized": "Most Penalized",
+  "history.ratings": "📈 Skill Ratings",
+  "history.ratingsLabel": "Skill ratings",
+  "history.ratingFinished": "{date} · finished #{rank}",
+  "history.allGames": "← All Games",
+  "history.notFound": "Game Not Found",
+  "history.notFoundHelp": "This game is not in the history on this device.",
+  "history.empty": "No Games Yet",
+  "history.emptyHelp": "Complete your first game to see it appear here!",
+  "history.gameNumber": "Game #{number}",
+  "history.duration": "Duration: {duration}",
+  "history.rounds": {
+    one: "{count} round",
+    other: "{count} rounds",
+  },
+  "history.openLabel": "Open game {number}",
+  "history.open": "Open →",
+  "history.winner": "Winner: {name}",
+  "history.finalScore": "Final Score: {score} points",
+  "history.finalScores": "Final Scores:",
+  "history.penalties": "Penalties Applied:",
+  "history.swings": "Win Probability Swings",
+  "history.swingPoints": "{score} pts",
+  "history.swingPenalty": "penalty",
+  "history.swingOutOfTurn": "out of turn",
+  "history.pinField": "Pin Field",
+  "history.export": "📥 Export History",
+  "history.exportCsv": "📊 Export CSV",
+  "history.exportThrows": "🎯 Export Throws CSV",
+  "history.import": "📤 Import History",
+  "history.clear": "🗑️ Clear History",
+  "history.importFailed": "Failed to import history: {error}",
+  "history.imported": {
+    one: "Imported {count} game",
+    other: "Imported {count} games",
+  },
+  "history.importedSkipped": {
+    one: "Imported {count} game, skipped {skipped} already in history",
+    other: "Imported {count} games, skipped {skipped} already in history",
+  },
+  "history.confirmClear":
+    "Are you sure you want to clear all game history? This action cannot be undone.",
+  "history.clearFailedAlert": "Failed to clear history: {error}",
+
+  // PinStats
+  "pinStats.title": "🎯 Pin Statistics",
+  "pinStats.throws": "Throws",
+  "pinStats.missRate": "Miss Rate",
+  "pinStats.averagePins": "Avg Pins (multi)",
+  "pinStats.singleHits": "Times each pin was knocked down alone:",
+  "pinStats.singleHitsLabel": "Single pin hits for {name}",
+  "pinStats.pinHits": {
+    one: "Pin {pin}: {count} time",
+    other: "Pin {pin}: {count} times",
+  },
+
+  // PinFieldReplay
+  "pinField.replayLabel": "Pin field after throw {number}",
+  "pinField.recordedThrow": "Recorded throw",
+  "pinField.replayStep":
+    "After throw {number} of {total} by {name} ({score} points) · spread {spread}%",
+
+  // MobileNav
+  "nav.history": "History",
+  "nav.endGameLabel": "End game",
+  "nav.moreLabel": "More actions",
+  "nav.more": "More",
+  "nav.topLabel": "Scroll to top",
+  "nav.top": "Top",
+  "nav.refreshLabel": "Refresh page",
+  "nav.refresh": "Refresh",
+  "nav.shareLabel": "Share app",
+  "nav.share": "Share",
+  "nav.shareText": "Check out this Mölkky score counter app!",
+
+  // SpectatorBoard
+  "spectator.loading": "Loading scoreboard...",
+  "spectator.waitingForWindow": "Waiting for the scorekeeper's window…",
+  "spectator.unsupported":
+    "This browser cannot follow another window. Open the scoreboard in a newer browser.",
+  "spectator.label": "Scoreboard",
+  "spectator.title": "Mölkky Scoreboard",
+  "spectator.waitingForGame": "Waiting for the game to start",
+  "spectator.winner": "🏆 {name} wins!",
+  "spectator.next": "Next: {name}",
+  "spectator.misses": {
+    one: "{count} miss in a row",
+    other: "{count} misses in a row",
+  },
+
+  // App
+  "app.gameStartedTitle": "Game Started!",
+  "app.gameStarted": {
+    one: "Game started with {count} player. Good luck!",
+    other: "Game started with {count} players. Good luck!",
+  },
+  "app.startFailedTitle": "Failed to Start Game",
+  "app.sharedGameTitle": "Game Picked Up",
+  "app.sharedGame": "The shared game is ready to continue on this device.",
+  "app.sharedGameFailedTitle": "Could Not Open Shared Game",
+  "app.sharedGameFailed": "The game link could not be opened.",
+  "app.newGameTitle": "New Game Started",
+  "app.newGame": "A new game has been started with the same players.",
+  "app.newGameFailedTitle": "Failed to Start New Game",
+  "app.newGameFailed": "The new game could not be started.",
+  "app.updateTitle": "New Version Available",
+  "app.update": "Reload to use the latest version of the app.",
+  "app.reload": "Reload",
+  "app.linkCopiedTitle": "Link Copied",
+  "app.linkCopied":
+    "Open the link on another phone to carry on the game there.",
+  "app.copyFailedTitle": "Failed to Copy Link",
+  "app.copyFailed": "Copy this link by hand: {link}",
+  "app.undoneTitle": "Throw Undone",
+  "app.undone": "The last throw has been taken back.",
+  "app.undoFailedTitle": "Failed to Undo",
+  "app.redoneTitle": "Throw Redone",
+  "app.redone": "The undone throw has been applied again.",
+  "app.redoFailedTitle": "Failed to Redo",
+  "app.throwerFailedTitle": "Cannot Choose Thrower",
+  "app.gameEndedTitle": "Game Ended",
+  "app.gameEnded":
+    "Game has been ended and reset to setup. You can now modify players and start a new game.",
+  "app.endFailedTitle": "Failed to End Game",
+  "app.gameResetTitle": "Game Reset",
+  "app.gameReset":
+    "Game has been reset to setup. You can now modify players and start a new game.",
+  "app.resetFailedTitle": "Failed to Reset Game",
+  "app.syncConflictTitle": "Change Not Synced",
+  "app.syncConflict":
+    "Another phone changed the game at the same time, so your last change was dropped. Check the scores and enter it again if needed.",
+  "app.title": "Mölkky Score Counter",
+  "app.subtitle": "Track scores and manage your Mölkky games",
+  "app.historyLabel": "View game history",
+  "app.history": "View Game History",
+  "app.scoreboardLabel": "Open a scoreboard window for a big screen",
+  "app.scoreboard": "Scoreboard Window",
+  "app.setupLabel": "Game setup",
+  "app.startGameLabel": "Start game",
+  "app.startGame": "Start Game",
+  "app.startTeamGameLabel": "Start team game",
+  "app.startTeamGame": "Start Team Game",
+  "app.needPlayersLabel": {
+    one: "Cannot start game: need {count} more player",
+    other: "Cannot start game: need {count} more players",
+  },
+  "app.needPlayers": {
+    one: "Need {count} more player",
+    other: "Need {count} more players",
+  },
+  "app.needTeamsLabel": {
+    one: "Cannot start game: need {count} more team",
+    other: "Cannot start game: need {count} more teams",
+  },
+  "app.needTeams": {
+    one: "Need {count} more team",
+    other: "Need {count} more teams",
+  },
+  "app.playingLabel": "Game in progress",
+  "app.finishedLabel": "Game completed with winner",
+  "app.noWinnerLabel": "Game completed without winner",
+  "app.loadingHistory": "Loading history...",
+  "app.loadingTeams": "Loading team management...",
+  "app.loadingTournament": "Loading tournament...",
+  "app.loadingLeague": "Loading league...",
+  "app.loadingSync": "Loading live sync...",
+
+  // useRouter and useLaunchAction
+  "app.confirmEndGame": "End the current game and return to setup?",
+  "app.confirmRematch":
+    "A game is in progress. End it and start a new game with the same players?",
+  "app.launchNeedPlayers": "Add at least 2 players to start a new game",
+  "app.launchNeedTeams": "Add at least 2 teams to start a new game",
+
+  // useGameFlow
+  "gameFlow.needPlayers": "Need at least 2 players to start game",
+  "gameFlow.cannotStart": "Game cannot be started in current state",
+  "gameFlow.startFailed": "Failed to start game",
+  "gameFlow.scoreNotPlaying": "Cannot submit score when game is not active",
+  "gameFlow.noTeam": "No current team found",
+  "gameFlow.noPlayer": "No current player found",
+  "gameFlow.scoreRange": "Score must be between 0 and 50",
+  "gameFlow.penaltyNotPlaying": "Cannot apply penalty when game is not active",
+  "gameFlow.penaltyFailed": "Failed to apply penalty",
+  "gameFlow.turnNotPlaying": "Cannot advance turn when game is not active",
+  "gameFlow.turnFailed": "Failed to advance to next turn",
+  "gameFlow.endNotPlaying": "Cannot end game when not playing",
+  "gameFlow.endNoWinner": "Cannot end game without a winner",
+  "gameFlow.endFailed": "Failed to end game",
+  "gameFlow.newGameNotFinished":
+    "Can only start new game after current game is finished",
+  "gameFlow.newGameFailed": "Failed to start new game",
+  "gameFlow.resetFailed": "Failed to reset game",
+  "gameFlow.resetToSetupFailed": "Failed to reset to setup",
+  "gameFlow.rotationLocked":
+    "Team rotation can only be changed before the game starts",
+  "gameFlow.noThrowingTeam": "No team is throwing",
+  "gameFlow.throwersFollowOrder": "Throwers follow the team order in this game",
+  "gameFlow.throwerNotInTeam": "Player is not in the throwing team",
+  "gameFlow.nothingToUndo": "No throws to undo",
+  "gameFlow.undoFailed": "Failed to undo throw",
+  "gameFlow.nothingToRedo": "No throws to redo",
+  "gameFlow.redoFailed": "Failed to redo throw",
+
+  // usePlayerManagement
+  "players.lockedDuringGame": "Cannot modify players during active game",
+  "players.addError": "Failed to add player",
+  "players.savedNotFound": "Saved player not found",
+  "players.alreadyInGame": "{name} is already in the game",
+  "players.namesLockedDuringGame":
+    "Cannot modify player names during active game",
+  "players.notFound": "Player not found",
+  "players.updateError": "Failed to update player",
+  "players.removeLockedDuringGame": "Cannot remove players during active game",
+  "players.removeError": "Failed to remove player",
+  "players.handicapLockedDuringGame":
+    "Cannot change starting scores during active game",
+
+  // shareState.ts
+  "share.damaged": "This game link is damaged and cannot be opened.",
+  "share.changed": "This game link has been changed since it was shared.",
+  "share.version": "This game link was made by a different version of the app.",
+
+  // useGameHistory
+  "history.importNotJson": "Import file is not valid JSON",
+  "history.importUnreadable":
+    "Import file contains games that could not be read",
+  "history.clearFailed": "Failed to clear game history",
+
+  // Penalty reasons, stored in English and translated for display
+  "penalty.default": "Score reset to 25",
+  "penalty.ruleViolation": "Rule violation",
+  "penalty.outOfTurn": "out-of-turn",
+  "penalty.elimination": {
+    one: "elimination ({count} miss)",
+    other: "elimination ({count} misses)",
+  },
+  "penalty.teamElimination": {
+    one: "team elimination ({count} miss)",
+    other: "team elimination ({count} misses)",
+  },
+
+  // Durations in the game history
+  "duration.minutes": "{minutes}m",
+  "duration.hours": "{hours}h",
+  "duration.hoursMinutes": "{hours}h {minutes}m",
+
+  // validation.ts
+  "validation.playerNameEmpty":
+    "Player name cannot be empty. Please enter a valid name.",
+  "validation.playerNameTooShort":
+    "Player name must be at least 2 characters long.",
+  "validation.playerNameTooLong":
+    "Player name cannot exceed 50 characters. Please use a shorter name.",
+  "validation.playerNameInvalidChars":
+    "Player name contains invalid characters. Please use only letters, numbers, and spaces.",
+  "validation.playerNameDuplicate":
+    'Player name "{name}" already exists. Please choose a different name.',
+  "validation.scoreNotWhole":
+    "Score must be a whole number. Please enter a valid number.",
+  "validation.singlePinRange":
+    "Single pin score must be between 0 and 12. Please enter a valid score.",
+  "validation.multiplePinRange":
+    "Multiple pin score must be between 2 and 12. Please enter a valid score.",
+  "validation.minimumPlayers":
+    "At least 2 players are required to start a game. Please add more players.",
+  "validation.stateTransition":
+    'Cannot transition from "{from}" to "{to}". Invalid game state transition.',
+  "validation.storageKey": "Storage key must be a valid string.",
+  "validation.storageEmpty": "Cannot store undefined or null values.",
+  "validation.storageSerialize":
+    "Data cannot be serialized to JSON. Please check the data structure.",
+  "validation.targetScore":
+    "Target score must be a whole number between 1 and 200.",
+  "validation.resetScore":
+    "Reset score must be a whole number below the target score.",
+  "validation.eliminationMisses":
+    "Misses before elimination must be between 1 and 10, or turned off.",
+  "validation.outOfTurnThreshold":
+    "Out-of-turn threshold must be a whole number no higher than the target score.",
+  "validation.handicap":
+    "Starting score must be a whole number from 0 to {max}.",
+  "validation.importNotHistory": "Import file is not a game history export.",
+  "validation.importNoGames": "Import file does not contain a list of games.",
+  "validation.importGameInvalid": "Game {number} is not valid.",
+  "validation.importGameNoId": "Game {number} is missing an id.",
+  "validation.importGameNoPlayers": "Game {number} has no players.",
+  "validation.importGameTeamPlayers":
+    "Game {number} has a team with no players.",
+  "validation.importGameStartTime": "Game {number} has an invalid start time.",
+  "validation.sharedUnreadable": "The shared game could not be read.",
+  "validation.sharedMode": "The shared game has an unknown game mode.",
+  "validation.sharedRules": "The shared game has invalid rules.",
+  "validation.sharedNoPlayers": "The shared game has no players.",
+  "validation.sharedPlayer": "The shared game has an invalid player.",
+  "validation.sharedPlayerScores":
+    "The shared game has invalid scores for {name}.",
+  "validation.sharedTeams": "The shared game has invalid teams.",
+  "validation.sharedTeam": "The shared game has an invalid team.",
+  "validation.sharedTeamDuplicate":
+    'Team name "{name}" appears twice in the shared game.',
+  "validation.sharedTeamPlayers":
+    "The shared game has invalid players in team {name}.",
+  "validation.sharedTeamScores":
+    "The shared game has invalid scores for team {name}.",
+  "validation.sharedMinimumTeams": "The shared game needs at least 2 teams.",
+  "validation.sharedMinimumPlayers":
+    "The shared game needs at least 2 players.",
+  "validation.sharedTurn": "The shared game does not say whose turn it is.",
+  "validation.sharedRotation":
+    "The shared game has an unknown team turn order.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
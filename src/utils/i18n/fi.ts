@@ -0,0 +1,729 @@
+/**
+ * Finnish messages
+ * Typed against the English catalog, so a missing key fails the build
+ *
+ * @format
+ */
+
+import type { Catalog } from "./translate";
+
+export const fi: Catalog = {
+  // Shared
+  ordinal: { other: "{count}." },
+  "common.cancel": "Peruuta",
+  "common.save": "Tallenna",
+  "common.saving": "Tallennetaan...",
+  "common.edit": "Muokkaa",
+  "common.remove": "Poista",
+  "common.removing": "Poistetaan...",
+  "common.position": "Sija",
+  "common.player": "Pelaaja",
+  "common.team": "Joukkue",
+  "common.score": "Pisteet",
+  "common.status": "Tila",
+  "common.penalties": "Rangaistukset",
+  "common.winner": "Voittaja",
+  "common.eliminated": "Pudonnut",
+  "common.active": "Mukana",
+  "common.currentTurn": "Vuorossa",
+  "common.headStart": "Tasoitus",
+  "common.headStartFor": "Tasoitus: {name}",
+  "common.headStartPoints": "Tasoitus {points}",
+  "common.handicapTitle": "Tasoituksen aloituspisteet",
+  "common.invalidStartingScore": "Virheelliset aloituspisteet",
+  "common.close": "Sulje",
+  "common.end": "Lopeta",
+  "common.unknown": "Tuntematon",
+  "common.versus": "{first} vs {second}",
+  "common.somethingWrong": "Jokin meni vikaan",
+
+  // Language switcher
+  "language.label": "Kieli",
+
+  // ScoreInput
+  "scoreInput.title": "Pisteiden syöttö",
+  "scoreInput.eliminatedNotice":
+    "{name} on pudonnut pelistä eikä voi enää heittää.",
+  "scoreInput.currentPlayer": "Vuorossa oleva pelaaja",
+  "scoreInput.currentScore": "Pisteet: {score} / {target}",
+  "scoreInput.pointsNeeded": "Pisteitä puuttuu: {points}",
+  "scoreInput.consecutiveMisses": "⚠️ Peräkkäiset hudit: {count}",
+  "scoreInput.oneMoreMiss": "Vielä yksi huti, niin pelaaja putoaa!",
+  "scoreInput.eliminatedAfter": {
+    one: "Pelaaja putoaa {count} hudin jälkeen.",
+    other: "Pelaaja putoaa {count} peräkkäisen hudin jälkeen.",
+  },
+  "scoreInput.playerEliminated": "❌ Pelaaja pudonnut",
+  "scoreInput.eliminatedDueTo": {
+    one: "Pelaaja putosi {count} hudin takia.",
+    other: "Pelaaja putosi {count} peräkkäisen hudin takia.",
+  },
+  "scoreInput.selectPins": "Valitse kaatuneet keilat",
+  "scoreInput.tapPins": "Napauta kaatuneita keiloja",
+  "scoreInput.singlePinSelected": {
+    one: "Yksi keila valittu: {count} piste",
+    other: "Yksi keila valittu: {count} pistettä",
+  },
+  "scoreInput.pinsSelected": "{count} keilaa valittu: {count} pistettä",
+  "scoreInput.aimingAdvice": "Tähtäysvinkit",
+  "scoreInput.aimFor": "🎯 Tähtää",
+  "scoreInput.aimPin": "Keila {pin}",
+  "scoreInput.aimPins": "{count} keilaa",
+  "scoreInput.aimWins": "voittaa",
+  "scoreInput.aimResets": "ylittää",
+  "scoreInput.trackPins": "Merkitse keilojen paikat kentälle",
+  "scoreInput.pinField": "Keilakenttä",
+  "scoreInput.dragPins":
+    "Vedä kaatuneet keilat kohtiin, joihin ne nostettiin pystyyn.",
+  "scoreInput.miss": "Huti (0 pistettä)",
+  "scoreInput.calculatedScore": "Laskettu tulos:",
+  "scoreInput.singlePin": "Yksi keila: {pin}",
+  "scoreInput.multiplePins": "Useita keiloja: {count}",
+  "scoreInput.submitLabel": "Tallenna tulos",
+  "scoreInput.submitting": "Tallennetaan...",
+  "scoreInput.submit": "Tallenna tulos",
+  "scoreInput.penalty": "Rangaistus",
+  "scoreInput.penaltyHelp":
+    "Rangaistus laskee pelaajan pisteet {resetScore} pisteeseen.",
+  "scoreInput.applyPenalty": "Anna rangaistus",
+  "scoreInput.outOfTurnLabel": "Merkitse väärän vuoron heitto",
+  "scoreInput.outOfTurn": "Merkitse väärän vuoron heitto",
+  "scoreInput.outOfTurnHelp": "Käytä, jos pelaaja heitti väärässä vuorossa",
+  "scoreInput.confirmPenalty": "Vahvista rangaistus",
+  "scoreInput.confirmPenaltyMessage":
+    "Haluatko varmasti antaa rangaistuksen pelaajalle {name}? Pisteet laskevat {resetScore} pisteeseen.",
+  "scoreInput.applying": "Annetaan...",
+  "scoreInput.apply": "Anna",
+  "scoreInput.missTitle": "Huti",
+  "scoreInput.missMessage": "{name} ei kaatanut yhtään keilaa.",
+  "scoreInput.missFailedTitle": "Hudin tallennus epäonnistui",
+  "scoreInput.missFailed": "Hudin tallennus epäonnistui. Yritä uudelleen.",
+  "scoreInput.invalidScoreTitle": "Virheellinen tulos",
+  "scoreInput.invalidScore": "Virheellinen tulos",
+  "scoreInput.submittedTitle": "Tulos tallennettu",
+  "scoreInput.submittedMessage": {
+    one: "{name}: {count} piste kirjattu.",
+    other: "{name}: {count} pistettä kirjattu.",
+  },
+  "scoreInput.submitFailedTitle": "Tuloksen tallennus epäonnistui",
+  "scoreInput.submitFailed": "Tuloksen tallennus epäonnistui. Yritä uudelleen.",
+  "scoreInput.penaltyTitle": "Rangaistus annettu",
+  "scoreInput.penaltyMessage":
+    "{name} sai rangaistuksen. Pisteet laskettiin {resetScore} pisteeseen.",
+  "scoreInput.penaltyFailedTitle": "Rangaistuksen antaminen epäonnistui",
+  "scoreInput.penaltyFailed":
+    "Rangaistuksen antaminen epäonnistui. Yritä uudelleen.",
+  "scoreInput.outOfTurnTitle": "Väärän vuoron heitto",
+  "scoreInput.outOfTurnMessage":
+    "Pelaajan {name} heitto mitätöitiin. Pisteet laskevat {resetScore} pisteeseen, jos niitä oli {threshold} tai enemmän.",
+
+  // ScoreCommandInput
+  "scoreCommand.label": "Kirjoita tai sano heitto",
+  "scoreCommand.placeholder": "seitsemän, kolme keilaa, huti, rangaistus, peru",
+  "scoreCommand.enter": "Syötä",
+  "scoreCommand.listen": "Sano heitto",
+  "scoreCommand.stopListening": "Lopeta kuuntelu",
+  "scoreCommand.listening": "Kuunnellaan…",
+  "scoreCommand.notUnderstood":
+    'En ymmärtänyt "{text}". Kokeile "seitsemän", "kolme keilaa", "huti", "rangaistus" tai "peru".',
+  "scoreCommand.speechFailed":
+    "Komentoa ei kuulunut. Yritä uudelleen tai kirjoita se.",
+
+  // GamePlayPanel
+  "gamePlay.turn": "Vuorossa: {name}",
+  "gamePlay.score": "Pisteet: {score} / {target}",
+  "gamePlay.teamThrower": "{name} (pisteet: {score} / {target})",
+  "gamePlay.chooseThrower": "Valitse heittäjä",
+  "gamePlay.winProbabilityLabel": "Voittotodennäköisyys",
+  "gamePlay.winProbability": "🎲 Voittotodennäköisyys",
+  "gamePlay.undoLabel": "Peru viimeisin heitto",
+  "gamePlay.undo": "Peru",
+  "gamePlay.redoLabel": "Tee peruttu heitto uudelleen",
+  "gamePlay.redo": "Tee uudelleen",
+  "gamePlay.shareLabel":
+    "Kopioi linkki, jolla peliä voi jatkaa toisella laitteella",
+  "gamePlay.share": "Jaa peli",
+  "gamePlay.endGameLabel": "Lopeta peli ja palaa alkunäkymään",
+  "gamePlay.endGame": "Lopeta peli",
+  "gamePlay.endGameHelp": "Palaa alkunäkymään ja nollaa pisteet",
+  "gamePlay.scoreBoard": "📊 Pistetaulu",
+  "gamePlay.winnerStatus": "Voittaja!",
+  "gamePlay.misses": "Hudit: {count}",
+
+  // WinnerDisplay
+  "winner.title": "{name} voitti!",
+  "winner.congratulations": "Onnittelut, tasan {target} pistettä!",
+  "winner.championStats": "🏆 Voittajan tilastot",
+  "winner.finalScore": "Lopputulos",
+  "winner.finalLeaderboard": "Lopputulokset",
+  "winner.penaltyCount": {
+    one: "{count} rangaistus",
+    other: "{count} rangaistusta",
+  },
+  "winner.newGame": "🎮 Uusi peli",
+  "winner.newGameHelp": "Aloita uusi peli samoilla pelaajilla",
+
+  // NoWinnerDisplay
+  "noWinner.title": "Peli päättyi",
+  "noWinner.allPlayersEliminated":
+    "Kaikki pelaajat putosivat peräkkäisten hutien takia.",
+  "noWinner.allTeamsEliminated":
+    "Kaikki joukkueet putosivat peräkkäisten hutien takia.",
+  "noWinner.summary": "🚫 Pudonneet",
+  "noWinner.playersEliminated": "Pelaajia pudonnut",
+  "noWinner.teamsEliminated": "Joukkueita pudonnut",
+  "noWinner.totalPlayers": "Pelaajia yhteensä",
+  "noWinner.totalTeams": "Joukkueita yhteensä",
+  "noWinner.finalStandings": "Lopputilanne",
+  "noWinner.reset": "🔄 Nollaa ja muokkaa pelaajia",
+  "noWinner.resetHelp":
+    "Palaa asetuksiin muokkaamaan pelaajia ja aloita uusi peli samoilla pelaajilla",
+
+  // PlayerManager
+  "players.title": "Pelaajat",
+  "players.nameLabel": "Pelaajan nimi",
+  "players.namePlaceholder": "Kirjoita pelaajan nimi",
+  "players.addLabel": "Lisää pelaaja",
+  "players.adding": "Lisätään...",
+  "players.add": "Lisää pelaaja",
+  "players.saved": "Tallennetut pelaajat:",
+  "players.addSaved": "Lisää tallennettu pelaaja {name}",
+  "players.empty":
+    "Pelaajia ei ole vielä lisätty. Lisää vähintään 2 pelaajaa aloittaaksesi pelin.",
+  "players.editNameLabel": "Muokkaa pelaajan nimeä",
+  "players.saveNameLabel": "Tallenna pelaajan nimi",
+  "players.cancelEditLabel": "Peruuta nimen muokkaus",
+  "players.score": "Pisteet: {score}",
+  "players.editLabel": "Muokkaa pelaajaa",
+  "players.deleteLabel": "Poista pelaaja",
+  "players.confirmRemoval": "Vahvista poisto",
+  "players.confirmRemovalMessage":
+    "Haluatko varmasti poistaa pelaajan {name}? Toimintoa ei voi perua.",
+  "players.oneMore": "Lisää vielä 1 pelaaja aloittaaksesi pelin.",
+  "players.ready": {
+    one: "Valmista! {count} pelaaja lisätty.",
+    other: "Valmista! {count} pelaajaa lisätty.",
+  },
+  "players.inProgress": "Peli käynnissä. Pelaajia ei voi muokata.",
+  "players.invalidNameTitle": "Virheellinen nimi",
+  "players.invalidName": "Virheellinen pelaajan nimi",
+  "players.addedTitle": "Pelaaja lisätty",
+  "players.addedMessage": 'Pelaaja "{name}" lisättiin.',
+  "players.addFailedTitle": "Pelaajan lisäys epäonnistui",
+  "players.addFailed": "Pelaajan lisäys epäonnistui. Yritä uudelleen.",
+  "players.updatedTitle": "Pelaaja päivitetty",
+  "players.updatedMessage": "Pelaajan nimi päivitettiin.",
+  "players.updateFailedTitle": "Pelaajan päivitys epäonnistui",
+  "players.updateFailed": "Pelaajan päivitys epäonnistui. Yritä uudelleen.",
+  "players.removedTitle": "Pelaaja poistettu",
+  "players.removedMessage": 'Pelaaja "{name}" poistettiin.',
+  "players.removeFailedTitle": "Pelaajan poisto epäonnistui",
+  "players.removeFailed": "Pelaajan poisto epäonnistui. Yritä uudelleen.",
+
+  // TeamManager
+  "teams.title": "Joukkueet",
+  "teams.create": "Luo uusi joukkue",
+  "teams.nameLabel": "Joukkueen nimi",
+  "teams.namePlaceholder": "Kirjoita joukkueen nimi",
+  "teams.selectPlayers": "Valitse pelaajat ({count}/4)",
+  "teams.createButton": "Luo joukkue",
+  "teams.rotationLabel": "Heittojärjestys joukkueiden sisällä",
+  "teams.rotation.lockstep":
+    "Tahdissa: kaikki joukkueet heittävät samalla vuoronumerolla",
+  "teams.rotation.independent":
+    "Itsenäinen: jokainen joukkue kiertää omaa järjestystään",
+  "teams.rotation.captain": "Kapteeni valitsee heittäjän joka vuorolla",
+  "teams.list": "Joukkueet ({count})",
+  "teams.empty":
+    "Joukkueita ei ole vielä luotu. Luo vähintään 2 joukkuetta aloittaaksesi joukkuepelin.",
+  "teams.playerCount": {
+    one: "{count} pelaaja",
+    other: "{count} pelaajaa",
+  },
+  "teams.players": "Pelaajat:",
+  "teams.saveOrder": "Tallenna järjestys",
+  "teams.reorder": "Järjestä",
+  "teams.reorderHelp":
+    "💡 Järjestä pelaajat nuolilla. Järjestys määrää heittovuorot.",
+  "teams.moveUp": "Siirrä ylös",
+  "teams.moveDown": "Siirrä alas",
+  "teams.moveUpLabel": "Siirrä {name} ylös",
+  "teams.moveDownLabel": "Siirrä {name} alas",
+  "teams.confirmRemove": "Haluatko varmasti poistaa tämän joukkueen?",
+  "teams.confirmRemoveButton": "Kyllä, poista",
+  "teams.ready": "✅ Joukkuepeli voi alkaa",
+  "teams.needMore": {
+    one: "❌ Tarvitaan vielä {count} joukkue",
+    other: "❌ Tarvitaan vielä {count} joukkuetta",
+  },
+  "teams.nameRequired": "Joukkueen nimi on pakollinen",
+  "teams.invalidNameTitle": "Virheellinen joukkueen nimi",
+  "teams.nameExists": "Joukkueen nimi on jo käytössä",
+  "teams.duplicateTitle": "Joukkueen nimi varattu",
+  "teams.duplicateMessage": "Samanniminen joukkue on jo olemassa",
+  "teams.noPlayers": "Valitse vähintään yksi pelaaja",
+  "teams.noPlayersTitle": "Pelaajia ei valittu",
+  "teams.noPlayersMessage": "Valitse joukkueeseen vähintään yksi pelaaja",
+  "teams.tooMany": "Joukkueessa voi olla enintään 4 pelaajaa",
+  "teams.tooManyTitle": "Liikaa pelaajia",
+  "teams.tooManyMessage": "Joukkueeseen mahtuu enintään 4 pelaajaa",
+  "teams.addedTitle": "Joukkue lisätty",
+  "teams.addedMessage": 'Joukkue "{name}" luotiin.',
+  "teams.createFailedTitle": "Joukkueen luonti epäonnistui",
+  "teams.createFailed": "Joukkueen luonti epäonnistui. Yritä uudelleen.",
+  "teams.updatedTitle": "Joukkue päivitetty",
+  "teams.updatedMessage": "Joukkueen nimi päivitettiin.",
+  "teams.updateFailedTitle": "Joukkueen päivitys epäonnistui",
+  "teams.updateFailed": "Joukkueen päivitys epäonnistui. Yritä uudelleen.",
+  "teams.removedTitle": "Joukkue poistettu",
+  "teams.removedMessage": "Joukkue poistettiin.",
+  "teams.removeFailedTitle": "Joukkueen poisto epäonnistui",
+  "teams.removeFailed": "Joukkueen poisto epäonnistui. Yritä uudelleen.",
+  "teams.orderUpdatedTitle": "Heittojärjestys päivitetty",
+  "teams.movedUp": "{name} siirtyi järjestyksessä ylöspäin.",
+  "teams.movedDown": "{name} siirtyi järjestyksessä alaspäin.",
+  "teams.orderSavedTitle": "Heittojärjestys tallennettu",
+  "teams.orderSavedMessage": "Joukkueen heittojärjestys päivitettiin.",
+
+  // GameModeSelector
+  "gameMode.title": "Pelimuoto",
+  "gameMode.individual": "Yksilöpeli",
+  "gameMode.individualHelp":
+    "Jokainen pelaa omillaan. Ensimmäinen {target} pisteeseen yltänyt voittaa.",
+  "gameMode.team": "Joukkuepeli",
+  "gameMode.teamHelp":
+    "Pelaajat pelaavat joukkueina. Ensimmäinen {target} pisteeseen yltänyt joukkue voittaa.",
+  "gameMode.locked": "⚠️ Pelimuotoa ei voi vaihtaa kesken pelin.",
+
+  // RuleSetSelector
+  "rules.title": "Säännöt",
+  "rules.editLabel": "Muokkaa sääntöjä",
+  "rules.edit": "✏️ Muokkaa",
+  "rules.standard": "Perussäännöt",
+  "rules.quickGame": "Pikapeli",
+  "rules.noElimination": "Ei putoamista",
+  "rules.summary":
+    "Ensimmäinen {target} pisteeseen, yli menevä palaa {reset} pisteeseen, {elimination}",
+  "rules.summaryNoElimination": "ei putoamista",
+  "rules.summaryElimination": {
+    one: "{count} huti pudottaa",
+    other: "{count} hutia pudottaa",
+  },
+  "rules.custom":
+    "Omat säännöt: {summary}, väärässä vuorossa heitto nollaa {threshold}+ pisteessä.",
+  "rules.targetScore": "Tavoitepisteet",
+  "rules.resetScore": "Palautuspisteet",
+  "rules.outOfTurnThreshold": "Väärän vuoron raja",
+  "rules.eliminationMisses": "Hudit ennen putoamista",
+  "rules.eliminate": "Pudota pelaajat peräkkäisten hutien jälkeen",
+  "rules.invalid": "Virheelliset säännöt",
+  "rules.save": "Tallenna säännöt",
+
+  // TournamentBracket
+  "tournament.final": "Finaali",
+  "tournament.semiFinals": "Välierät",
+  "tournament.quarterFinals": "Puolivälierät",
+  "tournament.round": "Kierros {round}",
+  "tournament.title": "Pudotusturnaus",
+  "tournament.help":
+    "Sijoitukset seuraavat yllä olevan listan järjestystä; kärkisijoitetut pääsevät suoraan jatkoon, kun osallistujamäärä ei ole kahden potenssi.",
+  "tournament.nameLabel": "Turnauksen nimi",
+  "tournament.create": "🏆 Luo kaavio",
+  "tournament.progress": "{played}/{total} ottelua pelattu",
+  "tournament.endLabel": "Lopeta turnaus",
+  "tournament.champion": "Mestari: {name}",
+  "tournament.play": "Pelaa {match}",
+  "tournament.waiting": "Odotetaan tuloksia",
+  "tournament.bye": "Vapaa",
+  "tournament.tbd": "Avoin",
+  "tournament.duringGame": "Turnausta ei voi luoda kesken pelin",
+  "tournament.needPlayers": "Turnaukseen tarvitaan vähintään 2 pelaajaa",
+  "tournament.needTeams": "Turnaukseen tarvitaan vähintään 2 joukkuetta",
+  "tournament.none": "Turnausta ei ole käynnissä",
+  "tournament.finishGame":
+    "Pelaa nykyinen peli loppuun ennen seuraavan ottelun aloittamista",
+  "tournament.matchDecided": "Ottelu on jo ratkaistu",
+  "tournament.matchWaiting": "Ottelu odottaa aiempien otteluiden tuloksia",
+  "tournament.noMatchReady": "Yksikään ottelu ei ole valmis pelattavaksi",
+
+  // LeagueTable and useLeague
+  "league.title": "Sarja",
+  "league.help":
+    "Jokainen yllä olevan listan osallistuja pelaa kerran jokaista muuta vastaan.",
+  "league.nameLabel": "Sarjan nimi",
+  "league.create": "📅 Luo otteluohjelma",
+  "league.progress": "{played}/{total} ottelua pelattu",
+  "league.endLabel": "Lopeta sarja",
+  "league.standingsLabel": "Sarjataulukko",
+  "league.name": "Nimi",
+  "league.played": "Pelatut",
+  "league.playedShort": "O",
+  "league.wins": "Voitot",
+  "league.winsShort": "V",
+  "league.losses": "Tappiot",
+  "league.lossesShort": "T",
+  "league.pointsFor": "Tehdyt pisteet",
+  "league.pointsForShort": "TP",
+  "league.pointsAgainst": "Päästetyt pisteet",
+  "league.pointsAgainstShort": "PP",
+  "league.scoreDifference": "Pisteero",
+  "league.penaltiesShort": "Rang",
+  "league.play": "Pelaa",
+  "league.playFixture": "Pelaa {fixture}",
+  "league.duringGame": "Sarjaa ei voi luoda kesken pelin",
+  "league.needPlayers": "Sarjaan tarvitaan vähintään 2 pelaajaa",
+  "league.needTeams": "Sarjaan tarvitaan vähintään 2 joukkuetta",
+  "league.none": "Sarjaa ei ole käynnissä",
+  "league.finishGame":
+    "Pelaa nykyinen peli loppuun ennen seuraavan ottelun aloittamista",
+  "league.fixturePlayed": "Ottelu on jo pelattu",
+  "league.allPlayed": "Kaikki ottelut on pelattu",
+
+  // SyncPanel and useSync
+  "sync.title": "Reaaliaikainen synkronointi",
+  "sync.connecting": "Yhdistetään…",
+  "sync.connected": "Yhdistetty",
+  "sync.offline": "Ei yhteyttä, yhdistetään uudelleen…",
+  "sync.closed": "Yhteys katkaistu",
+  "sync.room": "Huone",
+  "sync.leave": "Poistu huoneesta",
+  "sync.help":
+    "Liity samaan huoneeseen jokaisella puhelimella, niin pidätte pisteitä yhdessä.",
+  "sync.relayLabel": "Välityspalvelimen osoite",
+  "sync.roomLabel": "Huonekoodi",
+  "sync.join": "Liity huoneeseen",
+  "sync.relayUrl": "Välityspalvelimen osoitteen on alettava ws:// tai wss://",
+  "sync.roomCode": "Huonekoodissa on oltava 3–32 kirjainta, numeroa tai viivaa",
+  "sync.unavailable": "Reaaliaikainen synkronointi ei ole käytettävissä",
+  "sync.connectFailed": "Välityspalvelimeen yhdistäminen epäonnistui",
+
+  // GameHistory
+  "history.title": "Pelihistoria",
+  "history.count": {
+    one: "{count} pelattu peli",
+    other: "{count} pelattua peliä",
+  },
+  "history.closeLabel": "Sulje historia",
+  "history.overall": "📊 Yleistilastot",
+  "history.totalGames": "Pelejä yhteensä",
+  "history.totalPenalties": "Rangaistuksia yhteensä",
+  "history.averageDuration": "Keskikesto (min)",
+  "history.notAvailable": "–",
+  "history.mostPenalized": "Eniten rangaistuksia",
+  "history.ratings": "📈 Taitoluvut",
+  "history.ratingsLabel": "Taitoluvut",
+  "history.ratingFinished": "{date} · sijoitus {rank}.",
+  "history.allGames": "← Kaikki pelit",
+  "history.notFound": "Peliä ei löytynyt",
+  "history.notFoundHelp": "Tätä peliä ei ole tämän laitteen historiassa.",
+  "history.empty": "Ei vielä pelejä",
+  "history.emptyHelp": "Pelaa ensimmäinen peli loppuun, niin se näkyy täällä!",
+  "history.gameNumber": "Peli #{number}",
+  "history.duration": "Kesto: {duration}",
+  "history.rounds": {
+    one: "{count} kierros",
+    other: "{count} kierrosta",
+  },
+  "history.openLabel": "Avaa peli {number}",
+  "history.open": "Avaa →",
+  "history.winner": "Voittaja: {name}",
+  "history.finalScore": "Lopputulos: {score} pistettä",
+  "history.finalScores": "Lopputulokset:",
+  "history.penalties": "Rangaistukset:",
+  "history.swings": "Voittotodennäköisyyden muutokset",
+  "history.swingPoints": "{score} p",
+  "history.swingPenalty": "rangaistus",
+  "history.swingOutOfTurn": "väärä vuoro",
+  "history.pinField": "Keilakenttä",
+  "history.export": "📥 Vie historia",
+  "history.exportCsv": "📊 Vie CSV",
+  "history.exportThrows": "🎯 Vie heitot CSV:nä",
+  "history.import": "📤 Tuo historia",
+  "history.clear": "🗑️ Tyhjennä historia",
+  "history.importFailed": "Historian tuonti epäonnistui: {error}",
+  "history.imported": {
+    one: "Tuotiin {count} peli",
+    other: "Tuotiin {count} peliä",
+  },
+  "history.importedSkipped": {
+    one: "Tuotiin {count} peli, ohitettiin {skipped} jo historiassa olevaa",
+    other: "Tuotiin {count} peliä, ohitettiin {skipped} jo historiassa olevaa",
+  },
+  "history.confirmClear":
+    "Haluatko varmasti tyhjentää koko pelihistorian? Toimintoa ei voi perua.",
+  "history.clearFailedAlert": "Historian tyhjennys epäonnistui: {error}",
+
+  // PinStats
+  "pinStats.title": "🎯 Keilatilastot",
+  "pinStats.throws": "Heitot",
+  "pinStats.missRate": "Hutiprosentti",
+  "pinStats.averagePins": "Keiloja keskim. (useita)",
+  "pinStats.singleHits": "Kuinka monesti kukin keila kaatui yksinään:",
+  "pinStats.singleHitsLabel": "Yksittäisten keilojen osumat: {name}",
+  "pinStats.pinHits": {
+    one: "Keila {pin}: {count} kerta",
+    other: "Keila {pin}: {count} kertaa",
+  },
+
+  // PinFieldReplay
+  "pinField.replayLabel": "Keilakenttä heiton {number} jälkeen",
+  "pinField.recordedThrow": "Tallennettu heitto",
+  "pinField.replayStep":
+    "Heiton {number}/{total} jälkeen, heittäjä {name} ({score} pistettä) · hajonta {spread} %",
+
+  // MobileNav
+  "nav.history": "Historia",
+  "nav.endGameLabel": "Lopeta peli",
+  "nav.moreLabel": "Lisää toimintoja",
+  "nav.more": "Lisää",
+  "nav.topLabel": "Vieritä ylös",
+  "nav.top": "Ylös",
+  "nav.refreshLabel": "Päivitä sivu",
+  "nav.refresh": "Päivitä",
+  "nav.shareLabel": "Jaa sovellus",
+  "nav.share": "Jaa",
+  "nav.shareText": "Kokeile tätä Mölkyn pistelaskuria!",
+
+  // SpectatorBoard
+  "spectator.loading": "Ladataan tulostaulua...",
+  "spectator.waitingForWindow": "Odotetaan kirjurin ikkunaa…",
+  "spectator.unsupported":
+    "Tämä selain ei voi seurata toista ikkunaa. Avaa tulostaulu uudemmalla selaimella.",
+  "spectator.label": "Tulostaulu",
+  "spectator.title": "Mölkky-tulostaulu",
+  "spectator.waitingForGame": "Odotetaan pelin alkua",
+  "spectator.winner": "🏆 {name} voitti!",
+  "spectator.next": "Seuraavana: {name}",
+  "spectator.misses": {
+    one: "{count} huti peräkkäin",
+    other: "{count} hutia peräkkäin",
+  },
+
+  // App
+  "app.gameStartedTitle": "Peli alkoi!",
+  "app.gameStarted": "Peli alkoi, pelaajia {count}. Onnea matkaan!",
+  "app.startFailedTitle": "Pelin aloitus epäonnistui",
+  "app.sharedGameTitle": "Peli noudettu",
+  "app.sharedGame": "Jaettua peliä voi nyt jatkaa tällä laitteella.",
+  "app.sharedGameFailedTitle": "Jaettua peliä ei voitu avata",
+  "app.sharedGameFailed": "Pelilinkkiä ei voitu avata.",
+  "app.newGameTitle": "Uusi peli alkoi",
+  "app.newGame": "Uusi peli aloitettiin samoilla pelaajilla.",
+  "app.newGameFailedTitle": "Uuden pelin aloitus epäonnistui",
+  "app.newGameFailed": "Uutta peliä ei voitu aloittaa.",
+  "app.updateTitle": "Uusi versio saatavilla",
+  "app.update":
+    "Lataa sivu uudelleen käyttääksesi sovelluksen uusinta versiota.",
+  "app.reload": "Lataa uudelleen",
+  "app.linkCopiedTitle": "Linkki kopioitu",
+  "app.linkCopied":
+    "Avaa linkki toisella puhelimella jatkaaksesi peliä siellä.",
+  "app.copyFailedTitle": "Linkin kopiointi epäonnistui",
+  "app.copyFailed": "Kopioi tämä linkki käsin: {link}",
+  "app.undoneTitle": "Heitto peruttu",
+  "app.undone": "Viimeisin heitto peruttiin.",
+  "app.undoFailedTitle": "Peruminen epäonnistui",
+  "app.redoneTitle": "Heitto palautettu",
+  "app.redone": "Peruttu heitto tehtiin uudelleen.",
+  "app.redoFailedTitle": "Palautus epäonnistui",
+  "app.throwerFailedTitle": "Heittäjää ei voi valita",
+  "app.gameEndedTitle": "Peli lopetettu",
+  "app.gameEnded":
+    "Peli lopetettiin ja palattiin asetuksiin. Voit nyt muokata pelaajia ja aloittaa uuden pelin.",
+  "app.endFailedTitle": "Pelin lopetus epäonnistui",
+  "app.gameResetTitle": "Peli nollattu",
+  "app.gameReset":
+    "Peli palautettiin asetuksiin. Voit nyt muokata pelaajia ja aloittaa uuden pelin.",
+  "app.resetFailedTitle": "Pelin nollaus epäonnistui",
+  "app.syncConflictTitle": "Muutosta ei synkronoitu",
+  "app.syncConflict":
+    "Toinen puhelin muutti peliä samaan aikaan, joten viimeisin muutoksesi hylättiin. Tarkista pisteet ja syötä se tarvittaessa uudelleen.",
+  "app.title": "Mölkky-pistelaskuri",
+  "app.subtitle": "Pidä kirjaa pisteistä ja hallitse Mölkky-pelejäsi",
+  "app.historyLabel": "Näytä pelihistoria",
+  "app.history": "Pelihistoria",
+  "app.scoreboardLabel": "Avaa tulostaulu-ikkuna isolle näytölle",
+  "app.scoreboard": "Tulostaulu-ikkuna",
+  "app.setupLabel": "Pelin asetukset",
+  "app.startGameLabel": "Aloita peli",
+  "app.startGame": "Aloita peli",
+  "app.startTeamGameLabel": "Aloita joukkuepeli",
+  "app.startTeamGame": "Aloita joukkuepeli",
+  "app.needPlayersLabel": {
+    one: "Peliä ei voi aloittaa: tarvitaan vielä {count} pelaaja",
+    other: "Peliä ei voi aloittaa: tarvitaan vielä {count} pelaajaa",
+  },
+  "app.needPlayers": {
+    one: "Tarvitaan vielä {count} pelaaja",
+    other: "Tarvitaan vielä {count} pelaajaa",
+  },
+  "app.needTeamsLabel": {
+    one: "Peliä ei voi aloittaa: tarvitaan vielä {count} joukkue",
+    other: "Peliä ei voi aloittaa: tarvitaan vielä {count} joukkuetta",
+  },
+  "app.needTeams": {
+    one: "Tarvitaan vielä {count} joukkue",
+    other: "Tarvitaan vielä {count} joukkuetta",
+  },
+  "app.playingLabel": "Peli käynnissä",
+  "app.finishedLabel": "Peli päättyi, voittaja selvisi",
+  "app.noWinnerLabel": "Peli päättyi ilman voittajaa",
+  "app.loadingHistory": "Ladataan historiaa...",
+  "app.loadingTeams": "Ladataan joukkueiden hallintaa...",
+  "app.loadingTournament": "Ladataan turnausta...",
+  "app.loadingLeague": "Ladataan sarjaa...",
+  "app.loadingSync": "Ladataan synkronointia...",
+
+  // useRouter and useLaunchAction
+  "app.confirmEndGame":
+    "Lopetetaanko käynnissä oleva peli ja palataan asetuksiin?",
+  "app.confirmRematch":
+    "Peli on käynnissä. Lopetetaanko se ja aloitetaan uusi peli samoilla pelaajilla?",
+  "app.launchNeedPlayers":
+    "Lisää vähintään 2 pelaajaa aloittaaksesi uuden pelin",
+  "app.launchNeedTeams":
+    "Lisää vähintään 2 joukkuetta aloittaaksesi uuden pelin",
+
+  // useGameFlow
+  "gameFlow.needPlayers": "Peliin tarvitaan vähintään 2 pelaajaa",
+  "gameFlow.cannotStart": "Peliä ei voi aloittaa tässä tilassa",
+  "gameFlow.startFailed": "Pelin aloitus epäonnistui",
+  "gameFlow.scoreNotPlaying":
+    "Pisteitä ei voi syöttää, kun peli ei ole käynnissä",
+  "gameFlow.noTeam": "Vuorossa olevaa joukkuetta ei löytynyt",
+  "gameFlow.noPlayer": "Vuorossa olevaa pelaajaa ei löytynyt",
+  "gameFlow.scoreRange": "Pisteiden on oltava välillä 0–50",
+  "gameFlow.penaltyNotPlaying":
+    "Rangaistusta ei voi antaa, kun peli ei ole käynnissä",
+  "gameFlow.penaltyFailed": "Rangaistuksen antaminen epäonnistui",
+  "gameFlow.turnNotPlaying": "Vuoroa ei voi siirtää, kun peli ei ole käynnissä",
+  "gameFlow.turnFailed": "Siirtyminen seuraavaan vuoroon epäonnistui",
+  "gameFlow.endNotPlaying": "Peliä ei voi lopettaa, kun se ei ole käynnissä",
+  "gameFlow.endNoWinner": "Peliä ei voi lopettaa ilman voittajaa",
+  "gameFlow.endFailed": "Pelin lopetus epäonnistui",
+  "gameFlow.newGameNotFinished":
+    "Uuden pelin voi aloittaa vasta, kun nykyinen peli on päättynyt",
+  "gameFlow.newGameFailed": "Uuden pelin aloitus epäonnistui",
+  "gameFlow.resetFailed": "Pelin nollaus epäonnistui",
+  "gameFlow.resetToSetupFailed": "Asetuksiin palaaminen epäonnistui",
+  "gameFlow.rotationLocked":
+    "Joukkueiden heittovuoroa voi muuttaa vain ennen pelin alkua",
+  "gameFlow.noThrowingTeam": "Yksikään joukkue ei ole vuorossa",
+  "gameFlow.throwersFollowOrder":
+    "Tässä pelissä heittäjät heittävät joukkueen järjestyksessä",
+  "gameFlow.throwerNotInTeam": "Pelaaja ei ole vuorossa olevassa joukkueessa",
+  "gameFlow.nothingToUndo": "Ei peruttavia heittoja",
+  "gameFlow.undoFailed": "Heiton peruminen epäonnistui",
+  "gameFlow.nothingToRedo": "Ei uudelleen tehtäviä heittoja",
+  "gameFlow.redoFailed": "Heiton tekeminen uudelleen epäonnistui",
+
+  // usePlayerManagement
+  "players.lockedDuringGame": "Pelaajia ei voi muuttaa kesken pelin",
+  "players.addError": "Pelaajan lisääminen epäonnistui",
+  "players.savedNotFound": "Tallennettua pelaajaa ei löytynyt",
+  "players.alreadyInGame": "{name} on jo pelissä",
+  "players.namesLockedDuringGame":
+    "Pelaajien nimiä ei voi muuttaa kesken pelin",
+  "players.notFound": "Pelaajaa ei löytynyt",
+  "players.updateError": "Pelaajan päivitys epäonnistui",
+  "players.removeLockedDuringGame": "Pelaajia ei voi poistaa kesken pelin",
+  "players.removeError": "Pelaajan poisto epäonnistui",
+  "players.handicapLockedDuringGame":
+    "Aloituspisteitä ei voi muuttaa kesken pelin",
+
+  // shareState.ts
+  "share.damaged": "Pelilinkki on vioittunut, eikä sitä voi avata.",
+  "share.changed": "Pelilinkkiä on muutettu sen jakamisen jälkeen.",
+  "share.version": "Pelilinkki on tehty sovelluksen eri versiolla.",
+
+  // useGameHistory
+  "history.importNotJson": "Tuontitiedosto ei ole kelvollista JSONia",
+  "history.importUnreadable":
+    "Tuontitiedostossa on pelejä, joita ei voitu lukea",
+  "history.clearFailed": "Pelihistorian tyhjennys epäonnistui",
+
+  // Penalty reasons
+  "penalty.default": "Pisteet laskettiin 25:een",
+  "penalty.ruleViolation": "Sääntörikkomus",
+  "penalty.outOfTurn": "väärän vuoron heitto",
+  "penalty.elimination": {
+    one: "putoaminen ({count} huti)",
+    other: "putoaminen ({count} hutia)",
+  },
+  "penalty.teamElimination": {
+    one: "joukkueen putoaminen ({count} huti)",
+    other: "joukkueen putoaminen ({count} hutia)",
+  },
+
+  // Durations in the game history
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} t",
+  "duration.hoursMinutes": "{hours} t {minutes} min",
+
+  // validation.ts
+  "validation.playerNameEmpty":
+    "Pelaajan nimi ei voi olla tyhjä. Kirjoita kelvollinen nimi.",
+  "validation.playerNameTooShort":
+    "Pelaajan nimessä on oltava vähintään 2 merkkiä.",
+  "validation.playerNameTooLong":
+    "Pelaajan nimessä voi olla enintään 50 merkkiä. Käytä lyhyempää nimeä.",
+  "validation.playerNameInvalidChars":
+    "Pelaajan nimessä on kiellettyjä merkkejä. Käytä vain kirjaimia, numeroita ja välilyöntejä.",
+  "validation.playerNameDuplicate":
+    'Pelaajan nimi "{name}" on jo käytössä. Valitse toinen nimi.',
+  "validation.scoreNotWhole":
+    "Pisteiden on oltava kokonaisluku. Kirjoita kelvollinen luku.",
+  "validation.singlePinRange":
+    "Yhden keilan pisteiden on oltava väliltä 0–12. Kirjoita kelvollinen tulos.",
+  "validation.multiplePinRange":
+    "Usean keilan pisteiden on oltava väliltä 2–12. Kirjoita kelvollinen tulos.",
+  "validation.minimumPlayers":
+    "Pelin aloittamiseen tarvitaan vähintään 2 pelaajaa. Lisää pelaajia.",
+  "validation.stateTransition":
+    'Siirtyminen tilasta "{from}" tilaan "{to}" ei ole sallittu.',
+  "validation.storageKey": "Tallennusavaimen on oltava kelvollinen merkkijono.",
+  "validation.storageEmpty": "Arvoja undefined ja null ei voi tallentaa.",
+  "validation.storageSerialize":
+    "Tietoja ei voi muuntaa JSON-muotoon. Tarkista tietorakenne.",
+  "validation.targetScore":
+    "Tavoitepisteiden on oltava kokonaisluku väliltä 1–200.",
+  "validation.resetScore":
+    "Palautuspisteiden on oltava tavoitepisteitä pienempi kokonaisluku.",
+  "validation.eliminationMisses":
+    "Putoamiseen johtavia huteja on oltava 1–10, tai sääntö on kytkettävä pois.",
+  "validation.outOfTurnThreshold":
+    "Väärän vuoron rajan on oltava kokonaisluku, joka ei ylitä tavoitepisteitä.",
+  "validation.handicap":
+    "Aloituspisteiden on oltava kokonaisluku väliltä 0–{max}.",
+  "validation.importNotHistory": "Tiedosto ei ole pelihistorian vienti.",
+  "validation.importNoGames": "Tiedostossa ei ole pelilistaa.",
+  "validation.importGameInvalid": "Peli {number} ei ole kelvollinen.",
+  "validation.importGameNoId": "Peliltä {number} puuttuu tunniste.",
+  "validation.importGameNoPlayers": "Pelissä {number} ei ole pelaajia.",
+  "validation.importGameTeamPlayers":
+    "Pelissä {number} on joukkue, jossa ei ole pelaajia.",
+  "validation.importGameStartTime":
+    "Pelin {number} aloitusaika on virheellinen.",
+  "validation.sharedUnreadable": "Jaettua peliä ei voitu lukea.",
+  "validation.sharedMode": "Jaetun pelin pelimuoto on tuntematon.",
+  "validation.sharedRules": "Jaetun pelin säännöt ovat virheelliset.",
+  "validation.sharedNoPlayers": "Jaetussa pelissä ei ole pelaajia.",
+  "validation.sharedPlayer": "Jaetussa pelissä on virheellinen pelaaja.",
+  "validation.sharedPlayerScores":
+    "Jaetussa pelissä on virheelliset pisteet pelaajalle {name}.",
+  "validation.sharedTeams": "Jaetun pelin joukkueet ovat virheelliset.",
+  "validation.sharedTeam": "Jaetussa pelissä on virheellinen joukkue.",
+  "validation.sharedTeamDuplicate":
+    'Joukkueen nimi "{name}" esiintyy jaetussa pelissä kahdesti.',
+  "validation.sharedTeamPlayers":
+    "Jaetussa pelissä on virheellisiä pelaajia joukkueessa {name}.",
+  "validation.sharedTeamScores":
+    "Jaetussa pelissä on virheelliset pisteet joukkueelle {name}.",
+  "validation.sharedMinimumTeams":
+    "Jaetussa pelissä on oltava vähintään 2 joukkuetta.",
+  "validation.sharedMinimumPlayers":
+    "Jaetussa pelissä on oltava vähintään 2 pelaajaa.",
+  "validation.sharedTurn": "Jaetusta pelistä ei selviä, kenen vuoro on.",
+  "validation.sharedRotation":
+    "Jaetun pelin joukkueiden heittojärjestys on tuntematon.",
+};
@@ -0,0 +1,75 @@
+/**
+ * Locale-aware formatting for dates, durations and penalty reasons
+ *
+ * @format
+ */
+
+import { getLocaleTag, translate } from "./translate";
+import type { Locale } from "./translate";
+
+const ELIMINATION_REASON = /^(team )?elimination \((\d+) misses\)$/;
+
+/**
+ * Formats a date and time for display
+ * @param locale - The language to write in
+ * @param date - The date
+ * @returns The date with day, month, year and time of day
+ */
+export function formatDate(locale: Locale, date: Date): string {
+  return new Intl.DateTimeFormat(getLocaleTag(locale), {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Formats a game length for display
+ * @param locale - The language to write in
+ * @param minutes - The length in whole minutes
+ * @returns Hours and minutes, such as "1h 5m"
+ */
+export function formatDuration(locale: Locale, minutes: number): string {
+  if (minutes < 60) {
+    return translate(locale, "duration.minutes", { minutes });
+  }
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return remainingMinutes > 0
+    ? translate(locale, "duration.hoursMinutes", {
+        hours,
+        minutes: remainingMinutes,
+      })
+    : translate(locale, "duration.hours", { hours });
+}
+
+/**
+ * Translates a stored penalty reason. Reasons are saved in English so
+ * history reads the same whichever language recorded it; reasons typed in
+ * by hand are shown as they are.
+ * @param locale - The language to write in
+ * @param reason - The reason stored with the penalty
+ * @returns The reason to display
+ */
+export function formatPenaltyReason(
+  locale: Locale,
+  reason: string | undefined
+): string {
+  if (!reason) return translate(locale, "penalty.default");
+  if (reason === "Rule violation") {
+    return translate(locale, "penalty.ruleViolation");
+  }
+  if (reason === "out-of-turn") return translate(locale, "penalty.outOfTurn");
+
+  const elimination = ELIMINATION_REASON.exec(reason);
+  if (elimination) {
+    return translate(
+      locale,
+      elimination[1] ? "penalty.teamElimination" : "penalty.elimination",
+      { count: Number(elimination[2]) }
+    );
+  }
+  return reason;
+}
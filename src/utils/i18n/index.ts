@@ -0,0 +1,28 @@
+/**
+ * Internationalization module exports
+ *
+ * @format
+ */
+
+export {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_NAMES,
+  formatOrdinal,
+  getCurrentLocale,
+  getLocaleTag,
+  isLocale,
+  setCurrentLocale,
+  t,
+  translate,
+} from "./translate";
+export type {
+  Catalog,
+  Locale,
+  Message,
+  MessageParams,
+  PluralMessage,
+} from "./translate";
+export type { MessageKey } from "./en";
+export { formatDate, formatDuration, formatPenaltyReason } from "./format";
+export { detectLocale, loadLocale, saveLocale } from "./preference";
@@ -0,0 +1,63 @@
+/**
+ * Language preference
+ * Remembers the chosen language on this device and picks one for first
+ * visits from the browser's languages
+ *
+ * @format
+ */
+
+import { STORAGE_KEYS } from "../storage/sessionStorage";
+import type { StorageService } from "../storage/sessionStorage";
+import { selectStorageService } from "../storage/durableStorage";
+import { DEFAULT_LOCALE, isLocale } from "./translate";
+import type { Locale } from "./translate";
+
+/**
+ * Picks a locale from the browser's preferred languages
+ * @param languages - Language tags, most preferred first, as in navigator.languages
+ * @returns The first supported language, or English
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Reads the saved language, falling back to the browser's languages
+ * @param storage - Where the preference is kept
+ * @param languages - The browser's preferred languages
+ * @returns The locale to start with
+ */
+export function loadLocale(
+  storage: StorageService = selectStorageService(),
+  languages: readonly string[] = navigator.languages || [navigator.language]
+): Locale {
+  try {
+    const saved = storage.getItem(STORAGE_KEYS.LOCALE);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Without storage the browser's languages decide
+  }
+  return detectLocale(languages);
+}
+
+/**
+ * Saves the chosen language
+ * @param locale - The chosen locale
+ * @param storage - Where the preference is kept
+ * @returns True if the preference was saved
+ */
+export function saveLocale(
+  locale: Locale,
+  storage: StorageService = selectStorageService()
+): boolean {
+  try {
+    storage.setItem(STORAGE_KEYS.LOCALE, locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
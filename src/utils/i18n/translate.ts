@@ -0,0 +1,159 @@
+/**
+ * Translation
+ * Looks messages up in the locale catalogs, picks plural forms and fills in
+ * {placeholders}. Components read the locale from LocaleContext; code
+ * outside components (such as validation) uses the current locale set here.
+ *
+ * @format
+ */
+
+import { en } from "./en";
+import type { MessageKey } from "./en";
+import { fi } from "./fi";
+
+export type Locale = "en" | "fi";
+
+export const LOCALES: Locale[] = ["en", "fi"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each language's own name, as shown in the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fi: "Suomi",
+};
+
+// BCP 47 tags used for Intl date and number formatting
+const LOCALE_TAGS: Record<Locale, string> = {
+  en: "en-US",
+  fi: "fi-FI",
+};
+
+/**
+ * A message with a form for each plural category the language uses,
+ * chosen by the "count" parameter
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Catalog = Record<MessageKey, Message>;
+
+const CATALOGS: Record<Locale, Catalog> = { en, fi };
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * Checks whether a value is a supported locale
+ * @param value - The value to check
+ * @returns True for "en" and "fi"
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Gets the Intl locale tag for a locale
+ * @param locale - The locale
+ * @returns The tag, such as "fi-FI"
+ */
+export function getLocaleTag(locale: Locale): string {
+  return LOCALE_TAGS[locale];
+}
+
+/**
+ * Gets the locale used by t()
+ * @returns The current locale
+ */
+export function getCurrentLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * Sets the locale used by t()
+ * @param locale - The new current locale
+ */
+export function setCurrentLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+/**
+ * Picks the plural form of a message for a count
+ * @param locale - The language whose plural rules apply
+ * @param message - The message
+ * @param count - The number the message is about
+ * @param type - Cardinal ("3 pins") or ordinal ("3rd") rules
+ * @returns The chosen form
+ */
+function selectForm(
+  locale: Locale,
+  message: Message,
+  count: number,
+  type: Intl.PluralRuleType = "cardinal"
+): string {
+  if (typeof message === "string") return message;
+  const category = new Intl.PluralRules(getLocaleTag(locale), { type }).select(
+    count
+  );
+  return message[category] ?? message.other;
+}
+
+/**
+ * Fills in {placeholders}. Placeholders without a parameter are left as they
+ * are, so a caller can split the text around them.
+ * @param text - The message text
+ * @param params - Values by placeholder name
+ * @returns The text with the values filled in
+ */
+function interpolate(text: string, params: MessageParams = {}): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Translates a message into a locale
+ * @param locale - The language to translate into
+ * @param key - The message key
+ * @param params - Placeholder values; "count" also picks the plural form
+ * @returns The translated text
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams
+): string {
+  const message = CATALOGS[locale][key];
+  const count = Number(params?.count ?? 0);
+  return interpolate(selectForm(locale, message, count), params);
+}
+
+/**
+ * Translates a message into the current locale
+ * @param key - The message key
+ * @param params - Placeholder values; "count" also picks the plural form
+ * @returns The translated text
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(currentLocale, key, params);
+}
+
+/**
+ * Writes a position as an ordinal, such as "2nd" or "2."
+ * @param locale - The language to write in
+ * @param position - The position, starting from 1
+ * @returns The ordinal
+ */
+export function formatOrdinal(locale: Locale, position: number): string {
+  const form = selectForm(
+    locale,
+    CATALOGS[locale].ordinal,
+    position,
+    "ordinal"
+  );
+  return interpolate(form, { count: position });
+}
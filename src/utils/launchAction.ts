@@ -0,0 +1,36 @@
+/**
+ * Launch actions
+ * The installed app's shortcuts open it with ?action=… to jump straight to
+ * a task
+ *
+ * @format
+ */
+
+export type LaunchAction = "new-game" | "history";
+
+const LAUNCH_ACTIONS: LaunchAction[] = ["new-game", "history"];
+
+/**
+ * Reads the launch action from the query string
+ * @param search - The query string, as in location.search
+ * @returns The action, or null if there is none or it is not known
+ */
+export function getLaunchAction(search: string): LaunchAction | null {
+  const action = new URLSearchParams(search).get("action");
+  return LAUNCH_ACTIONS.find((known) => known === action) || null;
+}
+
+/**
+ * Removes the launch action from an address, so reloading the app does not
+ * run it again
+ * @param location - Where the app is running
+ * @returns The path, query and fragment without the action
+ */
+export function removeLaunchAction(
+  location: Pick<Location, "pathname" | "search" | "hash">
+): string {
+  const params = new URLSearchParams(location.search);
+  params.delete("action");
+  const search = params.toString();
+  return `${location.pathname}${search ? `?${search}` : ""}${location.hash}`;
+}
@@ -0,0 +1,320 @@
+/**
+ * Round-robin league utilities
+ * Schedules fixtures between every pair of entrants and computes standings
+ *
+ * @format
+ */
+
+import type {
+  Entrant,
+  Game,
+  GameMode,
+  League,
+  LeagueFixture,
+  LeagueStanding,
+  RuleSet,
+} from "./types/index";
+import { DEFAULT_RULE_SET } from "./rules";
+import { createGame, generateId } from "./gameStateUtils";
+import type { MatchParticipants } from "./tournament";
+import { getEntrantParticipants } from "./tournament";
+
+/**
+ * Pairs every entrant with every other entrant using the circle method,
+ * so that each round has every entrant playing at most once
+ * @param entrantIds - IDs of the entrants
+ * @returns Pairings with their round numbers
+ */
+export function scheduleRoundRobin(
+  entrantIds: string[]
+): { round: number; entrantIds: [string, string] }[] {
+  // An odd field gets a placeholder; whoever meets it sits the round out
+  const slots: (string | null)[] =
+    entrantIds.length % 2 === 0 ? [...entrantIds] : [...entrantIds, null];
+  const roundCount = slots.length - 1;
+  const pairings: { round: number; entrantIds: [string, string] }[] = [];
+
+  for (let round = 1; round <= roundCount; round++) {
+    for (let i = 0; i < slots.length / 2; i++) {
+      const first = slots[i];
+      const second = slots[slots.length - 1 - i];
+      if (first !== null && second !== null) {
+        pairings.push({ round, entrantIds: [first, second] });
+      }
+    }
+    // Keep the first slot fixed and rotate the rest by one
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return pairings;
+}
+
+/**
+ * Creates a round-robin league with fixtures for every pair of entrants
+ * @param name - League name
+ * @param entrants - Players or teams in the league
+ * @param gameMode - Whether entrants are players or teams
+ * @param rules - Rules every fixture is played with
+ * @returns A new League object
+ */
+export function createLeague(
+  name: string,
+  entrants: Entrant[],
+  gameMode: GameMode = "individual",
+  rules: RuleSet = DEFAULT_RULE_SET
+): League {
+  return {
+    id: generateId(),
+    name: name.trim(),
+    gameMode,
+    rules,
+    entrants,
+    fixtures: scheduleRoundRobin(entrants.map((entrant) => entrant.id)).map(
+      (pairing) => ({
+        ...pairing,
+        id: generateId(),
+        winnerId: null,
+        gameId: null,
+      })
+    ),
+    startTime: new Date(),
+  };
+}
+
+/**
+ * Finds a league entrant by ID
+ * @param league - The league
+ * @param entrantId - ID of the entrant
+ * @returns The entrant, or undefined if not found
+ */
+export function getLeagueEntrant(
+  league: League,
+  entrantId: string | null
+): Entrant | undefined {
+  return league.entrants.find((entrant) => entrant.id === entrantId);
+}
+
+/**
+ * Gets the next unresolved fixture, earliest round first
+ * @param league - The league
+ * @returns The next fixture, or null once every fixture is resolved
+ */
+export function getNextLeagueFixture(league: League): LeagueFixture | null {
+  return league.fixtures.find((fixture) => fixture.winnerId === null) || null;
+}
+
+/**
+ * Gets how many fixtures have been resolved
+ * @param league - The league
+ * @returns Resolved and total fixture counts
+ */
+export function getLeagueProgress(league: League): {
+  played: number;
+  total: number;
+} {
+  return {
+    played: league.fixtures.filter((f) => f.winnerId !== null).length,
+    total: league.fixtures.length,
+  };
+}
+
+/**
+ * Marks a fixture as being played by the given game
+ * @param league - The league
+ * @param fixtureId - ID of the fixture
+ * @param gameId - ID of the game spawned for the fixture
+ * @returns Updated league
+ */
+export function assignFixtureGame(
+  league: League,
+  fixtureId: string,
+  gameId: string
+): League {
+  return {
+    ...league,
+    fixtures: league.fixtures.map((f) =>
+      f.id === fixtureId ? { ...f, gameId } : f
+    ),
+  };
+}
+
+/**
+ * Records the winner of a fixture, or clears it when null is passed
+ * @param league - The league
+ * @param fixtureId - ID of the fixture
+ * @param winnerId - ID of the winning entrant, or null to clear the result
+ * @returns Updated league
+ */
+export function recordFixtureResult(
+  league: League,
+  fixtureId: string,
+  winnerId: string | null
+): League {
+  const fixture = league.fixtures.find((f) => f.id === fixtureId);
+  if (!fixture || fixture.winnerId === winnerId) {
+    return league;
+  }
+  if (winnerId !== null && !fixture.entrantIds.includes(winnerId)) {
+    return league; // Winner must be one of the fixture's entrants
+  }
+
+  return {
+    ...league,
+    fixtures: league.fixtures.map((f) =>
+      f.id === fixtureId ? { ...f, winnerId } : f
+    ),
+  };
+}
+
+/**
+ * Builds the players or teams that take part in a fixture
+ * @param league - The league
+ * @param fixture - The fixture to be played
+ * @returns Players for individual leagues, teams for team leagues
+ */
+export function getFixtureParticipants(
+  league: League,
+  fixture: LeagueFixture
+): MatchParticipants {
+  const entrants = fixture.entrantIds
+    .map((id) => getLeagueEntrant(league, id))
+    .filter((entrant): entrant is Entrant => entrant !== undefined);
+
+  return getEntrantParticipants(entrants, league.gameMode);
+}
+
+/**
+ * Creates the game for a league fixture through createGame
+ * @param league - The league
+ * @param fixture - The fixture to be played
+ * @param participants - Players or teams prepared for the first turn
+ * @returns A new Game linked to the league fixture
+ */
+export function createFixtureGame(
+  league: League,
+  fixture: LeagueFixture,
+  participants: MatchParticipants
+): Game {
+  const game = createGame(
+    participants.players,
+    league.gameMode,
+    league.gameMode === "team" ? participants.teams : undefined,
+    league.rules
+  );
+
+  return {
+    ...game,
+    leagueId: league.id,
+    leagueFixtureId: fixture.id,
+  };
+}
+
+/**
+ * Gets an entrant's final score in a game.
+ * The winner's last throw is only recorded on the winner itself.
+ * @param game - A finished game
+ * @param entrantId - Player ID, or team ID in team games
+ * @returns The final score (0 if the entrant is not in the game)
+ */
+export function getEntrantScore(game: Game, entrantId: string): number {
+  if (game.gameMode === "team") {
+    if (game.winningTeam?.id === entrantId) return game.winningTeam.score;
+    return game.teams?.find((t) => t.id === entrantId)?.score ?? 0;
+  }
+  if (game.winner?.id === entrantId) return game.winner.score;
+  return game.players.find((p) => p.id === entrantId)?.score ?? 0;
+}
+
+/**
+ * Counts the penalty records against an entrant in a game
+ * @param game - The game
+ * @param entrantId - Player ID, or team ID in team games
+ * @returns Number of penalty records
+ */
+export function getEntrantPenalties(game: Game, entrantId: string): number {
+  return game.penalties.filter((penalty) =>
+    game.gameMode === "team"
+      ? penalty.teamId === entrantId
+      : penalty.playerId === entrantId
+  ).length;
+}
+
+/**
+ * Computes the league table from the games that resolved its fixtures.
+ * Entrants are ranked by wins, then by wins in games between the tied
+ * entrants (head-to-head), then by score difference.
+ * @param league - The league
+ * @param games - Games to look fixture results up in (usually the history)
+ * @returns Standings, best first
+ */
+export function computeLeagueStandings(
+  league: League,
+  games: Game[]
+): LeagueStanding[] {
+  const rows = new Map<string, LeagueStanding>(
+    league.entrants.map((entrant) => [
+      entrant.id,
+      {
+        entrantId: entrant.id,
+        name: entrant.name,
+        played: 0,
+        wins: 0,
+        losses: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        scoreDifference: 0,
+        penalties: 0,
+      },
+    ])
+  );
+
+  const resolved = league.fixtures.filter(
+    (fixture) => fixture.winnerId !== null
+  );
+
+  for (const fixture of resolved) {
+    const game = games.find((g) => g.id === fixture.gameId);
+    if (!game) continue;
+
+    const [firstId, secondId] = fixture.entrantIds;
+    for (const [entrantId, opponentId] of [
+      [firstId, secondId],
+      [secondId, firstId],
+    ]) {
+      const row = rows.get(entrantId);
+      if (!row) continue;
+
+      const pointsFor = getEntrantScore(game, entrantId);
+      const pointsAgainst = getEntrantScore(game, opponentId);
+      row.played += 1;
+      row.wins += fixture.winnerId === entrantId ? 1 : 0;
+      row.losses += fixture.winnerId === entrantId ? 0 : 1;
+      row.pointsFor += pointsFor;
+      row.pointsAgainst += pointsAgainst;
+      row.scoreDifference += pointsFor - pointsAgainst;
+      row.penalties += getEntrantPenalties(game, entrantId);
+    }
+  }
+
+  const standings = Array.from(rows.values());
+
+  // Wins in fixtures played only among entrants level on wins
+  const headToHeadWins = (row: LeagueStanding): number => {
+    const tied = new Set(
+      standings.filter((r) => r.wins === row.wins).map((r) => r.entrantId)
+    );
+    return resolved.filter(
+      (fixture) =>
+        fixture.winnerId === row.entrantId &&
+        fixture.entrantIds.every((id) => tied.has(id))
+    ).length;
+  };
+
+  return standings.sort(
+    (a, b) =>
+      b.wins - a.wins ||
+      headToHeadWins(b) - headToHeadWins(a) ||
+      b.scoreDifference - a.scoreDifference ||
+      a.name.localeCompare(b.name)
+  );
+}
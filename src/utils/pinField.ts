@@ -0,0 +1,105 @@
+/**
+ * Pin field utilities
+ * Tracks where the pins stand between throws. Knocked pins are stood back
+ * up where they fell, so the field spreads out over a game.
+ *
+ * @format
+ */
+
+import type { Game, PinPosition, ThrowEvent } from "./types/index";
+
+/**
+ * The standard starting formation, seen from the throwing line:
+ *
+ *      7  9  8
+ *    5  11 12  6
+ *      3  10  4
+ *        1  2
+ */
+export const STARTING_LAYOUT: readonly PinPosition[] = [
+  { pin: 7, x: 0.44, y: 0.2 },
+  { pin: 9, x: 0.5, y: 0.2 },
+  { pin: 8, x: 0.56, y: 0.2 },
+  { pin: 5, x: 0.41, y: 0.25 },
+  { pin: 11, x: 0.47, y: 0.25 },
+  { pin: 12, x: 0.53, y: 0.25 },
+  { pin: 6, x: 0.59, y: 0.25 },
+  { pin: 3, x: 0.44, y: 0.3 },
+  { pin: 10, x: 0.5, y: 0.3 },
+  { pin: 4, x: 0.56, y: 0.3 },
+  { pin: 1, x: 0.47, y: 0.35 },
+  { pin: 2, x: 0.53, y: 0.35 },
+];
+
+/**
+ * Gets a copy of the starting formation
+ * @returns A new layout with every pin in its starting position
+ */
+export function getStartingLayout(): PinPosition[] {
+  return STARTING_LAYOUT.map((position) => ({ ...position }));
+}
+
+/**
+ * Gets the throws of a game that recorded the field after them
+ * @param game - The game
+ * @returns Throws with their layouts, in throw order
+ */
+export function getRecordedLayouts(
+  game: Game
+): { event: ThrowEvent; layout: PinPosition[] }[] {
+  return (game.throws || [])
+    .filter((event) => event.layout !== undefined)
+    .map((event) => ({ event, layout: event.layout! }));
+}
+
+/**
+ * Gets the field as the next thrower finds it
+ * @param game - The game in progress, or null before one starts
+ * @returns The layout recorded with the latest throw, or the starting formation
+ */
+export function getCurrentLayout(game: Game | null): PinPosition[] {
+  const recorded = game ? getRecordedLayouts(game) : [];
+  const latest = recorded[recorded.length - 1];
+  return latest
+    ? latest.layout.map((position) => ({ ...position }))
+    : getStartingLayout();
+}
+
+/**
+ * Moves a pin, keeping it on the field
+ * @param layout - The current layout
+ * @param pin - Number of the pin to move
+ * @param x - New horizontal position (0 is the left edge, 1 the right)
+ * @param y - New depth (0 is the far end, 1 the throwing line)
+ * @returns Updated layout
+ */
+export function movePin(
+  layout: PinPosition[],
+  pin: number,
+  x: number,
+  y: number
+): PinPosition[] {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return layout.map((position) =>
+    position.pin === pin ? { pin, x: clamp(x), y: clamp(y) } : position
+  );
+}
+
+/**
+ * Measures how scattered the pins are: their average distance from the
+ * centre of the group, as a fraction of the field width
+ * @param layout - A layout
+ * @returns The spread (about 0.07 for the starting formation)
+ */
+export function getLayoutSpread(layout: PinPosition[]): number {
+  if (layout.length === 0) return 0;
+
+  const centreX = layout.reduce((sum, p) => sum + p.x, 0) / layout.length;
+  const centreY = layout.reduce((sum, p) => sum + p.y, 0) / layout.length;
+  return (
+    layout.reduce(
+      (sum, p) => sum + Math.hypot(p.x - centreX, p.y - centreY),
+      0
+    ) / layout.length
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Pin statistics utilities
+ * Works out from the throw log which pins each player knocks down
+ *
+ * @format
+ */
+
+import type {
+  Game,
+  Player,
+  PlayerPinStats,
+  PlayerProfile,
+  ThrowEvent,
+} from "./types/index";
+import { getDisplayName, getPlayerKey } from "./roster";
+import { DEFAULT_HIT_RATES } from "./gameLogic";
+import type { HitRates } from "./gameLogic";
+
+export const PIN_COUNT = 12;
+
+// Throws at the default rates mixed into a player's record, so a couple
+// of lucky throws do not make them look like a sharpshooter
+const HIT_RATE_PRIOR_THROWS = 5;
+
+/**
+ * Gets the pins knocked down by a scoring throw. Throws logged before pins
+ * were recorded fall back to what the score says: the pin itself for a
+ * single pin, or only the count for several pins.
+ * @param event - A throw from the log
+ * @returns The pins, or null if only the count is known
+ */
+export function getThrowPins(event: ThrowEvent): number[] | null {
+  if (event.pins) return event.pins;
+  if (event.score === 0) return [];
+  return event.scoringType === "multiple" ? null : [event.score];
+}
+
+/**
+ * Computes pin statistics for everyone who threw in the given games.
+ * Only scoring throws count; penalties and out-of-turn throws are skipped.
+ * @param games - Games with throw logs, usually the history
+ * @param roster - Saved profiles, for the names to show
+ * @returns Statistics per player, in order of first throw
+ */
+export function computePinStats(
+  games: Game[],
+  roster: PlayerProfile[] = []
+): PlayerPinStats[] {
+  const stats = new Map<
+    string,
+    PlayerPinStats & { pinsInMultiThrows: number }
+  >();
+
+  for (const game of games) {
+    const players = new Map<string, Player>(
+      [
+        ...game.players,
+        ...(game.teams || []).flatMap((team) => team.players),
+      ].map((player) => [player.id, player])
+    );
+
+    for (const event of game.throws || []) {
+      if (event.type !== "score") continue;
+
+      const player = players.get(event.playerId) ?? {
+        name: event.playerName,
+      };
+      const key = getPlayerKey(player);
+      let entry = stats.get(key);
+      if (!entry) {
+        entry = {
+          key,
+          name: getDisplayName(player, roster),
+          throws: 0,
+          misses: 0,
+          missRate: 0,
+          singlePinHits: new Array(PIN_COUNT).fill(0),
+          multiPinThrows: 0,
+          averagePinsPerMultiPinThrow: 0,
+          pinsInMultiThrows: 0,
+        };
+        stats.set(key, entry);
+      }
+
+      entry.throws += 1;
+      const pins = getThrowPins(event);
+      if (event.score === 0) {
+        entry.misses += 1;
+      } else if (pins && pins.length === 1) {
+        if (pins[0] >= 1 && pins[0] <= PIN_COUNT) {
+          entry.singlePinHits[pins[0] - 1] += 1;
+        }
+      } else {
+        entry.multiPinThrows += 1;
+        entry.pinsInMultiThrows += pins ? pins.length : event.score;
+      }
+    }
+  }
+
+  return Array.from(stats.values()).map(({ pinsInMultiThrows, ...entry }) => ({
+    ...entry,
+    missRate: entry.throws > 0 ? (entry.misses / entry.throws) * 100 : 0,
+    averagePinsPerMultiPinThrow:
+      entry.multiPinThrows > 0 ? pinsInMultiThrows / entry.multiPinThrows : 0,
+  }));
+}
+
+/**
+ * Estimates a player's hit rates from their pin statistics
+ * @param stats - The player's statistics, if they have thrown before
+ * @returns Hit rates, close to the defaults while the record is short
+ */
+export function getHitRates(stats?: PlayerPinStats): HitRates {
+  if (!stats || stats.throws === 0) return { ...DEFAULT_HIT_RATES };
+
+  const singleHits = stats.singlePinHits.reduce((sum, hits) => sum + hits, 0);
+  const smooth = (count: number, fallback: number) =>
+    (count + HIT_RATE_PRIOR_THROWS * fallback) /
+    (stats.throws + HIT_RATE_PRIOR_THROWS);
+
+  return {
+    singlePin: smooth(singleHits, DEFAULT_HIT_RATES.singlePin),
+    multiplePins: smooth(stats.multiPinThrows, DEFAULT_HIT_RATES.multiplePins),
+    averagePins:
+      stats.multiPinThrows > 0
+        ? stats.averagePinsPerMultiPinThrow
+        : DEFAULT_HIT_RATES.averagePins,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Skill rating utilities
+ * Multi-player Elo ratings computed from the finishing order of completed
+ * games. Ratings are always rebuilt from the whole history, oldest game
+ * first, so the same history always gives the same ratings.
+ *
+ * @format
+ */
+
+import type { Game, Player, PlayerProfile, PlayerRating } from "./types/index";
+import { getDisplayName, getPlayerKey } from "./roster";
+import { getHandicap } from "./gameStateUtils";
+
+export const INITIAL_RATING = 1500;
+export const RATING_K_FACTOR = 32;
+
+// Rating points a side is credited with per point of head start, so
+// beating a handicapped opponent earns more than beating them level
+export const HANDICAP_RATING_POINTS = 10;
+
+/**
+ * A player, or a team of players, finishing a game
+ */
+export interface RatedSide {
+  players: Player[];
+  rank: number; // 1 is first; sides that finished level share a rank
+  handicap: number; // Score the side started on
+}
+
+/**
+ * Gets the finishing order of a completed game. The winner finishes first,
+ * players (or teams) still in the game finish ahead of eliminated ones,
+ * and otherwise higher final scores finish ahead.
+ * @param game - A completed game
+ * @returns Sides in finishing order; team games rank teams
+ */
+export function getFinishingOrder(game: Game): RatedSide[] {
+  const entries =
+    game.gameMode === "team"
+      ? (game.teams || []).map((team) => {
+          const won = game.winningTeam?.id === team.id;
+          return {
+            players: team.players,
+            handicap: getHandicap(game, team.id),
+            won,
+            eliminated: team.eliminated === true,
+            // The winning throw is only recorded on the winner itself
+            score: won ? game.winningTeam!.score : team.score,
+          };
+        })
+      : game.players.map((player) => {
+          const won = game.winner?.id === player.id;
+          return {
+            players: [player],
+            handicap: getHandicap(game, player.id),
+            won,
+            eliminated: player.eliminated === true,
+            score: won ? game.winner!.score : player.score,
+          };
+        });
+
+  type Entry = (typeof entries)[number];
+  const compare = (a: Entry, b: Entry): number =>
+    Number(b.won) - Number(a.won) ||
+    Number(a.eliminated) - Number(b.eliminated) ||
+    b.score - a.score;
+
+  const sorted = entries
+    .filter((entry) => entry.players.length > 0)
+    .sort(compare);
+
+  return sorted.map((entry) => ({
+    players: entry.players,
+    handicap: entry.handicap,
+    rank: sorted.findIndex((other) => compare(other, entry) === 0) + 1,
+  }));
+}
+
+/**
+ * Gets the expected result of a side against another under Elo
+ * @param rating - Rating of the side
+ * @param opponentRating - Rating of the opponent
+ * @returns Expected score between 0 (certain loss) and 1 (certain win)
+ */
+export function getExpectedScore(
+  rating: number,
+  opponentRating: number
+): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Computes each side's rating change from one game. Every pair of sides
+ * is scored as a head-to-head result (1 for finishing ahead, 0.5 for
+ * finishing level), and the K factor is shared out over the opponents.
+ * @param ratings - Each side's rating before the game, in side order
+ * @param ranks - Each side's finishing rank, in side order
+ * @param kFactor - Largest change a game can make
+ * @returns Rating change for each side, in side order
+ */
+export function computeRatingChanges(
+  ratings: number[],
+  ranks: number[],
+  kFactor: number = RATING_K_FACTOR
+): number[] {
+  const opponents = ratings.length - 1;
+  if (opponents < 1) return ratings.map(() => 0);
+
+  return ratings.map((rating, i) => {
+    let total = 0;
+    ratings.forEach((opponentRating, j) => {
+      if (i === j) return;
+      const actual = ranks[i] < ranks[j] ? 1 : ranks[i] === ranks[j] ? 0.5 : 0;
+      total += actual - getExpectedScore(rating, opponentRating);
+    });
+    return (kFactor / opponents) * total;
+  });
+}
+
+/**
+ * Recomputes every player's rating from game history. Only completed games
+ * with at least two sides are rated, in the order they ended. In team games
+ * a team plays at its members' average rating and every member receives
+ * the team's rating change. A side's head start counts towards the rating
+ * it plays at, so results are judged against the handicaps given.
+ * @param games - Games to rate, usually the history
+ * @param roster - Saved profiles, for the names to show
+ * @returns Ratings with their history, highest rating first
+ */
+export function computeRatings(
+  games: Game[],
+  roster: PlayerProfile[] = []
+): PlayerRating[] {
+  const ratings = new Map<string, PlayerRating>();
+
+  const rated = games
+    .filter((game) => game.endTime !== null)
+    .sort(
+      (a, b) =>
+        new Date(a.endTime!).getTime() - new Date(b.endTime!).getTime() ||
+        a.id.localeCompare(b.id)
+    );
+
+  for (const game of rated) {
+    const sides = getFinishingOrder(game);
+    if (sides.length < 2) continue;
+
+    const entries = sides.map((side) =>
+      side.players.map((player) => {
+        const key = getPlayerKey(player);
+        let entry = ratings.get(key);
+        if (!entry) {
+          entry = {
+            key,
+            name: player.name,
+            rating: INITIAL_RATING,
+            gamesRated: 0,
+            history: [],
+          };
+          ratings.set(key, entry);
+        }
+        // Players without a profile show the name from their latest game
+        entry.name = getDisplayName(player, roster);
+        return entry;
+      })
+    );
+
+    const changes = computeRatingChanges(
+      entries.map(
+        (members, i) =>
+          members.reduce((sum, entry) => sum + entry.rating, 0) /
+            members.length +
+          sides[i].handicap * HANDICAP_RATING_POINTS
+      ),
+      sides.map((side) => side.rank)
+    );
+
+    entries.forEach((members, i) => {
+      for (const entry of members) {
+        const before = entry.rating;
+        entry.rating = before + changes[i];
+        entry.gamesRated += 1;
+        entry.history.push({
+          gameId: game.id,
+          date: new Date(game.endTime!),
+          rank: sides[i].rank,
+          before,
+          after: entry.rating,
+        });
+      }
+    });
+  }
+
+  return Array.from(ratings.values()).sort(
+    (a, b) => b.rating - a.rating || a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Player roster utilities
+ * Saved player profiles give players a stable identity across games,
+ * so their history follows them when they are renamed
+ *
+ * @format
+ */
+
+import type { Game, Player, PlayerProfile, Team } from "./types/index";
+import { createPlayer, generateId } from "./gameStateUtils";
+
+/**
+ * Creates a new roster profile
+ * @param name - The player's name
+ * @returns A new PlayerProfile object
+ */
+export function createPlayerProfile(name: string): PlayerProfile {
+  return {
+    id: generateId(),
+    name: name.trim(),
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Creates a game player linked to a roster profile
+ * @param profile - The profile to play as
+ * @returns A new Player object carrying the profile ID
+ */
+export function createPlayerFromProfile(profile: PlayerProfile): Player {
+  return {
+    ...createPlayer(profile.name),
+    profileId: profile.id,
+  };
+}
+
+/**
+ * Finds a profile by name (case-insensitive)
+ * @param roster - Saved profiles
+ * @param name - Name to look for
+ * @returns The profile, or undefined if no profile has that name
+ */
+export function findProfileByName(
+  roster: PlayerProfile[],
+  name: string
+): PlayerProfile | undefined {
+  const wanted = name.trim().toLowerCase();
+  return roster.find((profile) => profile.name.toLowerCase() === wanted);
+}
+
+/**
+ * Gets the name to show for a player, following renames of their profile
+ * @param player - A player, possibly from a game in history
+ * @param roster - Saved profiles
+ * @returns The profile's current name, or the name the player was saved with
+ */
+export function getDisplayName(
+  player: Pick<Player, "name" | "profileId">,
+  roster: PlayerProfile[]
+): string {
+  if (!player.profileId) return player.name;
+  return roster.find((p) => p.id === player.profileId)?.name ?? player.name;
+}
+
+/**
+ * Gets the key a player's statistics are kept under across games
+ * @param player - A player from a game
+ * @returns The player's profile ID, or their name if they have no profile
+ */
+export function getPlayerKey(
+  player: Pick<Player, "name" | "profileId">
+): string {
+  return player.profileId ?? `name:${player.name}`;
+}
+
+/**
+ * Gets the players of a game that played as a profile, in both
+ * individual and team games
+ * @param game - The game
+ * @param profileId - ID of the profile
+ * @returns Players linked to the profile
+ */
+export function getProfilePlayers(game: Game, profileId: string): Player[] {
+  const players = [
+    ...game.players,
+    ...(game.teams || []).flatMap((team) => team.players),
+  ];
+  return players.filter((player) => player.profileId === profileId);
+}
+
+/**
+ * Links players saved before the roster existed to the profile with their name
+ */
+function linkPlayer(player: Player, roster: PlayerProfile[]): Player {
+  if (player.profileId) return player;
+  const profile = findProfileByName(roster, player.name);
+  return profile ? { ...player, profileId: profile.id } : player;
+}
+
+function linkTeam(team: Team, roster: PlayerProfile[]): Team {
+  return {
+    ...team,
+    players: team.players.map((player) => linkPlayer(player, roster)),
+  };
+}
+
+/**
+ * Links unlinked players in games to roster profiles by name, so games
+ * recorded before a profile existed count towards it
+ * @param games - Games to link, usually the history
+ * @param roster - Saved profiles
+ * @returns Games whose players reference profile IDs where a name matched
+ */
+export function linkGamesToRoster(
+  games: Game[],
+  roster: PlayerProfile[]
+): Game[] {
+  if (roster.length === 0) return games;
+
+  return games.map((game) => ({
+    ...game,
+    players: game.players.map((player) => linkPlayer(player, roster)),
+    teams: game.teams?.map((team) => linkTeam(team, roster)),
+    winner: game.winner ? linkPlayer(game.winner, roster) : game.winner,
+    winningTeam: game.winningTeam
+      ? linkTeam(game.winningTeam, roster)
+      : game.winningTeam,
+  }));
+}
+
+/**
+ * Renames the players linked to a profile
+ * @param players - Players to update
+ * @param profileId - ID of the renamed profile
+ * @param name - The new name
+ * @returns Players with the linked ones renamed
+ */
+export function renameProfilePlayers(
+  players: Player[],
+  profileId: string,
+  name: string
+): Player[] {
+  return players.map((player) =>
+    player.profileId === profileId ? { ...player, name } : player
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Hash routes
+ * Maps the app's screens to URL fragments, so the browser's back button
+ * moves between screens and history can be linked to directly
+ *
+ * @format
+ */
+
+import type { GameState } from "./types/index";
+
+/**
+ * A screen of the app. Setup, play and results follow the game state; the
+ * history routes open over whichever of those is showing.
+ */
+export type Route =
+  | { name: "setup" }
+  | { name: "play" }
+  | { name: "results" }
+  | { name: "history" }
+  | { name: "historyGame"; gameId: string };
+
+export type ScreenRoute = Extract<
+  Route,
+  { name: "setup" | "play" | "results" }
+>;
+
+const ROUTE_PREFIX = "#/";
+
+const SCREEN_ROUTES: Record<GameState, ScreenRoute> = {
+  setup: { name: "setup" },
+  playing: { name: "play" },
+  finished: { name: "results" },
+};
+
+/**
+ * Reads the route from a URL fragment
+ * @param hash - The fragment, as in location.hash
+ * @returns The route, or null if the fragment is not a route
+ */
+export function parseRoute(hash: string): Route | null {
+  if (!hash.startsWith(ROUTE_PREFIX)) return null;
+  const [name, id, ...rest] = hash.slice(ROUTE_PREFIX.length).split("/");
+  if (rest.length > 0) return null;
+
+  if (name === "history") {
+    if (id === undefined || id === "") return { name: "history" };
+    try {
+      return { name: "historyGame", gameId: decodeURIComponent(id) };
+    } catch {
+      return null;
+    }
+  }
+  if (id !== undefined) return null;
+  if (name === "setup" || name === "play" || name === "results") {
+    return { name };
+  }
+  return null;
+}
+
+/**
+ * Writes a route as a URL fragment
+ * @param route - The route
+ * @returns The fragment, starting with "#/"
+ */
+export function formatRoute(route: Route): string {
+  if (route.name === "historyGame") {
+    return `${ROUTE_PREFIX}history/${encodeURIComponent(route.gameId)}`;
+  }
+  return `${ROUTE_PREFIX}${route.name}`;
+}
+
+/**
+ * Gets the screen that shows a game state
+ * @param gameState - The game state
+ * @returns Setup, play or results
+ */
+export function getScreenRoute(gameState: GameState): ScreenRoute {
+  return SCREEN_ROUTES[gameState];
+}
+
+/**
+ * Checks whether a route opens history over the current screen
+ * @param route - The route
+ * @returns True for the history list and single history games
+ */
+export function isHistoryRoute(route: Route | null): boolean {
+  return route?.name === "history" || route?.name === "historyGame";
+}
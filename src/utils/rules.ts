@@ -0,0 +1,55 @@
+/**
+ * Rule set definitions for standard Mölkky and common club variants
+ *
+ * @format
+ */
+
+import type { RuleSet } from "./types";
+
+/**
+ * Official rules: exactly 50 to win, overshooting resets to 25,
+ * three consecutive misses eliminate, out-of-turn throws reset at 37+
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+  name: "Standard",
+  targetScore: 50,
+  resetScore: 25,
+  eliminationMisses: 3,
+  outOfTurnThreshold: 37,
+};
+
+/**
+ * Preset rule sets selectable on the setup screen
+ */
+export const RULE_SET_PRESETS: RuleSet[] = [
+  DEFAULT_RULE_SET,
+  {
+    name: "Quick Game",
+    targetScore: 40,
+    resetScore: 20,
+    eliminationMisses: 3,
+    outOfTurnThreshold: 30,
+  },
+  {
+    name: "No Elimination",
+    targetScore: 50,
+    resetScore: 25,
+    eliminationMisses: null,
+    outOfTurnThreshold: 37,
+  },
+];
+
+/**
+ * Checks whether two rule sets have the same scoring values
+ * @param a - First rule set
+ * @param b - Second rule set
+ * @returns True if every rule matches (the name is ignored)
+ */
+export function isSameRuleSet(a: RuleSet, b: RuleSet): boolean {
+  return (
+    a.targetScore === b.targetScore &&
+    a.resetScore === b.resetScore &&
+    a.eliminationMisses === b.eliminationMisses &&
+    a.outOfTurnThreshold === b.outOfTurnThreshold
+  );
+}
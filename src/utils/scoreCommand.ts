@@ -0,0 +1,245 @@
+/**
+ * Score commands
+ * Turns spoken or typed phrases such as "seven", "three pins", "miss",
+ * "penalty" or "undo" into the throw they describe. English and Finnish
+ * words are understood whatever the display language.
+ *
+ * @format
+ */
+
+export type ScoreCommand =
+  | {
+      type: "throw";
+      score: number;
+      scoringType: "single" | "multiple";
+      pins?: number[]; // Omitted when only the number of pins was said
+    }
+  | { type: "miss" }
+  | { type: "penalty" }
+  | { type: "undo" };
+
+type KeywordCommand = "miss" | "penalty" | "undo";
+
+const MIN_PIN = 1;
+const MAX_PIN = 12;
+
+const NUMBER_WORDS: Record<string, number> = {
+  // English
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  // Words speech recognition tends to hear in place of numbers
+  won: 1,
+  to: 2,
+  too: 2,
+  for: 4,
+  ate: 8,
+  // Finnish, with the short spoken forms
+  nolla: 0,
+  yksi: 1,
+  yks: 1,
+  kaksi: 2,
+  kaks: 2,
+  kolme: 3,
+  neljä: 4,
+  viisi: 5,
+  viis: 5,
+  kuusi: 6,
+  kuus: 6,
+  seitsemän: 7,
+  seittemän: 7,
+  kahdeksan: 8,
+  kaheksan: 8,
+  yhdeksän: 9,
+  yheksän: 9,
+  kymmenen: 10,
+  yksitoista: 11,
+  ykstoista: 11,
+  kaksitoista: 12,
+  kakstoista: 12,
+  // Finnish names for a pin, as in "hit the seven"
+  ykkönen: 1,
+  kakkonen: 2,
+  kolmonen: 3,
+  nelonen: 4,
+  vitonen: 5,
+  kutonen: 6,
+  seiska: 7,
+  kasi: 8,
+  ysi: 9,
+  kymppi: 10,
+};
+
+const KEYWORDS: Record<string, KeywordCommand> = {
+  miss: "miss",
+  missed: "miss",
+  nothing: "miss",
+  none: "miss",
+  huti: "miss",
+  ohi: "miss",
+  penalty: "penalty",
+  foul: "penalty",
+  rangaistus: "penalty",
+  virhe: "penalty",
+  undo: "undo",
+  peru: "undo",
+  peruuta: "undo",
+  kumoa: "undo",
+};
+
+const PIN_WORDS = new Set([
+  "pin",
+  "pins",
+  "skittle",
+  "skittles",
+  "keila",
+  "keilaa",
+  "keilat",
+  "keilan",
+]);
+
+const POINT_WORDS = new Set(["point", "points", "piste", "pistettä"]);
+
+// Words that join pins in a list, as in "three and seven"
+const CONNECTORS = new Set(["and", "ja"]);
+
+// Words that add nothing to a command, as in "undo that" or "peru heitto"
+const FILLER_WORDS = new Set([
+  "a",
+  "the",
+  "that",
+  "it",
+  "last",
+  "throw",
+  "please",
+  "heitto",
+]);
+
+/**
+ * Splits a phrase into lowercase words, dropping punctuation and filler
+ * @param text - The phrase
+ * @returns The words that carry meaning
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word && !FILLER_WORDS.has(word));
+}
+
+/**
+ * Reads a number written as digits or as an English or Finnish word
+ * @param word - The word
+ * @returns The number, or null if the word is not one
+ */
+function parseNumber(word: string): number | null {
+  if (/^\d+$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+/**
+ * Reads a phrase made only of keywords for the same command, such as "miss"
+ * @param words - The words of the phrase
+ * @returns The command, or null if the phrase is anything else
+ */
+function parseKeywords(words: string[]): ScoreCommand | null {
+  const [type, ...others] = words.map((word) => KEYWORDS[word]);
+  if (!type || others.some((other) => other !== type)) return null;
+  return { type };
+}
+
+/**
+ * Reads a phrase naming pins or a number of pins
+ * @param words - The words of the phrase
+ * @returns The throw, or null if the phrase is not one
+ */
+function parseThrow(words: string[]): ScoreCommand | null {
+  const numbers: number[] = [];
+  let pinWordBefore = false; // "pin seven"
+  let pinWordAfter = false; // "three pins"
+  let pointWord = false; // "seven points"
+
+  for (const word of words) {
+    const value = parseNumber(word);
+    if (value !== null) {
+      numbers.push(value);
+    } else if (PIN_WORDS.has(word)) {
+      if (numbers.length === 0) pinWordBefore = true;
+      else pinWordAfter = true;
+    } else if (POINT_WORDS.has(word)) {
+      pointWord = true;
+    } else if (!CONNECTORS.has(word)) {
+      return null;
+    }
+  }
+
+  if (numbers.length === 0) return null;
+  // "Three and seven points" could be two pins or ten points
+  if (pointWord && (numbers.length > 1 || pinWordBefore || pinWordAfter)) {
+    return null;
+  }
+
+  if (numbers.length === 1) {
+    const [value] = numbers;
+    if (value === 0) return { type: "miss" };
+
+    // A count of pins: the score is the count, which pins is not known
+    if (pinWordAfter && !pinWordBefore) {
+      // "One pin" does not say which pin, and a single pin scores its number
+      if (value < 2 || value > MAX_PIN) return null;
+      return { type: "throw", score: value, scoringType: "multiple" };
+    }
+
+    if (value < MIN_PIN || value > MAX_PIN) return null;
+    return {
+      type: "throw",
+      score: value,
+      scoringType: "single",
+      pins: [value],
+    };
+  }
+
+  // A list of pins, as in "three and seven"
+  const pins = [...numbers].sort((a, b) => a - b);
+  const valid = pins.every(
+    (pin, i) => pin >= MIN_PIN && pin <= MAX_PIN && pin !== pins[i - 1]
+  );
+  if (!valid) return null;
+  return { type: "throw", score: pins.length, scoringType: "multiple", pins };
+}
+
+/**
+ * Parses a spoken or typed score command
+ * @param text - The phrase, such as "seven", "three pins" or "kolme keilaa"
+ * @returns The command, or null if the phrase was not understood
+ */
+export function parseScoreCommand(text: string): ScoreCommand | null {
+  const words = tokenize(text);
+  if (words.length === 0) return null;
+  return parseKeywords(words) ?? parseThrow(words);
+}
+
+/**
+ * Parses the first understood phrase out of several guesses, such as the
+ * alternatives speech recognition offers for one utterance
+ * @param phrases - The guesses, most likely first
+ * @returns The first command understood, or null if none was
+ */
+export function parseFirstScoreCommand(phrases: string[]): ScoreCommand | null {
+  for (const phrase of phrases) {
+    const command = parseScoreCommand(phrase);
+    if (command) return command;
+  }
+  return null;
+}
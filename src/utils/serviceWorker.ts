@@ -0,0 +1,63 @@
+/**
+ * Service worker registration
+ * Registers the offline service worker and reports when a new version has
+ * been downloaded in the background, so the app can offer to reload
+ *
+ * @format
+ */
+
+export const SKIP_WAITING_MESSAGE = { type: "SKIP_WAITING" } as const;
+
+export interface ServiceWorkerOptions {
+  url: string; // Address of the service worker script
+  scope: string;
+  onUpdateReady: (applyUpdate: () => void) => void; // A new version is waiting to take over
+  container?: ServiceWorkerContainer;
+  reload?: () => void;
+}
+
+/**
+ * Registers the service worker. The first install takes over silently;
+ * later versions wait until applyUpdate is called, then the page reloads.
+ * @param options - Where the worker is and what to do about updates
+ * @returns The registration, or null where service workers are not supported
+ */
+export async function registerServiceWorker({
+  url,
+  scope,
+  onUpdateReady,
+  container = navigator.serviceWorker,
+  reload = () => window.location.reload(),
+}: ServiceWorkerOptions): Promise<ServiceWorkerRegistration | null> {
+  if (!container) return null;
+
+  const registration = await container.register(url, { scope });
+  let updating = false;
+
+  const offerUpdate = (worker: ServiceWorker) => {
+    // Without a controller this is the first install, not an update
+    if (!container.controller) return;
+    onUpdateReady(() => {
+      updating = true;
+      worker.postMessage(SKIP_WAITING_MESSAGE);
+    });
+  };
+
+  container.addEventListener("controllerchange", () => {
+    if (updating) reload();
+  });
+
+  if (registration.waiting) {
+    offerUpdate(registration.waiting);
+  }
+
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    if (!worker) return;
+    worker.addEventListener("statechange", () => {
+      if (worker.state === "installed") offerUpdate(worker);
+    });
+  });
+
+  return registration;
+}
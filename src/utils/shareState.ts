@@ -0,0 +1,305 @@
+/**
+ * Shareable game state
+ * Packs a game in progress into a URL fragment so it can be picked up on
+ * another phone, and unpacks it again. Only what is needed to keep playing
+ * travels: the throw log and history stay on the device that shared it.
+ *
+ * @format
+ */
+
+import type {
+  AppState,
+  GameMode,
+  Player,
+  RuleSet,
+  Team,
+  TeamRotation,
+} from "./types/index";
+import {
+  createGame,
+  createPlayer,
+  createTeam,
+  DEFAULT_TEAM_ROTATION,
+} from "./gameStateUtils";
+import { DEFAULT_RULE_SET } from "./rules";
+import { findProfileByName } from "./roster";
+import { validateSharedState } from "./validation";
+import { t } from "./i18n";
+
+export const SHARE_FRAGMENT_PREFIX = "#game=";
+
+// Links made with a different layout are refused rather than misread
+const SHARE_FORMAT_VERSION = 1;
+
+// [name, score, misses, eliminated, penalties, handicap]
+type SharedPlayer = [string, number, number, 0 | 1, number, number];
+
+// [name, player indexes, score, misses, eliminated, penalties, next thrower, handicap]
+type SharedTeam = [
+  string,
+  number[],
+  number,
+  number,
+  0 | 1,
+  number,
+  number,
+  number,
+];
+
+/**
+ * A game packed for a share link. Keys are kept short so the link is too.
+ */
+export interface SharedState {
+  v: number; // Format version
+  m: GameMode;
+  r: [string, number, number, number | null, number]; // Rule set
+  p: SharedPlayer[];
+  t: SharedTeam[]; // Empty in individual games
+  c: number; // Current player index
+  ct: number; // Current team index
+  tr: TeamRotation;
+}
+
+/**
+ * Packs the game in progress
+ * @param state - App state with a game being played
+ * @returns The packed game
+ */
+export function packState(state: AppState): SharedState {
+  const rules = state.currentGame?.rules || state.rules || DEFAULT_RULE_SET;
+  const isTeamGame = (state.currentGame?.gameMode || state.gameMode) === "team";
+  const teams = isTeamGame ? state.teams || [] : [];
+  const players = isTeamGame
+    ? teams.flatMap((team) => team.players)
+    : state.players;
+  const flag = (value?: boolean): 0 | 1 => (value ? 1 : 0);
+
+  return {
+    v: SHARE_FORMAT_VERSION,
+    m: isTeamGame ? "team" : "individual",
+    r: [
+      rules.name,
+      rules.targetScore,
+      rules.resetScore,
+      rules.eliminationMisses,
+      rules.outOfTurnThreshold,
+    ],
+    p: players.map((player) => [
+      player.name,
+      isTeamGame ? 0 : player.score,
+      player.consecutiveMisses || 0,
+      flag(player.eliminated),
+      player.penalties,
+      player.handicap || 0,
+    ]),
+    t: teams.map((team) => [
+      team.name,
+      team.players.map((member) => players.indexOf(member)),
+      team.score,
+      team.consecutiveMisses || 0,
+      flag(team.eliminated),
+      team.penalties,
+      team.currentPlayerIndex || 0,
+      team.handicap || 0,
+    ]),
+    c: isTeamGame ? 0 : state.currentPlayerIndex,
+    ct: isTeamGame ? state.currentTeamIndex || 0 : 0,
+    tr: state.currentGame?.teamRotation || DEFAULT_TEAM_ROTATION,
+  };
+}
+
+/**
+ * Unpacks a shared game as the game in progress, keeping this device's
+ * history, roster and competitions. Players are linked to saved profiles
+ * with their names.
+ * @param shared - A validated packed game
+ * @param base - App state on this device
+ * @returns App state playing the shared game
+ */
+export function unpackState(shared: SharedState, base: AppState): AppState {
+  const roster = base.roster || [];
+  const isTeamGame = shared.m === "team";
+  const [name, targetScore, resetScore, eliminationMisses, outOfTurnThreshold] =
+    shared.r;
+  const rules: RuleSet = {
+    name,
+    targetScore,
+    resetScore,
+    eliminationMisses,
+    outOfTurnThreshold,
+  };
+
+  const players: Player[] = shared.p.map(
+    ([playerName, score, misses, eliminated, penalties, handicap], index) => {
+      const profile = findProfileByName(roster, playerName);
+      return {
+        ...createPlayer(playerName),
+        ...(profile && { profileId: profile.id }),
+        ...(handicap > 0 && { handicap }),
+        score,
+        penalties,
+        consecutiveMisses: misses,
+        eliminated: eliminated === 1,
+        isActive: !isTeamGame && index === shared.c,
+      };
+    }
+  );
+
+  const teams: Team[] = shared.t.map(
+    (
+      [
+        teamName,
+        members,
+        score,
+        misses,
+        eliminated,
+        penalties,
+        thrower,
+        handicap,
+      ],
+      index
+    ) => ({
+      ...createTeam(
+        teamName,
+        members.map((member) => players[member])
+      ),
+      ...(handicap > 0 && { handicap }),
+      score,
+      penalties,
+      consecutiveMisses: misses,
+      eliminated: eliminated === 1,
+      currentPlayerIndex: thrower,
+      isActive: index === shared.ct,
+    })
+  );
+
+  const game = createGame(
+    isTeamGame ? [] : players,
+    shared.m,
+    isTeamGame ? teams : undefined,
+    rules
+  );
+
+  return {
+    ...base,
+    gameState: "playing",
+    gameMode: shared.m,
+    players,
+    teams,
+    currentPlayerIndex: shared.c,
+    currentTeamIndex: shared.ct,
+    rules,
+    teamRotation: shared.tr,
+    undoneThrows: [],
+    currentGame: {
+      ...game,
+      // createGame puts everyone back on their starting score
+      players: isTeamGame ? [] : players,
+      teams: isTeamGame ? teams : undefined,
+      ...(isTeamGame && { teamRotation: shared.tr }),
+      resumedFrom: {
+        players,
+        teams: isTeamGame ? teams : undefined,
+        currentPlayerIndex: shared.c,
+        currentTeamIndex: shared.ct,
+      },
+    },
+  };
+}
+
+// FNV-1a, enough to notice a link that was cut short or edited by hand
+function getChecksum(text: string): string {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder("utf-8", { fatal: true }).decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+/**
+ * Creates the URL fragment that carries the game in progress
+ * @param state - App state
+ * @returns The fragment, starting with "#", or null if no game is being played
+ */
+export function createShareFragment(state: AppState): string | null {
+  if (state.gameState !== "playing" || !state.currentGame) return null;
+
+  const json = JSON.stringify(packState(state));
+  return `${SHARE_FRAGMENT_PREFIX}${toBase64Url(json)}.${getChecksum(json)}`;
+}
+
+/**
+ * Checks whether a URL fragment carries a shared game
+ * @param fragment - The fragment, as in location.hash
+ * @returns True if the fragment is a share link
+ */
+export function isShareFragment(fragment: string): boolean {
+  return fragment.startsWith(SHARE_FRAGMENT_PREFIX);
+}
+
+/**
+ * Reads a shared game from a URL fragment. Links that were cut short,
+ * edited, made by another version or describe an impossible game are refused.
+ * @param fragment - The fragment, as in location.hash
+ * @param base - App state on this device
+ * @returns Success with the state playing the shared game, or an error
+ */
+export function readShareFragment(
+  fragment: string,
+  base: AppState
+): { success: boolean; state?: AppState; error?: string } {
+  const [encoded, checksum, ...rest] = fragment
+    .slice(SHARE_FRAGMENT_PREFIX.length)
+    .split(".");
+
+  let json: string;
+  let data: unknown;
+  try {
+    json = fromBase64Url(encoded);
+    data = JSON.parse(json);
+  } catch {
+    return {
+      success: false,
+      error: t("share.damaged"),
+    };
+  }
+
+  if (rest.length > 0 || checksum !== getChecksum(json)) {
+    return {
+      success: false,
+      error: t("share.changed"),
+    };
+  }
+
+  if ((data as { v?: unknown } | null)?.v !== SHARE_FORMAT_VERSION) {
+    return {
+      success: false,
+      error: t("share.version"),
+    };
+  }
+
+  const validation = validateSharedState(data);
+  if (!validation.isValid) {
+    return { success: false, error: validation.error };
+  }
+
+  return { success: true, state: unpackState(data as SharedState, base) };
+}
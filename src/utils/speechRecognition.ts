@@ -0,0 +1,82 @@
+/**
+ * Speech recognition
+ * A small wrapper around the browser's Web Speech API for listening to one
+ * short phrase at a time. Browsers without it simply offer no voice input.
+ *
+ * @format
+ */
+
+// The parts of a recognition result that are read here
+export interface SpeechResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+// The parts of the browser's SpeechRecognition that are used here
+export interface SpeechRecognizer {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: SpeechResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  abort: () => void;
+}
+
+export type SpeechRecognizerConstructor = new () => SpeechRecognizer;
+
+interface SpeechWindow {
+  SpeechRecognition?: SpeechRecognizerConstructor;
+  webkitSpeechRecognition?: SpeechRecognizerConstructor;
+}
+
+export interface ListenOptions {
+  lang: string; // BCP 47 tag of the language being spoken, such as "fi-FI"
+  onResult: (transcripts: string[]) => void; // Guesses for the phrase, most likely first
+  onError?: (error: string) => void;
+  onEnd?: () => void; // Called once listening stops, for any reason
+  maxAlternatives?: number;
+}
+
+/**
+ * Finds the browser's speech recognition, which Chrome and Safari prefix
+ * @param source - Where to look, the window by default
+ * @returns The recognizer constructor, or null where speech is not supported
+ */
+export function getSpeechRecognizer(
+  source: SpeechWindow = globalThis as SpeechWindow
+): SpeechRecognizerConstructor | null {
+  return source.SpeechRecognition ?? source.webkitSpeechRecognition ?? null;
+}
+
+/**
+ * Listens for a single phrase
+ * @param Recognizer - The recognizer constructor to use
+ * @param options - The language and what to do with what was heard
+ * @returns A function that stops listening
+ */
+export function listenForPhrase(
+  Recognizer: SpeechRecognizerConstructor,
+  { lang, onResult, onError, onEnd, maxAlternatives = 5 }: ListenOptions
+): () => void {
+  const recognizer = new Recognizer();
+  recognizer.lang = lang;
+  recognizer.continuous = false;
+  recognizer.interimResults = false;
+  recognizer.maxAlternatives = maxAlternatives;
+
+  recognizer.onresult = (event) => {
+    const result = event.results[event.results.length - 1];
+    if (!result) return;
+    const transcripts = Array.from(result, (alternative) =>
+      alternative.transcript.trim()
+    );
+    onResult(transcripts);
+  };
+  recognizer.onerror = (event) => onError?.(event.error);
+  recognizer.onend = () => onEnd?.();
+
+  recognizer.start();
+  return () => recognizer.abort();
+}
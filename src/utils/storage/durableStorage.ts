@@ -0,0 +1,75 @@
+/**
+ * Durable storage selection for persisting game data across browser sessions
+ * Prefers localStorage, falls back to sessionStorage and finally to the
+ * in-memory fallback kept by SessionStorageUtil
+ *
+ * @format
+ */
+
+import {
+  SessionStorageUtil,
+  StorageError,
+  defaultStorageService,
+} from "./sessionStorage";
+import type { StorageService } from "./sessionStorage";
+
+/**
+ * localStorage implementation that survives closing the tab
+ */
+export const localStorageService: StorageService = {
+  getItem: (key: string) => localStorage.getItem(key),
+  setItem: (key: string, value: string) => localStorage.setItem(key, value),
+  removeItem: (key: string) => localStorage.removeItem(key),
+  clear: () => localStorage.clear(),
+};
+
+/**
+ * Storage implementation used when no browser storage works.
+ * Every call throws so SessionStorageUtil keeps data in its fallback map.
+ */
+export const unavailableStorageService: StorageService = {
+  getItem: () => {
+    throw new StorageError("No browser storage available");
+  },
+  setItem: () => {
+    throw new StorageError("No browser storage available");
+  },
+  removeItem: () => {
+    throw new StorageError("No browser storage available");
+  },
+  clear: () => {
+    throw new StorageError("No browser storage available");
+  },
+};
+
+/**
+ * Check whether a storage service can round-trip a value.
+ * Accessing localStorage can throw (e.g. privacy mode or disabled cookies).
+ */
+export function isStorageServiceAvailable(storage: StorageService): boolean {
+  try {
+    const testKey = "__molkky_storage_test__";
+    const testValue = "test";
+    storage.setItem(testKey, testValue);
+    const retrieved = storage.getItem(testKey);
+    storage.removeItem(testKey);
+    return retrieved === testValue;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the first working storage service, most durable first
+ */
+export function selectStorageService(
+  candidates: StorageService[] = [localStorageService, defaultStorageService]
+): StorageService {
+  const available = candidates.find(isStorageServiceAvailable);
+  return available || unavailableStorageService;
+}
+
+// Default instance used by the GameProvider
+export const durableStorageUtil = new SessionStorageUtil(
+  selectStorageService()
+);
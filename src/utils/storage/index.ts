@@ -9,6 +9,28 @@ export {
   StorageError,
   defaultStorageService,
   sessionStorageUtil,
+  restoreDates,
   STORAGE_KEYS,
 } from "./sessionStorage";
-export type { StorageService } from "./sessionStorage";
+export type { StorageService, QuarantineEntry } from "./sessionStorage";
+export {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  MigrationError,
+  createVersionedPayload,
+  isVersionedPayload,
+  migratePayload,
+} from "./migrations";
+export type {
+  Migration,
+  PayloadKind,
+  StoredObject,
+  VersionedPayload,
+} from "./migrations";
+export {
+  localStorageService,
+  unavailableStorageService,
+  isStorageServiceAvailable,
+  selectStorageService,
+  durableStorageUtil,
+} from "./durableStorage";
@@ -0,0 +1,298 @@
+/**
+ * Storage schema versioning and migrations
+ * Upgrades payloads saved by older versions of the app step by step
+ *
+ * @format
+ */
+
+import { ErrorType } from "../types";
+
+/**
+ * Schema version written into every stored payload.
+ * Payloads saved before versioning was introduced are treated as version 0.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/**
+ * Envelope stored under each storage key
+ */
+export interface VersionedPayload<T = unknown> {
+  schemaVersion: number;
+  data: T;
+}
+
+/**
+ * Kinds of payload stored by the app, each migrated differently
+ */
+export type PayloadKind = "appState" | "game" | "gameHistory";
+
+/**
+ * Loosely typed stored object, checked field by field during migration
+ */
+export type StoredObject = Record<string, unknown>;
+
+/**
+ * A single migration step from `version - 1` to `version`
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrateAppState(state: unknown): StoredObject;
+  migrateGame(game: unknown): StoredObject;
+}
+
+/**
+ * Error raised when stored data cannot be upgraded to the current schema
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly type: ErrorType = ErrorType.STORAGE_ERROR
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Return the value as an object, or throw a MigrationError
+ */
+function asObject(value: unknown, description: string): StoredObject {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new MigrationError(`Expected ${description} to be an object`);
+  }
+  return value as StoredObject;
+}
+
+/**
+ * Return the value as an array (missing counts as empty), or throw a MigrationError
+ */
+function asArray(value: unknown, description: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new MigrationError(`Expected ${description} to be an array`);
+  }
+  return value;
+}
+
+/**
+ * Apply a game migration to the games nested inside an app state
+ */
+function migrateNestedGames(
+  state: StoredObject,
+  migrateGame: (game: unknown) => StoredObject
+): StoredObject {
+  return {
+    ...state,
+    gameHistory: asArray(state.gameHistory, "gameHistory").map((game) =>
+      migrateGame(game)
+    ),
+    currentGame: state.currentGame ? migrateGame(state.currentGame) : null,
+  };
+}
+
+/**
+ * Fill in per-player counters that older saves did not have
+ */
+function normalizePlayer(value: unknown): StoredObject {
+  const player = asObject(value, "player");
+  if (typeof player.id !== "string" || typeof player.name !== "string") {
+    throw new MigrationError("Player is missing an id or name");
+  }
+
+  return {
+    ...player,
+    score: typeof player.score === "number" ? player.score : 0,
+    penalties: typeof player.penalties === "number" ? player.penalties : 0,
+    isActive: player.isActive ?? true,
+    consecutiveMisses: player.consecutiveMisses ?? 0,
+    eliminated: player.eliminated ?? false,
+  };
+}
+
+/**
+ * Fill in per-team counters that older saves did not have
+ */
+function normalizeTeam(value: unknown): StoredObject {
+  const team = asObject(value, "team");
+
+  return {
+    ...team,
+    players: asArray(team.players, "team players").map(normalizePlayer),
+    score: typeof team.score === "number" ? team.score : 0,
+    penalties: typeof team.penalties === "number" ? team.penalties : 0,
+    isActive: team.isActive ?? true,
+    consecutiveMisses: team.consecutiveMisses ?? 0,
+    eliminated: team.eliminated ?? false,
+    currentPlayerIndex: team.currentPlayerIndex ?? 0,
+  };
+}
+
+/**
+ * Infer the game mode of a legacy save from whether it has teams
+ */
+function inferGameMode(value: StoredObject): "individual" | "team" {
+  if (value.gameMode === "individual" || value.gameMode === "team") {
+    return value.gameMode;
+  }
+  return Array.isArray(value.teams) && value.teams.length > 0
+    ? "team"
+    : "individual";
+}
+
+/**
+ * Ordered list of migrations; each upgrades data by exactly one version
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Add miss and elimination counters to players",
+    migrateGame(value) {
+      const game = asObject(value, "game");
+      if (typeof game.id !== "string") {
+        throw new MigrationError("Game is missing an id");
+      }
+
+      return {
+        ...game,
+        players: asArray(game.players, "game players").map(normalizePlayer),
+        winner: game.winner ? normalizePlayer(game.winner) : null,
+        endTime: game.endTime ?? null,
+        totalRounds: game.totalRounds ?? 0,
+        penalties: asArray(game.penalties, "game penalties"),
+      };
+    },
+    migrateAppState(value) {
+      const state = asObject(value, "app state");
+
+      return migrateNestedGames(
+        {
+          ...state,
+          gameState: state.gameState ?? "setup",
+          players: asArray(state.players, "players").map(normalizePlayer),
+          currentPlayerIndex: state.currentPlayerIndex ?? 0,
+        },
+        this.migrateGame
+      );
+    },
+  },
+  {
+    version: 2,
+    description: "Add game mode and team counters",
+    migrateGame(value) {
+      const game = asObject(value, "game");
+      const teams = asArray(game.teams, "game teams");
+
+      return {
+        ...game,
+        gameMode: inferGameMode(game),
+        teams: teams.length > 0 ? teams.map(normalizeTeam) : undefined,
+        winningTeam: game.winningTeam ? normalizeTeam(game.winningTeam) : null,
+      };
+    },
+    migrateAppState(value) {
+      const state = asObject(value, "app state");
+
+      return migrateNestedGames(
+        {
+          ...state,
+          gameMode: inferGameMode(state),
+          teams: asArray(state.teams, "teams").map(normalizeTeam),
+          currentTeamIndex: state.currentTeamIndex ?? 0,
+        },
+        this.migrateGame
+      );
+    },
+  },
+  {
+    version: 3,
+    description: "Add throw log and undo stack",
+    migrateGame(value) {
+      const game = asObject(value, "game");
+      return { ...game, throws: game.throws ?? [] };
+    },
+    migrateAppState(value) {
+      const state = asObject(value, "app state");
+      return migrateNestedGames(
+        { ...state, undoneThrows: state.undoneThrows ?? [] },
+        this.migrateGame
+      );
+    },
+  },
+];
+
+/**
+ * Check whether parsed storage data is wrapped in a versioned envelope
+ */
+export function isVersionedPayload(value: unknown): value is VersionedPayload {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof (value as StoredObject).schemaVersion === "number" &&
+    "data" in value
+  );
+}
+
+/**
+ * Wrap data in an envelope stamped with the current schema version
+ */
+export function createVersionedPayload<T>(data: T): VersionedPayload<T> {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, data };
+}
+
+/**
+ * Apply a single migration step to a payload of the given kind
+ */
+function applyMigration(
+  migration: Migration,
+  kind: PayloadKind,
+  data: unknown
+): unknown {
+  switch (kind) {
+    case "appState":
+      return migration.migrateAppState(data);
+    case "game":
+      return migration.migrateGame(data);
+    case "gameHistory":
+      if (!Array.isArray(data)) {
+        throw new MigrationError("Expected game history to be an array");
+      }
+      return data.map((game) => migration.migrateGame(game));
+  }
+}
+
+/**
+ * Upgrade parsed storage data to the current schema version
+ * @param kind - Kind of payload, or null for payloads without migrations
+ * @param stored - Parsed JSON, either a versioned envelope or legacy data
+ * @returns The migrated data, without the envelope
+ * @throws MigrationError if the data cannot be upgraded
+ */
+export function migratePayload(
+  kind: PayloadKind | null,
+  stored: unknown
+): unknown {
+  const { schemaVersion, data } = isVersionedPayload(stored)
+    ? stored
+    : { schemaVersion: 0, data: stored };
+
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    throw new MigrationError(`Invalid schema version: ${schemaVersion}`);
+  }
+
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Schema version ${schemaVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  if (!kind) return data;
+
+  return MIGRATIONS.filter(
+    (migration) => migration.version > schemaVersion
+  ).reduce(
+    (migrated, migration) => applyMigration(migration, kind, migrated),
+    data
+  );
+}
@@ -7,14 +7,35 @@
 
 import type { AppState, Game } from "../types";
 import { ErrorType } from "../types";
+import { createVersionedPayload, migratePayload } from "./migrations";
+import type { PayloadKind } from "./migrations";
 
 // Storage keys as defined in the design document
 export const STORAGE_KEYS = {
   CURRENT_GAME: "molkky_current_game",
   GAME_HISTORY: "molkky_game_history",
   APP_STATE: "molkky_app_state",
+  QUARANTINE: "molkky_quarantine",
+  LOCALE: "molkky_locale",
 } as const;
 
+// Payload kind stored under each key, used to pick migrations
+const PAYLOAD_KINDS: Record<string, PayloadKind> = {
+  [STORAGE_KEYS.CURRENT_GAME]: "game",
+  [STORAGE_KEYS.GAME_HISTORY]: "gameHistory",
+  [STORAGE_KEYS.APP_STATE]: "appState",
+};
+
+/**
+ * Stored data that could not be loaded, kept for manual recovery
+ */
+export interface QuarantineEntry {
+  key: string; // Storage key the data was found under
+  reason: string; // Why the data could not be loaded
+  raw: string; // The stored string, exactly as found
+  quarantinedAt: Date;
+}
+
 /**
  * Storage service interface for dependency injection and testing
  */
@@ -49,6 +70,37 @@ export class StorageError extends Error {
   }
 }
 
+/**
+ * Restore Date objects from ISO strings in parsed JSON
+ */
+export function restoreDates(obj: any): any {
+  if (obj === null || typeof obj !== "object") return obj;
+
+  if (Array.isArray(obj)) {
+    return obj.map((item) => restoreDates(item));
+  }
+
+  const restored: any = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (typeof value === "string" && isISODateString(value)) {
+      restored[key] = new Date(value);
+    } else if (typeof value === "object" && value !== null) {
+      restored[key] = restoreDates(value);
+    } else {
+      restored[key] = value;
+    }
+  }
+
+  return restored;
+}
+
+/**
+ * Check if a string is an ISO date string
+ */
+function isISODateString(str: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(str);
+}
+
 /**
  * Storage utility class with error handling and graceful fallbacks
  */
@@ -61,19 +113,13 @@ export class SessionStorageUtil {
   }
 
   /**
-   * Safely parse JSON data with error handling
+   * Parse stored JSON and upgrade it to the current schema version
+   * @throws Error if the data is not valid JSON or cannot be migrated
    */
-  private safeJsonParse<T>(data: string | null, fallback: T): T {
-    if (!data) return fallback;
-
-    try {
-      const parsed = JSON.parse(data);
-      // Restore Date objects from ISO strings
-      return this.restoreDates(parsed);
-    } catch (error) {
-      console.warn("Failed to parse JSON from storage:", error);
-      return fallback;
-    }
+  private parseStoredData(key: string, data: string): unknown {
+    // Restore Date objects from ISO strings
+    const parsed = restoreDates(JSON.parse(data));
+    return migratePayload(PAYLOAD_KINDS[key] ?? null, parsed);
   }
 
   /**
@@ -92,43 +138,12 @@ export class SessionStorageUtil {
     }
   }
 
-  /**
-   * Restore Date objects from ISO strings in parsed JSON
-   */
-  private restoreDates(obj: any): any {
-    if (obj === null || typeof obj !== "object") return obj;
-
-    if (Array.isArray(obj)) {
-      return obj.map((item) => this.restoreDates(item));
-    }
-
-    const restored: any = {};
-    for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === "string" && this.isISODateString(value)) {
-        restored[key] = new Date(value);
-      } else if (typeof value === "object" && value !== null) {
-        restored[key] = this.restoreDates(value);
-      } else {
-        restored[key] = value;
-      }
-    }
-
-    return restored;
-  }
-
-  /**
-   * Check if a string is an ISO date string
-   */
-  private isISODateString(str: string): boolean {
-    return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(str);
-  }
-
   /**
    * Save data to storage with error handling and fallback
    */
   private saveToStorage<T>(key: string, data: T): void {
     try {
-      const serialized = this.safeJsonStringify(data);
+      const serialized = this.safeJsonStringify(createVersionedPayload(data));
       if (serialized) {
         this.storage.setItem(key, serialized);
         // Clear fallback data on successful save
@@ -150,18 +165,26 @@ export class SessionStorageUtil {
   }
 
   /**
-   * Load data from storage with error handling and fallback
+   * Load data from storage with error handling and fallback.
+   * Data that cannot be parsed or migrated is moved to quarantine.
    */
   private loadFromStorage<T>(key: string, fallback: T): T {
+    let data: string | null = null;
     try {
-      const data = this.storage.getItem(key);
-      if (data) {
-        return this.safeJsonParse(data, fallback);
-      }
+      data = this.storage.getItem(key);
     } catch (error) {
       console.warn(`Failed to load from sessionStorage for key: ${key}`, error);
     }
 
+    if (data) {
+      try {
+        return this.parseStoredData(key, data) as T;
+      } catch (error) {
+        console.warn(`Failed to load stored data for key: ${key}`, error);
+        this.quarantine(key, data, error);
+      }
+    }
+
     // Check fallback data
     if (this.fallbackData.has(key)) {
       return this.fallbackData.get(key);
@@ -170,6 +193,29 @@ export class SessionStorageUtil {
     return fallback;
   }
 
+  /**
+   * Move unloadable data out of its key so it is neither lost nor reloaded
+   */
+  private quarantine(key: string, raw: string, error: unknown): void {
+    const entry: QuarantineEntry = {
+      key,
+      reason: error instanceof Error ? error.message : String(error),
+      raw,
+      quarantinedAt: new Date(),
+    };
+
+    // A corrupt quarantine is itself quarantined, replacing the old entries
+    const existing =
+      key === STORAGE_KEYS.QUARANTINE ? [] : this.loadQuarantine();
+
+    try {
+      this.saveToStorage(STORAGE_KEYS.QUARANTINE, [...existing, entry]);
+      this.storage.removeItem(key);
+    } catch (quarantineError) {
+      console.warn(`Failed to quarantine data for key: ${key}`, quarantineError);
+    }
+  }
+
   /**
    * Save complete application state
    */
@@ -223,7 +269,31 @@ export class SessionStorageUtil {
   }
 
   /**
-   * Clear all stored data
+   * Load data that was quarantined because it could not be migrated
+   */
+  loadQuarantine(): QuarantineEntry[] {
+    return this.loadFromStorage(STORAGE_KEYS.QUARANTINE, []);
+  }
+
+  /**
+   * Discard quarantined data
+   */
+  clearQuarantine(): void {
+    try {
+      this.storage.removeItem(STORAGE_KEYS.QUARANTINE);
+      this.fallbackData.delete(STORAGE_KEYS.QUARANTINE);
+    } catch (error) {
+      console.warn("Failed to clear quarantine:", error);
+      throw new StorageError(
+        "Failed to clear quarantine",
+        ErrorType.STORAGE_ERROR,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Clear all stored data (quarantined data is kept for recovery)
    */
   clearAll(): void {
     try {
@@ -0,0 +1,17 @@
+/**
+ * Sync utilities module exports
+ *
+ * @format
+ */
+
+export { isLaterEntry, isSyncMessage } from "./transport";
+export type {
+  SyncEntry,
+  SyncMessage,
+  SyncTransport,
+  SyncTransportHandlers,
+} from "./transport";
+export { SyncSession } from "./session";
+export type { SyncSessionOptions, SyncStatus } from "./session";
+export { MemoryRelay, MemoryTransport } from "./memoryTransport";
+export { WebSocketTransport, isRelayUrl } from "./websocketTransport";
@@ -0,0 +1,150 @@
+/**
+ * In-memory sync relay
+ * Runs the relay protocol inside the page, so sync sessions can be tested
+ * without a network. Connections can be dropped and restored on demand.
+ *
+ * @format
+ */
+
+import { restoreDates } from "../storage/sessionStorage";
+import { isLaterEntry } from "./transport";
+import type {
+  SyncEntry,
+  SyncMessage,
+  SyncTransport,
+  SyncTransportHandlers,
+} from "./transport";
+
+interface RelayRoom {
+  entries: Map<number, { entry: SyncEntry; version: number }>;
+  version: number; // Bumped on every change to the room's stream
+  members: Set<MemoryTransport>;
+}
+
+/**
+ * A relay that keeps its rooms in memory
+ */
+export class MemoryRelay {
+  private rooms = new Map<string, RelayRoom>();
+
+  /**
+   * Creates a connection to this relay
+   * @returns A transport for one sync session
+   */
+  createTransport(): MemoryTransport {
+    return new MemoryTransport(this);
+  }
+
+  /**
+   * Gets the actions a room holds
+   * @param room - Room code
+   * @returns The actions in sequence order
+   */
+  getEntries(room: string): SyncEntry[] {
+    return Array.from(this.rooms.get(room)?.entries.values() || [])
+      .map(({ entry }) => entry)
+      .sort((a, b) => a.seq - b.seq);
+  }
+
+  /** @internal */
+  receive(from: MemoryTransport, message: SyncMessage): void {
+    const room = this.getRoom(message.room);
+
+    if (message.type === "join") {
+      room.members.add(from);
+      Array.from(room.entries.values())
+        .filter(({ version }) => version > message.since)
+        .sort((a, b) => a.entry.seq - b.entry.seq)
+        .forEach(({ entry, version }) =>
+          from.deliver({ type: "entry", room: message.room, entry, version })
+        );
+      from.deliver({
+        type: "welcome",
+        room: message.room,
+        version: room.version,
+      });
+    } else if (message.type === "entry") {
+      const { entry } = message;
+      const existing = room.entries.get(entry.seq);
+
+      if (existing && !isLaterEntry(entry, existing.entry)) {
+        // The sender took a number someone else already holds
+        from.deliver({ type: "entry", room: message.room, ...existing });
+        return;
+      }
+
+      const version = ++room.version;
+      room.entries.set(entry.seq, { entry, version });
+      room.members.forEach((member) =>
+        member.deliver({ type: "entry", room: message.room, entry, version })
+      );
+    }
+  }
+
+  /** @internal */
+  leave(member: MemoryTransport): void {
+    this.rooms.forEach((room) => room.members.delete(member));
+  }
+
+  private getRoom(code: string): RelayRoom {
+    let room = this.rooms.get(code);
+    if (!room) {
+      room = { entries: new Map(), version: 0, members: new Set() };
+      this.rooms.set(code, room);
+    }
+    return room;
+  }
+}
+
+/**
+ * A connection to a MemoryRelay. Messages are copied through JSON on the
+ * way, as they would be over a network.
+ */
+export class MemoryTransport implements SyncTransport {
+  private handlers: SyncTransportHandlers | null = null;
+  private connected = false;
+
+  constructor(private relay: MemoryRelay) {}
+
+  connect(handlers: SyncTransportHandlers): void {
+    this.handlers = handlers;
+    this.reconnect();
+  }
+
+  send(message: SyncMessage): void {
+    if (this.connected) this.relay.receive(this, copy(message));
+  }
+
+  close(): void {
+    this.disconnect();
+    this.handlers = null;
+  }
+
+  /**
+   * Drops the connection, as when a phone loses signal
+   */
+  disconnect(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.relay.leave(this);
+    this.handlers?.onClose();
+  }
+
+  /**
+   * Restores a dropped connection
+   */
+  reconnect(): void {
+    if (this.connected || !this.handlers) return;
+    this.connected = true;
+    this.handlers.onOpen();
+  }
+
+  /** @internal */
+  deliver(message: SyncMessage): void {
+    if (this.connected) this.handlers?.onMessage(copy(message));
+  }
+}
+
+function copy(message: SyncMessage): SyncMessage {
+  return restoreDates(JSON.parse(JSON.stringify(message)));
+}
@@ -0,0 +1,207 @@
+/**
+ * Sync session
+ * Keeps one device's state in step with the other devices in a room. The
+ * state is always the local starting state with the room's actions applied
+ * in sequence order, so every device that has the same actions agrees.
+ *
+ * @format
+ */
+
+import { isLaterEntry } from "./transport";
+import type { SyncEntry, SyncMessage, SyncTransport } from "./transport";
+
+export type SyncStatus = "connecting" | "connected" | "offline" | "closed";
+
+export interface SyncSessionOptions<S, A> {
+  room: string;
+  clientId: string; // Unique to this device and session
+  transport: SyncTransport;
+  initialState: S; // State on this device before joining
+  reduce: (state: S, action: A) => S;
+  snapshot: (state: S) => A; // Action that sets other devices up with this game, sent when the room is empty
+  onChange: (state: S) => void;
+  onStatus?: (status: SyncStatus) => void;
+  onConflict?: (lost: SyncEntry<A>) => void; // An action from this device was replaced by a later one
+}
+
+/**
+ * A device's membership of a sync room
+ */
+export class SyncSession<S, A> {
+  private options: SyncSessionOptions<S, A>;
+  private base: S; // State the room's actions are applied to
+  private state: S;
+  private entries = new Map<number, SyncEntry<A>>();
+  private pending: A[] = []; // Actions taken before the room's stream arrived
+  private unconfirmed = new Set<number>(); // Our actions the relay has not sent back
+  private welcomed = false;
+  private version = 0; // Latest relay version heard, for replay on reconnect
+  private status: SyncStatus = "connecting";
+
+  constructor(options: SyncSessionOptions<S, A>) {
+    this.options = options;
+    this.base = options.initialState;
+    this.state = options.initialState;
+
+    options.transport.connect({
+      onOpen: () => this.handleOpen(),
+      onMessage: (message) => this.handleMessage(message as SyncMessage<A>),
+      onClose: () => this.setStatus("offline"),
+    });
+  }
+
+  getState(): S {
+    return this.state;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Gets the room's actions as this device knows them
+   * @returns Actions in sequence order
+   */
+  getEntries(): SyncEntry<A>[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.seq - b.seq);
+  }
+
+  private getLatestSeq(): number {
+    return Math.max(0, ...this.entries.keys());
+  }
+
+  /**
+   * Takes an action on this device and shares it with the room. Actions
+   * taken while offline are shared on reconnect.
+   * @param action - The action
+   */
+  submit(action: A): void {
+    if (this.status === "closed") return;
+
+    if (!this.welcomed) {
+      this.pending.push(action);
+      this.state = this.options.reduce(this.state, action);
+      this.options.onChange(this.state);
+      return;
+    }
+
+    const entry: SyncEntry<A> = {
+      seq: this.getLatestSeq() + 1,
+      clientId: this.options.clientId,
+      timestamp: Date.now(),
+      action,
+    };
+    this.entries.set(entry.seq, entry);
+    this.unconfirmed.add(entry.seq);
+    this.state = this.options.reduce(this.state, action);
+    this.options.onChange(this.state);
+    this.send({ type: "entry", room: this.options.room, entry });
+  }
+
+  /**
+   * Takes an action that only concerns this device, such as editing the
+   * saved players. It is kept through any rebuild of the state.
+   * @param action - The action
+   */
+  applyLocal(action: A): void {
+    this.base = this.options.reduce(this.base, action);
+    this.state = this.options.reduce(this.state, action);
+    this.options.onChange(this.state);
+  }
+
+  /**
+   * Leaves the room; the state stays as it is
+   */
+  close(): void {
+    if (this.status === "closed") return;
+    this.setStatus("closed");
+    this.options.transport.close();
+  }
+
+  private send(message: SyncMessage<A>): void {
+    if (this.status === "connected") this.options.transport.send(message);
+  }
+
+  private setStatus(status: SyncStatus): void {
+    if (this.status === status || this.status === "closed") return;
+    this.status = status;
+    this.options.onStatus?.(status);
+  }
+
+  private handleOpen(): void {
+    this.setStatus("connected");
+    this.send({ type: "join", room: this.options.room, since: this.version });
+  }
+
+  private handleMessage(message: SyncMessage<A>): void {
+    if (message.room !== this.options.room || this.status === "closed") return;
+
+    if (message.type === "entry") {
+      if (message.version !== undefined) {
+        this.version = Math.max(this.version, message.version);
+      }
+      this.receive(message.entry);
+    } else if (message.type === "welcome") {
+      this.version = Math.max(this.version, message.version);
+      this.handleWelcome();
+    }
+  }
+
+  private handleWelcome(): void {
+    if (!this.welcomed) {
+      this.welcomed = true;
+      const pending = this.pending;
+      this.pending = [];
+      this.rebuild();
+
+      // The first device in a room sets the others up with its game
+      if (this.entries.size === 0) {
+        this.submit(this.options.snapshot(this.state));
+      }
+      pending.forEach((action) => this.submit(action));
+      return;
+    }
+
+    // Share what was done here while the relay could not hear us
+    for (const seq of this.unconfirmed) {
+      const entry = this.entries.get(seq);
+      if (entry) this.send({ type: "entry", room: this.options.room, entry });
+    }
+  }
+
+  private receive(entry: SyncEntry<A>): void {
+    const existing = this.entries.get(entry.seq);
+    if (existing) {
+      const same =
+        existing.clientId === entry.clientId &&
+        existing.timestamp === entry.timestamp;
+      if (same) {
+        this.unconfirmed.delete(entry.seq);
+        return;
+      }
+      if (!isLaterEntry(entry, existing)) return;
+      this.unconfirmed.delete(entry.seq);
+      if (existing.clientId === this.options.clientId) {
+        this.options.onConflict?.(existing);
+      }
+    }
+
+    const appended = !existing && entry.seq > this.getLatestSeq();
+    this.entries.set(entry.seq, entry);
+
+    if (appended && this.welcomed) {
+      this.state = this.options.reduce(this.state, entry.action);
+    } else {
+      this.rebuild();
+    }
+    this.options.onChange(this.state);
+  }
+
+  private rebuild(): void {
+    const applied = this.getEntries().reduce(
+      (state, entry) => this.options.reduce(state, entry.action),
+      this.base
+    );
+    this.state = this.pending.reduce(this.options.reduce, applied);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Sync protocol and transport interface
+ * Devices in a sync room share one ordered stream of actions. Each action
+ * takes the next sequence number; when two devices take the same number,
+ * the action taken last wins on every device.
+ *
+ * @format
+ */
+
+/**
+ * An action in a room's stream
+ */
+export interface SyncEntry<A = unknown> {
+  seq: number; // Position in the stream, from 1
+  clientId: string; // Device that took the action
+  timestamp: number; // When the action was taken, in ms since the epoch
+  action: A;
+}
+
+/**
+ * Messages between devices and the relay. Devices send join and entry;
+ * the relay answers with entry and welcome.
+ */
+export type SyncMessage<A = unknown> =
+  | { type: "join"; room: string; since: number } // since: last relay version seen
+  | { type: "entry"; room: string; entry: SyncEntry<A>; version?: number }
+  | { type: "welcome"; room: string; version: number }; // Sent after replaying a join
+
+/**
+ * Callbacks a transport reports to
+ */
+export interface SyncTransportHandlers {
+  onOpen: () => void; // Connected, or connected again after a drop
+  onMessage: (message: SyncMessage) => void;
+  onClose: () => void; // Connection lost; the transport may reconnect
+}
+
+/**
+ * Connection to a relay, so sessions can run over WebSockets or in memory
+ */
+export interface SyncTransport {
+  connect(handlers: SyncTransportHandlers): void;
+  send(message: SyncMessage): void;
+  close(): void; // Disconnect for good
+}
+
+/**
+ * Decides which of two actions given the same sequence number stands: the
+ * one taken last, with the device ID breaking ties so every device agrees
+ * @param entry - An action
+ * @param other - Another action with the same sequence number
+ * @returns True if entry wins over other
+ */
+export function isLaterEntry(entry: SyncEntry, other: SyncEntry): boolean {
+  if (entry.timestamp !== other.timestamp) {
+    return entry.timestamp > other.timestamp;
+  }
+  return entry.clientId > other.clientId;
+}
+
+/**
+ * Checks that a message received from a relay is one of ours
+ * @param data - Parsed message
+ * @returns True if the message is a SyncMessage
+ */
+export function isSyncMessage(data: unknown): data is SyncMessage {
+  if (data === null || typeof data !== "object") return false;
+  const message = data as Record<string, unknown>;
+  if (typeof message.room !== "string") return false;
+
+  switch (message.type) {
+    case "join":
+      return typeof message.since === "number";
+    case "welcome":
+      return typeof message.version === "number";
+    case "entry": {
+      const entry = message.entry as Record<string, unknown> | null;
+      return (
+        entry !== null &&
+        typeof entry === "object" &&
+        Number.isInteger(entry.seq) &&
+        typeof entry.clientId === "string" &&
+        typeof entry.timestamp === "number" &&
+        entry.action !== undefined
+      );
+    }
+    default:
+      return false;
+  }
+}
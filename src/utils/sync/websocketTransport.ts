@@ -0,0 +1,98 @@
+/**
+ * WebSocket sync transport
+ * Connects a sync session to a relay server, reconnecting with a growing
+ * delay whenever the connection drops
+ *
+ * @format
+ */
+
+import { restoreDates } from "../storage/sessionStorage";
+import { isSyncMessage } from "./transport";
+import type {
+  SyncMessage,
+  SyncTransport,
+  SyncTransportHandlers,
+} from "./transport";
+
+const MIN_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 15000;
+
+/**
+ * Checks that an address can be used for a sync relay
+ * @param url - Relay address
+ * @returns True for ws:// and wss:// addresses
+ */
+export function isRelayUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "ws:" || protocol === "wss:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A connection to a sync relay over WebSocket
+ */
+export class WebSocketTransport implements SyncTransport {
+  private socket: WebSocket | null = null;
+  private handlers: SyncTransportHandlers | null = null;
+  private retryDelay = MIN_RETRY_DELAY_MS;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(private url: string) {}
+
+  connect(handlers: SyncTransportHandlers): void {
+    this.handlers = handlers;
+    this.closed = false;
+    this.open();
+  }
+
+  send(message: SyncMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private open(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryDelay = MIN_RETRY_DELAY_MS;
+      this.handlers?.onOpen();
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      let data: unknown;
+      try {
+        data = restoreDates(JSON.parse(String(event.data)));
+      } catch {
+        return;
+      }
+      if (isSyncMessage(data)) this.handlers?.onMessage(data);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.closed) return;
+
+      this.handlers?.onClose();
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        if (!this.closed) this.open();
+      }, this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+    };
+  }
+}
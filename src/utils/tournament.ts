@@ -0,0 +1,386 @@
+/**
+ * Single-elimination tournament bracket utilities
+ * Seeds entrants into a bracket, spawns match games and advances winners
+ *
+ * @format
+ */
+
+import type {
+  Entrant,
+  Game,
+  GameMode,
+  Player,
+  RuleSet,
+  Team,
+  Tournament,
+  TournamentEntrant,
+  TournamentMatch,
+} from "./types/index";
+import { DEFAULT_RULE_SET } from "./rules";
+import { createGame, generateId } from "./gameStateUtils";
+import { t } from "./i18n";
+
+/**
+ * Players and teams taking part in a match game
+ */
+export interface MatchParticipants {
+  players: Player[];
+  teams: Team[];
+}
+
+/**
+ * Gets the number of slots in a bracket, the next power of two
+ * @param entrantCount - Number of entrants in the tournament
+ * @returns Bracket size (at least 2)
+ */
+export function getBracketSize(entrantCount: number): number {
+  let size = 2;
+  while (size < entrantCount) {
+    size *= 2;
+  }
+  return size;
+}
+
+/**
+ * Gets the number of rounds needed to decide a tournament
+ * @param entrantCount - Number of entrants in the tournament
+ * @returns Number of rounds
+ */
+export function getRoundCount(entrantCount: number): number {
+  return Math.log2(getBracketSize(entrantCount));
+}
+
+/**
+ * Gets the seeds in bracket order so that top seeds meet as late as possible
+ * (e.g. 1, 8, 4, 5, 2, 7, 3, 6 for eight slots)
+ * @param bracketSize - Number of slots in the bracket
+ * @returns Seed numbers from the top of the bracket to the bottom
+ */
+export function getSeedOrder(bracketSize: number): number[] {
+  let order = [1];
+  while (order.length < bracketSize) {
+    const size = order.length * 2;
+    order = order.flatMap((seed) => [seed, size + 1 - seed]);
+  }
+  return order;
+}
+
+/**
+ * Gets a display name for a round
+ * @param round - Round number, 1 being the first round
+ * @param roundCount - Total number of rounds in the tournament
+ * @returns Round name such as "Final" or "Round 1"
+ */
+export function getRoundName(round: number, roundCount: number): string {
+  switch (roundCount - round) {
+    case 0:
+      return t("tournament.final");
+    case 1:
+      return t("tournament.semiFinals");
+    case 2:
+      return t("tournament.quarterFinals");
+    default:
+      return t("tournament.round", { round });
+  }
+}
+
+/**
+ * Creates a single-elimination tournament, seeding entrants in the given order.
+ * Top seeds receive byes when the field is not a power of two.
+ * @param name - Tournament name
+ * @param entrants - Entrants in seed order, top seed first
+ * @param gameMode - Whether entrants are players or teams
+ * @param rules - Rules every match is played with
+ * @returns A new Tournament object
+ */
+export function createTournament(
+  name: string,
+  entrants: Entrant[],
+  gameMode: GameMode = "individual",
+  rules: RuleSet = DEFAULT_RULE_SET
+): Tournament {
+  const seededEntrants = entrants.map((entrant, index) => ({
+    ...entrant,
+    seed: index + 1,
+  }));
+  const bracketSize = getBracketSize(seededEntrants.length);
+  const roundCount = getRoundCount(seededEntrants.length);
+  const seedOrder = getSeedOrder(bracketSize);
+  const entrantIdForSeed = (seed: number): string | null =>
+    seededEntrants[seed - 1]?.id ?? null;
+
+  const matches: TournamentMatch[] = [];
+  for (let round = 1; round <= roundCount; round++) {
+    const matchCount = bracketSize / 2 ** round;
+    for (let position = 0; position < matchCount; position++) {
+      matches.push({
+        id: generateId(),
+        round,
+        position,
+        entrantIds:
+          round === 1
+            ? [
+                entrantIdForSeed(seedOrder[position * 2]),
+                entrantIdForSeed(seedOrder[position * 2 + 1]),
+              ]
+            : [null, null],
+        winnerId: null,
+        gameId: null,
+        isBye: false,
+      });
+    }
+  }
+
+  const tournament: Tournament = {
+    id: generateId(),
+    name: name.trim(),
+    gameMode,
+    rules,
+    entrants: seededEntrants,
+    matches,
+    startTime: new Date(),
+    endTime: null,
+    winnerId: null,
+  };
+
+  // An entrant without an opponent in the first round advances on a bye
+  return matches
+    .filter((match) => match.round === 1)
+    .reduce((current, match) => {
+      const present = match.entrantIds.filter((id) => id !== null);
+      if (present.length !== 1) return current;
+      return recordMatchResult(current, match.id, present[0], true);
+    }, tournament);
+}
+
+/**
+ * Gets the match the winner of a match advances to
+ * @param tournament - The tournament
+ * @param match - The match that was decided
+ * @returns The next match, or undefined for the final
+ */
+export function getNextMatch(
+  tournament: Tournament,
+  match: TournamentMatch
+): TournamentMatch | undefined {
+  return tournament.matches.find(
+    (m) =>
+      m.round === match.round + 1 &&
+      m.position === Math.floor(match.position / 2)
+  );
+}
+
+/**
+ * Records the winner of a match and moves them into their next match.
+ * Passing null clears a result (e.g. when the deciding throw is undone),
+ * as long as the next match has not been started.
+ * @param tournament - The tournament
+ * @param matchId - ID of the decided match
+ * @param winnerId - ID of the winning entrant, or null to clear the result
+ * @param isBye - True if the match was decided without a game
+ * @param decidedAt - When the match was decided, which ends the tournament
+ * if it was the final
+ * @returns Updated tournament
+ */
+export function recordMatchResult(
+  tournament: Tournament,
+  matchId: string,
+  winnerId: string | null,
+  isBye: boolean = false,
+  decidedAt: Date = new Date()
+): Tournament {
+  const match = tournament.matches.find((m) => m.id === matchId);
+  if (!match || match.winnerId === winnerId) {
+    return tournament;
+  }
+  if (winnerId !== null && !match.entrantIds.includes(winnerId)) {
+    return tournament; // Winner must be one of the match's entrants
+  }
+
+  const nextMatch = getNextMatch(tournament, match);
+  if (nextMatch && (nextMatch.gameId !== null || nextMatch.winnerId !== null)) {
+    return tournament; // Later rounds already depend on this result
+  }
+
+  const slot = match.position % 2;
+  const matches = tournament.matches.map((m) => {
+    if (m.id === match.id) {
+      return { ...m, winnerId, isBye };
+    }
+    if (nextMatch && m.id === nextMatch.id) {
+      const entrantIds: [string | null, string | null] = [...m.entrantIds];
+      entrantIds[slot] = winnerId;
+      return { ...m, entrantIds };
+    }
+    return m;
+  });
+
+  return {
+    ...tournament,
+    matches,
+    winnerId: nextMatch ? tournament.winnerId : winnerId,
+    endTime: nextMatch ? tournament.endTime : winnerId ? decidedAt : null,
+  };
+}
+
+/**
+ * Marks a match as being played by the given game
+ * @param tournament - The tournament
+ * @param matchId - ID of the match
+ * @param gameId - ID of the game spawned for the match
+ * @returns Updated tournament
+ */
+export function assignMatchGame(
+  tournament: Tournament,
+  matchId: string,
+  gameId: string
+): Tournament {
+  return {
+    ...tournament,
+    matches: tournament.matches.map((m) =>
+      m.id === matchId ? { ...m, gameId } : m
+    ),
+  };
+}
+
+/**
+ * Checks whether a match has both entrants and is still undecided
+ * @param match - The match to check
+ * @returns True if the match can be played
+ */
+export function isMatchPlayable(match: TournamentMatch): boolean {
+  return (
+    match.winnerId === null &&
+    match.entrantIds[0] !== null &&
+    match.entrantIds[1] !== null
+  );
+}
+
+/**
+ * Gets the next match waiting to be played, earliest round first
+ * @param tournament - The tournament
+ * @returns The next playable match, or null if none is ready
+ */
+export function getNextPendingMatch(
+  tournament: Tournament
+): TournamentMatch | null {
+  const pending = tournament.matches
+    .filter(isMatchPlayable)
+    .sort((a, b) => a.round - b.round || a.position - b.position);
+  return pending[0] || null;
+}
+
+/**
+ * Gets how many matches have been played, not counting byes
+ * @param tournament - The tournament
+ * @returns Played and total match counts
+ */
+export function getTournamentProgress(tournament: Tournament): {
+  played: number;
+  total: number;
+} {
+  const playedMatches = tournament.matches.filter((m) => !m.isBye);
+  return {
+    played: playedMatches.filter((m) => m.winnerId !== null).length,
+    total: playedMatches.length,
+  };
+}
+
+/**
+ * Finds an entrant by ID
+ * @param tournament - The tournament
+ * @param entrantId - ID of the entrant
+ * @returns The entrant, or undefined if not found
+ */
+export function getEntrant(
+  tournament: Tournament,
+  entrantId: string | null
+): TournamentEntrant | undefined {
+  return tournament.entrants.find((entrant) => entrant.id === entrantId);
+}
+
+/**
+ * Builds the players or teams for a game between entrants
+ * @param entrants - Entrants taking part in the game
+ * @param gameMode - Whether entrants are players or teams
+ * @returns Players for individual games, teams for team games
+ */
+export function getEntrantParticipants(
+  entrants: Entrant[],
+  gameMode: GameMode
+): MatchParticipants {
+  if (gameMode === "team") {
+    return {
+      players: [],
+      teams: entrants.map((entrant) => ({
+        id: entrant.id,
+        name: entrant.name,
+        players: entrant.players.map((player) => ({
+          ...player,
+          teamId: entrant.id,
+        })),
+        score: 0,
+        penalties: 0,
+        isActive: false,
+      })),
+    };
+  }
+
+  return {
+    players: entrants.flatMap((entrant) => entrant.players),
+    teams: [],
+  };
+}
+
+/**
+ * Builds the players or teams that take part in a match
+ * @param tournament - The tournament
+ * @param match - The match to be played
+ * @returns Players for individual tournaments, teams for team tournaments
+ */
+export function getMatchParticipants(
+  tournament: Tournament,
+  match: TournamentMatch
+): MatchParticipants {
+  const entrants = match.entrantIds
+    .map((id) => getEntrant(tournament, id))
+    .filter((entrant): entrant is TournamentEntrant => entrant !== undefined);
+
+  return getEntrantParticipants(entrants, tournament.gameMode);
+}
+
+/**
+ * Creates the game for a tournament match through createGame
+ * @param tournament - The tournament
+ * @param match - The match to be played
+ * @param participants - Players or teams prepared for the first turn
+ * @returns A new Game linked to the tournament match
+ */
+export function createMatchGame(
+  tournament: Tournament,
+  match: TournamentMatch,
+  participants: MatchParticipants
+): Game {
+  const game = createGame(
+    participants.players,
+    tournament.gameMode,
+    tournament.gameMode === "team" ? participants.teams : undefined,
+    tournament.rules
+  );
+
+  return {
+    ...game,
+    tournamentId: tournament.id,
+    tournamentMatchId: match.id,
+  };
+}
+
+/**
+ * Gets the winning entrant ID of a finished tournament or league game
+ * @param game - The game
+ * @returns Winning player or team ID, or null if the game has no winner yet
+ */
+export function getGameWinnerId(game: Game): string | null {
+  if (!game.endTime) return null;
+  return game.winningTeam?.id ?? game.winner?.id ?? null;
+}
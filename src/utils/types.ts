@@ -14,8 +14,19 @@ export interface Player {
   penalties: number;
   isActive: boolean;
   teamId?: string; // Optional team ID for team-based games
+  profileId?: string; // Saved roster profile the player plays as
   consecutiveMisses?: number; // Number of consecutive zero-point turns
   eliminated?: boolean; // True if eliminated after three misses
+  handicap?: number; // Score the player starts individual games on
+}
+
+/**
+ * A saved player kept in the roster across games, with a stable ID
+ */
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: Date;
 }
 
 /**
@@ -31,6 +42,7 @@ export interface Team {
   consecutiveMisses?: number; // Number of consecutive zero-point turns for the team
   eliminated?: boolean; // True if team is eliminated after three misses
   currentPlayerIndex?: number; // Index of the current player throwing within the team
+  handicap?: number; // Score the team starts team games on
 }
 
 /**
@@ -45,6 +57,66 @@ export interface PenaltyRecord {
   reason: string;
 }
 
+/**
+ * Where a pin stands on the field, as fractions of the field diagram
+ * (x from left to right, y from the far end towards the throwing line)
+ */
+export interface PinPosition {
+  pin: number; // 1-12
+  x: number;
+  y: number;
+}
+
+/**
+ * Kinds of turn recorded in a game's throw log
+ */
+export type ThrowEventType = "score" | "penalty" | "out_of_turn";
+
+/**
+ * Immutable record of a single throw (or penalised turn) in a game
+ */
+export interface ThrowEvent {
+  id: string;
+  type: ThrowEventType;
+  playerId: string; // Player who threw
+  playerName: string;
+  teamId?: string; // Team the thrower belongs to in team games
+  teamName?: string;
+  score: number; // Points knocked down (0 for a miss or a penalty)
+  scoringType?: "single" | "multiple";
+  pins?: number[]; // Pins knocked down, when entered pin by pin (empty for a miss)
+  layout?: PinPosition[]; // Where the pins stood after the throw, when the field is tracked
+  winProbabilities?: Record<string, number>; // Estimated win chance (0-1) after the throw, by player ID (team ID in team games)
+  winProbabilitySwing?: number; // Change in the thrower's (or their team's) win chance caused by the throw
+  reason?: string; // Penalty reason for penalty events
+  resultingScore: number; // Player's (or team's) score after the throw
+  scoreReset: boolean; // True if the score was reset to 25
+  eliminated: boolean; // True if the throw eliminated the player or team
+  timestamp: Date;
+}
+
+/**
+ * Scoring rules for a game, allowing club variants of the standard rules
+ */
+export interface RuleSet {
+  name: string;
+  targetScore: number; // Exact score needed to win
+  resetScore: number; // Score a player drops to after overshooting or a penalty
+  eliminationMisses: number | null; // Consecutive misses before elimination, null disables elimination
+  outOfTurnThreshold: number; // Out-of-turn throws reset scores at or above this value
+}
+
+/**
+ * Position a game was picked up from when it was carried over from
+ * another device. Undo goes no further back than this.
+ */
+export interface ResumePoint {
+  players: Player[];
+  teams?: Team[];
+  currentPlayerIndex: number;
+  currentTeamIndex: number;
+}
+
 /**
  * Represents a complete game with all its data
  */
@@ -59,6 +131,134 @@ export interface Game {
   totalRounds: number;
   penalties: PenaltyRecord[];
   gameMode: GameMode;
+  throws?: ThrowEvent[]; // Throw-by-throw event log
+  rules?: RuleSet; // Rules the game was played with (standard rules if missing)
+  teamRotation?: TeamRotation; // How team members took turns (lockstep if missing)
+  handicaps?: Record<string, number>; // Starting scores above zero, by player ID (team ID in team games)
+  resumedFrom?: ResumePoint; // Position the game was picked up from on this device, if it was shared
+  tournamentId?: string; // Tournament the game was played in, if any
+  tournamentMatchId?: string; // Bracket match the game decides
+  leagueId?: string; // League the game was played in, if any
+  leagueFixtureId?: string; // League fixture the game resolves
+}
+
+/**
+ * A player or team entered into a tournament or league
+ */
+export interface Entrant {
+  id: string; // Player ID in individual competitions, team ID in team competitions
+  name: string;
+  players: Player[]; // The player, or the team's players
+}
+
+/**
+ * An entrant seeded into a tournament bracket
+ */
+export interface TournamentEntrant extends Entrant {
+  seed: number; // 1 is the top seed
+}
+
+/**
+ * A single match in a knockout bracket
+ */
+export interface TournamentMatch {
+  id: string;
+  round: number; // 1 is the first round
+  position: number; // Position within the round, from the top of the bracket
+  entrantIds: [string | null, string | null]; // null until the slot is decided
+  winnerId: string | null;
+  gameId: string | null; // Game played for this match
+  isBye: boolean; // True if the match was decided without a game
+}
+
+/**
+ * Single-elimination tournament
+ */
+export interface Tournament {
+  id: string;
+  name: string;
+  gameMode: GameMode;
+  rules: RuleSet;
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+  startTime: Date;
+  endTime: Date | null;
+  winnerId: string | null;
+}
+
+/**
+ * A scheduled game between two entrants in a round-robin league
+ */
+export interface LeagueFixture {
+  id: string;
+  round: number; // 1 is the first round
+  entrantIds: [string, string];
+  winnerId: string | null;
+  gameId: string | null; // Game in history that resolved the fixture
+}
+
+/**
+ * Round-robin league where every entrant plays every other entrant once
+ */
+export interface League {
+  id: string;
+  name: string;
+  gameMode: GameMode;
+  rules: RuleSet;
+  entrants: Entrant[];
+  fixtures: LeagueFixture[];
+  startTime: Date;
+}
+
+/**
+ * A row of a league standings table
+ */
+export interface LeagueStanding {
+  entrantId: string;
+  name: string;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number; // Final scores of the entrant's games
+  pointsAgainst: number; // Final scores of the entrant's opponents
+  scoreDifference: number;
+  penalties: number; // Penalty records against the entrant
+}
+
+/**
+ * A player's rating before and after one rated game
+ */
+export interface RatingChange {
+  gameId: string;
+  date: Date; // When the game ended
+  rank: number; // Finishing position, 1 is first (sides level on the finish share a rank)
+  before: number;
+  after: number;
+}
+
+/**
+ * A player's skill rating computed from game history
+ */
+export interface PlayerRating {
+  key: string; // Profile ID, or "name:<name>" for players without a profile
+  name: string;
+  rating: number;
+  gamesRated: number;
+  history: RatingChange[]; // Oldest game first
+}
+
+/**
+ * How often a player knocks each pin, computed from recorded throws
+ */
+export interface PlayerPinStats {
+  key: string; // Profile ID, or "name:<name>" for players without a profile
+  name: string;
+  throws: number; // Scoring throws, misses included
+  misses: number;
+  missRate: number; // Percentage of throws that missed
+  singlePinHits: number[]; // Throws that knocked only that pin; index 0 is pin 1
+  multiPinThrows: number;
+  averagePinsPerMultiPinThrow: number;
 }
 
 /**
@@ -66,6 +266,13 @@ export interface Game {
  */
 export type GameMode = "individual" | "team";
 
+/**
+ * How players take turns within a team: lockstep has every team throw with
+ * the same position in its order, independent lets each team work through
+ * its own order, and captain has the team's captain pick each thrower
+ */
+export type TeamRotation = "lockstep" | "independent" | "captain";
+
 /**
  * Possible game states
  */
@@ -83,6 +290,13 @@ export interface AppState {
   gameHistory: Game[];
   currentGame: Game | null;
   gameMode: GameMode;
+  rules?: RuleSet; // Rules for the next or current game (standard rules if missing)
+  teamRotation?: TeamRotation; // How team members take turns in the next team game
+  undoneThrows?: ThrowEvent[]; // Throws taken back with undo, most recent last
+  tournament?: Tournament | null; // Knockout tournament in progress, if any
+  league?: League | null; // Round-robin league in progress, if any
+  roster?: PlayerProfile[]; // Saved player profiles, kept between games
+  trackPinLayout?: boolean; // Record where the pins stand after each throw
 }
 
 /**
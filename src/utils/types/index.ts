@@ -11,6 +11,16 @@ export interface Player {
   penalties: number;
   isActive: boolean;
   teamId?: string; // Optional team ID for team-based games
+  profileId?: string; // Saved roster profile the player plays as
+  consecutiveMisses?: number; // Number of consecutive zero-point turns
+  eliminated?: boolean; // True if eliminated after three misses
+  handicap?: number; // Score the player starts individual games on
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: Date;
 }
 
 export interface Team {
@@ -23,6 +33,7 @@ export interface Team {
   consecutiveMisses?: number; // Number of consecutive zero-point turns for the team
   eliminated?: boolean; // True if team is eliminated after three misses
   currentPlayerIndex?: number; // Index of the current player throwing within the team
+  handicap?: number; // Score the team starts team games on
 }
 
 export interface PenaltyRecord {
@@ -34,6 +45,49 @@ export interface PenaltyRecord {
   reason: string;
 }
 
+export interface PinPosition {
+  pin: number; // 1-12
+  x: number;
+  y: number;
+}
+
+export type ThrowEventType = "score" | "penalty" | "out_of_turn";
+
+export interface ThrowEvent {
+  id: string;
+  type: ThrowEventType;
+  playerId: string; // Player who threw
+  playerName: string;
+  teamId?: string; // Team the thrower belongs to in team games
+  teamName?: string;
+  score: number; // Points knocked down (0 for a miss or a penalty)
+  scoringType?: "single" | "multiple";
+  pins?: number[]; // Pins knocked down, when entered pin by pin (empty for a miss)
+  layout?: PinPosition[]; // Where the pins stood after the throw, when the field is tracked
+  winProbabilities?: Record<string, number>; // Estimated win chance (0-1) after the throw, by player ID (team ID in team games)
+  winProbabilitySwing?: number; // Change in the thrower's (or their team's) win chance caused by the throw
+  reason?: string; // Penalty reason for penalty events
+  resultingScore: number; // Player's (or team's) score after the throw
+  scoreReset: boolean; // True if the score was reset to 25
+  eliminated: boolean; // True if the throw eliminated the player or team
+  timestamp: Date;
+}
+
+export interface RuleSet {
+  name: string;
+  targetScore: number; // Exact score needed to win
+  resetScore: number; // Score a player drops to after overshooting or a penalty
+  eliminationMisses: number | null; // Consecutive misses before elimination, null disables elimination
+  outOfTurnThreshold: number; // Out-of-turn throws reset scores at or above this value
+}
+
+export interface ResumePoint {
+  players: Player[];
+  teams?: Team[];
+  currentPlayerIndex: number;
+  currentTeamIndex: number;
+}
+
 export interface Game {
   id: string;
   players: Player[];
@@ -45,9 +99,109 @@ export interface Game {
   totalRounds: number;
   penalties: PenaltyRecord[];
   gameMode: GameMode;
+  throws?: ThrowEvent[]; // Throw-by-throw event log
+  rules?: RuleSet; // Rules the game was played with (standard rules if missing)
+  teamRotation?: TeamRotation; // How team members took turns (lockstep if missing)
+  handicaps?: Record<string, number>; // Starting scores above zero, by player ID (team ID in team games)
+  resumedFrom?: ResumePoint; // Position the game was picked up from on this device, if it was shared
+  tournamentId?: string; // Tournament the game was played in, if any
+  tournamentMatchId?: string; // Bracket match the game decides
+  leagueId?: string; // League the game was played in, if any
+  leagueFixtureId?: string; // League fixture the game resolves
+}
+
+export interface Entrant {
+  id: string; // Player ID in individual competitions, team ID in team competitions
+  name: string;
+  players: Player[]; // The player, or the team's players
+}
+
+export interface TournamentEntrant extends Entrant {
+  seed: number; // 1 is the top seed
+}
+
+export interface TournamentMatch {
+  id: string;
+  round: number; // 1 is the first round
+  position: number; // Position within the round, from the top of the bracket
+  entrantIds: [string | null, string | null]; // null until the slot is decided
+  winnerId: string | null;
+  gameId: string | null; // Game played for this match
+  isBye: boolean; // True if the match was decided without a game
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  gameMode: GameMode;
+  rules: RuleSet;
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+  startTime: Date;
+  endTime: Date | null;
+  winnerId: string | null;
+}
+
+export interface LeagueFixture {
+  id: string;
+  round: number; // 1 is the first round
+  entrantIds: [string, string];
+  winnerId: string | null;
+  gameId: string | null; // Game in history that resolved the fixture
+}
+
+export interface League {
+  id: string;
+  name: string;
+  gameMode: GameMode;
+  rules: RuleSet;
+  entrants: Entrant[];
+  fixtures: LeagueFixture[];
+  startTime: Date;
+}
+
+export interface LeagueStanding {
+  entrantId: string;
+  name: string;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number; // Final scores of the entrant's games
+  pointsAgainst: number; // Final scores of the entrant's opponents
+  scoreDifference: number;
+  penalties: number; // Penalty records against the entrant
+}
+
+export interface RatingChange {
+  gameId: string;
+  date: Date; // When the game ended
+  rank: number; // Finishing position, 1 is first (sides level on the finish share a rank)
+  before: number;
+  after: number;
+}
+
+export interface PlayerRating {
+  key: string; // Profile ID, or "name:<name>" for players without a profile
+  name: string;
+  rating: number;
+  gamesRated: number;
+  history: RatingChange[]; // Oldest game first
+}
+
+export interface PlayerPinStats {
+  key: string; // Profile ID, or "name:<name>" for players without a profile
+  name: string;
+  throws: number; // Scoring throws, misses included
+  misses: number;
+  missRate: number; // Percentage of throws that missed
+  singlePinHits: number[]; // Throws that knocked only that pin; index 0 is pin 1
+  multiPinThrows: number;
+  averagePinsPerMultiPinThrow: number;
 }
 
 export type GameMode = "individual" | "team";
+
+export type TeamRotation = "lockstep" | "independent" | "captain";
 export type GameState = "setup" | "playing" | "finished";
 
 export interface AppState {
@@ -59,6 +213,13 @@ export interface AppState {
   gameHistory: Game[];
   currentGame: Game | null;
   gameMode: GameMode;
+  rules?: RuleSet; // Rules for the next or current game (standard rules if missing)
+  teamRotation?: TeamRotation; // How team members take turns in the next team game
+  undoneThrows?: ThrowEvent[]; // Throws taken back with undo, most recent last
+  tournament?: Tournament | null; // Knockout tournament in progress, if any
+  league?: League | null; // Round-robin league in progress, if any
+  roster?: PlayerProfile[]; // Saved player profiles, kept between games
+  trackPinLayout?: boolean; // Record where the pins stand after each throw
 }
 
 export enum ErrorType {
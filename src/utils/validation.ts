@@ -4,17 +4,18 @@
  * @format
  */
 
-import type { Player } from "./types";
+import type { Player, RuleSet } from "./types";
+import { t } from "./i18n";
 
 /**
  * Validates a player name
  * @param name - The player name to validate
- * @param existingPlayers - Array of existing players to check for duplicates
+ * @param existingPlayers - Existing players (or roster profiles) to check for duplicates
  * @returns Object with isValid boolean and error message if invalid
  */
 export function validatePlayerName(
   name: string,
-  existingPlayers: Player[] = []
+  existingPlayers: Pick<Player, "name">[] = []
 ): {
   isValid: boolean;
   error?: string;
@@ -23,7 +24,7 @@ export function validatePlayerName(
   if (!name || name.trim().length === 0) {
     return {
       isValid: false,
-      error: "Player name cannot be empty. Please enter a valid name.",
+      error: t("validation.playerNameEmpty"),
     };
   }
 
@@ -31,7 +32,7 @@ export function validatePlayerName(
   if (name.trim().length < 2) {
     return {
       isValid: false,
-      error: "Player name must be at least 2 characters long.",
+      error: t("validation.playerNameTooShort"),
     };
   }
 
@@ -39,7 +40,7 @@ export function validatePlayerName(
   if (name.trim().length > 50) {
     return {
       isValid: false,
-      error: "Player name cannot exceed 50 characters. Please use a shorter name.",
+      error: t("validation.playerNameTooLong"),
     };
   }
 
@@ -48,7 +49,7 @@ export function validatePlayerName(
   if (invalidChars.test(name)) {
     return {
       isValid: false,
-      error: "Player name contains invalid characters. Please use only letters, numbers, and spaces.",
+      error: t("validation.playerNameInvalidChars"),
     };
   }
 
@@ -61,7 +62,7 @@ export function validatePlayerName(
   if (isDuplicate) {
     return {
       isValid: false,
-      error: `Player name "${trimmedName}" already exists. Please choose a different name.`,
+      error: t("validation.playerNameDuplicate", { name: trimmedName }),
     };
   }
 
@@ -80,14 +81,14 @@ export function validateSinglePinScore(score: number): {
   if (!Number.isInteger(score)) {
     return {
       isValid: false,
-      error: "Score must be a whole number. Please enter a valid number.",
+      error: t("validation.scoreNotWhole"),
     };
   }
 
   if (score < 0 || score > 12) {
     return {
       isValid: false,
-      error: "Single pin score must be between 0 and 12. Please enter a valid score.",
+      error: t("validation.singlePinRange"),
     };
   }
 
@@ -106,14 +107,14 @@ export function validateMultiplePinScore(score: number): {
   if (!Number.isInteger(score)) {
     return {
       isValid: false,
-      error: "Score must be a whole number. Please enter a valid number.",
+      error: t("validation.scoreNotWhole"),
     };
   }
 
   if (score < 2 || score > 12) {
     return {
       isValid: false,
-      error: "Multiple pin score must be between 2 and 12. Please enter a valid score.",
+      error: t("validation.multiplePinRange"),
     };
   }
 
@@ -150,7 +151,7 @@ export function validateMinimumPlayers(players: Player[]): {
   if (players.length < 2) {
     return {
       isValid: false,
-      error: "At least 2 players are required to start a game. Please add more players.",
+      error: t("validation.minimumPlayers"),
     };
   }
 
@@ -181,7 +182,10 @@ export function validateGameStateTransition(
   if (!allowedStates.includes(targetState)) {
     return {
       isValid: false,
-      error: `Cannot transition from "${currentState}" to "${targetState}". Invalid game state transition.`,
+      error: t("validation.stateTransition", {
+        from: currentState,
+        to: targetState,
+      }),
     };
   }
 
@@ -201,14 +205,14 @@ export function validateStorageData(key: string, value: any): {
   if (!key || typeof key !== "string") {
     return {
       isValid: false,
-      error: "Storage key must be a valid string.",
+      error: t("validation.storageKey"),
     };
   }
 
   if (value === undefined || value === null) {
     return {
       isValid: false,
-      error: "Cannot store undefined or null values.",
+      error: t("validation.storageEmpty"),
     };
   }
 
@@ -217,7 +221,318 @@ export function validateStorageData(key: string, value: any): {
   } catch (error) {
     return {
       isValid: false,
-      error: "Data cannot be serialized to JSON. Please check the data structure.",
+      error: t("validation.storageSerialize"),
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validates a rule set before it is used for a game
+ * @param rules - The rule set to validate
+ * @returns Object with isValid boolean and error message if invalid
+ */
+export function validateRuleSet(rules: RuleSet): {
+  isValid: boolean;
+  error?: string;
+} {
+  const { targetScore, resetScore, eliminationMisses, outOfTurnThreshold } =
+    rules;
+
+  if (!Number.isInteger(targetScore) || targetScore < 1 || targetScore > 200) {
+    return {
+      isValid: false,
+      error: t("validation.targetScore"),
+    };
+  }
+
+  if (
+    !Number.isInteger(resetScore) ||
+    resetScore < 0 ||
+    resetScore >= targetScore
+  ) {
+    return {
+      isValid: false,
+      error: t("validation.resetScore"),
+    };
+  }
+
+  if (
+    eliminationMisses !== null &&
+    (!Number.isInteger(eliminationMisses) ||
+      eliminationMisses < 1 ||
+      eliminationMisses > 10)
+  ) {
+    return {
+      isValid: false,
+      error: t("validation.eliminationMisses"),
+    };
+  }
+
+  if (
+    !Number.isInteger(outOfTurnThreshold) ||
+    outOfTurnThreshold < 0 ||
+    outOfTurnThreshold > targetScore
+  ) {
+    return {
+      isValid: false,
+      error: t("validation.outOfTurnThreshold"),
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validates a handicap starting score against the rules in play
+ * @param handicap - The starting score
+ * @param rules - The rule set the game will be played with
+ * @returns Object with isValid boolean and error message if invalid
+ */
+export function validateHandicap(
+  handicap: number,
+  rules: RuleSet
+): {
+  isValid: boolean;
+  error?: string;
+} {
+  if (
+    !Number.isInteger(handicap) ||
+    handicap < 0 ||
+    handicap >= rules.targetScore
+  ) {
+    return {
+      isValid: false,
+      error: t("validation.handicap", { max: rules.targetScore - 1 }),
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validates an exported game history document before it is imported
+ * @param data - Parsed JSON document produced by the history export
+ * @returns Object with isValid boolean and error message if invalid
+ */
+export function validateHistoryImport(data: unknown): {
+  isValid: boolean;
+  error?: string;
+} {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return {
+      isValid: false,
+      error: t("validation.importNotHistory"),
+    };
+  }
+
+  const games = (data as { games?: unknown }).games;
+  if (!Array.isArray(games)) {
+    return {
+      isValid: false,
+      error: t("validation.importNoGames"),
+    };
+  }
+
+  for (let index = 0; index < games.length; index++) {
+    const game = games[index];
+    const gameNumber = index + 1;
+
+    if (game === null || typeof game !== "object") {
+      return { isValid: false, error: t("validation.importGameInvalid", { number: gameNumber }) };
+    }
+
+    const { id, players, teams, gameMode, startTime } = game as Record<
+      string,
+      unknown
+    >;
+
+    if (typeof id !== "string" || id.trim().length === 0) {
+      return { isValid: false, error: t("validation.importGameNoId", { number: gameNumber }) };
+    }
+
+    // Team games keep their players under their teams
+    const sides = gameMode === "team" ? teams : players;
+    if (!Array.isArray(sides) || sides.length === 0) {
+      return {
+        isValid: false,
+        error: t("validation.importGameNoPlayers", { number: gameNumber }),
+      };
+    }
+
+    if (
+      gameMode === "team" &&
+      !sides.every(
+        (team) =>
+          team !== null &&
+          typeof team === "object" &&
+          Array.isArray(team.players) &&
+          team.players.length > 0
+      )
+    ) {
+      return {
+        isValid: false,
+        error: t("validation.importGameTeamPlayers", { number: gameNumber }),
+      };
+    }
+
+    if (
+      (typeof startTime !== "string" && !(startTime instanceof Date)) ||
+      isNaN(new Date(startTime).getTime())
+    ) {
+      return {
+        isValid: false,
+        error: t("validation.importGameStartTime", { number: gameNumber }),
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validates a game decoded from a share link before it replaces the game
+ * on this device. Shared games list players as [name, score, misses,
+ * eliminated, penalties, handicap] and teams as [name, player indexes,
+ * score, misses, eliminated, penalties, next thrower, handicap].
+ * @param data - Decoded share link payload
+ * @returns Object with isValid boolean and error message if invalid
+ */
+export function validateSharedState(data: unknown): {
+  isValid: boolean;
+  error?: string;
+} {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return { isValid: false, error: t("validation.sharedUnreadable") };
+  }
+
+  const { m, r, p, t: teams, c, ct, tr } = data as Record<string, unknown>;
+  const isCount = (value: unknown, limit = Infinity) =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < limit;
+  const isFlag = (value: unknown) => value === 0 || value === 1;
+
+  if (m !== "individual" && m !== "team") {
+    return { isValid: false, error: t("validation.sharedMode") };
+  }
+
+  if (!Array.isArray(r) || r.length !== 5 || typeof r[0] !== "string") {
+    return { isValid: false, error: t("validation.sharedRules") };
+  }
+  const rules: RuleSet = {
+    name: r[0],
+    targetScore: r[1],
+    resetScore: r[2],
+    eliminationMisses: r[3],
+    outOfTurnThreshold: r[4],
+  };
+  const rulesValidation = validateRuleSet(rules);
+  if (!rulesValidation.isValid) return rulesValidation;
+
+  if (!Array.isArray(p) || p.length === 0) {
+    return { isValid: false, error: t("validation.sharedNoPlayers") };
+  }
+
+  const seen: Pick<Player, "name">[] = [];
+  for (const entry of p) {
+    if (!Array.isArray(entry) || entry.length !== 6 || typeof entry[0] !== "string") {
+      return { isValid: false, error: t("validation.sharedPlayer") };
+    }
+    const [name, score, misses, eliminated, penalties, handicap] = entry;
+    const nameValidation = validatePlayerName(name, seen);
+    if (!nameValidation.isValid) return nameValidation;
+    seen.push({ name: name.trim() });
+
+    if (
+      !isCount(score, rules.targetScore) ||
+      !isCount(misses) ||
+      !isFlag(eliminated) ||
+      !isCount(penalties) ||
+      !isCount(handicap, rules.targetScore)
+    ) {
+      return {
+        isValid: false,
+        error: t("validation.sharedPlayerScores", { name: name.trim() }),
+      };
+    }
+  }
+
+  if (!Array.isArray(teams)) {
+    return { isValid: false, error: t("validation.sharedTeams") };
+  }
+
+  const assigned = new Set<number>();
+  const teamNames = new Set<string>();
+  for (const entry of teams) {
+    if (
+      !Array.isArray(entry) ||
+      entry.length !== 8 ||
+      typeof entry[0] !== "string" ||
+      entry[0].trim().length === 0 ||
+      !Array.isArray(entry[1]) ||
+      entry[1].length === 0
+    ) {
+      return { isValid: false, error: t("validation.sharedTeam") };
+    }
+    const [name, members, score, misses, eliminated, penalties, thrower, handicap] =
+      entry;
+
+    const key = name.trim().toLowerCase();
+    if (teamNames.has(key)) {
+      return {
+        isValid: false,
+        error: t("validation.sharedTeamDuplicate", { name: name.trim() }),
+      };
+    }
+    teamNames.add(key);
+
+    for (const member of members) {
+      if (!isCount(member, p.length) || assigned.has(member)) {
+        return {
+          isValid: false,
+          error: t("validation.sharedTeamPlayers", { name: name.trim() }),
+        };
+      }
+      assigned.add(member);
+    }
+
+    if (
+      !isCount(score, rules.targetScore) ||
+      !isCount(misses) ||
+      !isFlag(eliminated) ||
+      !isCount(penalties) ||
+      !isCount(thrower) || // Lockstep teams share a position that wraps in smaller teams
+      !isCount(handicap, rules.targetScore)
+    ) {
+      return {
+        isValid: false,
+        error: t("validation.sharedTeamScores", { name: name.trim() }),
+      };
+    }
+  }
+
+  const sides = m === "team" ? teams.length : p.length;
+  if (sides < 2) {
+    return {
+      isValid: false,
+      error:
+        m === "team"
+          ? t("validation.sharedMinimumTeams")
+          : t("validation.sharedMinimumPlayers"),
+    };
+  }
+
+  if (!isCount(c, p.length) || !isCount(ct, m === "team" ? teams.length : 1)) {
+    return {
+      isValid: false,
+      error: t("validation.sharedTurn"),
+    };
+  }
+
+  if (tr !== "lockstep" && tr !== "independent" && tr !== "captain") {
+    return {
+      isValid: false,
+      error: t("validation.sharedRotation"),
     };
   }
 
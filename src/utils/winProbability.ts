@@ -0,0 +1,333 @@
+/**
+ * Win probability utilities
+ * Estimates each player's (or team's) chance of winning by playing out
+ * random continuations of the game. Throws are drawn from each player's
+ * score distribution in history, so the estimate knows who tends to miss.
+ *
+ * @format
+ */
+
+import type {
+  AppState,
+  Game,
+  Player,
+  RuleSet,
+  ThrowEvent,
+} from "./types/index";
+import { DEFAULT_RULE_SET } from "./rules";
+import { getPlayerKey } from "./roster";
+
+export const DEFAULT_SIMULATIONS = 1000;
+
+// Continuations still undecided after this many turns count as nobody's win
+const MAX_SIMULATED_TURNS = 300;
+
+// Pseudo-throws of the pooled distribution mixed into each player's own,
+// so players with few recorded throws are not judged on a handful of them
+const PRIOR_WEIGHT = 10;
+
+/**
+ * Probability of each score from 0 (a miss) to 12 on a throw
+ */
+export type ThrowDistribution = number[];
+
+// Rough spread of outcomes used until history records any throws
+const FALLBACK_DISTRIBUTION: ThrowDistribution = [
+  0.15, 0.08, 0.1, 0.1, 0.09, 0.08, 0.07, 0.07, 0.06, 0.06, 0.05, 0.05, 0.04,
+];
+
+/**
+ * Score counts from recorded throws, per player and overall
+ */
+export interface ThrowModel {
+  pooled: ThrowDistribution;
+  counts: Record<string, number[]>; // Keyed by getPlayerKey
+}
+
+/**
+ * A player or team in a simulated continuation
+ */
+export interface SimulationSide {
+  id: string; // Player ID, or team ID in team games
+  score: number;
+  consecutiveMisses: number;
+  eliminated: boolean;
+  throwers: ThrowDistribution[]; // The side's players in throwing order
+  nextThrower: number;
+}
+
+export interface SimulationState {
+  sides: SimulationSide[];
+  currentIndex: number; // Side to throw next
+  rules: RuleSet;
+}
+
+/**
+ * Counts the scores thrown in history
+ * @param games - Games with throw logs, usually the history
+ * @returns Score counts per player and the pooled distribution
+ */
+export function buildThrowModel(games: Game[]): ThrowModel {
+  const counts: Record<string, number[]> = {};
+  const pooled = new Array(FALLBACK_DISTRIBUTION.length).fill(0);
+
+  for (const game of games) {
+    const players = new Map<string, Player>(
+      [
+        ...game.players,
+        ...(game.teams || []).flatMap((team) => team.players),
+      ].map((player) => [player.id, player])
+    );
+
+    for (const event of game.throws || []) {
+      if (event.type !== "score" || event.score < 0 || event.score > 12) {
+        continue;
+      }
+      const key = getPlayerKey(
+        players.get(event.playerId) ?? { name: event.playerName }
+      );
+      counts[key] = counts[key] || new Array(pooled.length).fill(0);
+      counts[key][event.score] += 1;
+      pooled[event.score] += 1;
+    }
+  }
+
+  const total = pooled.reduce((sum, count) => sum + count, 0);
+  return {
+    pooled:
+      total > 0
+        ? pooled.map((count) => count / total)
+        : [...FALLBACK_DISTRIBUTION],
+    counts,
+  };
+}
+
+/**
+ * Gets a player's score distribution, leaning on the pooled one while
+ * the player has few recorded throws
+ * @param model - Throw model built from history
+ * @param player - The player
+ * @returns Probability of each score 0-12
+ */
+export function getPlayerDistribution(
+  model: ThrowModel,
+  player: Pick<Player, "name" | "profileId">
+): ThrowDistribution {
+  const counts = model.counts[getPlayerKey(player)];
+  if (!counts) return model.pooled;
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.map(
+    (count, score) =>
+      (count + PRIOR_WEIGHT * model.pooled[score]) / (total + PRIOR_WEIGHT)
+  );
+}
+
+/**
+ * Creates a seeded random number generator (mulberry32), so estimates
+ * for the same position come out the same every time
+ * @param seed - Any 32-bit integer
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hashes a string into a seed for createRandom
+ * @param text - Text to hash
+ * @returns A 32-bit seed
+ */
+export function getSeed(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function sampleScore(
+  distribution: ThrowDistribution,
+  random: () => number
+): number {
+  let remaining = random();
+  for (let score = 0; score < distribution.length; score++) {
+    remaining -= distribution[score];
+    if (remaining < 0) return score;
+  }
+  return 0;
+}
+
+/**
+ * Plays one random continuation of a game to the end
+ * @param start - Position to play from
+ * @param random - Random number source
+ * @returns ID of the winning side, or null if nobody won in time
+ */
+export function simulateWinner(
+  start: SimulationState,
+  random: () => number
+): string | null {
+  const { rules } = start;
+  const sides = start.sides.map((side) => ({ ...side }));
+  let current = start.currentIndex;
+
+  for (let turn = 0; turn < MAX_SIMULATED_TURNS; turn++) {
+    const remaining = sides.filter((side) => !side.eliminated);
+    if (remaining.length <= 1) return remaining[0]?.id ?? null;
+
+    const side = sides[current];
+    if (!side.eliminated) {
+      const thrower = side.throwers[side.nextThrower % side.throwers.length];
+      side.nextThrower += 1;
+      const score = sampleScore(thrower, random);
+
+      if (score === 0) {
+        side.consecutiveMisses += 1;
+        if (
+          rules.eliminationMisses !== null &&
+          side.consecutiveMisses >= rules.eliminationMisses
+        ) {
+          side.eliminated = true;
+        }
+      } else {
+        side.consecutiveMisses = 0;
+        const newScore = side.score + score;
+        if (newScore === rules.targetScore) return side.id;
+        side.score = newScore > rules.targetScore ? rules.resetScore : newScore;
+      }
+    }
+
+    current = (current + 1) % sides.length;
+  }
+
+  return null;
+}
+
+/**
+ * Estimates each side's chance of winning from many random continuations
+ * @param start - Position to play from
+ * @param simulations - Number of continuations to play
+ * @param random - Random number source
+ * @returns Win probability (0-1) by side ID
+ */
+export function estimateWinProbabilities(
+  start: SimulationState,
+  simulations: number = DEFAULT_SIMULATIONS,
+  random: () => number = Math.random
+): Record<string, number> {
+  const wins: Record<string, number> = Object.fromEntries(
+    start.sides.map((side) => [side.id, 0])
+  );
+
+  for (let i = 0; i < simulations; i++) {
+    const winner = simulateWinner(start, random);
+    if (winner !== null) wins[winner] += 1;
+  }
+
+  return Object.fromEntries(
+    Object.entries(wins).map(([id, count]) => [id, count / simulations])
+  );
+}
+
+/**
+ * Builds the simulation position for the current game
+ * @param state - App state with a game in progress
+ * @param model - Throw model built from history
+ * @returns The position, or null when no game is being played
+ */
+export function getSimulationState(
+  state: AppState,
+  model: ThrowModel
+): SimulationState | null {
+  if (state.gameState !== "playing" || !state.currentGame) return null;
+
+  const rules = state.currentGame.rules || state.rules || DEFAULT_RULE_SET;
+  const isTeamGame = (state.currentGame.gameMode || state.gameMode) === "team";
+
+  const sides: SimulationSide[] = isTeamGame
+    ? (state.teams || []).map((team) => ({
+        id: team.id,
+        score: team.score,
+        consecutiveMisses: team.consecutiveMisses || 0,
+        eliminated: team.eliminated === true,
+        throwers: team.players.length
+          ? team.players.map((player) => getPlayerDistribution(model, player))
+          : [model.pooled],
+        nextThrower: team.currentPlayerIndex || 0,
+      }))
+    : state.players.map((player) => ({
+        id: player.id,
+        score: player.score,
+        consecutiveMisses: player.consecutiveMisses || 0,
+        eliminated: player.eliminated === true,
+        throwers: [getPlayerDistribution(model, player)],
+        nextThrower: 0,
+      }));
+
+  return {
+    sides,
+    currentIndex: isTeamGame
+      ? state.currentTeamIndex || 0
+      : state.currentPlayerIndex,
+    rules,
+  };
+}
+
+/**
+ * Estimates win probabilities for the game in the app state. The estimate
+ * is seeded from the game and its throw count, so the same position always
+ * gives the same numbers.
+ * @param state - App state
+ * @param simulations - Number of continuations to play
+ * @param model - Throw model built from the state's history, if already built
+ * @returns Win probability by player ID (team ID in team games), or null
+ * if there is no current game
+ */
+export function estimateGameWinProbabilities(
+  state: AppState,
+  simulations: number = DEFAULT_SIMULATIONS,
+  model?: ThrowModel
+): Record<string, number> | null {
+  const game = state.currentGame;
+  if (!game) return null;
+
+  if (state.gameState === "finished") {
+    const winnerId = game.winningTeam?.id ?? game.winner?.id ?? null;
+    const ids =
+      game.gameMode === "team"
+        ? (game.teams || []).map((team) => team.id)
+        : game.players.map((player) => player.id);
+    return Object.fromEntries(ids.map((id) => [id, id === winnerId ? 1 : 0]));
+  }
+
+  const start = getSimulationState(
+    state,
+    model ?? buildThrowModel(state.gameHistory)
+  );
+  if (!start) return null;
+
+  const seed = getSeed(`${game.id}:${(game.throws || []).length}`);
+  return estimateWinProbabilities(start, simulations, createRandom(seed));
+}
+
+/**
+ * Gets the throws of a game that recorded how they moved the thrower's
+ * (or their team's) chance of winning
+ * @param game - The game
+ * @returns Throws with their swing (-1 to 1), in throw order
+ */
+export function getWinProbabilitySwings(
+  game: Game
+): { event: ThrowEvent; swing: number }[] {
+  return (game.throws || [])
+    .filter((event) => event.winProbabilitySwing !== undefined)
+    .map((event) => ({ event, swing: event.winProbabilitySwing! }));
+}
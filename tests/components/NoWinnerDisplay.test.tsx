@@ -106,6 +106,23 @@ describe("NoWinnerDisplay Component", () => {
       expect(mockOnReset).toHaveBeenCalledTimes(1);
     });
 
+    it("should undo the throw that ended the game", () => {
+      const onUndo = vi.fn();
+      render(
+        <NoWinnerDisplay
+          players={mockPlayers}
+          gameMode="individual"
+          onReset={mockOnReset}
+          onUndo={onUndo}
+        />
+      );
+
+      fireEvent.click(screen.getByRole("button", { name: "Undo last throw" }));
+
+      expect(onUndo).toHaveBeenCalledTimes(1);
+      expect(mockOnReset).not.toHaveBeenCalled();
+    });
+
     it("should display players sorted by score (highest first)", () => {
       render(
         <NoWinnerDisplay
@@ -218,6 +218,22 @@ describe("PlayerManager Component", () => {
       fireEvent.input(input, { target: { value: "John" } });
       expect(addButton.disabled).toBe(false);
     });
+
+    it("should save added players to the roster for later games", async () => {
+      renderWithContext({ players: [], gameActive: false });
+
+      fireEvent.input(screen.getByPlaceholderText("Enter player name"), {
+        target: { value: "John" },
+      });
+      fireEvent.click(screen.getByText("Add Player"));
+
+      // John is not in this (static) player list, so he is offered again
+      await waitFor(() => {
+        expect(
+          screen.getByLabelText("Add saved player John")
+        ).toBeInTheDocument();
+      });
+    });
   });
 
   describe("Player List Display", () => {
@@ -0,0 +1,64 @@
+/**
+ * RuleSetSelector Component Tests
+ * Tests for picking preset rule sets and showing them in the chosen language
+ *
+ * @format
+ */
+
+import { render, screen, fireEvent } from "@testing-library/preact";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RuleSetSelector } from "../../src/components/RuleSetSelector";
+import { GameProvider } from "../../src/context/GameContext";
+import { LocaleProvider } from "../../src/context/LocaleContext";
+import { setCurrentLocale } from "../../src/utils/i18n";
+
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
+    loadAppState: vi.fn(() => null),
+    saveAppState: vi.fn(),
+    saveCurrentGame: vi.fn(),
+    saveGameHistory: vi.fn(),
+  },
+}));
+
+describe("RuleSetSelector Component", () => {
+  afterEach(() => setCurrentLocale("en"));
+
+  it("should describe the presets and select one", () => {
+    render(
+      <GameProvider>
+        <RuleSetSelector gameActive={false} />
+      </GameProvider>
+    );
+
+    const quickGame = screen.getByRole("button", { name: /Quick Game/ });
+    expect(quickGame).toHaveTextContent(
+      "First to 40, overshoot resets to 20, 3 misses eliminate"
+    );
+    expect(quickGame).toHaveAttribute("aria-pressed", "false");
+
+    fireEvent.click(quickGame);
+
+    expect(quickGame).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("should show the rules in the chosen language", () => {
+    render(
+      <LocaleProvider initialLocale="fi">
+        <GameProvider>
+          <RuleSetSelector gameActive={false} />
+        </GameProvider>
+      </LocaleProvider>
+    );
+
+    expect(
+      screen.getByRole("heading", { name: "Säännöt" })
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Pikapeli/ })).toHaveTextContent(
+      "Ensimmäinen 40 pisteeseen, yli menevä palaa 20 pisteeseen, 3 hutia pudottaa"
+    );
+    expect(
+      screen.getByRole("button", { name: /Ei putoamista/ })
+    ).toHaveTextContent("ei putoamista");
+  });
+});
@@ -166,7 +166,13 @@ describe("ScoreInput Component", () => {
       fireEvent.click(screen.getByText("Submit Score"));
 
       await waitFor(() => {
-        expect(mockOnScoreSubmit).toHaveBeenCalledWith("player1", 10, "single");
+        expect(mockOnScoreSubmit).toHaveBeenCalledWith(
+          "player1",
+          10,
+          "single",
+          [10],
+          undefined
+        );
       });
     });
 
@@ -184,7 +190,13 @@ describe("ScoreInput Component", () => {
       fireEvent.click(screen.getByText("Submit Score"));
 
       await waitFor(() => {
-        expect(mockOnScoreSubmit).toHaveBeenCalledWith("player1", 3, "multiple");
+        expect(mockOnScoreSubmit).toHaveBeenCalledWith(
+          "player1",
+          3,
+          "multiple",
+          [2, 4, 6],
+          undefined
+        );
       });
     });
 
@@ -217,7 +229,13 @@ describe("ScoreInput Component", () => {
       fireEvent.click(screen.getByText("Submit Score"));
 
       await waitFor(() => {
-        expect(mockOnScoreSubmit).toHaveBeenCalledWith("player1", 6, "single");
+        expect(mockOnScoreSubmit).toHaveBeenCalledWith(
+          "player1",
+          6,
+          "single",
+          [6],
+          undefined
+        );
       });
     });
 
@@ -233,7 +251,13 @@ describe("ScoreInput Component", () => {
       fireEvent.click(screen.getByText("Submit Score"));
 
       await waitFor(() => {
-        expect(mockOnScoreSubmit).toHaveBeenCalledWith("player1", 2, "multiple");
+        expect(mockOnScoreSubmit).toHaveBeenCalledWith(
+          "player1",
+          2,
+          "multiple",
+          [2, 5],
+          undefined
+        );
       });
     });
 
@@ -246,7 +270,13 @@ describe("ScoreInput Component", () => {
 
       fireEvent.click(screen.getByText("Miss (0 points)"));
 
-      expect(mockOnScoreSubmit).toHaveBeenCalledWith("player1", 0, "single");
+      expect(mockOnScoreSubmit).toHaveBeenCalledWith(
+        "player1",
+        0,
+        "single",
+        [],
+        undefined
+      );
     });
 
     it("should disable submit button when no pins selected", () => {
@@ -299,6 +329,48 @@ describe("ScoreInput Component", () => {
     });
   });
 
+  describe("Pin Field Tracking", () => {
+    it("should not show the field until tracking is switched on", () => {
+      renderWithContext({ currentPlayer: samplePlayer });
+
+      expect(screen.queryByLabelText("Pin field")).not.toBeInTheDocument();
+    });
+
+    it("should submit the arranged field with the throw", async () => {
+      const mockOnScoreSubmit = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onScoreSubmit: mockOnScoreSubmit,
+      });
+
+      fireEvent.click(screen.getByLabelText("Track pin positions on the field"));
+      fireEvent.click(screen.getByRole("button", { name: "7" }));
+      fireEvent.keyDown(screen.getByLabelText("Pin 7"), { key: "ArrowDown" });
+      fireEvent.click(screen.getByText("Submit Score"));
+
+      await waitFor(() => {
+        expect(mockOnScoreSubmit).toHaveBeenCalled();
+      });
+      const layout = mockOnScoreSubmit.mock.calls[0][4];
+      expect(layout).toHaveLength(12);
+      expect(layout.find((p: { pin: number }) => p.pin === 7).y).toBeCloseTo(
+        0.21
+      );
+    });
+  });
+
+  describe("Aiming Advice", () => {
+    it("should suggest the winning pin beside the pin grid", () => {
+      renderWithContext({ currentPlayer: { ...samplePlayer, score: 40 } });
+
+      const advice = screen.getByLabelText("Aiming advice");
+      const items = advice.querySelectorAll("li");
+      expect(items).toHaveLength(3);
+      expect(items[0]).toHaveTextContent("Pin 10");
+      expect(items[0]).toHaveTextContent("wins");
+    });
+  });
+
   describe("Out-of-Turn Functionality", () => {
     it("should show out-of-turn button", () => {
       renderWithContext({ currentPlayer: samplePlayer });
@@ -315,5 +387,119 @@ describe("ScoreInput Component", () => {
       expect(screen.getByText("Mark Out-of-Turn Throw")).toBeInTheDocument();
     });
   });
+
+  describe("Score Commands", () => {
+    // Earlier tests may leave pin tracking on, so only the throw is compared
+    const enterCommand = (text: string) => {
+      fireEvent.input(screen.getByLabelText("Type or say a throw"), {
+        target: { value: text },
+      });
+      fireEvent.click(screen.getByText("Enter"));
+    };
+
+    it("should submit a single pin named in a command", async () => {
+      const mockOnScoreSubmit = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onScoreSubmit: mockOnScoreSubmit,
+      });
+
+      enterCommand("seitsemän");
+
+      await waitFor(() => {
+        expect(mockOnScoreSubmit.mock.calls[0]?.slice(0, 4)).toEqual([
+          "player1",
+          7,
+          "single",
+          [7],
+        ]);
+      });
+    });
+
+    it("should submit a number of pins without naming them", async () => {
+      const mockOnScoreSubmit = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onScoreSubmit: mockOnScoreSubmit,
+      });
+
+      enterCommand("three pins");
+
+      await waitFor(() => {
+        expect(mockOnScoreSubmit.mock.calls[0]?.slice(0, 4)).toEqual([
+          "player1",
+          3,
+          "multiple",
+          undefined,
+        ]);
+      });
+    });
+
+    it("should submit a miss", async () => {
+      const mockOnScoreSubmit = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onScoreSubmit: mockOnScoreSubmit,
+      });
+
+      enterCommand("miss");
+
+      await waitFor(() => {
+        expect(mockOnScoreSubmit.mock.calls[0]?.slice(0, 4)).toEqual([
+          "player1",
+          0,
+          "single",
+          [],
+        ]);
+      });
+    });
+
+    it("should confirm a penalty before applying it", async () => {
+      const mockOnPenalty = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onPenalty: mockOnPenalty,
+      });
+
+      enterCommand("penalty");
+      expect(screen.getByText("Confirm Penalty")).toBeInTheDocument();
+      expect(mockOnPenalty).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText("Apply"));
+      expect(mockOnPenalty).toHaveBeenCalledWith("player1", "Rule violation");
+    });
+
+    it("should undo", () => {
+      const mockOnUndo = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onUndo: mockOnUndo,
+      });
+
+      enterCommand("undo");
+      expect(mockOnUndo).toHaveBeenCalled();
+    });
+
+    it("should explain a command that was not understood", () => {
+      const mockOnScoreSubmit = vi.fn();
+      renderWithContext({
+        currentPlayer: samplePlayer,
+        onScoreSubmit: mockOnScoreSubmit,
+      });
+
+      enterCommand("heaven");
+
+      expect(screen.getByRole("status")).toHaveTextContent(
+        'Did not understand "heaven"'
+      );
+      expect(mockOnScoreSubmit).not.toHaveBeenCalled();
+    });
+
+    it("should only offer voice input where speech is supported", () => {
+      renderWithContext({ currentPlayer: samplePlayer });
+
+      expect(screen.queryByLabelText("Say a throw")).not.toBeInTheDocument();
+    });
+  });
 });
 
@@ -0,0 +1,106 @@
+/**
+ * Tests for SpectatorBoard Component
+ * Tests the read-only scoreboard that follows the scorekeeper's window
+ *
+ * @format
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen } from "@testing-library/preact";
+import { SpectatorBoard } from "../../src/components/Spectator";
+import { GameProvider } from "../../src/context/GameContext";
+import { LocaleProvider } from "../../src/context/LocaleContext";
+import { setCurrentLocale } from "../../src/utils/i18n";
+import { STATE_CHANNEL_NAME } from "../../src/utils/broadcast";
+import { createGame, createPlayer } from "../../src/utils/gameStateUtils";
+import type { AppState } from "../../src/utils/types";
+import React from "preact/compat";
+
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
+    loadAppState: vi.fn(() => null),
+    saveAppState: vi.fn(),
+    saveCurrentGame: vi.fn(),
+    saveGameHistory: vi.fn(),
+  },
+}));
+
+function playingState(): AppState {
+  const players = [
+    { ...createPlayer("Alice"), score: 42, consecutiveMisses: 2 },
+    { ...createPlayer("Bob"), score: 17, isActive: true },
+  ];
+  return {
+    gameState: "playing",
+    players,
+    teams: [],
+    currentPlayerIndex: 1,
+    currentTeamIndex: 0,
+    gameHistory: [],
+    currentGame: createGame(players),
+    gameMode: "individual",
+  };
+}
+
+describe("SpectatorBoard Component", () => {
+  let scorekeeper: BroadcastChannel | null = null;
+
+  afterEach(() => {
+    scorekeeper?.close();
+    scorekeeper = null;
+    setCurrentLocale("en");
+  });
+
+  it("waits for the scorekeeper's window", () => {
+    render(<SpectatorBoard />);
+
+    expect(
+      screen.getByText("Waiting for the scorekeeper's window…")
+    ).toBeInTheDocument();
+  });
+
+  it("shows the scores published by the scorekeeper", async () => {
+    scorekeeper = new BroadcastChannel(STATE_CHANNEL_NAME);
+    render(<SpectatorBoard />);
+
+    scorekeeper.postMessage({ type: "state", state: playingState() });
+
+    expect(await screen.findByText("Alice")).toBeInTheDocument();
+    expect(
+      screen.getAllByTestId("spectator-score").map((el) => el.textContent)
+    ).toEqual(["42", "17"]);
+    expect(screen.getByLabelText("2 misses in a row")).toBeInTheDocument();
+    expect(screen.getByText("Bob").closest("li")).toHaveAttribute(
+      "aria-current",
+      "true"
+    );
+    expect(screen.queryByRole("button")).not.toBeInTheDocument();
+  });
+
+  it("gets the current state from a scorekeeper window that is already open", async () => {
+    render(
+      <GameProvider>
+        <div />
+      </GameProvider>
+    );
+    render(<SpectatorBoard />);
+
+    expect(
+      await screen.findByText("Waiting for the game to start")
+    ).toBeInTheDocument();
+  });
+
+  it("shows the scoreboard in the chosen language", async () => {
+    scorekeeper = new BroadcastChannel(STATE_CHANNEL_NAME);
+    render(
+      <LocaleProvider initialLocale="fi">
+        <SpectatorBoard />
+      </LocaleProvider>
+    );
+
+    scorekeeper.postMessage({ type: "state", state: playingState() });
+
+    expect(await screen.findByText("Mölkky-tulostaulu")).toBeInTheDocument();
+    expect(screen.getByLabelText("2 hutia peräkkäin")).toBeInTheDocument();
+  });
+});
@@ -247,6 +247,37 @@ describe("WinnerDisplay Component", () => {
       expect(mockOnNewGame).toHaveBeenCalledTimes(1);
     });
 
+    it("should undo the winning throw from the finished screen", () => {
+      const onUndo = vi.fn();
+      render(
+        <WinnerDisplay
+          winner={winner}
+          players={mockPlayers}
+          onNewGame={mockOnNewGame}
+          onUndo={onUndo}
+        />
+      );
+
+      fireEvent.click(screen.getByRole("button", { name: "Undo last throw" }));
+
+      expect(onUndo).toHaveBeenCalledTimes(1);
+      expect(mockOnNewGame).not.toHaveBeenCalled();
+    });
+
+    it("should not offer undo when there is nothing to undo", () => {
+      render(
+        <WinnerDisplay
+          winner={winner}
+          players={mockPlayers}
+          onNewGame={mockOnNewGame}
+        />
+      );
+
+      expect(
+        screen.queryByRole("button", { name: "Undo last throw" })
+      ).not.toBeInTheDocument();
+    });
+
     it("should display helpful text about restarting with same players", () => {
       render(
         <WinnerDisplay
@@ -8,13 +8,30 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { render, act } from "@testing-library/preact";
 import { h } from "preact";
 import { GameProvider, useGameContext, gameReducer } from "../../src/context/GameContext";
-import { createPlayer } from "../../src/utils/gameStateUtils";
-import type { AppState } from "../../src/utils/types";
+import { createGame, createPlayer, createTeam } from "../../src/utils/gameStateUtils";
+import type { AppState, TeamRotation } from "../../src/utils/types";
+import { DEFAULT_RULE_SET } from "../../src/utils/rules";
+import {
+  createTournament,
+  getNextPendingMatch,
+} from "../../src/utils/tournament";
+import { createLeague, getNextLeagueFixture } from "../../src/utils/league";
+import { createShareFragment, readShareFragment } from "../../src/utils/shareState";
+import {
+  getCurrentLayout,
+  getStartingLayout,
+  movePin,
+} from "../../src/utils/pinField";
+import {
+  createPlayerFromProfile,
+  createPlayerProfile,
+} from "../../src/utils/roster";
+import { MemoryRelay } from "../../src/utils/sync";
 import React from "preact/compat";
 
-// Mock session storage
-vi.mock("../../src/utils/storage/sessionStorage", () => ({
-  sessionStorageUtil: {
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
     loadAppState: vi.fn(() => null),
     saveAppState: vi.fn(),
     saveCurrentGame: vi.fn(),
@@ -498,3 +515,919 @@ describe('GameContext integration - penalties and eliminations', () => {
     expect(newState.players[1].penalties).toBe(0);
     expect(newState.players[1].isActive).toBe(false); // Second player should not be active
   });
+
+describe("GameContext throw log and undo/redo", () => {
+  const startTwoPlayerGame = () => {
+    let state = gameReducer(
+      {
+        gameState: "setup",
+        players: [],
+        teams: [],
+        currentPlayerIndex: 0,
+        currentTeamIndex: 0,
+        gameHistory: [],
+        currentGame: null,
+        gameMode: "individual",
+      },
+      { type: "ADD_PLAYER", payload: { ...createPlayer("Alice"), id: "1" } }
+    );
+    state = gameReducer(state, {
+      type: "ADD_PLAYER",
+      payload: { ...createPlayer("Bob"), id: "2" },
+    });
+    return gameReducer(state, { type: "START_GAME" });
+  };
+
+  const score = (playerId: string, points: number) => ({
+    type: "SUBMIT_SCORE" as const,
+    payload: { playerId, score: points, scoringType: "single" as const },
+  });
+
+  it("records every throw as an event on the current game", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, score("1", 7));
+    state = gameReducer(state, score("2", 0));
+
+    const throws = state.currentGame!.throws!;
+    expect(throws).toHaveLength(2);
+    expect(throws[0]).toMatchObject({
+      type: "score",
+      playerId: "1",
+      playerName: "Alice",
+      score: 7,
+      scoringType: "single",
+      resultingScore: 7,
+      scoreReset: false,
+      eliminated: false,
+    });
+    expect(throws[1]).toMatchObject({ playerId: "2", score: 0, resultingScore: 0 });
+  });
+
+  it("keeps the pins knocked down with the throw across undo", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId: "1", score: 3, scoringType: "multiple", pins: [2, 5, 9] },
+    });
+    state = gameReducer(state, score("2", 4));
+
+    state = gameReducer(state, { type: "UNDO" });
+
+    expect(state.currentGame!.throws![0]).toMatchObject({ score: 3, pins: [2, 5, 9] });
+  });
+
+  it("keeps the pin field layout with the throw across undo", () => {
+    let state = startTwoPlayerGame();
+    const layout = movePin(getStartingLayout(), 1, 0.5, 0.6);
+    state = gameReducer(state, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId: "1", score: 1, scoringType: "single", pins: [1], layout },
+    });
+    state = gameReducer(state, score("2", 4));
+
+    state = gameReducer(state, { type: "UNDO" });
+
+    expect(state.currentGame!.throws![0].layout).toEqual(layout);
+    expect(getCurrentLayout(state.currentGame)).toEqual(layout);
+  });
+
+  it("leaves win probabilities out of the throw log until they are recorded", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, score("1", 6));
+
+    const [event] = state.currentGame!.throws!;
+    expect(event.winProbabilities).toBeUndefined();
+
+    state = gameReducer(state, {
+      type: "RECORD_WIN_PROBABILITIES",
+      payload: {
+        throwId: event.id,
+        winProbabilities: { "1": 0.7, "2": 0.3 },
+        winProbabilitySwing: 0.2,
+      },
+    });
+    expect(state.currentGame!.throws![0]).toMatchObject({
+      winProbabilities: { "1": 0.7, "2": 0.3 },
+      winProbabilitySwing: 0.2,
+    });
+
+    // A throw keeps the first estimate recorded for it
+    const recorded = state;
+    state = gameReducer(state, {
+      type: "RECORD_WIN_PROBABILITIES",
+      payload: { throwId: event.id, winProbabilities: { "1": 0, "2": 1 } },
+    });
+    expect(state).toBe(recorded);
+  });
+
+  it("flags throws that reset the score", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, {
+      type: "UPDATE_PLAYER",
+      payload: { id: "1", updates: { score: 45 } },
+    });
+    state = gameReducer(state, score("1", 10));
+
+    expect(state.currentGame!.throws![0]).toMatchObject({
+      resultingScore: 25,
+      scoreReset: true,
+    });
+  });
+
+  it("undoes the last throw by rebuilding the game from the log", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, score("1", 7));
+    state = gameReducer(state, score("2", 12));
+
+    const undone = gameReducer(state, { type: "UNDO" });
+
+    expect(undone.players[0].score).toBe(7);
+    expect(undone.players[1].score).toBe(0);
+    expect(undone.currentPlayerIndex).toBe(1);
+    expect(undone.players[1].isActive).toBe(true);
+    expect(undone.currentGame!.throws).toHaveLength(1);
+    expect(undone.currentGame!.id).toBe(state.currentGame!.id);
+    expect(undone.undoneThrows).toHaveLength(1);
+  });
+
+  it("redoes an undone throw keeping the original event", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, score("1", 7));
+    const originalEvent = state.currentGame!.throws![0];
+
+    state = gameReducer(state, { type: "UNDO" });
+    expect(state.players[0].score).toBe(0);
+
+    state = gameReducer(state, { type: "REDO" });
+    expect(state.players[0].score).toBe(7);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.currentGame!.throws).toEqual([originalEvent]);
+    expect(state.undoneThrows).toEqual([]);
+  });
+
+  it("clears the redo stack when a new throw is recorded", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, score("1", 7));
+    state = gameReducer(state, { type: "UNDO" });
+    state = gameReducer(state, score("1", 3));
+
+    expect(state.undoneThrows).toEqual([]);
+    expect(gameReducer(state, { type: "REDO" })).toBe(state);
+  });
+
+  it("restores an elimination and the game's end when undone", () => {
+    let state = startTwoPlayerGame();
+    for (let i = 0; i < 3; i++) {
+      state = gameReducer(state, score("1", 0));
+      if (state.gameState === "playing") {
+        state = gameReducer(state, score("2", 1));
+      }
+    }
+    expect(state.gameState).toBe("finished");
+    expect(state.currentGame!.throws!.at(-1)!.eliminated).toBe(true);
+
+    const undone = gameReducer(state, { type: "UNDO" });
+
+    expect(undone.gameState).toBe("playing");
+    expect(undone.players[0].eliminated).toBe(false);
+    expect(undone.players[0].consecutiveMisses).toBe(2);
+    expect(undone.currentGame!.endTime).toBeNull();
+    expect(undone.currentGame!.penalties).toHaveLength(0);
+  });
+
+  it("undoes penalties", () => {
+    let state = startTwoPlayerGame();
+    state = gameReducer(state, score("1", 12));
+    state = gameReducer(state, {
+      type: "APPLY_PENALTY",
+      payload: { playerId: "2", reason: "Stepped over line" },
+    });
+    expect(state.currentGame!.throws![1]).toMatchObject({
+      type: "penalty",
+      reason: "Stepped over line",
+    });
+
+    const undone = gameReducer(state, { type: "UNDO" });
+    expect(undone.players[1].penalties).toBe(0);
+    expect(undone.currentGame!.penalties).toHaveLength(0);
+  });
+
+  it("ignores undo when there are no throws", () => {
+    const state = startTwoPlayerGame();
+    expect(gameReducer(state, { type: "UNDO" })).toBe(state);
+  });
+});
+
+describe("GameContext rule sets", () => {
+  const clubRules = {
+    name: "Club",
+    targetScore: 40,
+    resetScore: 20,
+    eliminationMisses: null,
+    outOfTurnThreshold: 30,
+  };
+
+  const startGameWithRules = () => {
+    let state = gameReducer(
+      {
+        gameState: "setup",
+        players: [
+          { ...createPlayer("Alice"), id: "1" },
+          { ...createPlayer("Bob"), id: "2" },
+        ],
+        teams: [],
+        currentPlayerIndex: 0,
+        currentTeamIndex: 0,
+        gameHistory: [],
+        currentGame: null,
+        gameMode: "individual",
+      },
+      { type: "SET_RULES", payload: clubRules }
+    );
+    state = gameReducer(state, { type: "START_GAME" });
+    return state;
+  };
+
+  it("stores the chosen rules on the started game", () => {
+    const state = startGameWithRules();
+    expect(state.rules).toEqual(clubRules);
+    expect(state.currentGame!.rules).toEqual(clubRules);
+  });
+
+  it("ignores rule changes once the game has started", () => {
+    const state = startGameWithRules();
+    expect(gameReducer(state, { type: "SET_RULES", payload: DEFAULT_RULE_SET })).toBe(state);
+  });
+
+  it("wins at the configured target score", () => {
+    let state = startGameWithRules();
+    state = gameReducer(state, {
+      type: "UPDATE_PLAYER",
+      payload: { id: "1", updates: { score: 35 } },
+    });
+    state = gameReducer(state, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId: "1", score: 5, scoringType: "single" },
+    });
+
+    expect(state.gameState).toBe("finished");
+    expect(state.currentGame!.winner!.name).toBe("Alice");
+  });
+
+  it("does not eliminate players when elimination is turned off", () => {
+    let state = startGameWithRules();
+    for (let i = 0; i < 4; i++) {
+      state = gameReducer(state, {
+        type: "SUBMIT_SCORE",
+        payload: { playerId: state.players[state.currentPlayerIndex].id, score: 0, scoringType: "single" },
+      });
+    }
+
+    expect(state.gameState).toBe("playing");
+    expect(state.players.every((p) => !p.eliminated)).toBe(true);
+  });
+
+  it("uses the configured out-of-turn threshold and reset score", () => {
+    let state = startGameWithRules();
+    state = gameReducer(state, {
+      type: "UPDATE_PLAYER",
+      payload: { id: "1", updates: { score: 31 } },
+    });
+    state = gameReducer(state, { type: "OUT_OF_TURN_THROW", payload: { playerId: "1" } });
+
+    expect(state.players[0].score).toBe(20);
+  });
+});
+
+describe("GameContext handicaps", () => {
+  const setupWithHandicap = (handicap: number) => ({
+    gameState: "setup" as const,
+    players: [
+      { ...createPlayer("Alice"), id: "1", handicap },
+      { ...createPlayer("Bob"), id: "2" },
+    ],
+    teams: [],
+    currentPlayerIndex: 0,
+    currentTeamIndex: 0,
+    gameHistory: [],
+    currentGame: null,
+    gameMode: "individual" as const,
+  });
+
+  it("starts players on their handicap and records it on the game", () => {
+    const state = gameReducer(setupWithHandicap(20), { type: "START_GAME" });
+
+    expect(state.players.map((p) => p.score)).toEqual([20, 0]);
+    expect(state.currentGame!.handicaps).toEqual({ "1": 20 });
+  });
+
+  it("keeps the handicap when throws are undone", () => {
+    let state = gameReducer(setupWithHandicap(20), { type: "START_GAME" });
+    state = gameReducer(state, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId: "1", score: 5, scoringType: "single" },
+    });
+    expect(state.players[0].score).toBe(25);
+
+    state = gameReducer(state, { type: "UNDO" });
+    expect(state.players[0].score).toBe(20);
+  });
+
+  it("refuses to start with a handicap at the target score", () => {
+    const setup = setupWithHandicap(DEFAULT_RULE_SET.targetScore);
+    expect(gameReducer(setup, { type: "START_GAME" })).toBe(setup);
+  });
+});
+
+describe("GameContext shared games", () => {
+  it("undoes no further back than where a shared game was picked up", () => {
+    const players = [
+      { ...createPlayer("Alice"), id: "1", score: 30 },
+      { ...createPlayer("Bob"), id: "2", score: 18 },
+    ];
+    const shared: AppState = {
+      gameState: "playing",
+      players,
+      teams: [],
+      currentPlayerIndex: 1,
+      currentTeamIndex: 0,
+      gameHistory: [],
+      currentGame: createGame(players),
+      gameMode: "individual",
+    };
+    let state = readShareFragment(createShareFragment(shared)!, {
+      ...shared,
+      gameState: "setup",
+      players: [],
+      currentGame: null,
+    }).state!;
+    const bob = state.players[1];
+
+    state = gameReducer(state, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId: bob.id, score: 6, scoringType: "single" },
+    });
+    expect(state.players[1].score).toBe(24);
+
+    state = gameReducer(state, { type: "UNDO" });
+    expect(state.players.map((p) => p.score)).toEqual([30, 18]);
+    expect(state.currentPlayerIndex).toBe(1);
+  });
+});
+
+describe("GameContext live sync", () => {
+  type Phone = ReturnType<typeof useGameContext>;
+
+  function renderPhone(): { current: Phone } {
+    const phone = {} as { current: Phone };
+    function Capture() {
+      phone.current = useGameContext();
+      return null;
+    }
+    render(
+      <GameProvider>
+        <Capture />
+      </GameProvider>
+    );
+    return phone;
+  }
+
+  it("keeps two scorekeepers' phones on the same game", () => {
+    const relay = new MemoryRelay();
+    const first = renderPhone();
+    const second = renderPhone();
+
+    act(() => {
+      first.current.dispatch({ type: "ADD_PLAYER", payload: createPlayer("Alice") });
+      first.current.dispatch({ type: "ADD_PLAYER", payload: createPlayer("Bob") });
+    });
+    act(() => {
+      first.current.startSync!(relay.createTransport(), "court-1");
+      second.current.startSync!(relay.createTransport(), "court-1");
+    });
+    expect(second.current.syncStatus).toBe("connected");
+    expect(second.current.state.players.map((p) => p.name)).toEqual(["Alice", "Bob"]);
+
+    act(() => {
+      second.current.dispatch({ type: "START_GAME" });
+    });
+    act(() => {
+      const alice = first.current.state.players[0];
+      first.current.dispatch({
+        type: "SUBMIT_SCORE",
+        payload: { playerId: alice.id, score: 7, scoringType: "single" },
+      });
+    });
+
+    expect(first.current.state.gameState).toBe("playing");
+    expect(second.current.state.players.map((p) => p.score)).toEqual([7, 0]);
+    expect(second.current.state.currentPlayerIndex).toBe(1);
+  });
+
+  it("gives every phone the same game record, down to IDs and times", () => {
+    const relay = new MemoryRelay();
+    const first = renderPhone();
+    const second = renderPhone();
+
+    act(() => {
+      first.current.dispatch({ type: "ADD_PLAYER", payload: createPlayer("Alice") });
+      first.current.dispatch({ type: "ADD_PLAYER", payload: createPlayer("Bob") });
+    });
+    act(() => {
+      first.current.startSync!(relay.createTransport(), "court-1");
+      second.current.startSync!(relay.createTransport(), "court-1");
+    });
+    act(() => second.current.dispatch({ type: "START_GAME" }));
+    const [alice, bob] = first.current.state.players;
+    act(() => {
+      first.current.dispatch({
+        type: "SUBMIT_SCORE",
+        payload: { playerId: alice.id, score: 7, scoringType: "single" },
+      });
+      second.current.dispatch({ type: "APPLY_PENALTY", payload: { playerId: bob.id } });
+      second.current.dispatch({ type: "END_GAME", payload: alice });
+    });
+
+    // A phone joining later replays the same actions from the room
+    const third = renderPhone();
+    act(() => third.current.startSync!(relay.createTransport(), "court-1"));
+
+    const game = first.current.state.currentGame!;
+    expect(game.throws).toHaveLength(2);
+    expect(game.endTime).toEqual(expect.any(Date));
+    expect(second.current.state).toEqual(first.current.state);
+    expect(third.current.state).toEqual(first.current.state);
+  });
+
+  it("tells a phone when another phone's change replaced its own", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const relay = new MemoryRelay();
+      const first = renderPhone();
+      const second = renderPhone();
+      const firstTransport = relay.createTransport();
+      const secondTransport = relay.createTransport();
+
+      act(() => {
+        first.current.dispatch({ type: "ADD_PLAYER", payload: createPlayer("Alice") });
+        first.current.dispatch({ type: "ADD_PLAYER", payload: createPlayer("Bob") });
+      });
+      act(() => {
+        first.current.startSync!(firstTransport, "court-1");
+        second.current.startSync!(secondTransport, "court-1");
+      });
+      act(() => first.current.dispatch({ type: "START_GAME" }));
+      const [alice] = first.current.state.players;
+
+      // Both scorekeepers enter Alice's throw while out of reach of the relay
+      act(() => {
+        firstTransport.disconnect();
+        secondTransport.disconnect();
+        vi.setSystemTime(1000);
+        first.current.dispatch({
+          type: "SUBMIT_SCORE",
+          payload: { playerId: alice.id, score: 7, scoringType: "single" },
+        });
+        vi.setSystemTime(2000);
+        second.current.dispatch({
+          type: "SUBMIT_SCORE",
+          payload: { playerId: alice.id, score: 5, scoringType: "single" },
+        });
+        firstTransport.reconnect();
+        secondTransport.reconnect();
+      });
+
+      // The throw is counted once, as the later phone entered it
+      expect(first.current.state.players.map((p) => p.score)).toEqual([5, 0]);
+      expect(second.current.state).toEqual(first.current.state);
+      expect(first.current.syncConflicts).toBe(1);
+      expect(second.current.syncConflicts).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("keeps each phone's saved players to itself", () => {
+    const relay = new MemoryRelay();
+    const first = renderPhone();
+    const second = renderPhone();
+
+    act(() => {
+      first.current.startSync!(relay.createTransport(), "court-1");
+      second.current.startSync!(relay.createTransport(), "court-1");
+      second.current.dispatch({
+        type: "ADD_PROFILE",
+        payload: createPlayerProfile("Bob"),
+      });
+    });
+
+    expect(second.current.state.roster!.map((p) => p.name)).toEqual(["Bob"]);
+    expect(first.current.state.roster || []).toEqual([]);
+
+    act(() => second.current.stopSync!());
+    expect(second.current.syncStatus).toBeNull();
+  });
+});
+
+describe("GameContext tournaments", () => {
+  const setupState = (): AppState => ({
+    gameState: "setup",
+    players: ["Alice", "Bob", "Cara"].map((name, index) => ({
+      ...createPlayer(name),
+      id: String(index + 1),
+    })),
+    teams: [],
+    currentPlayerIndex: 0,
+    currentTeamIndex: 0,
+    gameHistory: [],
+    currentGame: null,
+    gameMode: "individual",
+  });
+
+  const createBracket = (state: AppState) =>
+    gameReducer(state, {
+      type: "CREATE_TOURNAMENT",
+      payload: createTournament(
+        "Monthly",
+        state.players.map((player) => ({
+          id: player.id,
+          name: player.name,
+          players: [player],
+        }))
+      ),
+    });
+
+  const winMatch = (state: AppState, playerId: string) => {
+    let next = gameReducer(state, {
+      type: "UPDATE_PLAYER",
+      payload: { id: playerId, updates: { score: 45 } },
+    });
+    next = { ...next, currentPlayerIndex: next.players.findIndex((p) => p.id === playerId) };
+    return gameReducer(next, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId, score: 5, scoringType: "single" },
+    });
+  };
+
+  it("spawns the next pending match as a normal game", () => {
+    let state = createBracket(setupState());
+    const match = getNextPendingMatch(state.tournament!)!;
+
+    state = gameReducer(state, {
+      type: "START_TOURNAMENT_MATCH",
+      payload: { matchId: match.id },
+    });
+
+    expect(state.gameState).toBe("playing");
+    expect(state.players.map((p) => p.name)).toEqual(["Bob", "Cara"]);
+    expect(state.currentGame!.tournamentMatchId).toBe(match.id);
+    expect(
+      state.tournament!.matches.find((m) => m.id === match.id)!.gameId
+    ).toBe(state.currentGame!.id);
+  });
+
+  it("advances the winner when the match game completes", () => {
+    let state = createBracket(setupState());
+    const semi = getNextPendingMatch(state.tournament!)!;
+    state = gameReducer(state, {
+      type: "START_TOURNAMENT_MATCH",
+      payload: { matchId: semi.id },
+    });
+
+    state = winMatch(state, "3");
+
+    expect(state.gameState).toBe("finished");
+    const final = getNextPendingMatch(state.tournament!)!;
+    expect(final.round).toBe(2);
+    expect(final.entrantIds).toEqual(["1", "3"]);
+
+    // Starting the final archives the finished match
+    state = gameReducer(state, {
+      type: "START_TOURNAMENT_MATCH",
+      payload: { matchId: final.id },
+    });
+    expect(state.gameHistory).toHaveLength(1);
+    state = winMatch(state, "1");
+
+    expect(state.tournament!.winnerId).toBe("1");
+  });
+
+  it("withdraws the advancement when the winning throw is undone", () => {
+    let state = createBracket(setupState());
+    const semi = getNextPendingMatch(state.tournament!)!;
+    state = gameReducer(state, {
+      type: "START_TOURNAMENT_MATCH",
+      payload: { matchId: semi.id },
+    });
+    state = winMatch(state, "2");
+
+    state = gameReducer(state, { type: "UNDO" });
+
+    expect(state.gameState).toBe("playing");
+    expect(getNextPendingMatch(state.tournament!)!.id).toBe(semi.id);
+  });
+
+  it("does not start a match during another game", () => {
+    let state = createBracket(setupState());
+    const match = getNextPendingMatch(state.tournament!)!;
+    state = gameReducer(state, { type: "START_GAME" });
+
+    expect(
+      gameReducer(state, {
+        type: "START_TOURNAMENT_MATCH",
+        payload: { matchId: match.id },
+      })
+    ).toBe(state);
+  });
+});
+
+describe("GameContext leagues", () => {
+  const setupState = (): AppState => ({
+    gameState: "setup",
+    players: ["Alice", "Bob", "Cara"].map((name, index) => ({
+      ...createPlayer(name),
+      id: String(index + 1),
+    })),
+    teams: [],
+    currentPlayerIndex: 0,
+    currentTeamIndex: 0,
+    gameHistory: [],
+    currentGame: null,
+    gameMode: "individual",
+  });
+
+  const createFixtures = (state: AppState) =>
+    gameReducer(state, {
+      type: "CREATE_LEAGUE",
+      payload: createLeague(
+        "Tuesday",
+        state.players.map((player) => ({
+          id: player.id,
+          name: player.name,
+          players: [player],
+        }))
+      ),
+    });
+
+  it("resolves the fixture with the game that decided it", () => {
+    let state = createFixtures(setupState());
+    const fixture = getNextLeagueFixture(state.league!)!;
+    state = gameReducer(state, {
+      type: "START_LEAGUE_FIXTURE",
+      payload: { fixtureId: fixture.id },
+    });
+    const [winnerId] = fixture.entrantIds;
+    const gameId = state.currentGame!.id;
+
+    state = gameReducer(state, {
+      type: "UPDATE_PLAYER",
+      payload: { id: winnerId, updates: { score: 45 } },
+    });
+    state = {
+      ...state,
+      currentPlayerIndex: state.players.findIndex((p) => p.id === winnerId),
+    };
+    state = gameReducer(state, {
+      type: "SUBMIT_SCORE",
+      payload: { playerId: winnerId, score: 5, scoringType: "single" },
+    });
+
+    const resolved = state.league!.fixtures.find((f) => f.id === fixture.id)!;
+    expect(resolved).toMatchObject({ winnerId, gameId });
+
+    state = gameReducer(state, { type: "NEW_GAME" });
+    expect(state.gameHistory.map((g) => g.id)).toEqual([gameId]);
+    expect(getNextLeagueFixture(state.league!)!.id).not.toBe(fixture.id);
+  });
+
+  it("ends the league without touching history", () => {
+    let state = createFixtures(setupState());
+    state = gameReducer(state, { type: "END_LEAGUE" });
+
+    expect(state.league).toBeNull();
+    expect(state.players).toHaveLength(3);
+  });
+});
+
+describe("GameContext roster", () => {
+  const baseState = (): AppState => ({
+    gameState: "setup",
+    players: [],
+    teams: [],
+    currentPlayerIndex: 0,
+    currentTeamIndex: 0,
+    gameHistory: [],
+    currentGame: null,
+    gameMode: "individual",
+    roster: [],
+  });
+
+  it("links games in history to a new profile with the same name", () => {
+    const alice = createPlayer("Alice");
+    const game = { ...createGame([alice, createPlayer("Bob")]), winner: alice };
+    const profile = createPlayerProfile("alice");
+
+    const state = gameReducer(
+      { ...baseState(), gameHistory: [game] },
+      { type: "ADD_PROFILE", payload: profile }
+    );
+
+    expect(state.roster).toEqual([profile]);
+    expect(state.gameHistory[0].players[0].profileId).toBe(profile.id);
+    expect(state.gameHistory[0].players[1].profileId).toBeUndefined();
+    expect(state.gameHistory[0].winner?.profileId).toBe(profile.id);
+  });
+
+  it("renames the profile and the players playing as it", () => {
+    const profile = createPlayerProfile("Alice");
+    let state = gameReducer(baseState(), {
+      type: "ADD_PROFILE",
+      payload: profile,
+    });
+    state = gameReducer(state, {
+      type: "ADD_PLAYER",
+      payload: createPlayerFromProfile(profile),
+    });
+
+    state = gameReducer(state, {
+      type: "RENAME_PROFILE",
+      payload: { profileId: profile.id, name: "Alicia" },
+    });
+
+    expect(state.roster![0].name).toBe("Alicia");
+    expect(state.players[0].name).toBe("Alicia");
+  });
+
+  it("keeps the roster when the state is reset", () => {
+    const profile = createPlayerProfile("Alice");
+    let state = gameReducer(baseState(), {
+      type: "ADD_PROFILE",
+      payload: profile,
+    });
+
+    state = gameReducer(state, { type: "RESET_STATE" });
+
+    expect(state.roster).toEqual([profile]);
+    expect(state.players).toEqual([]);
+  });
+});
+
+describe("GameContext team games", () => {
+  // Teams of different sizes: A has two players, B has three
+  const startTeamGame = (rotation?: TeamRotation): AppState => {
+    const teamA = { ...createTeam("A", ["a1", "a2"].map(createPlayer)), id: "A" };
+    const teamB = {
+      ...createTeam("B", ["b1", "b2", "b3"].map(createPlayer)),
+      id: "B",
+    };
+    let state: AppState = {
+      gameState: "setup",
+      players: [],
+      teams: [teamA, teamB],
+      currentPlayerIndex: 0,
+      currentTeamIndex: 0,
+      gameHistory: [],
+      currentGame: null,
+      gameMode: "team",
+    };
+    if (rotation) {
+      state = gameReducer(state, { type: "SET_TEAM_ROTATION", payload: rotation });
+    }
+    return gameReducer(state, { type: "START_GAME" });
+  };
+
+  const throwForCurrentTeam = (state: AppState): AppState =>
+    gameReducer(state, {
+      type: "SUBMIT_TEAM_SCORE",
+      payload: {
+        teamId: state.teams![state.currentTeamIndex || 0].id,
+        score: 1,
+        scoringType: "single",
+      },
+    });
+
+  const throwers = (state: AppState, count: number): string[] => {
+    for (let i = 0; i < count; i++) {
+      state = throwForCurrentTeam(state);
+    }
+    return state.currentGame!.throws!.map((event) => event.playerName);
+  };
+
+  it("stores the chosen rotation on the game, lockstep by default", () => {
+    expect(startTeamGame().currentGame!.teamRotation).toBe("lockstep");
+    expect(startTeamGame("captain").currentGame!.teamRotation).toBe("captain");
+  });
+
+  it("moves every team to the same position each round in lockstep", () => {
+    expect(throwers(startTeamGame("lockstep"), 8)).toEqual([
+      "a1", "b1", "a2", "b2", "a1", "b3", "a1", "b1",
+    ]);
+  });
+
+  it("lets each team work through its own order when independent", () => {
+    expect(throwers(startTeamGame("independent"), 8)).toEqual([
+      "a1", "b1", "a2", "b2", "a1", "b3", "a2", "b1",
+    ]);
+  });
+
+  it("keeps the captain's pick, including across undo", () => {
+    let state = startTeamGame("captain");
+    state = throwForCurrentTeam(state);
+    state = gameReducer(state, {
+      type: "SELECT_TEAM_THROWER",
+      payload: { teamId: "B", playerId: state.teams![1].players[2].id },
+    });
+    state = gameReducer(state, {
+      type: "SUBMIT_TEAM_SCORE",
+      payload: {
+        teamId: "B",
+        score: 1,
+        scoringType: "single",
+        playerId: state.teams![1].players[2].id,
+      },
+    });
+    state = throwForCurrentTeam(state);
+    expect(state.currentGame!.throws!.map((e) => e.playerName)).toEqual([
+      "a1", "b3", "a1",
+    ]);
+
+    state = gameReducer(state, { type: "UNDO" });
+    expect(state.currentGame!.throws!.map((e) => e.playerName)).toEqual([
+      "a1", "b3",
+    ]);
+    expect(state.teams![1].currentPlayerIndex).toBe(2);
+  });
+
+  it("resets a team at the out-of-turn threshold and keeps the rotation", () => {
+    let state = startTeamGame("independent");
+    for (const points of [1, 12, 1, 12, 1, 12, 1, 4]) {
+      state = gameReducer(state, {
+        type: "SUBMIT_TEAM_SCORE",
+        payload: {
+          teamId: state.teams![state.currentTeamIndex || 0].id,
+          score: points,
+          scoringType: "single",
+        },
+      });
+    }
+    state = throwForCurrentTeam(state);
+    expect(state.teams![1].score).toBe(40);
+    const offender = state.teams![1].players[1];
+
+    const next = gameReducer(state, {
+      type: "OUT_OF_TURN_THROW",
+      payload: { playerId: offender.id },
+    });
+
+    expect(next.teams![1].score).toBe(25);
+    expect(next.currentGame!.teams![1].score).toBe(25);
+    expect(next.currentTeamIndex).toBe(state.currentTeamIndex);
+    expect(next.teams!.map((t) => t.currentPlayerIndex)).toEqual(
+      state.teams!.map((t) => t.currentPlayerIndex)
+    );
+    expect(next.currentGame!.penalties).toEqual([
+      expect.objectContaining({
+        playerId: offender.id,
+        playerName: "b2",
+        teamId: "B",
+        teamName: "B",
+        reason: "out-of-turn",
+      }),
+    ]);
+    expect(next.currentGame!.throws![9]).toMatchObject({
+      type: "out_of_turn",
+      playerName: "b2",
+      teamId: "B",
+      resultingScore: 25,
+      scoreReset: true,
+    });
+
+    const undone = gameReducer(next, { type: "UNDO" });
+    expect(undone.teams![1].score).toBe(40);
+    expect(undone.currentGame!.penalties).toEqual([]);
+  });
+
+  it("logs an out-of-turn team throw below the threshold without a penalty", () => {
+    const state = startTeamGame();
+    const next = gameReducer(state, {
+      type: "OUT_OF_TURN_THROW",
+      payload: { playerId: state.teams![1].players[0].id },
+    });
+
+    expect(next.teams![1].score).toBe(0);
+    expect(next.currentGame!.penalties).toEqual([]);
+    expect(next.currentGame!.throws).toEqual([
+      expect.objectContaining({ type: "out_of_turn", scoreReset: false }),
+    ]);
+  });
+
+  it("ignores thrower picks unless the captain chooses", () => {
+    const state = startTeamGame("independent");
+    const next = gameReducer(state, {
+      type: "SELECT_TEAM_THROWER",
+      payload: { teamId: "A", playerId: state.teams![0].players[1].id },
+    });
+
+    expect(next).toBe(state);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * LocaleContext Tests
+ * Tests for switching the display language and remembering the choice
+ *
+ * @format
+ */
+
+import { render, screen, fireEvent } from "@testing-library/preact";
+import { afterEach, describe, it, expect, beforeEach, vi } from "vitest";
+import { LocaleProvider } from "../../src/context/LocaleContext";
+import { LanguageSwitcher } from "../../src/components/LanguageSwitcher";
+import { NoWinnerDisplay } from "../../src/components/NoWinnerDisplay/NoWinnerDisplay";
+import { getCurrentLocale, setCurrentLocale } from "../../src/utils/i18n";
+import { STORAGE_KEYS } from "../../src/utils/storage";
+import type { Player } from "../../src/utils/types";
+
+const players: Player[] = [
+  {
+    id: "1",
+    name: "Aino",
+    score: 12,
+    penalties: 0,
+    isActive: false,
+    eliminated: true,
+  },
+  {
+    id: "2",
+    name: "Eero",
+    score: 20,
+    penalties: 0,
+    isActive: false,
+    eliminated: true,
+  },
+];
+
+const renderWithLocale = (initialLocale?: "en" | "fi") =>
+  render(
+    <LocaleProvider initialLocale={initialLocale}>
+      <LanguageSwitcher />
+      <NoWinnerDisplay
+        players={players}
+        gameMode="individual"
+        onReset={() => {}}
+      />
+    </LocaleProvider>
+  );
+
+describe("LocaleProvider", () => {
+  beforeEach(() => {
+    // The test setup stubs out browser storage; back it with a map here
+    const data = new Map<string, string>();
+    vi.mocked(localStorage.getItem).mockImplementation(
+      (key) => data.get(key) ?? null
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      data.set(key, value);
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation((key) => {
+      data.delete(key);
+    });
+  });
+
+  afterEach(() => {
+    vi.mocked(localStorage.getItem).mockReset();
+    vi.mocked(localStorage.setItem).mockReset();
+    vi.mocked(localStorage.removeItem).mockReset();
+    setCurrentLocale("en");
+  });
+
+  it("switches the interface to Finnish and back", () => {
+    renderWithLocale("en");
+    expect(screen.getByText("Game Over")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Suomi" }));
+
+    expect(screen.getByText("Peli päättyi")).toBeInTheDocument();
+    expect(screen.getAllByText("Pudonnut").length).toBeGreaterThan(0);
+    expect(screen.getByRole("button", { name: "Suomi" })).toHaveAttribute(
+      "aria-pressed",
+      "true"
+    );
+    expect(document.documentElement.lang).toBe("fi");
+    expect(getCurrentLocale()).toBe("fi");
+
+    fireEvent.click(screen.getByRole("button", { name: "English" }));
+    expect(screen.getByText("Game Over")).toBeInTheDocument();
+  });
+
+  it("remembers the chosen language for the next visit", () => {
+    const { unmount } = renderWithLocale();
+    fireEvent.click(screen.getByRole("button", { name: "Suomi" }));
+    expect(localStorage.getItem(STORAGE_KEYS.LOCALE)).toBe("fi");
+    unmount();
+
+    renderWithLocale();
+    expect(screen.getByText("Peli päättyi")).toBeInTheDocument();
+  });
+
+  it("shows English without a provider", () => {
+    render(
+      <NoWinnerDisplay
+        players={players}
+        gameMode="individual"
+        onReset={() => {}}
+      />
+    );
+    expect(screen.getByText("Final Standings")).toBeInTheDocument();
+  });
+});
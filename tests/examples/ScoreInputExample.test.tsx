@@ -160,7 +160,9 @@ describe("ScoreInput Component - New Interface", () => {
       expect(mockOnScoreSubmit).toHaveBeenCalledWith(
         "test-player",
         6,
-        "single"
+        "single",
+        [6],
+        undefined
       );
     });
 
@@ -184,7 +186,9 @@ describe("ScoreInput Component - New Interface", () => {
       expect(mockOnScoreSubmit).toHaveBeenCalledWith(
         "test-player",
         3,
-        "multiple"
+        "multiple",
+        [2, 5, 9],
+        undefined
       );
     });
 
@@ -203,7 +207,9 @@ describe("ScoreInput Component - New Interface", () => {
       expect(mockOnScoreSubmit).toHaveBeenCalledWith(
         "test-player",
         0,
-        "single"
+        "single",
+        [],
+        undefined
       );
     });
 
@@ -12,9 +12,9 @@ import { usePlayerManagement } from "../../src/hooks/usePlayerManagement";
 import { useGameFlow } from "../../src/hooks/useGameFlow";
 import { useGameHistory } from "../../src/hooks/useGameHistory";
 
-// Mock session storage
-vi.mock("../../src/utils/storage/sessionStorage", () => ({
-  sessionStorageUtil: {
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
     loadAppState: vi.fn(() => null),
     saveAppState: vi.fn(),
     saveCurrentGame: vi.fn(),
@@ -10,10 +10,11 @@ import type { ComponentChildren } from "preact";
 import { GameProvider } from "../../src/context/GameContext";
 import { useGameFlow } from "../../src/hooks/useGameFlow";
 import { usePlayerManagement } from "../../src/hooks/usePlayerManagement";
+import { setCurrentLocale } from "../../src/utils/i18n";
 
-// Mock session storage
-vi.mock("../../src/utils/storage/sessionStorage", () => ({
-  sessionStorageUtil: {
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
     loadAppState: vi.fn(() => null),
     saveAppState: vi.fn(),
     saveCurrentGame: vi.fn(),
@@ -53,6 +54,20 @@ describe("useGameFlow", () => {
     expect(result.current.gameState).toBe("setup");
   });
 
+  it("should report errors in the chosen language", () => {
+    const { result } = renderHook(() => useGameFlow(), { wrapper });
+    setCurrentLocale("fi");
+
+    try {
+      expect(result.current.startGame().error).toBe(
+        "Peliin tarvitaan vähintään 2 pelaajaa"
+      );
+      expect(result.current.undo().error).toBe("Ei peruttavia heittoja");
+    } finally {
+      setCurrentLocale("en");
+    }
+  });
+
   it("should start game with sufficient players", () => {
     const { result } = renderHook(
       () => ({
@@ -346,4 +361,50 @@ describe("useGameFlow", () => {
     expect(result.current.game.gameState).toBe("setup");
     expect(result.current.player.players).toHaveLength(0);
   });
+  it("should undo and redo the last throw", () => {
+    const { result } = renderHook(
+      () => ({
+        player: usePlayerManagement(),
+        game: useGameFlow(),
+      }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.player.addPlayer("Player 1");
+      result.current.player.addPlayer("Player 2");
+    });
+
+    act(() => {
+      result.current.game.startGame();
+    });
+
+    expect(result.current.game.canUndo).toBe(false);
+    expect(result.current.game.undo().success).toBe(false);
+
+    act(() => {
+      result.current.game.submitScore(8, "single");
+    });
+
+    expect(result.current.game.canUndo).toBe(true);
+    expect(result.current.game.currentPlayer?.name).toBe("Player 2");
+
+    act(() => {
+      const response = result.current.game.undo();
+      expect(response.success).toBe(true);
+    });
+
+    expect(result.current.game.currentPlayer?.name).toBe("Player 1");
+    expect(result.current.game.currentPlayer?.score).toBe(0);
+    expect(result.current.game.canUndo).toBe(false);
+    expect(result.current.game.canRedo).toBe(true);
+
+    act(() => {
+      const response = result.current.game.redo();
+      expect(response.success).toBe(true);
+    });
+
+    expect(result.current.player.getPlayerByName("Player 1")?.score).toBe(8);
+    expect(result.current.game.canRedo).toBe(false);
+  });
 });
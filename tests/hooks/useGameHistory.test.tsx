@@ -7,21 +7,23 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { renderHook, act } from "@testing-library/preact";
 import type { ComponentChildren } from "preact";
-import { GameProvider } from "../../src/context/GameContext";
+import { GameProvider, useGameContext } from "../../src/context/GameContext";
 import { useGameHistory } from "../../src/hooks/useGameHistory";
+import { usePlayerManagement } from "../../src/hooks/usePlayerManagement";
 import {
   createGame,
   createPlayer,
   createPenaltyRecord,
+  createTeam,
   completeGame,
 } from "../../src/utils/gameStateUtils";
 import type { Game } from "../../src/utils/types";
 
-// Mock session storage
-vi.mock("../../src/utils/storage/sessionStorage", () => {
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => {
   const mockClearAll = vi.fn();
   return {
-    sessionStorageUtil: {
+    durableStorageUtil: {
       loadAppState: vi.fn(() => null),
       saveAppState: vi.fn(),
       saveCurrentGame: vi.fn(),
@@ -98,6 +100,7 @@ describe("useGameHistory", () => {
       gamesWon: 0,
       totalPenalties: 0,
       winRate: 0,
+      handicapGames: 0,
     });
   });
 
@@ -125,7 +128,7 @@ describe("useGameHistory", () => {
   });
 
   it("should handle clear history error", () => {
-    // We'll test error handling by mocking the sessionStorageUtil to throw
+    // We'll test error handling by mocking the durableStorageUtil to throw
     const { result } = renderHook(() => useGameHistory(), { wrapper });
 
     act(() => {
@@ -190,6 +193,174 @@ describe("useGameHistory", () => {
   // or a more sophisticated test setup that can manipulate the game history state
 });
 
+describe("useGameHistory import", () => {
+  // Build an export document the same way exportHistory serializes it
+  function createExport(games: Game[]): string {
+    return JSON.stringify({
+      exportDate: new Date().toISOString(),
+      totalGames: games.length,
+      games,
+      stats: {},
+    });
+  }
+
+  it("should import games from an exported document", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+    const game = createMockGame(["Alice", "Bob"], "Alice");
+
+    let response: ReturnType<typeof result.current.importHistory>;
+    act(() => {
+      response = result.current.importHistory(createExport([game]));
+    });
+
+    expect(response!).toEqual({ success: true, added: 1, skipped: 0 });
+    expect(result.current.gameHistory).toHaveLength(1);
+    expect(result.current.getGameById(game.id)?.winner?.name).toBe("Alice");
+    expect(result.current.getPlayerStats("Alice").gamesWon).toBe(1);
+  });
+
+  it("should rate players from imported games", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+
+    act(() => {
+      result.current.importHistory(
+        createExport([createMockGame(["Alice", "Bob"], "Alice")])
+      );
+    });
+
+    expect(result.current.ratings.map((rating) => rating.name)).toEqual([
+      "Alice",
+      "Bob",
+    ]);
+    expect(result.current.getPlayerRating("Alice")?.history).toHaveLength(1);
+    expect(result.current.getPlayerRating("Carol")).toBeUndefined();
+  });
+
+  it("should restore Date fields", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+    const game = createMockGame(["Alice", "Bob"], "Bob");
+
+    act(() => {
+      result.current.importHistory(createExport([game]));
+    });
+
+    const imported = result.current.gameHistory[0];
+    expect(imported.startTime).toBeInstanceOf(Date);
+    expect(imported.endTime).toBeInstanceOf(Date);
+    expect(imported.penalties[0].timestamp).toBeInstanceOf(Date);
+    expect(imported.startTime.toISOString()).toBe("2024-01-01T10:00:00.000Z");
+  });
+
+  it("should skip games that are already in history", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+    const first = createMockGame(["Alice", "Bob"], "Alice");
+    const second = createMockGame(["Alice", "Bob"], "Bob");
+
+    act(() => {
+      result.current.importHistory(createExport([first]));
+    });
+
+    let response: ReturnType<typeof result.current.importHistory>;
+    act(() => {
+      response = result.current.importHistory(
+        createExport([first, second, second])
+      );
+    });
+
+    expect(response!).toEqual({ success: true, added: 1, skipped: 2 });
+    expect(result.current.gameHistory.map((game) => game.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+  });
+
+  it("should upgrade games exported by older versions", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+    const legacyGame = {
+      id: "legacy-game",
+      players: [{ id: "p1", name: "Alice", score: 50 }],
+      winner: { id: "p1", name: "Alice", score: 50 },
+      startTime: "2023-05-01T18:00:00.000Z",
+      endTime: "2023-05-01T18:20:00.000Z",
+      totalRounds: 6,
+      penalties: [],
+    };
+
+    act(() => {
+      result.current.importHistory(JSON.stringify({ games: [legacyGame] }));
+    });
+
+    const imported = result.current.gameHistory[0];
+    expect(imported.gameMode).toBe("individual");
+    expect(imported.players[0].consecutiveMisses).toBe(0);
+    expect(imported.throws).toEqual([]);
+  });
+
+  it("should reject documents that are not valid JSON", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+
+    const response = result.current.importHistory("{not json");
+
+    expect(response.success).toBe(false);
+    expect(response.error).toBe("Import file is not valid JSON");
+    expect(result.current.gameHistory).toEqual([]);
+  });
+
+  it("should import its own export, team games included", () => {
+    const red = createTeam("Red", [createPlayer("Alice"), createPlayer("Bob")]);
+    const blue = createTeam("Blue", [createPlayer("Carol")]);
+    const teamGame = completeGame(
+      createGame([], "team", [red, blue]),
+      null,
+      blue
+    );
+    const games = [createMockGame(["Alice", "Bob"], "Bob"), teamGame];
+
+    const source = renderHook(
+      () => ({ history: useGameHistory(), context: useGameContext() }),
+      { wrapper }
+    );
+    act(() => {
+      source.result.current.context.dispatch({
+        type: "IMPORT_HISTORY",
+        payload: games,
+      });
+    });
+    const exported = source.result.current.history.exportHistory();
+
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+    let response: ReturnType<typeof result.current.importHistory>;
+    act(() => {
+      response = result.current.importHistory(exported);
+    });
+
+    expect(response!).toEqual({ success: true, added: 2, skipped: 0 });
+    expect(result.current.getGameById(teamGame.id)?.winningTeam?.name).toBe(
+      "Blue"
+    );
+    expect(
+      result.current
+        .getGameById(teamGame.id)
+        ?.teams?.map((team) => team.players.length)
+    ).toEqual([2, 1]);
+  });
+
+  it("should reject documents that fail validation", () => {
+    const { result } = renderHook(() => useGameHistory(), { wrapper });
+
+    const response = result.current.importHistory(
+      JSON.stringify({ games: [{ id: "x", players: [], startTime: "soon" }] })
+    );
+
+    expect(response).toEqual({
+      success: false,
+      added: 0,
+      skipped: 0,
+      error: "Game 1 has no players.",
+    });
+  });
+});
+
 describe("useGameHistory with mock data", () => {
   // These tests would require a more complex setup to inject mock game history
   // into the context state. For now, we're testing the basic functionality.
@@ -217,3 +388,50 @@ describe("useGameHistory with mock data", () => {
     expect(stats.mostPenalizedPlayer).toBeNull();
   });
 });
+
+describe("useGameHistory roster", () => {
+  function createExport(games: Game[]): string {
+    return JSON.stringify({
+      exportDate: new Date().toISOString(),
+      totalGames: games.length,
+      games,
+      stats: {},
+    });
+  }
+
+  it("should keep a player's record when their profile is renamed", () => {
+    const { result } = renderHook(
+      () => ({ history: useGameHistory(), players: usePlayerManagement() }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.history.importHistory(
+        createExport([
+          createMockGame(["Alice", "Bob"], "Alice"),
+          createMockGame(["Alice", "Bob"], "Bob"),
+        ])
+      );
+    });
+    act(() => {
+      result.current.players.addPlayer("Alice");
+    });
+
+    const profile = result.current.players.roster[0];
+    act(() => {
+      result.current.players.renameProfile(profile.id, "Alicia");
+    });
+
+    expect(result.current.history.getPlayerStats("Alicia")).toMatchObject({
+      gamesPlayed: 2,
+      gamesWon: 1,
+      totalPenalties: 2,
+    });
+    expect(result.current.history.getGamesByProfile(profile.id)).toHaveLength(2);
+    expect(result.current.history.getPlayerStats("Alice").gamesPlayed).toBe(0);
+    expect(result.current.history.getOverallStats().playerWinCounts).toEqual({
+      Alicia: 1,
+      Bob: 1,
+    });
+  });
+});
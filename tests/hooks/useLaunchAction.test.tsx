@@ -0,0 +1,138 @@
+/**
+ * Tests for useLaunchAction hook
+ *
+ * @format
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/preact";
+import type { ComponentChildren } from "preact";
+import { GameProvider, useGameContext } from "../../src/context/GameContext";
+import { useLaunchAction } from "../../src/hooks/useLaunchAction";
+import { durableStorageUtil } from "../../src/utils/storage/durableStorage";
+import { createGame, createPlayer } from "../../src/utils/gameStateUtils";
+import {
+  getLaunchAction,
+  removeLaunchAction,
+} from "../../src/utils/launchAction";
+import type { AppState, GameState } from "../../src/utils/types";
+
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
+    loadAppState: vi.fn(() => null),
+    saveAppState: vi.fn(),
+    saveCurrentGame: vi.fn(),
+    saveGameHistory: vi.fn(),
+  },
+}));
+
+const wrapper = ({ children }: { children: ComponentChildren }) => (
+  <GameProvider>{children}</GameProvider>
+);
+
+function savedState(gameState: GameState): AppState {
+  const players = [
+    { ...createPlayer("Alice"), score: gameState === "setup" ? 0 : 50 },
+    { ...createPlayer("Bob"), score: 21 },
+  ];
+  return {
+    gameState,
+    players,
+    teams: [],
+    currentPlayerIndex: 0,
+    currentTeamIndex: 0,
+    gameHistory: [],
+    currentGame: gameState === "setup" ? null : createGame(players),
+    gameMode: "individual",
+  };
+}
+
+function launch(action: string, saved: AppState | null) {
+  vi.mocked(durableStorageUtil.loadAppState).mockReturnValue(saved);
+  window.history.replaceState(null, "", `/?action=${action}`);
+  const openHistory = vi.fn();
+  const hook = renderHook(
+    () => ({
+      launch: useLaunchAction(openHistory),
+      context: useGameContext(),
+    }),
+    { wrapper }
+  );
+  return { ...hook, openHistory };
+}
+
+describe("launch actions", () => {
+  it("reads known actions and removes them from the address", () => {
+    expect(getLaunchAction("?action=new-game")).toBe("new-game");
+    expect(getLaunchAction("?view=x&action=history")).toBe("history");
+    expect(getLaunchAction("?action=delete-all")).toBeNull();
+    expect(getLaunchAction("")).toBeNull();
+
+    expect(
+      removeLaunchAction({
+        pathname: "/moelkky/",
+        search: "?action=history&view=x",
+        hash: "#/setup",
+      })
+    ).toBe("/moelkky/?view=x#/setup");
+  });
+});
+
+describe("useLaunchAction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("opens the game history", async () => {
+    const { result, openHistory } = launch("history", null);
+
+    await waitFor(() =>
+      expect(result.current.launch.launchResult).toEqual({
+        action: "history",
+        success: true,
+      })
+    );
+    expect(openHistory).toHaveBeenCalledTimes(1);
+    expect(window.location.search).toBe("");
+  });
+
+  it("starts a rematch after a finished game", async () => {
+    const { result } = launch("new-game", savedState("finished"));
+
+    await waitFor(() =>
+      expect(result.current.context.state.gameState).toBe("playing")
+    );
+    const { state } = result.current.context;
+    expect(state.players.map((p) => p.score)).toEqual([0, 0]);
+    expect(state.gameHistory).toHaveLength(1);
+    expect(result.current.launch.launchResult?.success).toBe(true);
+  });
+
+  it("asks before replacing a game in progress", async () => {
+    const confirm = vi.spyOn(window, "confirm").mockReturnValue(false);
+    const { result } = launch("new-game", savedState("playing"));
+
+    await waitFor(() => expect(confirm).toHaveBeenCalled());
+    expect(result.current.context.state.players[0].score).toBe(50);
+    expect(result.current.launch.launchResult).toBeNull();
+  });
+
+  it("needs players for a rematch", async () => {
+    const { result } = launch("new-game", null);
+
+    await waitFor(() =>
+      expect(result.current.launch.launchResult).toEqual({
+        action: "new-game",
+        success: false,
+        error: "Add at least 2 players to start a new game",
+      })
+    );
+    expect(result.current.context.state.gameState).toBe("setup");
+  });
+});
@@ -11,9 +11,9 @@ import { GameProvider } from "../../src/context/GameContext";
 import { usePlayerManagement } from "../../src/hooks/usePlayerManagement";
 import { createPlayer } from "../../src/utils/gameStateUtils";
 
-// Mock session storage
-vi.mock("../../src/utils/storage/sessionStorage", () => ({
-  sessionStorageUtil: {
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
     loadAppState: vi.fn(() => null),
     saveAppState: vi.fn(),
     saveCurrentGame: vi.fn(),
@@ -204,6 +204,29 @@ describe("usePlayerManagement", () => {
     expect(notFoundPlayer).toBeUndefined();
   });
 
+  it("should set a valid handicap and reject one at the target", () => {
+    const { result } = renderHook(() => usePlayerManagement(), { wrapper });
+
+    act(() => {
+      result.current.addPlayer("John Doe");
+    });
+    const playerId = result.current.players[0].id;
+
+    act(() => {
+      expect(result.current.setPlayerHandicap(playerId, 15).success).toBe(
+        true
+      );
+    });
+    expect(result.current.players[0].handicap).toBe(15);
+
+    act(() => {
+      const response = result.current.setPlayerHandicap(playerId, 50);
+      expect(response.success).toBe(false);
+      expect(response.error).toContain("Starting score");
+    });
+    expect(result.current.players[0].handicap).toBe(15);
+  });
+
   it("should indicate when players can be modified", () => {
     const { result } = renderHook(() => usePlayerManagement(), { wrapper });
 
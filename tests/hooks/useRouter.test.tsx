@@ -0,0 +1,155 @@
+/**
+ * Tests for useRouter hook
+ *
+ * @format
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/preact";
+import type { ComponentChildren } from "preact";
+import { GameProvider, useGameContext } from "../../src/context/GameContext";
+import { useGameFlow } from "../../src/hooks/useGameFlow";
+import { usePlayerManagement } from "../../src/hooks/usePlayerManagement";
+import { useRouter } from "../../src/hooks/useRouter";
+
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
+    loadAppState: vi.fn(() => null),
+    saveAppState: vi.fn(),
+    saveCurrentGame: vi.fn(),
+    saveGameHistory: vi.fn(),
+  },
+}));
+
+const wrapper = ({ children }: { children: ComponentChildren }) => (
+  <GameProvider>{children}</GameProvider>
+);
+
+function renderApp() {
+  return renderHook(
+    () => ({
+      router: useRouter(),
+      flow: useGameFlow(),
+      players: usePlayerManagement(),
+      context: useGameContext(),
+    }),
+    { wrapper }
+  );
+}
+
+async function startGame(result: {
+  current: ReturnType<typeof renderApp>["result"]["current"];
+}) {
+  await waitFor(() => expect(window.location.hash).toBe("#/setup"));
+  act(() => {
+    result.current.players.addPlayer("Alice");
+  });
+  act(() => {
+    result.current.players.addPlayer("Bob");
+  });
+  act(() => {
+    result.current.flow.startGame();
+  });
+  await waitFor(() => expect(window.location.hash).toBe("#/play"));
+}
+
+describe("useRouter", () => {
+  beforeEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("puts the current screen in the URL", async () => {
+    const { result } = renderApp();
+
+    await waitFor(() => expect(window.location.hash).toBe("#/setup"));
+    expect(result.current.router.route).toEqual({ name: "setup" });
+  });
+
+  it("moves the URL on with the game and ends it on back after asking", async () => {
+    const confirm = vi.spyOn(window, "confirm").mockReturnValue(true);
+    const { result } = renderApp();
+    await startGame(result);
+
+    act(() => window.history.back());
+
+    await waitFor(() => expect(result.current.flow.gameState).toBe("setup"));
+    expect(confirm).toHaveBeenCalled();
+    expect(window.location.hash).toBe("#/setup");
+  });
+
+  it("keeps a finished game in history when going back from the results", async () => {
+    const { result } = renderApp();
+    await startGame(result);
+
+    // Bob's third miss leaves Alice the winner
+    for (let round = 0; round < 3; round++) {
+      act(() => {
+        result.current.flow.submitScore(12, "single");
+      });
+      act(() => {
+        result.current.flow.submitScore(0, "single");
+      });
+    }
+    await waitFor(() => expect(window.location.hash).toBe("#/results"));
+    const finished = result.current.context.state.currentGame!;
+
+    // Back past the game to the setup screen
+    act(() => window.history.go(-2));
+
+    await waitFor(() => expect(result.current.flow.gameState).toBe("setup"));
+    expect(
+      result.current.context.state.gameHistory.map((game) => game.id)
+    ).toEqual([finished.id]);
+    expect(window.location.hash).toBe("#/setup");
+  });
+
+  it("keeps playing when the scorekeeper does not want to end the game", async () => {
+    vi.spyOn(window, "confirm").mockReturnValue(false);
+    const { result } = renderApp();
+    await startGame(result);
+
+    act(() => window.history.back());
+
+    await waitFor(() => expect(window.location.hash).toBe("#/play"));
+    expect(result.current.flow.gameState).toBe("playing");
+  });
+
+  it("opens history over the current screen and closes back to it", async () => {
+    const { result } = renderApp();
+    await waitFor(() => expect(window.location.hash).toBe("#/setup"));
+
+    act(() => result.current.router.openHistory());
+    act(() => result.current.router.openHistory("game-1"));
+    expect(result.current.router.route).toEqual({
+      name: "historyGame",
+      gameId: "game-1",
+    });
+
+    act(() => result.current.router.closeHistory());
+
+    await waitFor(() =>
+      expect(result.current.router.route).toEqual({ name: "setup" })
+    );
+    expect(window.location.hash).toBe("#/setup");
+  });
+
+  it("opens a linked history game and closes to the current screen", async () => {
+    window.history.replaceState(null, "", "/#/history/game-1");
+    const { result } = renderApp();
+
+    await waitFor(() =>
+      expect(result.current.router.route).toEqual({
+        name: "historyGame",
+        gameId: "game-1",
+      })
+    );
+
+    act(() => result.current.router.closeHistory());
+    expect(window.location.hash).toBe("#/setup");
+  });
+});
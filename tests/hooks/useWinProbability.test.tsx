@@ -0,0 +1,113 @@
+/**
+ * Tests for useWinProbability hook
+ *
+ * @format
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/preact";
+import type { ComponentChildren } from "preact";
+import { GameProvider, useGameContext } from "../../src/context/GameContext";
+import { useWinProbability } from "../../src/hooks/useWinProbability";
+import { createPlayer } from "../../src/utils/gameStateUtils";
+
+// Mock durable storage
+vi.mock("../../src/utils/storage/durableStorage", () => ({
+  durableStorageUtil: {
+    loadAppState: vi.fn(() => null),
+    saveAppState: vi.fn(),
+    saveCurrentGame: vi.fn(),
+    saveGameHistory: vi.fn(),
+  },
+}));
+
+const wrapper = ({ children }: { children: ComponentChildren }) => (
+  <GameProvider>{children}</GameProvider>
+);
+
+function renderGame() {
+  const hook = renderHook(
+    () => ({ win: useWinProbability(), context: useGameContext() }),
+    { wrapper }
+  );
+  const dispatch = (
+    action: Parameters<ReturnType<typeof useGameContext>["dispatch"]>[0]
+  ) => act(() => hook.result.current.context.dispatch(action));
+  return { ...hook, dispatch };
+}
+
+const score = (playerId: string, points: number) => ({
+  type: "SUBMIT_SCORE" as const,
+  payload: { playerId, score: points, scoringType: "single" as const },
+});
+
+describe("useWinProbability", () => {
+  it("has no estimate before a game starts", () => {
+    const { result } = renderGame();
+
+    expect(result.current.win).toEqual({
+      probabilities: null,
+      lastSwing: null,
+    });
+  });
+
+  it("records win probabilities and the thrower's swing with each throw", () => {
+    const { result, dispatch } = renderGame();
+    dispatch({
+      type: "ADD_PLAYER",
+      payload: { ...createPlayer("Alice"), id: "1" },
+    });
+    dispatch({
+      type: "ADD_PLAYER",
+      payload: { ...createPlayer("Bob"), id: "2" },
+    });
+    dispatch({ type: "START_GAME" });
+    dispatch({
+      type: "UPDATE_PLAYER",
+      payload: { id: "2", updates: { consecutiveMisses: 2 } },
+    });
+    const start = result.current.win.probabilities!;
+    expect(start["1"] + start["2"]).toBeCloseTo(1);
+
+    dispatch(score("1", 6));
+    const [first] = result.current.context.state.currentGame!.throws!;
+    expect(first.winProbabilities!["1"]).toBeGreaterThan(
+      first.winProbabilities!["2"]
+    );
+    expect(first.winProbabilitySwing).toBeCloseTo(
+      first.winProbabilities!["1"] - start["1"]
+    );
+    expect(result.current.win).toEqual({
+      probabilities: first.winProbabilities,
+      lastSwing: first.winProbabilitySwing,
+    });
+
+    // A third miss eliminates the only opponent
+    dispatch(score("2", 0));
+    const second = result.current.context.state.currentGame!.throws![1];
+    expect(second.winProbabilities).toEqual({ "1": 1, "2": 0 });
+    expect(second.winProbabilitySwing).toBeCloseTo(
+      -first.winProbabilities!["2"]
+    );
+  });
+
+  it("reads the recorded estimate back after an undo", () => {
+    const { result, dispatch } = renderGame();
+    dispatch({
+      type: "ADD_PLAYER",
+      payload: { ...createPlayer("Alice"), id: "1" },
+    });
+    dispatch({
+      type: "ADD_PLAYER",
+      payload: { ...createPlayer("Bob"), id: "2" },
+    });
+    dispatch({ type: "START_GAME" });
+    dispatch(score("1", 6));
+    dispatch(score("2", 3));
+    const [first] = result.current.context.state.currentGame!.throws!;
+
+    dispatch({ type: "UNDO" });
+
+    expect(result.current.win.probabilities).toEqual(first.winProbabilities);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for cross-tab state broadcasting
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getSpectatorUrl,
+  isSpectatorView,
+  isStateChannelMessage,
+} from "../../src/utils/broadcast";
+
+describe("isStateChannelMessage", () => {
+  it("accepts state updates and requests only", () => {
+    expect(isStateChannelMessage({ type: "request" })).toBe(true);
+    expect(isStateChannelMessage({ type: "state", state: {} })).toBe(true);
+    expect(isStateChannelMessage({ type: "state", state: null })).toBe(false);
+    expect(isStateChannelMessage({ type: "dispatch" })).toBe(false);
+    expect(isStateChannelMessage("state")).toBe(false);
+  });
+});
+
+describe("spectator view", () => {
+  it("opens from the view query parameter", () => {
+    const url = getSpectatorUrl({
+      origin: "https://example.com",
+      pathname: "/molkky/",
+    });
+
+    expect(url).toBe("https://example.com/molkky/?view=spectator");
+    expect(isSpectatorView(new URL(url).search)).toBe(true);
+    expect(isSpectatorView("?view=setup")).toBe(false);
+    expect(isSpectatorView("")).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for CSV export of game history
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  escapeCsvValue,
+  toCsv,
+  gamesToCsv,
+  throwsToCsv,
+  GAME_CSV_HEADERS,
+  THROW_CSV_HEADERS,
+} from "../../src/utils/csvExport";
+import {
+  createGame,
+  createPlayer,
+  createTeam,
+  createThrowEvent,
+  createPenaltyRecord,
+} from "../../src/utils/gameStateUtils";
+import type { Game } from "../../src/utils/types";
+
+const startTime = new Date("2024-03-05T18:00:00.000Z");
+const endTime = new Date("2024-03-05T18:42:00.000Z");
+
+function createIndividualGame(): Game {
+  const alice = createPlayer("Alice");
+  const bob = createPlayer('Bob "The Pin" Smith, Jr.');
+  const game = createGame([alice, bob], "individual");
+
+  return {
+    ...game,
+    id: "game-1",
+    startTime,
+    endTime,
+    totalRounds: 12,
+    winner: { ...alice, score: 50 },
+    penalties: [createPenaltyRecord(bob.id, bob.name, "Out of turn")],
+    throws: [
+      {
+        ...createThrowEvent({
+          type: "score",
+          playerId: alice.id,
+          playerName: alice.name,
+          score: 12,
+          scoringType: "single",
+          resultingScore: 12,
+          scoreReset: false,
+          eliminated: false,
+        }),
+        timestamp: new Date("2024-03-05T18:01:00.000Z"),
+      },
+      {
+        ...createThrowEvent({
+          type: "penalty",
+          playerId: bob.id,
+          playerName: bob.name,
+          score: 0,
+          reason: "Out of turn",
+          resultingScore: 25,
+          scoreReset: true,
+          eliminated: false,
+        }),
+        timestamp: new Date("2024-03-05T18:02:00.000Z"),
+      },
+    ],
+  };
+}
+
+function createTeamGame(): Game {
+  const alice = createPlayer("Alice");
+  const bob = createPlayer("Bob");
+  const teamA = createTeam("Team A", [alice]);
+  const teamB = createTeam("Team B", [bob]);
+  const game = createGame([alice, bob], "team", [teamA, teamB]);
+
+  return {
+    ...game,
+    id: "game-2",
+    startTime,
+    endTime: null,
+    winningTeam: { ...teamB, score: 50 },
+    throws: [
+      createThrowEvent({
+        type: "score",
+        playerId: bob.id,
+        playerName: bob.name,
+        teamId: teamB.id,
+        teamName: teamB.name,
+        score: 3,
+        scoringType: "multiple",
+        resultingScore: 3,
+        scoreReset: false,
+        eliminated: false,
+      }),
+    ],
+  };
+}
+
+describe("CSV Export", () => {
+  describe("escapeCsvValue", () => {
+    it("should leave plain values unquoted", () => {
+      expect(escapeCsvValue("Alice")).toBe("Alice");
+      expect(escapeCsvValue(42)).toBe("42");
+      expect(escapeCsvValue(true)).toBe("true");
+    });
+
+    it("should write empty cells for missing values", () => {
+      expect(escapeCsvValue(null)).toBe("");
+      expect(escapeCsvValue(undefined)).toBe("");
+    });
+
+    it("should quote values containing commas", () => {
+      expect(escapeCsvValue("Smith, Jr.")).toBe('"Smith, Jr."');
+    });
+
+    it("should double embedded quotes", () => {
+      expect(escapeCsvValue('Bob "The Pin"')).toBe('"Bob ""The Pin"""');
+    });
+
+    it("should quote values containing line breaks", () => {
+      expect(escapeCsvValue("line\nbreak")).toBe('"line\nbreak"');
+      expect(escapeCsvValue("line\r\nbreak")).toBe('"line\r\nbreak"');
+    });
+  });
+
+  describe("toCsv", () => {
+    it("should join headers and rows with CRLF line endings", () => {
+      expect(toCsv(["A", "B"], [[1, "x,y"], [null, 2]])).toBe(
+        'A,B\r\n1,"x,y"\r\n,2'
+      );
+    });
+  });
+
+  describe("gamesToCsv", () => {
+    it("should write only the header for an empty history", () => {
+      expect(gamesToCsv([])).toBe(GAME_CSV_HEADERS.join(","));
+    });
+
+    it("should write one row per game", () => {
+      const lines = gamesToCsv([createIndividualGame(), createTeamGame()]).split(
+        "\r\n"
+      );
+
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toBe(
+        'game-1,2024-03-05T18:00:00.000Z,individual,42,Alice,12,1,"Alice; Bob ""The Pin"" Smith, Jr."'
+      );
+    });
+
+    it("should use the winning team and list team members in team games", () => {
+      const lines = gamesToCsv([createTeamGame()]).split("\r\n");
+
+      // Unfinished games have an empty duration
+      expect(lines[1]).toBe(
+        "game-2,2024-03-05T18:00:00.000Z,team,,Team B,0,0,Team A (Alice); Team B (Bob)"
+      );
+    });
+  });
+
+  describe("throwsToCsv", () => {
+    it("should write one row per throw across games", () => {
+      const lines = throwsToCsv([createIndividualGame(), createTeamGame()]).split(
+        "\r\n"
+      );
+
+      expect(lines[0]).toBe(THROW_CSV_HEADERS.join(","));
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toBe(
+        "game-1,2024-03-05T18:00:00.000Z,1,2024-03-05T18:01:00.000Z,,Alice,score,12,single,12,false,false,"
+      );
+      expect(lines[2]).toBe(
+        'game-1,2024-03-05T18:00:00.000Z,2,2024-03-05T18:02:00.000Z,,"Bob ""The Pin"" Smith, Jr.",penalty,0,,25,true,false,Out of turn'
+      );
+    });
+
+    it("should emit the team name alongside the thrower in team games", () => {
+      const lines = throwsToCsv([createTeamGame()]).split("\r\n");
+      const cells = lines[1].split(",");
+
+      expect(cells[4]).toBe("Team B");
+      expect(cells[5]).toBe("Bob");
+      expect(cells[8]).toBe("multiple");
+    });
+
+    it("should skip games without a throw log", () => {
+      const { throws, ...legacyGame } = createIndividualGame();
+
+      expect(throws).toHaveLength(2);
+      expect(throwsToCsv([legacyGame])).toBe(THROW_CSV_HEADERS.join(","));
+    });
+  });
+});
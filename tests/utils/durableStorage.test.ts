@@ -0,0 +1,129 @@
+/**
+ * Unit tests for durable storage selection
+ *
+ * @format
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  SessionStorageUtil,
+  StorageError,
+  StorageService,
+  durableStorageUtil,
+  isStorageServiceAvailable,
+  selectStorageService,
+  unavailableStorageService,
+} from "../../src/utils/storage";
+import type { AppState } from "../../src/utils/types";
+
+function createMemoryStorage(): StorageService {
+  const storage = new Map<string, string>();
+  return {
+    getItem: (key) => storage.get(key) ?? null,
+    setItem: (key, value) => {
+      storage.set(key, value);
+    },
+    removeItem: (key) => {
+      storage.delete(key);
+    },
+    clear: () => storage.clear(),
+  };
+}
+
+function createBrokenStorage(): StorageService {
+  const fail = () => {
+    throw new Error("QuotaExceededError");
+  };
+  return { getItem: fail, setItem: fail, removeItem: fail, clear: fail };
+}
+
+const appState: AppState = {
+  gameState: "setup",
+  players: [],
+  currentPlayerIndex: 0,
+  gameHistory: [],
+  currentGame: null,
+};
+
+describe("Durable Storage", () => {
+  describe("isStorageServiceAvailable", () => {
+    it("should return true for a working storage service", () => {
+      expect(isStorageServiceAvailable(createMemoryStorage())).toBe(true);
+    });
+
+    it("should return false when storage throws", () => {
+      expect(isStorageServiceAvailable(createBrokenStorage())).toBe(false);
+    });
+
+    it("should return false when storage does not retain values", () => {
+      const storage: StorageService = {
+        getItem: () => null,
+        setItem: vi.fn(),
+        removeItem: vi.fn(),
+        clear: vi.fn(),
+      };
+      expect(isStorageServiceAvailable(storage)).toBe(false);
+    });
+
+    it("should remove the probe key afterwards", () => {
+      const storage = createMemoryStorage();
+      isStorageServiceAvailable(storage);
+      expect(storage.getItem("__molkky_storage_test__")).toBeNull();
+    });
+  });
+
+  describe("selectStorageService", () => {
+    it("should prefer the first working candidate", () => {
+      const durable = createMemoryStorage();
+      const session = createMemoryStorage();
+      expect(selectStorageService([durable, session])).toBe(durable);
+    });
+
+    it("should fall back to the next candidate when the first fails", () => {
+      const session = createMemoryStorage();
+      expect(selectStorageService([createBrokenStorage(), session])).toBe(
+        session
+      );
+    });
+
+    it("should return the unavailable service when nothing works", () => {
+      expect(
+        selectStorageService([createBrokenStorage(), createBrokenStorage()])
+      ).toBe(unavailableStorageService);
+    });
+  });
+
+  describe("unavailableStorageService", () => {
+    it("should throw StorageError for every operation", () => {
+      expect(() => unavailableStorageService.getItem("key")).toThrow(
+        StorageError
+      );
+      expect(() => unavailableStorageService.setItem("key", "value")).toThrow(
+        StorageError
+      );
+      expect(() => unavailableStorageService.removeItem("key")).toThrow(
+        StorageError
+      );
+      expect(() => unavailableStorageService.clear()).toThrow(StorageError);
+    });
+
+    it("should keep data in the in-memory fallback", () => {
+      const util = new SessionStorageUtil(unavailableStorageService);
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      expect(() => util.saveAppState(appState)).toThrow(StorageError);
+      expect(util.loadAppState()).toEqual(appState);
+      expect(util.getStorageInfo()).toEqual({
+        isAvailable: false,
+        hasFallbackData: true,
+        fallbackKeys: ["molkky_app_state"],
+      });
+    });
+  });
+
+  describe("durableStorageUtil", () => {
+    it("should be a SessionStorageUtil instance", () => {
+      expect(durableStorageUtil).toBeInstanceOf(SessionStorageUtil);
+    });
+  });
+});
@@ -12,6 +12,7 @@ import {
   type TurnResult,
 } from "../../src/utils/gameLogic";
 import { createPlayer, createGame } from "../../src/utils/gameStateUtils";
+import { DEFAULT_RULE_SET } from "../../src/utils/rules";
 import type { Player, Game } from "../../src/utils/types";
 
 describe("GameEngine", () => {
@@ -322,6 +323,52 @@ describe("GameEngine", () => {
     });
   });
 
+  describe("getAimingAdvice", () => {
+    it("should recommend the winning pin first", () => {
+      const player = { ...createPlayer("Test"), score: 45 };
+      const [best] = GameEngine.getAimingAdvice(player, [10]);
+
+      expect(best).toMatchObject({ type: "single", points: 5, resetChance: 0 });
+      expect(best.winChance).toBeGreaterThan(0);
+    });
+
+    it("should rank overshooting pins below safe ones", () => {
+      const player = { ...createPlayer("Test"), score: 45 };
+      const advice = GameEngine.getAimingAdvice(player, [10]);
+      const rank = (points: number) =>
+        advice.findIndex((o) => o.type === "single" && o.points === points);
+
+      expect(rank(4)).toBeLessThan(rank(6));
+      expect(advice.find((o) => o.points === 12)!.resetChance).toBeGreaterThan(0);
+    });
+
+    it("should aim for the highest pin from a low score", () => {
+      const player = createPlayer("Test");
+      const [best] = GameEngine.getAimingAdvice(player, [0]);
+
+      expect(best).toMatchObject({ type: "single", points: 12 });
+    });
+
+    it("should value a group of pins for a reliable group thrower", () => {
+      const player = { ...createPlayer("Test"), score: 44 };
+      const advice = GameEngine.getAimingAdvice(player, [0], DEFAULT_RULE_SET, {
+        singlePin: 0.1,
+        multiplePins: 0.9,
+        averagePins: 6,
+      });
+
+      expect(advice[0]).toMatchObject({ type: "multiple", points: 6 });
+    });
+
+    it("should weigh an opponent about to win", () => {
+      const player = { ...createPlayer("Test"), score: 30 };
+      const calm = GameEngine.getAimingAdvice(player, [10]);
+      const threatened = GameEngine.getAimingAdvice(player, [45]);
+
+      expect(threatened[0].expectedValue).toBeLessThan(calm[0].expectedValue);
+    });
+  });
+
   describe("getGameStatus", () => {
     it("should return correct status for setup state", () => {
       const status = GameEngine.getGameStatus(players, "setup");
@@ -427,4 +474,46 @@ describe("GameEngine", () => {
       expect(stats.riskScores).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
     });
   });
+
+  describe("custom rule sets", () => {
+    const clubRules = {
+      name: "Club",
+      targetScore: 40,
+      resetScore: 20,
+      eliminationMisses: 3,
+      outOfTurnThreshold: 30,
+    };
+
+    it("should calculate score effects against the configured target", () => {
+      const player = { ...createPlayer("Test"), score: 35 };
+
+      expect(GameEngine.calculateScoreEffect(player, 5, clubRules)).toEqual({
+        newScore: 40,
+        willWin: true,
+        willReset: false,
+        pointsToWin: 5,
+      });
+      expect(GameEngine.calculateScoreEffect(player, 6, clubRules)).toMatchObject({
+        newScore: 20,
+        willReset: true,
+      });
+    });
+
+    it("should report winning and risky scores for the configured target", () => {
+      const player = { ...createPlayer("Test"), score: 35 };
+      const stats = GameEngine.getPlayerStats(player, clubRules);
+
+      expect(stats.pointsToWin).toBe(5);
+      expect(stats.canWinWith).toEqual([5]);
+      expect(stats.riskScores).toEqual([6, 7, 8, 9, 10, 11, 12]);
+    });
+
+    it("should flag score resets in applyPlayerScore", () => {
+      const player = { ...createPlayer("Test"), score: 35 };
+      const result = GameEngine.applyPlayerScore(player, 8, ScoringType.SINGLE_PIN, clubRules);
+
+      expect(result.updatedPlayer.score).toBe(20);
+      expect(result.scoreReset).toBe(true);
+    });
+  });
 });
@@ -18,7 +18,13 @@ import {
   findWinner,
   isValidStateTransition,
   completeGame,
+  applyTeamScore,
+  createTeam,
+  getTeamThrower,
+  rotateTeamThrowers,
+  getHandicap,
 } from "../../src/utils/gameStateUtils";
+import { DEFAULT_RULE_SET } from "../../src/utils/rules";
 import type { Player, Game } from "../../src/utils/types";
 
 describe("createPlayer", () => {
@@ -83,6 +89,44 @@ describe("createGame", () => {
 
     expect(players[0].score).toBe(originalScore);
   });
+
+  it("should start players on their handicaps and record them", () => {
+    players[0].handicap = 15;
+
+    const game = createGame(players);
+
+    expect(game.players.map((p) => p.score)).toEqual([15, 0]);
+    expect(game.handicaps).toEqual({ [players[0].id]: 15 });
+  });
+
+  it("should leave handicaps off games started level", () => {
+    expect(createGame(players).handicaps).toBeUndefined();
+  });
+
+  it("should start team games on the teams' handicaps", () => {
+    players[0].handicap = 15;
+    const red = { ...createTeam("Red", [players[0]]), handicap: 10 };
+    const blue = createTeam("Blue", [players[1]]);
+
+    const game = createGame(players, "team", [red, blue]);
+
+    expect(game.teams!.map((t) => t.score)).toEqual([10, 0]);
+    expect(game.players[0].score).toBe(0);
+    expect(game.handicaps).toEqual({ [red.id]: 10 });
+  });
+});
+
+describe("getHandicap", () => {
+  it("should find a team member's handicap through their team", () => {
+    const players = [createPlayer("John"), createPlayer("Jane")];
+    const red = { ...createTeam("Red", [players[0]]), handicap: 10 };
+    const blue = createTeam("Blue", [players[1]]);
+    const game = createGame(players, "team", [red, blue]);
+
+    expect(getHandicap(game, red.id)).toBe(10);
+    expect(getHandicap(game, players[0].id)).toBe(10);
+    expect(getHandicap(game, players[1].id)).toBe(0);
+  });
 });
 
 describe("createPenaltyRecord", () => {
@@ -239,6 +283,43 @@ describe("getNextPlayerIndex", () => {
   });
 });
 
+describe("getTeamThrower", () => {
+  it("wraps a shared position round a smaller team", () => {
+    const team = createTeam("A", [createPlayer("a1"), createPlayer("a2")]);
+
+    expect(getTeamThrower({ ...team, currentPlayerIndex: 1 })?.name).toBe("a2");
+    expect(getTeamThrower({ ...team, currentPlayerIndex: 2 })?.name).toBe("a1");
+    expect(getTeamThrower(createTeam("Empty"))).toBeUndefined();
+  });
+});
+
+describe("rotateTeamThrowers", () => {
+  const teams = [
+    { ...createTeam("A", [createPlayer("a1"), createPlayer("a2")]), currentPlayerIndex: 0 },
+    {
+      ...createTeam("B", [createPlayer("b1"), createPlayer("b2"), createPlayer("b3")]),
+      currentPlayerIndex: 2,
+    },
+  ];
+
+  it("advances only the team that threw when independent", () => {
+    const rotated = rotateTeamThrowers(teams, 1, 0, "independent");
+
+    expect(rotated.map((t) => t.currentPlayerIndex)).toEqual([0, 0]);
+  });
+
+  it("advances every team together at the end of a round in lockstep", () => {
+    expect(rotateTeamThrowers(teams, 0, 1, "lockstep")).toBe(teams);
+    expect(
+      rotateTeamThrowers(teams, 1, 0, "lockstep").map((t) => t.currentPlayerIndex)
+    ).toEqual([0, 0]);
+  });
+
+  it("leaves throwers to the captain", () => {
+    expect(rotateTeamThrowers(teams, 1, 0, "captain")).toBe(teams);
+  });
+});
+
 describe("getPointsNeeded", () => {
   it("should calculate points needed correctly", () => {
     const player = createPlayer("Test Player");
@@ -397,3 +478,42 @@ describe("completeGame", () => {
     expect(game.winner).toBe(originalWinner);
   });
 });
+
+describe("custom rule sets", () => {
+  const clubRules = {
+    name: "Club",
+    targetScore: 40,
+    resetScore: 20,
+    eliminationMisses: null,
+    outOfTurnThreshold: 30,
+  };
+
+  it("should store the rule set on a new game", () => {
+    expect(createGame([createPlayer("A")]).rules).toEqual(DEFAULT_RULE_SET);
+    expect(createGame([createPlayer("A")], "individual", undefined, clubRules).rules).toEqual(clubRules);
+  });
+
+  it("should reset to the configured score when overshooting the target", () => {
+    const player = { ...createPlayer("Test"), score: 35 };
+
+    expect(applyScore(player, 5, clubRules).score).toBe(40);
+    expect(applyScore(player, 6, clubRules).score).toBe(20);
+    expect(hasPlayerWon({ ...player, score: 40 }, clubRules)).toBe(true);
+    expect(getPointsNeeded(player, clubRules)).toBe(5);
+  });
+
+  it("should apply penalties using the configured reset score", () => {
+    const player = { ...createPlayer("Test"), score: 35 };
+    expect(applyPenalty(player, clubRules).score).toBe(20);
+  });
+
+  it("should not eliminate teams when elimination is turned off", () => {
+    let team = createTeam("Team", [createPlayer("A")]);
+    for (let i = 0; i < 5; i++) {
+      team = applyTeamScore(team, 0, undefined, clubRules);
+    }
+
+    expect(team.consecutiveMisses).toBe(5);
+    expect(team.eliminated).toBeFalsy();
+  });
+});
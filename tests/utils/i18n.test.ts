@@ -0,0 +1,187 @@
+/**
+ * Unit tests for translation, plural forms and locale-aware formatting
+ *
+ * @format
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  detectLocale,
+  formatDate,
+  formatDuration,
+  formatOrdinal,
+  formatPenaltyReason,
+  loadLocale,
+  saveLocale,
+  setCurrentLocale,
+  translate,
+} from "../../src/utils/i18n";
+import { en } from "../../src/utils/i18n/en";
+import { fi } from "../../src/utils/i18n/fi";
+import type { Message, MessageKey } from "../../src/utils/i18n";
+import { STORAGE_KEYS } from "../../src/utils/storage";
+import type { StorageService } from "../../src/utils/storage";
+import { validatePlayerName } from "../../src/utils/validation";
+import { getRoundName } from "../../src/utils/tournament";
+
+const createMemoryStorage = (): StorageService => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+    clear: () => data.clear(),
+  };
+};
+
+const placeholders = (message: Message): string[] => {
+  const texts =
+    typeof message === "string" ? [message] : Object.values(message);
+  return [
+    ...new Set(texts.flatMap((text) => text?.match(/\{\w+\}/g) ?? [])),
+  ].sort();
+};
+
+describe("translate", () => {
+  afterEach(() => setCurrentLocale("en"));
+
+  it("fills in placeholders", () => {
+    expect(translate("en", "gamePlay.turn", { name: "Aino" })).toBe(
+      "Aino's Turn"
+    );
+    expect(translate("fi", "gamePlay.turn", { name: "Aino" })).toBe(
+      "Vuorossa: Aino"
+    );
+  });
+
+  it("picks the plural form from the count", () => {
+    expect(translate("en", "winner.penaltyCount", { count: 1 })).toBe(
+      "1 penalty"
+    );
+    expect(translate("en", "winner.penaltyCount", { count: 3 })).toBe(
+      "3 penalties"
+    );
+    expect(translate("fi", "teams.playerCount", { count: 1 })).toBe(
+      "1 pelaaja"
+    );
+    expect(translate("fi", "teams.playerCount", { count: 4 })).toBe(
+      "4 pelaajaa"
+    );
+  });
+
+  it("leaves placeholders without a value in place", () => {
+    expect(
+      translate("en", "players.confirmRemovalMessage").split("{name}")
+    ).toEqual([
+      "Are you sure you want to remove ",
+      "? This action cannot be undone.",
+    ]);
+  });
+
+  it("gives Finnish every message with the same placeholders", () => {
+    (Object.keys(en) as MessageKey[]).forEach((key) => {
+      expect(placeholders(fi[key]), key).toEqual(placeholders(en[key]));
+    });
+  });
+
+  it("translates validation messages into the current locale", () => {
+    expect(validatePlayerName("").error).toBe(
+      "Player name cannot be empty. Please enter a valid name."
+    );
+
+    setCurrentLocale("fi");
+    expect(validatePlayerName("Aino", [{ name: "aino" }]).error).toBe(
+      'Pelaajan nimi "Aino" on jo käytössä. Valitse toinen nimi.'
+    );
+  });
+
+  it("translates messages built outside components", () => {
+    setCurrentLocale("fi");
+    expect(getRoundName(3, 4)).toBe("Välierät");
+    expect(getRoundName(1, 4)).toBe("Kierros 1");
+  });
+});
+
+describe("formatting", () => {
+  it("writes ordinals the way each language does", () => {
+    expect([1, 2, 3, 4, 11, 22].map((n) => formatOrdinal("en", n))).toEqual([
+      "1st",
+      "2nd",
+      "3rd",
+      "4th",
+      "11th",
+      "22nd",
+    ]);
+    expect(formatOrdinal("fi", 2)).toBe("2.");
+  });
+
+  it("formats durations in hours and minutes", () => {
+    expect(formatDuration("en", 45)).toBe("45m");
+    expect(formatDuration("en", 60)).toBe("1h");
+    expect(formatDuration("en", 95)).toBe("1h 35m");
+    expect(formatDuration("fi", 45)).toBe("45 min");
+    expect(formatDuration("fi", 95)).toBe("1 t 35 min");
+  });
+
+  it("formats dates with the locale's conventions", () => {
+    const date = new Date(2024, 5, 15, 14, 30);
+
+    expect(formatDate("en", date)).toContain("Jun 15, 2024");
+    expect(formatDate("fi", date)).toContain("15.");
+    expect(formatDate("fi", date)).toContain("2024");
+    expect(formatDate("fi", date)).not.toBe(formatDate("en", date));
+  });
+
+  it("translates the penalty reasons the game records", () => {
+    expect(formatPenaltyReason("fi", "Rule violation")).toBe("Sääntörikkomus");
+    expect(formatPenaltyReason("fi", "out-of-turn")).toBe(
+      "väärän vuoron heitto"
+    );
+    expect(formatPenaltyReason("fi", "elimination (3 misses)")).toBe(
+      "putoaminen (3 hutia)"
+    );
+    expect(formatPenaltyReason("en", "team elimination (1 misses)")).toBe(
+      "team elimination (1 miss)"
+    );
+    expect(formatPenaltyReason("en", undefined)).toBe("Score reset to 25");
+    expect(formatPenaltyReason("fi", "Heitti ohi vuoron")).toBe(
+      "Heitti ohi vuoron"
+    );
+  });
+});
+
+describe("language preference", () => {
+  it("prefers the first supported browser language", () => {
+    expect(detectLocale(["sv-SE", "fi-FI", "en-GB"])).toBe("fi");
+    expect(detectLocale(["en-GB", "fi"])).toBe("en");
+    expect(detectLocale(["de-DE"])).toBe("en");
+    expect(detectLocale([])).toBe("en");
+  });
+
+  it("remembers the chosen language over the browser's", () => {
+    const storage = createMemoryStorage();
+    expect(loadLocale(storage, ["fi-FI"])).toBe("fi");
+
+    expect(saveLocale("en", storage)).toBe(true);
+    expect(storage.getItem(STORAGE_KEYS.LOCALE)).toBe("en");
+    expect(loadLocale(storage, ["fi-FI"])).toBe("en");
+  });
+
+  it("ignores unknown saved values and storage errors", () => {
+    const storage = createMemoryStorage();
+    storage.setItem(STORAGE_KEYS.LOCALE, "sv");
+    expect(loadLocale(storage, ["fi"])).toBe("fi");
+
+    const broken: StorageService = {
+      ...storage,
+      getItem: () => {
+        throw new Error("denied");
+      },
+      setItem: () => {
+        throw new Error("denied");
+      },
+    };
+    expect(loadLocale(broken, ["en-US"])).toBe("en");
+    expect(saveLocale("fi", broken)).toBe(false);
+  });
+});
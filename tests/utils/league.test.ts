@@ -0,0 +1,227 @@
+/**
+ * Unit tests for round-robin league scheduling and standings
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  scheduleRoundRobin,
+  createLeague,
+  recordFixtureResult,
+  assignFixtureGame,
+  getNextLeagueFixture,
+  getLeagueProgress,
+  getFixtureParticipants,
+  createFixtureGame,
+  getEntrantScore,
+  computeLeagueStandings,
+} from "../../src/utils/league";
+import {
+  createPlayer,
+  createPenaltyRecord,
+  completeGame,
+} from "../../src/utils/gameStateUtils";
+import type { Game, League } from "../../src/utils/types";
+
+function entrants(names: string[]) {
+  return names.map((name) => {
+    const player = { ...createPlayer(name), id: name.toLowerCase() };
+    return { id: player.id, name: player.name, players: [player] };
+  });
+}
+
+/**
+ * Plays a fixture to completion with the given final scores
+ */
+function playFixture(
+  league: League,
+  first: string,
+  second: string,
+  scores: Record<string, number>,
+  penalties: string[] = []
+): { league: League; game: Game } {
+  const fixture = league.fixtures.find(
+    (f) => f.entrantIds.includes(first) && f.entrantIds.includes(second)
+  )!;
+  const participants = getFixtureParticipants(league, fixture);
+  const game = createFixtureGame(league, fixture, participants);
+  const players = game.players.map((p) => ({ ...p, score: scores[p.id] }));
+  const winner = players.reduce((best, p) => (p.score > best.score ? p : best));
+  const finished = completeGame(
+    {
+      ...game,
+      players,
+      penalties: penalties.map((id) => createPenaltyRecord(id, id)),
+    },
+    winner
+  );
+
+  let updated = assignFixtureGame(league, fixture.id, finished.id);
+  updated = recordFixtureResult(updated, fixture.id, winner.id);
+  return { league: updated, game: finished };
+}
+
+describe("scheduleRoundRobin", () => {
+  it("pairs every entrant with every other entrant once", () => {
+    const pairings = scheduleRoundRobin(["a", "b", "c", "d"]);
+    const keys = pairings.map((p) => [...p.entrantIds].sort().join("-"));
+
+    expect(pairings).toHaveLength(6);
+    expect(new Set(keys).size).toBe(6);
+    expect(new Set(pairings.map((p) => p.round))).toEqual(new Set([1, 2, 3]));
+  });
+
+  it("lets nobody play twice in a round", () => {
+    const pairings = scheduleRoundRobin(["a", "b", "c", "d", "e", "f"]);
+
+    for (let round = 1; round <= 5; round++) {
+      const ids = pairings
+        .filter((p) => p.round === round)
+        .flatMap((p) => p.entrantIds);
+      expect(new Set(ids).size).toBe(ids.length);
+    }
+  });
+
+  it("gives one entrant a rest each round in an odd field", () => {
+    const pairings = scheduleRoundRobin(["a", "b", "c"]);
+
+    expect(pairings).toHaveLength(3);
+    expect(pairings.flatMap((p) => p.entrantIds)).not.toContain(null);
+    expect(new Set(pairings.map((p) => p.round)).size).toBe(3);
+  });
+});
+
+describe("createLeague", () => {
+  it("creates unresolved fixtures for the roster", () => {
+    const league = createLeague("Tuesday", entrants(["Ann", "Ben", "Cat"]));
+
+    expect(league.fixtures).toHaveLength(3);
+    expect(getLeagueProgress(league)).toEqual({ played: 0, total: 3 });
+    expect(getNextLeagueFixture(league)).toBe(league.fixtures[0]);
+  });
+
+  it("links fixture games to the league", () => {
+    const league = createLeague("Tuesday", entrants(["Ann", "Ben"]));
+    const fixture = league.fixtures[0];
+    const game = createFixtureGame(
+      league,
+      fixture,
+      getFixtureParticipants(league, fixture)
+    );
+
+    expect(game.leagueId).toBe(league.id);
+    expect(game.leagueFixtureId).toBe(fixture.id);
+    expect(game.players.map((p) => p.id).sort()).toEqual(["ann", "ben"]);
+  });
+
+  it("ignores results for entrants outside the fixture", () => {
+    const league = createLeague("Tuesday", entrants(["Ann", "Ben", "Cat"]));
+    const fixture = league.fixtures.find((f) => !f.entrantIds.includes("cat"))!;
+
+    expect(recordFixtureResult(league, fixture.id, "cat")).toBe(league);
+  });
+});
+
+describe("getEntrantScore", () => {
+  it("reads the winner's final score from the winner", () => {
+    const league = createLeague("Tuesday", entrants(["Ann", "Ben"]));
+    const { game } = playFixture(league, "ann", "ben", { ann: 45, ben: 30 });
+
+    // The winning throw is only recorded on the winner itself
+    const stale = {
+      ...game,
+      players: game.players.map((p) => ({ ...p, score: 40 })),
+    };
+    expect(getEntrantScore(stale, "ann")).toBe(45);
+    expect(getEntrantScore(stale, "ben")).toBe(40);
+  });
+});
+
+describe("computeLeagueStandings", () => {
+  it("totals wins, losses, points and penalties", () => {
+    let league = createLeague("Tuesday", entrants(["Ann", "Ben", "Cat"]));
+    const games: Game[] = [];
+    let result = playFixture(league, "ann", "ben", { ann: 50, ben: 31 }, [
+      "ben",
+    ]);
+    league = result.league;
+    games.push(result.game);
+    result = playFixture(league, "ann", "cat", { ann: 50, cat: 44 });
+    league = result.league;
+    games.push(result.game);
+
+    const standings = computeLeagueStandings(league, games);
+
+    expect(standings.map((s) => s.entrantId)).toEqual(["ann", "cat", "ben"]);
+    expect(standings[0]).toMatchObject({
+      played: 2,
+      wins: 2,
+      losses: 0,
+      pointsFor: 100,
+      pointsAgainst: 75,
+      scoreDifference: 25,
+      penalties: 0,
+    });
+    expect(standings[2]).toMatchObject({ played: 1, losses: 1, penalties: 1 });
+  });
+
+  it("breaks ties by head-to-head before score difference", () => {
+    let league = createLeague(
+      "Tuesday",
+      entrants(["Ann", "Ben", "Cat", "Dan"])
+    );
+    const games: Game[] = [];
+    const play = (a: string, b: string, scores: Record<string, number>) => {
+      const result = playFixture(league, a, b, scores);
+      league = result.league;
+      games.push(result.game);
+    };
+
+    // Ann and Ben both win twice; Ben has the better difference but lost to Ann
+    play("ann", "ben", { ann: 50, ben: 48 });
+    play("ann", "cat", { ann: 10, cat: 50 });
+    play("ann", "dan", { ann: 50, dan: 49 });
+    play("ben", "cat", { ben: 50, cat: 0 });
+    play("ben", "dan", { ben: 50, dan: 0 });
+    play("cat", "dan", { cat: 0, dan: 50 });
+
+    const standings = computeLeagueStandings(league, games);
+    const ann = standings.find((s) => s.entrantId === "ann")!;
+    const ben = standings.find((s) => s.entrantId === "ben")!;
+
+    expect(ann.wins).toBe(ben.wins);
+    expect(ben.scoreDifference).toBeGreaterThan(ann.scoreDifference);
+    expect(standings.slice(0, 2).map((s) => s.entrantId)).toEqual([
+      "ann",
+      "ben",
+    ]);
+  });
+
+  it("falls back to score difference when head-to-head is level", () => {
+    let league = createLeague("Tuesday", entrants(["Ann", "Ben", "Cat"]));
+    const games: Game[] = [];
+    const play = (a: string, b: string, scores: Record<string, number>) => {
+      const result = playFixture(league, a, b, scores);
+      league = result.league;
+      games.push(result.game);
+    };
+
+    // Everyone wins once and beats one of the others
+    play("ann", "ben", { ann: 50, ben: 49 });
+    play("ben", "cat", { ben: 50, cat: 10 });
+    play("cat", "ann", { cat: 50, ann: 40 });
+
+    expect(
+      computeLeagueStandings(league, games).map((s) => s.entrantId)
+    ).toEqual(["ben", "ann", "cat"]);
+  });
+
+  it("ignores fixtures whose game is not available", () => {
+    let league = createLeague("Tuesday", entrants(["Ann", "Ben"]));
+    league = playFixture(league, "ann", "ben", { ann: 50, ben: 0 }).league;
+
+    const standings = computeLeagueStandings(league, []);
+    expect(standings.every((s) => s.played === 0)).toBe(true);
+  });
+});
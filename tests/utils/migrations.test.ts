@@ -0,0 +1,251 @@
+/**
+ * Unit tests for storage schema migrations
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  MigrationError,
+  createVersionedPayload,
+  isVersionedPayload,
+  migratePayload,
+} from "../../src/utils/storage";
+import type { Migration } from "../../src/utils/storage";
+
+function getMigration(version: number): Migration {
+  const migration = MIGRATIONS.find((m) => m.version === version);
+  if (!migration) throw new Error(`Missing migration ${version}`);
+  return migration;
+}
+
+// Shape saved by the earliest versions of the app
+const legacyPlayer = { id: "p1", name: "Alice", score: 30 };
+
+const legacyGame = {
+  id: "game1",
+  players: [legacyPlayer],
+  winner: null,
+  startTime: new Date("2023-01-01T10:00:00Z"),
+  endTime: null,
+  totalRounds: 4,
+  penalties: [],
+};
+
+const legacyAppState = {
+  gameState: "playing",
+  players: [legacyPlayer],
+  currentPlayerIndex: 0,
+  gameHistory: [{ ...legacyGame, id: "old" }],
+  currentGame: legacyGame,
+};
+
+describe("Storage Migrations", () => {
+  describe("migration list", () => {
+    it("should upgrade one version at a time up to the current version", () => {
+      expect(MIGRATIONS.map((m) => m.version)).toEqual(
+        Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, i) => i + 1)
+      );
+    });
+  });
+
+  describe("version 1: player counters", () => {
+    const migration = getMigration(1);
+
+    it("should add missing player counters", () => {
+      const game = migration.migrateGame(legacyGame);
+
+      expect(game.players[0]).toEqual({
+        id: "p1",
+        name: "Alice",
+        score: 30,
+        penalties: 0,
+        isActive: true,
+        consecutiveMisses: 0,
+        eliminated: false,
+      });
+    });
+
+    it("should keep existing player counters", () => {
+      const game = migration.migrateGame({
+        ...legacyGame,
+        players: [
+          { ...legacyPlayer, consecutiveMisses: 2, eliminated: true, isActive: false },
+        ],
+      });
+
+      expect(game.players[0].consecutiveMisses).toBe(2);
+      expect(game.players[0].eliminated).toBe(true);
+      expect(game.players[0].isActive).toBe(false);
+    });
+
+    it("should default missing game fields", () => {
+      const bare: Record<string, unknown> = { ...legacyGame };
+      delete bare.penalties;
+      delete bare.totalRounds;
+      delete bare.endTime;
+      const game = migration.migrateGame(bare);
+
+      expect(game.penalties).toEqual([]);
+      expect(game.totalRounds).toBe(0);
+      expect(game.endTime).toBeNull();
+    });
+
+    it("should migrate players in the app state and its games", () => {
+      const state = migration.migrateAppState(legacyAppState);
+
+      expect(state.players[0].consecutiveMisses).toBe(0);
+      expect(state.currentGame.players[0].eliminated).toBe(false);
+      expect(state.gameHistory[0].players[0].penalties).toBe(0);
+    });
+
+    it("should reject players without an id", () => {
+      expect(() =>
+        migration.migrateGame({ ...legacyGame, players: [{ name: "Bob" }] })
+      ).toThrow(MigrationError);
+    });
+
+    it("should reject app states whose players are not an array", () => {
+      expect(() =>
+        migration.migrateAppState({ ...legacyAppState, players: "Alice" })
+      ).toThrow(MigrationError);
+    });
+  });
+
+  describe("version 2: game mode and teams", () => {
+    const migration = getMigration(2);
+
+    it("should default to individual mode when there are no teams", () => {
+      const game = migration.migrateGame(legacyGame);
+      expect(game.gameMode).toBe("individual");
+      expect(game.teams).toBeUndefined();
+    });
+
+    it("should infer team mode and add team counters", () => {
+      const game = migration.migrateGame({
+        ...legacyGame,
+        teams: [{ id: "t1", name: "Team A", players: [legacyPlayer], score: 12 }],
+      });
+
+      expect(game.gameMode).toBe("team");
+      expect(game.teams[0]).toMatchObject({
+        score: 12,
+        penalties: 0,
+        isActive: true,
+        consecutiveMisses: 0,
+        eliminated: false,
+        currentPlayerIndex: 0,
+      });
+      expect(game.teams[0].players[0].consecutiveMisses).toBe(0);
+    });
+
+    it("should keep an explicit game mode", () => {
+      const game = migration.migrateGame({ ...legacyGame, gameMode: "team" });
+      expect(game.gameMode).toBe("team");
+    });
+
+    it("should add mode, teams and team index to the app state", () => {
+      const state = migration.migrateAppState(legacyAppState);
+
+      expect(state.gameMode).toBe("individual");
+      expect(state.teams).toEqual([]);
+      expect(state.currentTeamIndex).toBe(0);
+      expect(state.currentGame.gameMode).toBe("individual");
+    });
+  });
+
+  describe("version 3: throw log", () => {
+    const migration = getMigration(3);
+
+    it("should add an empty throw log to games", () => {
+      expect(migration.migrateGame(legacyGame).throws).toEqual([]);
+    });
+
+    it("should keep an existing throw log", () => {
+      const throws = [{ id: "throw1" }];
+      expect(migration.migrateGame({ ...legacyGame, throws }).throws).toBe(
+        throws
+      );
+    });
+
+    it("should add an empty undo stack to the app state", () => {
+      const state = migration.migrateAppState(legacyAppState);
+
+      expect(state.undoneThrows).toEqual([]);
+      expect(state.gameHistory[0].throws).toEqual([]);
+    });
+  });
+
+  describe("migratePayload", () => {
+    it("should treat unversioned data as version 0 and fully migrate it", () => {
+      const state = migratePayload("appState", legacyAppState);
+
+      expect(state.players[0].consecutiveMisses).toBe(0);
+      expect(state.gameMode).toBe("individual");
+      expect(state.undoneThrows).toEqual([]);
+      expect(state.currentGame.throws).toEqual([]);
+    });
+
+    it("should only run migrations newer than the stored version", () => {
+      const state = migratePayload("appState", {
+        schemaVersion: 2,
+        data: { ...legacyAppState, gameMode: "team" },
+      });
+
+      // Version 1 was skipped, so player counters were not added
+      expect(state.players[0].consecutiveMisses).toBeUndefined();
+      expect(state.undoneThrows).toEqual([]);
+    });
+
+    it("should return current version data unchanged", () => {
+      const data = { ...legacyAppState };
+      expect(migratePayload("appState", createVersionedPayload(data))).toBe(
+        data
+      );
+    });
+
+    it("should migrate every game in a history", () => {
+      const history = migratePayload("gameHistory", [legacyGame, legacyGame]);
+
+      expect(history).toHaveLength(2);
+      expect(history[1].gameMode).toBe("individual");
+    });
+
+    it("should reject a history that is not an array", () => {
+      expect(() => migratePayload("gameHistory", { games: [] })).toThrow(
+        MigrationError
+      );
+    });
+
+    it("should reject data from a newer schema version", () => {
+      expect(() =>
+        migratePayload("game", {
+          schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+          data: legacyGame,
+        })
+      ).toThrow(MigrationError);
+    });
+
+    it("should reject invalid schema versions", () => {
+      expect(() =>
+        migratePayload("game", { schemaVersion: -1, data: legacyGame })
+      ).toThrow(MigrationError);
+    });
+
+    it("should leave payloads without migrations untouched", () => {
+      const data = [{ key: "x" }];
+      expect(migratePayload(null, data)).toBe(data);
+    });
+  });
+
+  describe("isVersionedPayload", () => {
+    it("should recognise versioned envelopes", () => {
+      expect(isVersionedPayload(createVersionedPayload([]))).toBe(true);
+      expect(isVersionedPayload(legacyAppState)).toBe(false);
+      expect(isVersionedPayload([])).toBe(false);
+      expect(isVersionedPayload(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for pin field layout tracking
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  STARTING_LAYOUT,
+  getCurrentLayout,
+  getLayoutSpread,
+  getRecordedLayouts,
+  getStartingLayout,
+  movePin,
+} from "../../src/utils/pinField";
+import {
+  createGame,
+  createPlayer,
+  createThrowEvent,
+} from "../../src/utils/gameStateUtils";
+import type { PinPosition, ThrowEvent } from "../../src/utils/types";
+
+function throwWith(layout?: PinPosition[]): ThrowEvent {
+  return createThrowEvent({
+    type: "score",
+    playerId: "p1",
+    playerName: "Ann",
+    score: 0,
+    resultingScore: 0,
+    scoreReset: false,
+    eliminated: false,
+    layout,
+  });
+}
+
+describe("getStartingLayout", () => {
+  it("places all twelve pins once", () => {
+    const layout = getStartingLayout();
+
+    expect(layout.map((p) => p.pin).sort((a, b) => a - b)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+    ]);
+    expect(layout).not.toBe(STARTING_LAYOUT);
+  });
+});
+
+describe("movePin", () => {
+  it("moves only the given pin and keeps it on the field", () => {
+    const layout = movePin(getStartingLayout(), 5, -0.2, 1.4);
+
+    expect(layout.find((p) => p.pin === 5)).toEqual({ pin: 5, x: 0, y: 1 });
+    expect(layout.filter((p) => p.pin !== 5)).toEqual(
+      STARTING_LAYOUT.filter((p) => p.pin !== 5)
+    );
+  });
+});
+
+describe("getCurrentLayout", () => {
+  it("starts from the standard formation", () => {
+    expect(getCurrentLayout(null)).toEqual(STARTING_LAYOUT);
+  });
+
+  it("follows the latest throw that recorded the field", () => {
+    const moved = movePin(getStartingLayout(), 1, 0.5, 0.8);
+    const game = {
+      ...createGame([createPlayer("Ann")]),
+      throws: [throwWith(getStartingLayout()), throwWith(moved), throwWith()],
+    };
+
+    expect(getRecordedLayouts(game)).toHaveLength(2);
+    expect(getCurrentLayout(game)).toEqual(moved);
+  });
+});
+
+describe("getLayoutSpread", () => {
+  it("grows as pins scatter", () => {
+    const start = getLayoutSpread(getStartingLayout());
+    const scattered = getLayoutSpread(
+      movePin(movePin(getStartingLayout(), 1, 0.1, 0.9), 8, 0.9, 0.1)
+    );
+
+    expect(start).toBeGreaterThan(0.05);
+    expect(start).toBeLessThan(0.1);
+    expect(scattered).toBeGreaterThan(start);
+    expect(getLayoutSpread([])).toBe(0);
+  });
+});
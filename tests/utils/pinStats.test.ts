@@ -0,0 +1,159 @@
+/**
+ * Unit tests for pin statistics
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  computePinStats,
+  getHitRates,
+  getThrowPins,
+} from "../../src/utils/pinStats";
+import { DEFAULT_HIT_RATES } from "../../src/utils/gameLogic";
+import {
+  createGame,
+  createPlayer,
+  createTeam,
+  createThrowEvent,
+} from "../../src/utils/gameStateUtils";
+import {
+  createPlayerFromProfile,
+  createPlayerProfile,
+} from "../../src/utils/roster";
+import type { Game, Player, ThrowEvent } from "../../src/utils/types";
+
+function throwBy(
+  player: Player,
+  score: number,
+  pins?: number[],
+  type: ThrowEvent["type"] = "score"
+): ThrowEvent {
+  return createThrowEvent({
+    type,
+    playerId: player.id,
+    playerName: player.name,
+    score,
+    scoringType: pins ? (pins.length === 1 ? "single" : "multiple") : "single",
+    pins,
+    resultingScore: score,
+    scoreReset: false,
+    eliminated: false,
+  });
+}
+
+function withThrows(players: Player[], throws: ThrowEvent[]): Game {
+  return { ...createGame(players), throws };
+}
+
+describe("getThrowPins", () => {
+  it("falls back to the score for throws logged without pins", () => {
+    const player = createPlayer("Ann");
+
+    expect(getThrowPins(throwBy(player, 7))).toEqual([7]);
+    expect(getThrowPins(throwBy(player, 0))).toEqual([]);
+    expect(
+      getThrowPins({ ...throwBy(player, 3), scoringType: "multiple" })
+    ).toBeNull();
+    expect(getThrowPins(throwBy(player, 2, [4, 11]))).toEqual([4, 11]);
+  });
+});
+
+describe("computePinStats", () => {
+  it("counts single pins, multi-pin throws and misses per player", () => {
+    const ann = createPlayer("Ann");
+    const ben = createPlayer("Ben");
+    const game = withThrows(
+      [ann, ben],
+      [
+        throwBy(ann, 12, [12]),
+        throwBy(ben, 0, []),
+        throwBy(ann, 3, [1, 2, 3]),
+        throwBy(ben, 5, [5]),
+        throwBy(ann, 0, []),
+        throwBy(ben, 0, [], "penalty"),
+        throwBy(ann, 2, [6, 7]),
+        throwBy(ann, 12, [12]),
+      ]
+    );
+
+    const [annStats, benStats] = computePinStats([game]);
+
+    expect(annStats).toMatchObject({
+      name: "Ann",
+      throws: 5,
+      misses: 1,
+      missRate: 20,
+      multiPinThrows: 2,
+      averagePinsPerMultiPinThrow: 2.5,
+    });
+    expect(annStats.singlePinHits[11]).toBe(2);
+    expect(annStats.singlePinHits.reduce((a, b) => a + b, 0)).toBe(2);
+    expect(benStats).toMatchObject({ throws: 2, misses: 1, missRate: 50 });
+    expect(benStats.singlePinHits[4]).toBe(1);
+  });
+
+  it("uses the score for multi-pin throws logged without pins", () => {
+    const ann = createPlayer("Ann");
+    const game = withThrows(
+      [ann],
+      [{ ...throwBy(ann, 4), scoringType: "multiple" }]
+    );
+
+    expect(computePinStats([game])[0].averagePinsPerMultiPinThrow).toBe(4);
+  });
+
+  it("credits team throws to the thrower", () => {
+    const ann = createPlayer("Ann");
+    const team = createTeam("Red", [ann]);
+    const game = {
+      ...createGame(team.players, "team", [team]),
+      throws: [{ ...throwBy(team.players[0], 8, [8]), teamId: team.id }],
+    };
+
+    const [stats] = computePinStats([game]);
+
+    expect(stats.name).toBe("Ann");
+    expect(stats.singlePinHits[7]).toBe(1);
+  });
+
+  it("combines a profile's games under its current name", () => {
+    const profile = createPlayerProfile("Ann");
+    const games = [
+      withThrows([createPlayerFromProfile(profile)], []),
+      withThrows([createPlayerFromProfile(profile)], []),
+    ].map((game) => ({
+      ...game,
+      throws: [throwBy(game.players[0], 9, [9])],
+    }));
+
+    const stats = computePinStats(games, [{ ...profile, name: "Anna" }]);
+
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({
+      key: profile.id,
+      name: "Anna",
+      throws: 2,
+    });
+  });
+});
+
+describe("getHitRates", () => {
+  it("uses the defaults for players without throws", () => {
+    expect(getHitRates(undefined)).toEqual(DEFAULT_HIT_RATES);
+  });
+
+  it("moves towards the player's record as throws build up", () => {
+    const ann = createPlayer("Ann");
+    const throws = [
+      ...Array.from({ length: 15 }, () => throwBy(ann, 5, [5])),
+      ...Array.from({ length: 5 }, () => throwBy(ann, 4, [1, 2, 3, 4])),
+    ];
+    const [stats] = computePinStats([withThrows([ann], throws)]);
+
+    const rates = getHitRates(stats);
+    expect(rates.singlePin).toBeCloseTo((15 + 5 * 0.5) / 25);
+    expect(rates.multiplePins).toBeCloseTo((5 + 5 * 0.6) / 25);
+    expect(rates.averagePins).toBe(4);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for Elo skill ratings
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  HANDICAP_RATING_POINTS,
+  INITIAL_RATING,
+  RATING_K_FACTOR,
+  computeRatingChanges,
+  computeRatings,
+  getExpectedScore,
+  getFinishingOrder,
+} from "../../src/utils/rating";
+import {
+  completeGame,
+  createGame,
+  createPlayer,
+  createTeam,
+} from "../../src/utils/gameStateUtils";
+import {
+  createPlayerFromProfile,
+  createPlayerProfile,
+} from "../../src/utils/roster";
+import type { Game, Player } from "../../src/utils/types";
+
+/**
+ * Builds a finished individual game; the first player listed wins
+ */
+function playGame(
+  players: Player[],
+  scores: number[],
+  endTime: string,
+  eliminated: boolean[] = []
+): Game {
+  const finalPlayers = players.map((player, i) => ({
+    ...player,
+    score: scores[i],
+    eliminated: eliminated[i] ?? false,
+  }));
+  const game = completeGame(createGame(finalPlayers), finalPlayers[0]);
+  return { ...game, endTime: new Date(endTime) };
+}
+
+describe("getFinishingOrder", () => {
+  it("ranks the winner first, then by score with eliminated players last", () => {
+    const [ann, ben, cat, dan] = ["Ann", "Ben", "Cat", "Dan"].map((name) =>
+      createPlayer(name)
+    );
+    const game = playGame(
+      [ann, ben, cat, dan],
+      [50, 30, 42, 30],
+      "2024-01-01T10:00:00Z",
+      [false, false, true, false]
+    );
+
+    const order = getFinishingOrder(game);
+
+    expect(order.map((side) => side.players[0].name)).toEqual([
+      "Ann",
+      "Ben",
+      "Dan",
+      "Cat",
+    ]);
+    expect(order.map((side) => side.rank)).toEqual([1, 2, 2, 4]);
+  });
+
+  it("ranks teams in team games", () => {
+    const red = createTeam("Red", [createPlayer("Ann"), createPlayer("Ben")]);
+    const blue = { ...createTeam("Blue", [createPlayer("Cat")]), score: 40 };
+    const game = {
+      ...createGame([...red.players, ...blue.players], "team", [red, blue]),
+      winningTeam: { ...red, score: 50 },
+      endTime: new Date(),
+    };
+
+    const order = getFinishingOrder(game);
+
+    expect(order.map((side) => side.players.length)).toEqual([2, 1]);
+    expect(order[0].rank).toBe(1);
+  });
+});
+
+describe("computeRatingChanges", () => {
+  it("is zero-sum between equally rated players", () => {
+    const changes = computeRatingChanges([1500, 1500, 1500], [1, 2, 3]);
+
+    expect(changes[0]).toBeCloseTo(RATING_K_FACTOR / 2);
+    expect(changes[1]).toBeCloseTo(0);
+    expect(changes[2]).toBeCloseTo(-RATING_K_FACTOR / 2);
+    expect(changes.reduce((a, b) => a + b, 0)).toBeCloseTo(0);
+  });
+
+  it("rewards upsets more than expected wins", () => {
+    const [underdog] = computeRatingChanges([1400, 1600], [1, 2]);
+    const [favourite] = computeRatingChanges([1600, 1400], [1, 2]);
+
+    expect(getExpectedScore(1600, 1400)).toBeGreaterThan(0.5);
+    expect(underdog).toBeGreaterThan(favourite);
+  });
+});
+
+describe("computeRatings", () => {
+  it("is the same whatever order history is stored in", () => {
+    const [ann, ben, cat] = ["Ann", "Ben", "Cat"].map((name) =>
+      createPlayer(name)
+    );
+    const games = [
+      playGame([ann, ben, cat], [50, 20, 10], "2024-01-01T10:00:00Z"),
+      playGame([cat, ann, ben], [50, 40, 10], "2024-01-02T10:00:00Z"),
+      playGame([ben, cat, ann], [50, 45, 0], "2024-01-03T10:00:00Z"),
+    ];
+
+    const forwards = computeRatings(games);
+    const backwards = computeRatings([...games].reverse());
+
+    expect(backwards).toEqual(forwards);
+    expect(forwards.find((r) => r.name === "Ann")!.history).toHaveLength(3);
+  });
+
+  it("records each game's rating change in order", () => {
+    const [ann, ben] = ["Ann", "Ben"].map((name) => createPlayer(name));
+    const first = playGame([ann, ben], [50, 10], "2024-01-01T10:00:00Z");
+    const second = playGame([ben, ann], [50, 10], "2024-01-02T10:00:00Z");
+
+    const annRating = computeRatings([first, second]).find(
+      (r) => r.name === "Ann"
+    )!;
+
+    expect(annRating.gamesRated).toBe(2);
+    expect(annRating.history.map((h) => h.gameId)).toEqual([
+      first.id,
+      second.id,
+    ]);
+    expect(annRating.history[0].before).toBe(INITIAL_RATING);
+    expect(annRating.history[1].before).toBe(annRating.history[0].after);
+    expect(annRating.rating).toBe(annRating.history[1].after);
+    expect(annRating.history.map((h) => h.rank)).toEqual([1, 2]);
+  });
+
+  it("skips unfinished games", () => {
+    const game = createGame([createPlayer("Ann"), createPlayer("Ben")]);
+
+    expect(computeRatings([game])).toEqual([]);
+  });
+
+  it("gives every team member the team's rating change", () => {
+    const red = createTeam("Red", [createPlayer("Ann"), createPlayer("Ben")]);
+    const blue = createTeam("Blue", [createPlayer("Cat"), createPlayer("Dan")]);
+    const game = {
+      ...createGame([...red.players, ...blue.players], "team", [red, blue]),
+      winningTeam: { ...red, score: 50 },
+      endTime: new Date("2024-01-01T10:00:00Z"),
+    };
+
+    const ratings = computeRatings([game]);
+    const byName = Object.fromEntries(ratings.map((r) => [r.name, r.rating]));
+
+    expect(byName.Ann).toBeCloseTo(INITIAL_RATING + RATING_K_FACTOR / 2);
+    expect(byName.Ben).toBe(byName.Ann);
+    expect(byName.Cat).toBeCloseTo(INITIAL_RATING - RATING_K_FACTOR / 2);
+    expect(byName.Dan).toBe(byName.Cat);
+  });
+
+  it("judges results against the head start each side was given", () => {
+    const [ann, ben] = ["Ann", "Ben"].map((name) => createPlayer(name));
+    const level = playGame([ann, ben], [50, 10], "2024-01-01T10:00:00Z");
+    const handicapped = playGame(
+      [{ ...ann, handicap: 20 }, ben],
+      [50, 10],
+      "2024-01-01T10:00:00Z"
+    );
+
+    const levelGain = computeRatings([level]).find((r) => r.name === "Ann")!;
+    const handicapGain = computeRatings([handicapped]).find(
+      (r) => r.name === "Ann"
+    )!;
+
+    expect(getFinishingOrder(handicapped)[0].handicap).toBe(20);
+    expect(handicapGain.rating).toBeCloseTo(
+      INITIAL_RATING +
+        RATING_K_FACTOR *
+          (1 -
+            getExpectedScore(
+              INITIAL_RATING + 20 * HANDICAP_RATING_POINTS,
+              INITIAL_RATING
+            ))
+    );
+    expect(handicapGain.rating).toBeLessThan(levelGain.rating);
+  });
+
+  it("keeps one rating per profile across renames", () => {
+    const profile = createPlayerProfile("Ann");
+    const ann = createPlayerFromProfile(profile);
+    const renamed = { ...createPlayerFromProfile(profile), name: "Anna" };
+    const ben = createPlayer("Ben");
+    const games = [
+      playGame([ann, ben], [50, 10], "2024-01-01T10:00:00Z"),
+      playGame([renamed, ben], [50, 10], "2024-01-02T10:00:00Z"),
+    ];
+
+    const ratings = computeRatings(games, [{ ...profile, name: "Annika" }]);
+
+    expect(ratings).toHaveLength(2);
+    expect(ratings[0]).toMatchObject({ key: profile.id, name: "Annika" });
+    expect(ratings[0].gamesRated).toBe(2);
+  });
+});
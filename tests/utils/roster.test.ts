@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the saved player roster
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createPlayerProfile,
+  createPlayerFromProfile,
+  findProfileByName,
+  getDisplayName,
+  getProfilePlayers,
+  linkGamesToRoster,
+  renameProfilePlayers,
+} from "../../src/utils/roster";
+import {
+  createGame,
+  createPlayer,
+  createTeam,
+} from "../../src/utils/gameStateUtils";
+
+describe("createPlayerFromProfile", () => {
+  it("creates a fresh player that references the profile", () => {
+    const profile = createPlayerProfile("  Alice ");
+    const player = createPlayerFromProfile(profile);
+
+    expect(profile.name).toBe("Alice");
+    expect(player).toMatchObject({ name: "Alice", score: 0, penalties: 0 });
+    expect(player.profileId).toBe(profile.id);
+    expect(player.id).not.toBe(profile.id);
+  });
+});
+
+describe("findProfileByName", () => {
+  it("matches names case-insensitively", () => {
+    const roster = [createPlayerProfile("Alice"), createPlayerProfile("Bob")];
+
+    expect(findProfileByName(roster, " alice")).toBe(roster[0]);
+    expect(findProfileByName(roster, "Cara")).toBeUndefined();
+  });
+});
+
+describe("getDisplayName", () => {
+  it("follows the profile's current name", () => {
+    const profile = createPlayerProfile("Alice");
+    const player = createPlayerFromProfile(profile);
+    const roster = [{ ...profile, name: "Alicia" }];
+
+    expect(getDisplayName(player, roster)).toBe("Alicia");
+    expect(getDisplayName(player, [])).toBe("Alice");
+    expect(getDisplayName(createPlayer("Bob"), roster)).toBe("Bob");
+  });
+});
+
+describe("linkGamesToRoster", () => {
+  it("links unlinked players, teams and winners by name", () => {
+    const profile = createPlayerProfile("Alice");
+    const alice = createPlayer("Alice");
+    const bob = createPlayer("Bob");
+    const team = createTeam("Red", [alice]);
+    const game = {
+      ...createGame([alice, bob], "team", [team, createTeam("Blue", [bob])]),
+      winner: alice,
+      winningTeam: team,
+    };
+
+    const [linked] = linkGamesToRoster([game], [profile]);
+
+    expect(linked.players.map((p) => p.profileId)).toEqual([
+      profile.id,
+      undefined,
+    ]);
+    expect(linked.teams![0].players[0].profileId).toBe(profile.id);
+    expect(linked.winner?.profileId).toBe(profile.id);
+    expect(linked.winningTeam?.players[0].profileId).toBe(profile.id);
+    expect(getProfilePlayers(linked, profile.id)).toHaveLength(2);
+  });
+
+  it("leaves players already linked to another profile alone", () => {
+    const other = createPlayerProfile("Alice");
+    const player = createPlayerFromProfile(other);
+    const game = createGame([player, createPlayer("Bob")]);
+
+    const [linked] = linkGamesToRoster([game], [createPlayerProfile("Alice")]);
+
+    expect(linked.players[0].profileId).toBe(other.id);
+  });
+});
+
+describe("renameProfilePlayers", () => {
+  it("renames only the players linked to the profile", () => {
+    const profile = createPlayerProfile("Alice");
+    const players = [createPlayerFromProfile(profile), createPlayer("Alice")];
+
+    const renamed = renameProfilePlayers(players, profile.id, "Alicia");
+
+    expect(renamed.map((p) => p.name)).toEqual(["Alicia", "Alice"]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for hash routes
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  formatRoute,
+  getScreenRoute,
+  isHistoryRoute,
+  parseRoute,
+} from "../../src/utils/router";
+import type { Route } from "../../src/utils/router";
+
+describe("parseRoute", () => {
+  it("reads every route back from its fragment", () => {
+    const routes: Route[] = [
+      { name: "setup" },
+      { name: "play" },
+      { name: "results" },
+      { name: "history" },
+      { name: "historyGame", gameId: "game 1/2" },
+    ];
+
+    routes.forEach((route) => {
+      expect(parseRoute(formatRoute(route))).toEqual(route);
+    });
+    expect(formatRoute({ name: "historyGame", gameId: "abc" })).toBe(
+      "#/history/abc"
+    );
+  });
+
+  it("ignores fragments that are not routes", () => {
+    expect(parseRoute("")).toBeNull();
+    expect(parseRoute("#game=abc.123")).toBeNull();
+    expect(parseRoute("#/scores")).toBeNull();
+    expect(parseRoute("#/play/1")).toBeNull();
+    expect(parseRoute("#/history/1/2")).toBeNull();
+    expect(parseRoute("#/history/%E0%A4%A")).toBeNull();
+  });
+});
+
+describe("getScreenRoute", () => {
+  it("shows each game state on its own screen", () => {
+    expect(getScreenRoute("setup")).toEqual({ name: "setup" });
+    expect(getScreenRoute("playing")).toEqual({ name: "play" });
+    expect(getScreenRoute("finished")).toEqual({ name: "results" });
+    expect(isHistoryRoute({ name: "historyGame", gameId: "1" })).toBe(true);
+    expect(isHistoryRoute({ name: "play" })).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Unit tests for parsing spoken and typed score commands
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseFirstScoreCommand,
+  parseScoreCommand,
+} from "../../src/utils/scoreCommand";
+
+const single = (pin: number) => ({
+  type: "throw",
+  score: pin,
+  scoringType: "single",
+  pins: [pin],
+});
+
+const count = (pins: number) => ({
+  type: "throw",
+  score: pins,
+  scoringType: "multiple",
+});
+
+const pinList = (...pins: number[]) => ({
+  type: "throw",
+  score: pins.length,
+  scoringType: "multiple",
+  pins,
+});
+
+describe("parseScoreCommand", () => {
+  describe("single pins", () => {
+    it.each([
+      ["one", 1],
+      ["two", 2],
+      ["three", 3],
+      ["four", 4],
+      ["five", 5],
+      ["six", 6],
+      ["seven", 7],
+      ["eight", 8],
+      ["nine", 9],
+      ["ten", 10],
+      ["eleven", 11],
+      ["twelve", 12],
+    ])("reads the English word %s", (text, pin) => {
+      expect(parseScoreCommand(text)).toEqual(single(pin));
+    });
+
+    it.each([
+      ["yksi", 1],
+      ["kaksi", 2],
+      ["kolme", 3],
+      ["neljä", 4],
+      ["viisi", 5],
+      ["kuusi", 6],
+      ["seitsemän", 7],
+      ["kahdeksan", 8],
+      ["yhdeksän", 9],
+      ["kymmenen", 10],
+      ["yksitoista", 11],
+      ["kaksitoista", 12],
+    ])("reads the Finnish word %s", (text, pin) => {
+      expect(parseScoreCommand(text)).toEqual(single(pin));
+    });
+
+    it.each([
+      ["yks", 1],
+      ["kaks", 2],
+      ["viis", 5],
+      ["kuus", 6],
+      ["seittemän", 7],
+      ["kaheksan", 8],
+      ["yheksän", 9],
+      ["ykstoista", 11],
+      ["kakstoista", 12],
+    ])("reads the spoken Finnish form %s", (text, pin) => {
+      expect(parseScoreCommand(text)).toEqual(single(pin));
+    });
+
+    it.each([
+      ["ykkönen", 1],
+      ["kakkonen", 2],
+      ["kolmonen", 3],
+      ["nelonen", 4],
+      ["vitonen", 5],
+      ["kutonen", 6],
+      ["seiska", 7],
+      ["kasi", 8],
+      ["ysi", 9],
+      ["kymppi", 10],
+    ])("reads the Finnish pin name %s", (text, pin) => {
+      expect(parseScoreCommand(text)).toEqual(single(pin));
+    });
+
+    it("reads digits", () => {
+      expect(parseScoreCommand("7")).toEqual(single(7));
+      expect(parseScoreCommand("12")).toEqual(single(12));
+    });
+
+    it("reads words speech recognition hears in place of numbers", () => {
+      expect(parseScoreCommand("to")).toEqual(single(2));
+      expect(parseScoreCommand("for")).toEqual(single(4));
+      expect(parseScoreCommand("ate")).toEqual(single(8));
+    });
+
+    it("reads a pin word before the number", () => {
+      expect(parseScoreCommand("pin seven")).toEqual(single(7));
+      expect(parseScoreCommand("keila seitsemän")).toEqual(single(7));
+    });
+
+    it("reads a number of points", () => {
+      expect(parseScoreCommand("seven points")).toEqual(single(7));
+      expect(parseScoreCommand("seitsemän pistettä")).toEqual(single(7));
+    });
+
+    it("ignores case, punctuation, spacing and filler words", () => {
+      expect(parseScoreCommand("  Seven! ")).toEqual(single(7));
+      expect(parseScoreCommand("SEITSEMÄN.")).toEqual(single(7));
+      expect(parseScoreCommand("the seven, please")).toEqual(single(7));
+    });
+
+    it("reads Finnish letters written in decomposed form", () => {
+      expect(parseScoreCommand("seitsema\u0308n")).toEqual(single(7));
+    });
+
+    it("rejects numbers that are not pins", () => {
+      expect(parseScoreCommand("13")).toBeNull();
+      expect(parseScoreCommand("pin 20")).toBeNull();
+    });
+  });
+
+  describe("numbers of pins", () => {
+    it("reads a count of pins as a multiple-pin throw", () => {
+      expect(parseScoreCommand("three pins")).toEqual(count(3));
+      expect(parseScoreCommand("3 pins")).toEqual(count(3));
+      expect(parseScoreCommand("twelve pins")).toEqual(count(12));
+      expect(parseScoreCommand("five skittles")).toEqual(count(5));
+    });
+
+    it("reads a count of pins in Finnish", () => {
+      expect(parseScoreCommand("kolme keilaa")).toEqual(count(3));
+      expect(parseScoreCommand("kaks keilaa")).toEqual(count(2));
+    });
+
+    it("leaves out which pins fell", () => {
+      expect(parseScoreCommand("three pins")).not.toHaveProperty("pins");
+    });
+
+    it("rejects one pin, which does not say which pin fell", () => {
+      expect(parseScoreCommand("one pin")).toBeNull();
+      expect(parseScoreCommand("yksi keila")).toBeNull();
+    });
+
+    it("rejects more pins than there are", () => {
+      expect(parseScoreCommand("thirteen pins")).toBeNull();
+      expect(parseScoreCommand("13 pins")).toBeNull();
+    });
+  });
+
+  describe("lists of pins", () => {
+    it("reads several pins as a multiple-pin throw", () => {
+      expect(parseScoreCommand("three and seven")).toEqual(pinList(3, 7));
+      expect(parseScoreCommand("kolme ja seitsemän")).toEqual(pinList(3, 7));
+      expect(parseScoreCommand("pins 1, 5, 12")).toEqual(pinList(1, 5, 12));
+      expect(parseScoreCommand("keilat neljä ja kasi")).toEqual(pinList(4, 8));
+    });
+
+    it("sorts the pins", () => {
+      expect(parseScoreCommand("nine and two")).toEqual(pinList(2, 9));
+    });
+
+    it("rejects a pin named twice", () => {
+      expect(parseScoreCommand("seven and seven")).toBeNull();
+      expect(parseScoreCommand("seitsemän ja seiska")).toBeNull();
+    });
+
+    it("rejects numbers that are not pins", () => {
+      expect(parseScoreCommand("zero and three")).toBeNull();
+      expect(parseScoreCommand("3 and 14")).toBeNull();
+    });
+
+    it("rejects points with several numbers", () => {
+      expect(parseScoreCommand("three and seven points")).toBeNull();
+    });
+  });
+
+  describe("misses", () => {
+    it.each([
+      "miss",
+      "missed",
+      "nothing",
+      "none",
+      "zero",
+      "0",
+      "zero pins",
+      "huti",
+      "ohi",
+      "nolla",
+      "nolla keilaa",
+    ])("reads %s as a miss", (text) => {
+      expect(parseScoreCommand(text)).toEqual({ type: "miss" });
+    });
+
+    it("ignores punctuation and filler words", () => {
+      expect(parseScoreCommand("Miss!")).toEqual({ type: "miss" });
+      expect(parseScoreCommand("missed it")).toEqual({ type: "miss" });
+    });
+  });
+
+  describe("penalties", () => {
+    it.each(["penalty", "foul", "rangaistus", "virhe", "Penalty."])(
+      "reads %s as a penalty",
+      (text) => {
+        expect(parseScoreCommand(text)).toEqual({ type: "penalty" });
+      }
+    );
+  });
+
+  describe("undo", () => {
+    it.each([
+      "undo",
+      "undo that",
+      "undo last throw",
+      "peru",
+      "peruuta",
+      "kumoa",
+      "peru heitto",
+    ])("reads %s as undo", (text) => {
+      expect(parseScoreCommand(text)).toEqual({ type: "undo" });
+    });
+  });
+
+  describe("phrases that are not understood", () => {
+    it.each([
+      "",
+      "   ",
+      "?!",
+      "hello",
+      "seven hello",
+      "miss penalty",
+      "undo seven",
+      "miss three",
+      "pin",
+      "and",
+      "the",
+    ])("rejects %j", (text) => {
+      expect(parseScoreCommand(text)).toBeNull();
+    });
+  });
+});
+
+describe("parseFirstScoreCommand", () => {
+  it("returns the first phrase understood", () => {
+    expect(parseFirstScoreCommand(["heaven", "seven", "eleven"])).toEqual(
+      single(7)
+    );
+  });
+
+  it("returns null when no phrase is understood", () => {
+    expect(parseFirstScoreCommand(["heaven", "kevin"])).toBeNull();
+    expect(parseFirstScoreCommand([])).toBeNull();
+  });
+});
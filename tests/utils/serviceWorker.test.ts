@@ -0,0 +1,102 @@
+/**
+ * Unit tests for service worker registration and updates
+ *
+ * @format
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  SKIP_WAITING_MESSAGE,
+  registerServiceWorker,
+} from "../../src/utils/serviceWorker";
+
+// Just enough of the service worker API to drive an update
+class FakeWorker extends EventTarget {
+  state = "installing";
+  postMessage = vi.fn();
+
+  install() {
+    this.state = "installed";
+    this.dispatchEvent(new Event("statechange"));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+
+  findUpdate(): FakeWorker {
+    this.installing = new FakeWorker();
+    this.dispatchEvent(new Event("updatefound"));
+    return this.installing;
+  }
+}
+
+function createContainer(controlled: boolean) {
+  const registration = new FakeRegistration();
+  const container = Object.assign(new EventTarget(), {
+    controller: controlled ? {} : null,
+    register: vi.fn(async () => registration),
+  });
+  return { container, registration };
+}
+
+async function register(controlled: boolean) {
+  const { container, registration } = createContainer(controlled);
+  const onUpdateReady = vi.fn();
+  const reload = vi.fn();
+  await registerServiceWorker({
+    url: "/sw.js",
+    scope: "/",
+    onUpdateReady,
+    reload,
+    container: container as unknown as ServiceWorkerContainer,
+  });
+  return { container, registration, onUpdateReady, reload };
+}
+
+describe("registerServiceWorker", () => {
+  it("installs the first version without offering a reload", async () => {
+    const { container, registration, onUpdateReady, reload } =
+      await register(false);
+
+    expect(container.register).toHaveBeenCalledWith("/sw.js", { scope: "/" });
+    registration.findUpdate().install();
+    container.dispatchEvent(new Event("controllerchange"));
+
+    expect(onUpdateReady).not.toHaveBeenCalled();
+    expect(reload).not.toHaveBeenCalled();
+  });
+
+  it("offers a new version and reloads once it takes over", async () => {
+    const { container, registration, onUpdateReady, reload } =
+      await register(true);
+
+    const worker = registration.findUpdate();
+    worker.install();
+    expect(onUpdateReady).toHaveBeenCalledTimes(1);
+    expect(reload).not.toHaveBeenCalled();
+
+    const applyUpdate = onUpdateReady.mock.calls[0][0];
+    applyUpdate();
+    expect(worker.postMessage).toHaveBeenCalledWith(SKIP_WAITING_MESSAGE);
+
+    container.dispatchEvent(new Event("controllerchange"));
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it("offers a version that was already waiting", async () => {
+    const { container, registration } = createContainer(true);
+    registration.waiting = new FakeWorker();
+    const onUpdateReady = vi.fn();
+
+    await registerServiceWorker({
+      url: "/sw.js",
+      scope: "/",
+      onUpdateReady,
+      container: container as unknown as ServiceWorkerContainer,
+    });
+
+    expect(onUpdateReady).toHaveBeenCalledTimes(1);
+  });
+});
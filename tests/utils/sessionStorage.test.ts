@@ -10,6 +10,7 @@ import {
   StorageError,
   StorageService,
   STORAGE_KEYS,
+  CURRENT_SCHEMA_VERSION,
   sessionStorageUtil,
 } from "../../src/utils/storage";
 import {
@@ -100,6 +101,7 @@ describe("SessionStorageUtil", () => {
       expect(STORAGE_KEYS.CURRENT_GAME).toBe("molkky_current_game");
       expect(STORAGE_KEYS.GAME_HISTORY).toBe("molkky_game_history");
       expect(STORAGE_KEYS.APP_STATE).toBe("molkky_app_state");
+      expect(STORAGE_KEYS.QUARANTINE).toBe("molkky_quarantine");
     });
   });
 
@@ -258,6 +260,81 @@ describe("SessionStorageUtil", () => {
     });
   });
 
+  describe("Schema Versioning", () => {
+    it("should stamp the schema version into saved payloads", () => {
+      storageUtil.saveCurrentGame(mockGame);
+      const stored = JSON.parse(
+        mockStorage.getItem(STORAGE_KEYS.CURRENT_GAME) as string
+      );
+
+      expect(stored.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(stored.data.id).toBe("game1");
+    });
+
+    it("should migrate unversioned app state before returning it", () => {
+      mockStorage.setItem(STORAGE_KEYS.APP_STATE, JSON.stringify(mockAppState));
+      const loaded = storageUtil.loadAppState();
+
+      expect(loaded?.gameMode).toBe("individual");
+      expect(loaded?.players[0].consecutiveMisses).toBe(0);
+      expect(loaded?.players[0].eliminated).toBe(false);
+      expect(loaded?.currentGame?.throws).toEqual([]);
+      expect(loaded?.currentGame?.startTime).toBeInstanceOf(Date);
+    });
+
+    it("should migrate unversioned game history", () => {
+      mockStorage.setItem(
+        STORAGE_KEYS.GAME_HISTORY,
+        JSON.stringify([mockGame])
+      );
+      const loaded = storageUtil.loadGameHistory();
+
+      expect(loaded[0].gameMode).toBe("individual");
+      expect(loaded[0].players[0].consecutiveMisses).toBe(0);
+    });
+
+    it("should quarantine data that cannot be migrated", () => {
+      const raw = JSON.stringify({ ...mockAppState, players: "not a list" });
+      mockStorage.setItem(STORAGE_KEYS.APP_STATE, raw);
+
+      expect(storageUtil.loadAppState()).toBeNull();
+      expect(mockStorage.hasKey(STORAGE_KEYS.APP_STATE)).toBe(false);
+
+      const quarantine = storageUtil.loadQuarantine();
+      expect(quarantine).toHaveLength(1);
+      expect(quarantine[0].key).toBe(STORAGE_KEYS.APP_STATE);
+      expect(quarantine[0].raw).toBe(raw);
+      expect(quarantine[0].reason).toContain("players");
+      expect(quarantine[0].quarantinedAt).toBeInstanceOf(Date);
+    });
+
+    it("should quarantine corrupted JSON and data from newer versions", () => {
+      mockStorage.setItem(STORAGE_KEYS.CURRENT_GAME, "invalid json");
+      mockStorage.setItem(
+        STORAGE_KEYS.GAME_HISTORY,
+        JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, data: [] })
+      );
+
+      expect(storageUtil.loadCurrentGame()).toBeNull();
+      expect(storageUtil.loadGameHistory()).toEqual([]);
+      expect(storageUtil.loadQuarantine().map((entry) => entry.key)).toEqual([
+        STORAGE_KEYS.CURRENT_GAME,
+        STORAGE_KEYS.GAME_HISTORY,
+      ]);
+    });
+
+    it("should keep quarantined data when clearing all data", () => {
+      mockStorage.setItem(STORAGE_KEYS.CURRENT_GAME, "invalid json");
+      storageUtil.loadCurrentGame();
+
+      storageUtil.clearAll();
+      expect(storageUtil.loadQuarantine()).toHaveLength(1);
+
+      storageUtil.clearQuarantine();
+      expect(storageUtil.loadQuarantine()).toEqual([]);
+    });
+  });
+
   describe("Clear Operations", () => {
     it("should clear all stored data", () => {
       storageUtil.saveAppState(mockAppState);
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for sharing a game in progress by link
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SHARE_FRAGMENT_PREFIX,
+  createShareFragment,
+  isShareFragment,
+  readShareFragment,
+} from "../../src/utils/shareState";
+import {
+  createGame,
+  createPlayer,
+  createTeam,
+  getTeamThrower,
+} from "../../src/utils/gameStateUtils";
+import { createPlayerProfile } from "../../src/utils/roster";
+import { DEFAULT_RULE_SET } from "../../src/utils/rules";
+import type { AppState } from "../../src/utils/types";
+
+const EMPTY_STATE: AppState = {
+  gameState: "setup",
+  players: [],
+  teams: [],
+  currentPlayerIndex: 0,
+  currentTeamIndex: 0,
+  gameHistory: [],
+  currentGame: null,
+  gameMode: "individual",
+};
+
+function individualGame(): AppState {
+  const players = [
+    { ...createPlayer("Ann"), score: 31, consecutiveMisses: 1 },
+    { ...createPlayer("Bjørn"), score: 12, penalties: 1, handicap: 5 },
+    { ...createPlayer("Cat"), eliminated: true, consecutiveMisses: 3 },
+  ];
+  return {
+    ...EMPTY_STATE,
+    gameState: "playing",
+    players,
+    currentPlayerIndex: 1,
+    currentGame: createGame(players),
+  };
+}
+
+function teamGame(): AppState {
+  const red = {
+    ...createTeam("Red", [createPlayer("Ann"), createPlayer("Ben")]),
+    score: 20,
+    currentPlayerIndex: 1,
+  };
+  const blue = {
+    ...createTeam("Blue", [createPlayer("Cat")]),
+    score: 44,
+    consecutiveMisses: 2,
+  };
+  return {
+    ...EMPTY_STATE,
+    gameState: "playing",
+    gameMode: "team",
+    teams: [red, blue],
+    currentTeamIndex: 1,
+    currentGame: {
+      ...createGame([], "team", [red, blue]),
+      teamRotation: "independent",
+    },
+  };
+}
+
+describe("createShareFragment", () => {
+  it("only shares a game that is being played", () => {
+    expect(createShareFragment(EMPTY_STATE)).toBeNull();
+
+    const fragment = createShareFragment(individualGame())!;
+    expect(isShareFragment(fragment)).toBe(true);
+    expect(fragment.startsWith(SHARE_FRAGMENT_PREFIX)).toBe(true);
+  });
+});
+
+describe("readShareFragment", () => {
+  it("picks up an individual game where it was left", () => {
+    const original = individualGame();
+    const result = readShareFragment(
+      createShareFragment(original)!,
+      EMPTY_STATE
+    );
+
+    expect(result.success).toBe(true);
+    const state = result.state!;
+    expect(state.gameState).toBe("playing");
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(
+      state.players.map((p) => [
+        p.name,
+        p.score,
+        p.consecutiveMisses,
+        p.eliminated,
+        p.penalties,
+        p.isActive,
+      ])
+    ).toEqual([
+      ["Ann", 31, 1, false, 0, false],
+      ["Bjørn", 12, 0, false, 1, true],
+      ["Cat", 0, 3, true, 0, false],
+    ]);
+    expect(state.currentGame!.players).toEqual(state.players);
+    expect(state.currentGame!.handicaps).toEqual({ [state.players[1].id]: 5 });
+    expect(state.currentGame!.resumedFrom!.players).toEqual(state.players);
+  });
+
+  it("picks up a team game with each team's next thrower", () => {
+    const result = readShareFragment(
+      createShareFragment(teamGame())!,
+      EMPTY_STATE
+    );
+
+    const state = result.state!;
+    expect(state.gameMode).toBe("team");
+    expect(state.currentTeamIndex).toBe(1);
+    expect(
+      state.teams!.map((t) => [
+        t.name,
+        t.players.map((p) => p.name),
+        t.score,
+        t.currentPlayerIndex,
+        t.isActive,
+      ])
+    ).toEqual([
+      ["Red", ["Ann", "Ben"], 20, 1, false],
+      ["Blue", ["Cat"], 44, 0, true],
+    ]);
+    expect(state.currentGame!.teamRotation).toBe("independent");
+  });
+
+  it("picks up lockstep teams of different sizes where they were", () => {
+    // After two rounds every team is at the third position, which wraps
+    // round to the first player of the smaller team
+    const big = {
+      ...createTeam(
+        "Big",
+        ["Ann", "Ben", "Cat"].map((n) => createPlayer(n))
+      ),
+      currentPlayerIndex: 2,
+    };
+    const small = {
+      ...createTeam(
+        "Small",
+        ["Dan", "Eve"].map((n) => createPlayer(n))
+      ),
+      currentPlayerIndex: 2,
+    };
+    const state: AppState = {
+      ...EMPTY_STATE,
+      gameState: "playing",
+      gameMode: "team",
+      teams: [big, small],
+      currentGame: {
+        ...createGame([], "team", [big, small]),
+        teamRotation: "lockstep",
+      },
+    };
+
+    const result = readShareFragment(createShareFragment(state)!, EMPTY_STATE);
+
+    expect(result.success).toBe(true);
+    const teams = result.state!.teams!;
+    expect(teams.map((t) => t.currentPlayerIndex)).toEqual([2, 2]);
+    expect(teams.map((t) => getTeamThrower(t)!.name)).toEqual(["Cat", "Dan"]);
+  });
+
+  it("keeps this device's history and links players to saved profiles", () => {
+    const profile = createPlayerProfile("Ann");
+    const base = { ...EMPTY_STATE, roster: [profile] };
+
+    const state = readShareFragment(
+      createShareFragment(individualGame())!,
+      base
+    ).state!;
+
+    expect(state.roster).toEqual([profile]);
+    expect(state.players[0].profileId).toBe(profile.id);
+    expect(state.players[1].profileId).toBeUndefined();
+  });
+
+  it("refuses links that were edited", () => {
+    const fragment = createShareFragment(individualGame())!;
+    const [payload, checksum] = fragment.split(".");
+    const edited = `${payload.slice(0, -2)}AA.${checksum}`;
+
+    const result = readShareFragment(edited, EMPTY_STATE);
+
+    expect(result.success).toBe(false);
+    expect(result.state).toBeUndefined();
+    expect(result.error).toMatch(/changed|damaged/);
+  });
+
+  it("refuses links that cannot be decoded", () => {
+    const result = readShareFragment(
+      `${SHARE_FRAGMENT_PREFIX}%%%`,
+      EMPTY_STATE
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: "This game link is damaged and cannot be opened.",
+    });
+  });
+
+  it("refuses games that could not happen under their rules", () => {
+    const state = individualGame();
+    state.players[0].score = DEFAULT_RULE_SET.targetScore;
+
+    const result = readShareFragment(createShareFragment(state)!, EMPTY_STATE);
+
+    expect(result).toEqual({
+      success: false,
+      error: "The shared game has invalid scores for Ann.",
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the speech recognition wrapper
+ *
+ * @format
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  getSpeechRecognizer,
+  listenForPhrase,
+} from "../../src/utils/speechRecognition";
+import type {
+  SpeechRecognizer,
+  SpeechResultEvent,
+} from "../../src/utils/speechRecognition";
+
+// Just enough of the Web Speech API to hear one phrase
+class FakeRecognizer implements SpeechRecognizer {
+  static last: FakeRecognizer | null = null;
+  lang = "";
+  continuous = true;
+  interimResults = true;
+  maxAlternatives = 1;
+  onresult: ((event: SpeechResultEvent) => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onend: (() => void) | null = null;
+  start = vi.fn();
+  abort = vi.fn(() => {
+    this.onerror?.({ error: "aborted" });
+    this.onend?.();
+  });
+
+  constructor() {
+    FakeRecognizer.last = this;
+  }
+
+  hear(...transcripts: string[]) {
+    this.onresult?.({
+      results: [transcripts.map((transcript) => ({ transcript }))],
+    });
+    this.onend?.();
+  }
+}
+
+describe("getSpeechRecognizer", () => {
+  it("finds the standard or prefixed recognizer", () => {
+    expect(getSpeechRecognizer({ SpeechRecognition: FakeRecognizer })).toBe(
+      FakeRecognizer
+    );
+    expect(
+      getSpeechRecognizer({ webkitSpeechRecognition: FakeRecognizer })
+    ).toBe(FakeRecognizer);
+  });
+
+  it("returns null where speech is not supported", () => {
+    expect(getSpeechRecognizer({})).toBeNull();
+  });
+});
+
+describe("listenForPhrase", () => {
+  it("listens for one phrase in the given language", () => {
+    listenForPhrase(FakeRecognizer, { lang: "fi-FI", onResult: vi.fn() });
+
+    const recognizer = FakeRecognizer.last!;
+    expect(recognizer.start).toHaveBeenCalled();
+    expect(recognizer.lang).toBe("fi-FI");
+    expect(recognizer.continuous).toBe(false);
+    expect(recognizer.interimResults).toBe(false);
+    expect(recognizer.maxAlternatives).toBe(5);
+  });
+
+  it("passes on every guess for the phrase, trimmed", () => {
+    const onResult = vi.fn();
+    const onEnd = vi.fn();
+    listenForPhrase(FakeRecognizer, { lang: "en-US", onResult, onEnd });
+
+    FakeRecognizer.last!.hear(" seven", "heaven ");
+
+    expect(onResult).toHaveBeenCalledWith(["seven", "heaven"]);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports errors and stops when asked", () => {
+    const onError = vi.fn();
+    const onEnd = vi.fn();
+    const stop = listenForPhrase(FakeRecognizer, {
+      lang: "en-US",
+      onResult: vi.fn(),
+      onError,
+      onEnd,
+    });
+
+    stop();
+
+    expect(FakeRecognizer.last!.abort).toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith("aborted");
+    expect(onEnd).toHaveBeenCalled();
+  });
+});
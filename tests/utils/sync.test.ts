@@ -0,0 +1,180 @@
+/**
+ * Unit tests for live sync between devices
+ *
+ * @format
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  MemoryRelay,
+  SyncSession,
+  isLaterEntry,
+  isSyncMessage,
+} from "../../src/utils/sync";
+import type { MemoryTransport, SyncEntry } from "../../src/utils/sync";
+
+type TallyAction =
+  | { type: "add"; value: number }
+  | { type: "set"; value: number };
+
+interface Device {
+  session: SyncSession<number[], TallyAction>;
+  transport: MemoryTransport;
+}
+
+// A tally that records every action in order, so any difference shows
+function reduce(state: number[], action: TallyAction): number[] {
+  return action.type === "set" ? [action.value] : [...state, action.value];
+}
+
+function joinRoom(
+  relay: MemoryRelay,
+  initialState: number[] = [],
+  onConflict?: (lost: SyncEntry<TallyAction>) => void
+): Device {
+  const transport = relay.createTransport();
+  const session = new SyncSession<number[], TallyAction>({
+    room: "court-1",
+    clientId: `device-${Math.random()}`,
+    transport,
+    initialState,
+    reduce,
+    snapshot: (state) => ({ type: "set", value: state[0] ?? 0 }),
+    onChange: () => {},
+    onConflict,
+  });
+  return { session, transport };
+}
+
+describe("isLaterEntry", () => {
+  it("lets the later action win, breaking ties by device", () => {
+    const entry = { seq: 1, clientId: "a", timestamp: 10, action: null };
+
+    expect(isLaterEntry({ ...entry, timestamp: 11 }, entry)).toBe(true);
+    expect(isLaterEntry(entry, { ...entry, timestamp: 11 })).toBe(false);
+    expect(isLaterEntry({ ...entry, clientId: "b" }, entry)).toBe(true);
+  });
+});
+
+describe("isSyncMessage", () => {
+  it("accepts relay messages and rejects anything else", () => {
+    expect(isSyncMessage({ type: "welcome", room: "r", version: 0 })).toBe(
+      true
+    );
+    expect(
+      isSyncMessage({
+        type: "entry",
+        room: "r",
+        entry: { seq: 1, clientId: "a", timestamp: 1, action: {} },
+      })
+    ).toBe(true);
+    expect(isSyncMessage({ type: "entry", room: "r", entry: null })).toBe(
+      false
+    );
+    expect(isSyncMessage({ type: "welcome", version: 0 })).toBe(false);
+    expect(isSyncMessage("hello")).toBe(false);
+  });
+});
+
+describe("SyncSession", () => {
+  it("sets joining devices up with the first device's game", () => {
+    const relay = new MemoryRelay();
+    const first = joinRoom(relay, [7]);
+    const second = joinRoom(relay, [99]);
+
+    expect(first.session.getStatus()).toBe("connected");
+    expect(second.session.getState()).toEqual([7]);
+  });
+
+  it("keeps devices in step as they take turns", () => {
+    const relay = new MemoryRelay();
+    const first = joinRoom(relay);
+    const second = joinRoom(relay);
+
+    first.session.submit({ type: "add", value: 3 });
+    second.session.submit({ type: "add", value: 5 });
+    first.session.submit({ type: "add", value: 8 });
+
+    expect(first.session.getState()).toEqual([0, 3, 5, 8]);
+    expect(second.session.getState()).toEqual(first.session.getState());
+    expect(relay.getEntries("court-1").map((e) => e.seq)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("replays what was missed and shares what was done offline on reconnect", () => {
+    const relay = new MemoryRelay();
+    const first = joinRoom(relay);
+    const second = joinRoom(relay);
+
+    second.transport.disconnect();
+    expect(second.session.getStatus()).toBe("offline");
+
+    first.session.submit({ type: "add", value: 4 });
+    first.session.submit({ type: "add", value: 6 });
+    expect(second.session.getState()).toEqual([0]);
+
+    second.transport.reconnect();
+    expect(second.session.getState()).toEqual([0, 4, 6]);
+
+    first.transport.disconnect();
+    first.session.submit({ type: "add", value: 2 });
+    first.transport.reconnect();
+
+    expect(second.session.getState()).toEqual([0, 4, 6, 2]);
+    expect(first.session.getState()).toEqual(second.session.getState());
+  });
+
+  it("lets the last action win when two devices take the same turn", () => {
+    vi.useFakeTimers();
+    try {
+      const relay = new MemoryRelay();
+      const lost = vi.fn();
+      const first = joinRoom(relay, [], lost);
+      const second = joinRoom(relay);
+
+      first.transport.disconnect();
+      second.transport.disconnect();
+
+      vi.setSystemTime(1000);
+      first.session.submit({ type: "add", value: 10 });
+      vi.setSystemTime(2000);
+      second.session.submit({ type: "add", value: 20 });
+
+      first.transport.reconnect();
+      second.transport.reconnect();
+
+      expect(first.session.getState()).toEqual([0, 20]);
+      expect(second.session.getState()).toEqual([0, 20]);
+      expect(lost).toHaveBeenCalledWith(
+        expect.objectContaining({ seq: 2, action: { type: "add", value: 10 } })
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("does not share actions that only concern this device", () => {
+    const relay = new MemoryRelay();
+    const first = joinRoom(relay);
+    const second = joinRoom(relay);
+
+    second.transport.disconnect();
+    second.session.applyLocal({ type: "add", value: 1 });
+    first.session.submit({ type: "add", value: 2 });
+    second.transport.reconnect();
+
+    expect(second.session.getState()).toEqual([0, 1, 2]);
+    expect(first.session.getState()).toEqual([0, 2]);
+  });
+
+  it("stops following the room once closed", () => {
+    const relay = new MemoryRelay();
+    const first = joinRoom(relay);
+    const second = joinRoom(relay);
+
+    second.session.close();
+    first.session.submit({ type: "add", value: 9 });
+
+    expect(second.session.getStatus()).toBe("closed");
+    expect(second.session.getState()).toEqual([0]);
+  });
+});
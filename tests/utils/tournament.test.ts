@@ -0,0 +1,190 @@
+/**
+ * Unit tests for single-elimination tournament brackets
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getBracketSize,
+  getRoundCount,
+  getSeedOrder,
+  getRoundName,
+  createTournament,
+  recordMatchResult,
+  assignMatchGame,
+  getNextPendingMatch,
+  getTournamentProgress,
+  getMatchParticipants,
+  createMatchGame,
+  getGameWinnerId,
+} from "../../src/utils/tournament";
+import { createPlayer, completeGame } from "../../src/utils/gameStateUtils";
+import { RULE_SET_PRESETS } from "../../src/utils/rules";
+import type { Tournament } from "../../src/utils/types";
+
+function entrants(count: number) {
+  return Array.from({ length: count }, (_, index) => {
+    const player = {
+      ...createPlayer(`Player ${index + 1}`),
+      id: `p${index + 1}`,
+    };
+    return { id: player.id, name: player.name, players: [player] };
+  });
+}
+
+function firstRound(tournament: Tournament) {
+  return tournament.matches
+    .filter((m) => m.round === 1)
+    .sort((a, b) => a.position - b.position);
+}
+
+describe("bracket sizing and seeding", () => {
+  it("rounds the field up to a power of two", () => {
+    expect(getBracketSize(2)).toBe(2);
+    expect(getBracketSize(3)).toBe(4);
+    expect(getBracketSize(8)).toBe(8);
+    expect(getBracketSize(9)).toBe(16);
+    expect(getRoundCount(5)).toBe(3);
+  });
+
+  it("keeps top seeds apart until the late rounds", () => {
+    expect(getSeedOrder(2)).toEqual([1, 2]);
+    expect(getSeedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it("names the final rounds", () => {
+    expect(getRoundName(4, 4)).toBe("Final");
+    expect(getRoundName(3, 4)).toBe("Semi-finals");
+    expect(getRoundName(2, 4)).toBe("Quarter-finals");
+    expect(getRoundName(1, 4)).toBe("Round 1");
+  });
+});
+
+describe("createTournament", () => {
+  it("creates every match of the bracket", () => {
+    const tournament = createTournament("Monthly", entrants(8));
+
+    expect(tournament.matches).toHaveLength(7);
+    expect(tournament.entrants.map((e) => e.seed)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8,
+    ]);
+    expect(firstRound(tournament)[0].entrantIds).toEqual(["p1", "p8"]);
+    expect(tournament.winnerId).toBeNull();
+  });
+
+  it("gives byes to top seeds when the field is not a power of two", () => {
+    const tournament = createTournament("Monthly", entrants(5));
+    const round1 = firstRound(tournament);
+
+    expect(round1.filter((m) => m.isBye)).toHaveLength(3);
+    expect(round1[0]).toMatchObject({
+      entrantIds: ["p1", null],
+      winnerId: "p1",
+      isBye: true,
+    });
+    // Only seeds 4 and 5 have to play in the first round
+    expect(getNextPendingMatch(tournament)!.entrantIds).toEqual(["p4", "p5"]);
+
+    // Seeds 2 and 3 already meet in the second round
+    const round2 = tournament.matches.filter((m) => m.round === 2);
+    expect(round2[1].entrantIds).toEqual(["p2", "p3"]);
+  });
+
+  it("uses the given rules for every match", () => {
+    const tournament = createTournament(
+      "Quick",
+      entrants(2),
+      "individual",
+      RULE_SET_PRESETS[1]
+    );
+    const match = tournament.matches[0];
+    const game = createMatchGame(
+      tournament,
+      match,
+      getMatchParticipants(tournament, match)
+    );
+
+    expect(game.rules).toEqual(RULE_SET_PRESETS[1]);
+    expect(game.tournamentId).toBe(tournament.id);
+    expect(game.tournamentMatchId).toBe(match.id);
+    expect(game.players.map((p) => p.id)).toEqual(["p1", "p2"]);
+  });
+});
+
+describe("recordMatchResult", () => {
+  it("advances the winner into the next round", () => {
+    let tournament = createTournament("Monthly", entrants(4));
+    const [semi1, semi2] = firstRound(tournament);
+
+    tournament = recordMatchResult(tournament, semi1.id, "p4");
+    tournament = recordMatchResult(tournament, semi2.id, "p2");
+
+    const final = tournament.matches.find((m) => m.round === 2)!;
+    expect(final.entrantIds).toEqual(["p4", "p2"]);
+    expect(getNextPendingMatch(tournament)!.id).toBe(final.id);
+    expect(getTournamentProgress(tournament)).toEqual({ played: 2, total: 3 });
+  });
+
+  it("crowns the winner of the final", () => {
+    let tournament = createTournament("Monthly", entrants(2));
+    tournament = recordMatchResult(tournament, tournament.matches[0].id, "p2");
+
+    expect(tournament.winnerId).toBe("p2");
+    expect(tournament.endTime).toBeInstanceOf(Date);
+    expect(getNextPendingMatch(tournament)).toBeNull();
+  });
+
+  it("ignores winners who are not in the match", () => {
+    const tournament = createTournament("Monthly", entrants(4));
+    const [semi1] = firstRound(tournament);
+
+    expect(recordMatchResult(tournament, semi1.id, "p2")).toBe(tournament);
+  });
+
+  it("withdraws a result until the next match has started", () => {
+    let tournament = createTournament("Monthly", entrants(4));
+    const [semi1, semi2] = firstRound(tournament);
+    tournament = recordMatchResult(tournament, semi1.id, "p1");
+
+    const cleared = recordMatchResult(tournament, semi1.id, null);
+    expect(cleared.matches.find((m) => m.round === 2)!.entrantIds).toEqual([
+      null,
+      null,
+    ]);
+
+    tournament = recordMatchResult(tournament, semi2.id, "p3");
+    const final = tournament.matches.find((m) => m.round === 2)!;
+    tournament = assignMatchGame(tournament, final.id, "game-final");
+    expect(recordMatchResult(tournament, semi1.id, null)).toBe(tournament);
+  });
+});
+
+describe("team tournaments", () => {
+  it("builds teams for a match from the entrants", () => {
+    const tournament = createTournament(
+      "Teams",
+      [
+        {
+          id: "t1",
+          name: "Pins",
+          players: [createPlayer("A"), createPlayer("B")],
+        },
+        { id: "t2", name: "Sticks", players: [createPlayer("C")] },
+      ],
+      "team"
+    );
+    const match = tournament.matches[0];
+    const { players, teams } = getMatchParticipants(tournament, match);
+
+    expect(players).toEqual([]);
+    expect(teams.map((t) => t.name)).toEqual(["Pins", "Sticks"]);
+    expect(teams[0].players.every((p) => p.teamId === "t1")).toBe(true);
+
+    const game = createMatchGame(tournament, match, { players, teams });
+    const finished = completeGame(game, null, teams[1]);
+    expect(getGameWinnerId(game)).toBeNull();
+    expect(getGameWinnerId(finished)).toBe("t2");
+  });
+});
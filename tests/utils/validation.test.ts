@@ -13,7 +13,12 @@ import {
   validateMinimumPlayers,
   validateGameStateTransition,
   validateStorageData,
+  validateRuleSet,
+  validateHandicap,
+  validateHistoryImport,
+  validateSharedState,
 } from "../../src/utils/validation";
+import { DEFAULT_RULE_SET } from "../../src/utils/rules";
 import type { Player } from "../../src/utils/types";
 
 describe("Validation Utilities", () => {
@@ -271,4 +276,171 @@ describe("Validation Utilities", () => {
       expect(result.error).toBe("Data cannot be serialized to JSON. Please check the data structure.");
     });
   });
+
+  describe("validateRuleSet", () => {
+    it("should accept the standard rules", () => {
+      expect(validateRuleSet(DEFAULT_RULE_SET).isValid).toBe(true);
+    });
+
+    it("should accept rules with elimination turned off", () => {
+      const result = validateRuleSet({ ...DEFAULT_RULE_SET, eliminationMisses: null });
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject a reset score at or above the target", () => {
+      const result = validateRuleSet({ ...DEFAULT_RULE_SET, targetScore: 40, resetScore: 40 });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("Reset score must be a whole number below the target score.");
+    });
+
+    it("should reject non-integer or out-of-range values", () => {
+      expect(validateRuleSet({ ...DEFAULT_RULE_SET, targetScore: NaN }).isValid).toBe(false);
+      expect(validateRuleSet({ ...DEFAULT_RULE_SET, eliminationMisses: 0 }).isValid).toBe(false);
+      expect(validateRuleSet({ ...DEFAULT_RULE_SET, outOfTurnThreshold: 60 }).isValid).toBe(false);
+    });
+  });
+
+  describe("validateHandicap", () => {
+    it("should accept starting scores below the target", () => {
+      expect(validateHandicap(0, DEFAULT_RULE_SET).isValid).toBe(true);
+      expect(validateHandicap(49, DEFAULT_RULE_SET).isValid).toBe(true);
+    });
+
+    it("should reject starting at or above the target", () => {
+      const result = validateHandicap(40, { ...DEFAULT_RULE_SET, targetScore: 40 });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("Starting score must be a whole number from 0 to 39.");
+    });
+
+    it("should reject negative or fractional starting scores", () => {
+      expect(validateHandicap(-1, DEFAULT_RULE_SET).isValid).toBe(false);
+      expect(validateHandicap(2.5, DEFAULT_RULE_SET).isValid).toBe(false);
+    });
+  });
+
+  describe("validateHistoryImport", () => {
+    const validGame = {
+      id: "game1",
+      players: [{ id: "p1", name: "Alice" }],
+      startTime: "2024-01-01T10:00:00.000Z",
+    };
+
+    it("should validate an exported history document", () => {
+      const result = validateHistoryImport({
+        exportDate: "2024-01-02T10:00:00.000Z",
+        games: [validGame],
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.error).toBeUndefined();
+    });
+
+    it("should accept an export with no games", () => {
+      expect(validateHistoryImport({ games: [] }).isValid).toBe(true);
+    });
+
+    it("should reject documents that are not objects", () => {
+      [null, "games", [validGame]].forEach((data) => {
+        const result = validateHistoryImport(data);
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe("Import file is not a game history export.");
+      });
+    });
+
+    it("should reject documents without a games list", () => {
+      const result = validateHistoryImport({ games: "none" });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("Import file does not contain a list of games.");
+    });
+
+    it("should report which game is invalid", () => {
+      expect(validateHistoryImport({ games: [validGame, null] }).error).toBe(
+        "Game 2 is not valid."
+      );
+      expect(
+        validateHistoryImport({ games: [{ ...validGame, id: " " }] }).error
+      ).toBe("Game 1 is missing an id.");
+      expect(
+        validateHistoryImport({ games: [{ ...validGame, players: [] }] }).error
+      ).toBe("Game 1 has no players.");
+      expect(
+        validateHistoryImport({ games: [{ ...validGame, startTime: "later" }] })
+          .error
+      ).toBe("Game 1 has an invalid start time.");
+    });
+
+    it("should accept team games, whose players are in their teams", () => {
+      const teamGame = {
+        ...validGame,
+        gameMode: "team",
+        players: [],
+        teams: [
+          { id: "t1", name: "Red", players: [{ id: "p1", name: "Alice" }] },
+          { id: "t2", name: "Blue", players: [{ id: "p2", name: "Bob" }] },
+        ],
+      };
+      expect(validateHistoryImport({ games: [teamGame] }).isValid).toBe(true);
+      expect(
+        validateHistoryImport({ games: [{ ...teamGame, teams: [] }] }).error
+      ).toBe("Game 1 has no players.");
+      expect(
+        validateHistoryImport({
+          games: [
+            {
+              ...teamGame,
+              teams: [teamGame.teams[0], { id: "t2", name: "Blue", players: [] }],
+            },
+          ],
+        }).error
+      ).toBe("Game 1 has a team with no players.");
+    });
+  });
+
+  describe("validateSharedState", () => {
+    const shared = {
+      v: 1,
+      m: "team",
+      r: ["Standard", 50, 25, 3, 40],
+      p: [["Ann", 0, 0, 0, 0, 0], ["Ben", 0, 0, 0, 0, 0]],
+      t: [["Red", [0], 12, 0, 0, 0, 0, 0], ["Blue", [1], 30, 1, 0, 0, 0, 0]],
+      c: 0,
+      ct: 1,
+      tr: "lockstep",
+    };
+
+    it("should accept a game that could be played", () => {
+      expect(validateSharedState(shared).isValid).toBe(true);
+    });
+
+    it("should reject a player in two teams", () => {
+      const result = validateSharedState({
+        ...shared,
+        t: [shared.t[0], ["Blue", [0], 30, 1, 0, 0, 0, 0]],
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("The shared game has invalid players in team Blue.");
+    });
+
+    it("should accept a thrower position past the end of a smaller team", () => {
+      const result = validateSharedState({
+        ...shared,
+        t: [shared.t[0], ["Blue", [1], 30, 1, 0, 0, 1, 0]],
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject a thrower position that is not a count", () => {
+      const result = validateSharedState({
+        ...shared,
+        t: [shared.t[0], ["Blue", [1], 30, 1, 0, 0, -1, 0]],
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("The shared game has invalid scores for team Blue.");
+    });
+
+    it("should reject a turn that belongs to nobody", () => {
+      const result = validateSharedState({ ...shared, ct: 2 });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("The shared game does not say whose turn it is.");
+    });
+  });
 });
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for win probability estimation
+ *
+ * @format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildThrowModel,
+  createRandom,
+  estimateGameWinProbabilities,
+  estimateWinProbabilities,
+  getPlayerDistribution,
+  getSimulationState,
+  getWinProbabilitySwings,
+  simulateWinner,
+} from "../../src/utils/winProbability";
+import type { SimulationState } from "../../src/utils/winProbability";
+import {
+  createGame,
+  createPlayer,
+  createThrowEvent,
+} from "../../src/utils/gameStateUtils";
+import { DEFAULT_RULE_SET } from "../../src/utils/rules";
+import type { AppState, Game, Player } from "../../src/utils/types";
+
+// Throws exactly the given score every time
+function always(score: number): number[] {
+  return Array.from({ length: 13 }, (_, s) => (s === score ? 1 : 0));
+}
+
+function side(
+  id: string,
+  score: number,
+  distribution: number[]
+): SimulationState["sides"][number] {
+  return {
+    id,
+    score,
+    consecutiveMisses: 0,
+    eliminated: false,
+    throwers: [distribution],
+    nextThrower: 0,
+  };
+}
+
+function gameWithScores(player: Player, scores: number[]): Game {
+  return {
+    ...createGame([player]),
+    throws: scores.map((score) =>
+      createThrowEvent({
+        type: "score",
+        playerId: player.id,
+        playerName: player.name,
+        score,
+        resultingScore: score,
+        scoreReset: false,
+        eliminated: false,
+      })
+    ),
+  };
+}
+
+describe("buildThrowModel", () => {
+  it("counts each player's scores and pools them", () => {
+    const ann = createPlayer("Ann");
+    const model = buildThrowModel([gameWithScores(ann, [0, 0, 12, 6])]);
+
+    expect(model.counts["name:Ann"][0]).toBe(2);
+    expect(model.counts["name:Ann"][12]).toBe(1);
+    expect(model.pooled[0]).toBe(0.5);
+  });
+
+  it("falls back to a default spread with no history", () => {
+    const model = buildThrowModel([]);
+    const total = model.pooled.reduce((sum, p) => sum + p, 0);
+
+    expect(total).toBeCloseTo(1);
+    expect(model.counts).toEqual({});
+  });
+});
+
+describe("getPlayerDistribution", () => {
+  it("leans towards the player's own throws as they build up", () => {
+    const ann = createPlayer("Ann");
+    const ben = createPlayer("Ben");
+    const model = buildThrowModel([
+      gameWithScores(ann, new Array(40).fill(0)),
+      gameWithScores(ben, new Array(40).fill(6)),
+    ]);
+
+    const annDistribution = getPlayerDistribution(model, ann);
+    expect(annDistribution[0]).toBeGreaterThan(0.8);
+    expect(annDistribution.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+    expect(getPlayerDistribution(model, createPlayer("Cid"))).toEqual(
+      model.pooled
+    );
+  });
+});
+
+describe("simulateWinner", () => {
+  it("plays the rules: exact target wins, misses eliminate", () => {
+    const random = createRandom(1);
+
+    expect(
+      simulateWinner(
+        {
+          sides: [side("a", 38, always(12)), side("b", 0, always(1))],
+          currentIndex: 0,
+          rules: DEFAULT_RULE_SET,
+        },
+        random
+      )
+    ).toBe("a");
+
+    expect(
+      simulateWinner(
+        {
+          sides: [side("a", 49, always(0)), side("b", 0, always(1))],
+          currentIndex: 0,
+          rules: DEFAULT_RULE_SET,
+        },
+        random
+      )
+    ).toBe("b");
+  });
+});
+
+describe("estimateWinProbabilities", () => {
+  it("favours the side closer to the target and is repeatable with a seed", () => {
+    const start: SimulationState = {
+      sides: [side("a", 45, always(5)), side("b", 0, always(5))],
+      currentIndex: 1,
+      rules: DEFAULT_RULE_SET,
+    };
+
+    const first = estimateWinProbabilities(start, 200, createRandom(7));
+    expect(first.a).toBe(1);
+    expect(first.b).toBe(0);
+    expect(estimateWinProbabilities(start, 200, createRandom(7))).toEqual(
+      first
+    );
+  });
+});
+
+describe("estimateGameWinProbabilities", () => {
+  it("estimates the game in progress by player ID", () => {
+    const players = [
+      { ...createPlayer("Ann"), score: 44 },
+      createPlayer("Ben"),
+    ];
+    const state: AppState = {
+      players,
+      currentGame: createGame(players),
+      gameHistory: [],
+      currentPlayerIndex: 0,
+      gameState: "playing",
+      gameMode: "individual",
+    };
+
+    expect(getSimulationState(state, buildThrowModel([]))!.sides).toHaveLength(
+      2
+    );
+    const probabilities = estimateGameWinProbabilities(state, 300)!;
+    expect(probabilities[players[0].id]).toBeGreaterThan(
+      probabilities[players[1].id]
+    );
+  });
+
+  it("gives the winner of a finished game certainty", () => {
+    const players = [createPlayer("Ann"), createPlayer("Ben")];
+    const state: AppState = {
+      players,
+      currentGame: { ...createGame(players), winner: players[1] },
+      gameHistory: [],
+      currentPlayerIndex: 0,
+      gameState: "finished",
+      gameMode: "individual",
+    };
+
+    expect(estimateGameWinProbabilities(state)).toEqual({
+      [players[0].id]: 0,
+      [players[1].id]: 1,
+    });
+  });
+});
+
+describe("getWinProbabilitySwings", () => {
+  it("lists throws that recorded a swing", () => {
+    const ann = createPlayer("Ann");
+    const game = gameWithScores(ann, [3, 4]);
+    game.throws![1] = { ...game.throws![1], winProbabilitySwing: 0.25 };
+
+    expect(getWinProbabilitySwings(game)).toEqual([
+      { event: game.throws![1], swing: 0.25 },
+    ]);
+  });
+});
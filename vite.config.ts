@@ -1,11 +1,57 @@
 /** @format */
 
+import { createHash } from "crypto";
+import { readFileSync, readdirSync } from "fs";
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
 import preact from "@preact/preset-vite";
 
+/**
+ * Emits the service worker (src/sw.js) with the list of files to precache:
+ * everything in the build output and the public directory
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: "molkky-service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const files = [
+        ...new Set([
+          "index.html",
+          ...Object.keys(bundle),
+          ...readdirSync("public"),
+        ]),
+      ].sort();
+      const worker = readFileSync("src/sw.js", "utf-8");
+
+      // Public files keep their names when edited, so the cache is versioned
+      // by what every file contains, the worker included
+      const hash = createHash("sha256").update(worker);
+      for (const file of files) {
+        const output = bundle[file];
+        const contents = output
+          ? output.type === "chunk"
+            ? output.code
+            : output.source
+          : file === "index.html"
+            ? "" // Emitted after this plugin runs; it only links the files above
+            : readFileSync(`public/${file}`);
+        hash.update(file).update("\0").update(contents).update("\0");
+      }
+      const version = hash.digest("hex").slice(0, 12);
+
+      const source = worker.replace(
+        "self.__PRECACHE_MANIFEST",
+        JSON.stringify({ version, files })
+      );
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [preact()],
+  plugins: [preact(), serviceWorker()],
   base: process.env.NODE_ENV === "production" ? "/moelkky/" : "/",
   build: {
     outDir: "dist",